@@ -16,11 +16,15 @@ import PoliciesPage from "@/pages/policies-page";
 import UsersPage from "@/pages/users-page";
 import ReportsPage from "@/pages/reports-page";
 import SettingsPage from "@/pages/settings-page";
+import ChangePasswordPage from "@/pages/change-password-page";
+import TwoFactorSetupPage from "@/pages/two-factor-setup-page";
 
 function Router() {
   return (
     <Switch>
       <Route path="/auth" component={AuthPage} />
+      <Route path="/change-password" component={ChangePasswordPage} />
+      <Route path="/two-factor-setup" component={TwoFactorSetupPage} />
       <ProtectedRoute path="/" component={HomePage} />
       <ProtectedRoute path="/dashboard" component={DashboardPage} />
       <ProtectedRoute path="/documents" component={DocumentsPage} />
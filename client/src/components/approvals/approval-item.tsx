@@ -20,6 +20,9 @@ import {
 import { useState } from "react";
 import { Approval, Document, User } from "@shared/schema";
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useDepartments } from "@/hooks/use-departments";
+import { useDocumentCategories } from "@/hooks/use-document-categories";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
@@ -40,6 +43,9 @@ export function ApprovalItem({ approval, onViewDocument }: ApprovalItemProps) {
   
   const { toast } = useToast();
   const { user } = useAuth();
+  const { can } = usePermissions();
+  const { departmentName } = useDepartments();
+  const { categoryName } = useDocumentCategories();
   
   const formattedDate = new Date(approval.createdAt).toLocaleDateString();
   const formattedTime = new Date(approval.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
@@ -112,7 +118,7 @@ export function ApprovalItem({ approval, onViewDocument }: ApprovalItemProps) {
   };
   
   // Determine if user can approve this document
-  const canApprove = ["admin", "manager", "coordinator"].includes(user?.role || "");
+  const canApprove = can("approval.decide");
   
   return (
     <>
@@ -134,12 +140,7 @@ export function ApprovalItem({ approval, onViewDocument }: ApprovalItemProps) {
             </span>
           </div>
           <div className="text-xs text-neutral-500 mt-1">
-            {approval.document.category === "process" ? "Proceso Operativo" :
-             approval.document.category === "policy" ? "Política" :
-             approval.document.category === "instruction" ? "Instructivo" :
-             approval.document.category === "procedure" ? "Procedimiento" :
-             approval.document.category === "manual" ? "Manual" :
-             "Documento"} - {approval.document.department}
+            {categoryName(approval.document.category) || "Documento"} - {departmentName(approval.document.department)}
           </div>
         </CardHeader>
         <CardContent className="pb-2">
@@ -152,7 +153,7 @@ export function ApprovalItem({ approval, onViewDocument }: ApprovalItemProps) {
                  approval.documentCreator?.role === "operator" ? "Operador" :
                  approval.documentCreator?.role === "manager" ? "Manager" :
                  approval.documentCreator?.role === "coordinator" ? "Coordinador" :
-                 "Usuario"} de {approval.documentCreator?.department || ""}
+                 "Usuario"} de {departmentName(approval.documentCreator?.department)}
               </p>
             </div>
             <div>
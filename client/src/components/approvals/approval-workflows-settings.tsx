@@ -0,0 +1,380 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { ApprovalWorkflow, ApprovalStage } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Pencil, Plus, Trash2, ArrowRight, Loader2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useDepartments } from "@/hooks/use-departments";
+import { useDocumentCategories } from "@/hooks/use-document-categories";
+
+const roleOptions: { value: ApprovalStage["roles"][number]; label: string }[] = [
+  { value: "coordinator", label: "Coordinador" },
+  { value: "manager", label: "Manager" },
+  { value: "admin", label: "Administrador" },
+];
+
+type WorkflowFormState = {
+  name: string;
+  category: string;
+  department: string;
+  active: boolean;
+  stages: ApprovalStage[];
+};
+
+const emptyStage: ApprovalStage = { name: "", roles: ["coordinator"], department: "document" };
+
+const emptyForm: WorkflowFormState = {
+  name: "",
+  category: "all",
+  department: "all",
+  active: true,
+  stages: [{ ...emptyStage }],
+};
+
+export function ApprovalWorkflowsSettings() {
+  const { toast } = useToast();
+  const { activeDepartments, departmentName } = useDepartments();
+  const { activeCategories, categoryName } = useDocumentCategories();
+  const [showDialog, setShowDialog] = useState(false);
+  const [editingWorkflow, setEditingWorkflow] = useState<ApprovalWorkflow | null>(null);
+  const [form, setForm] = useState<WorkflowFormState>(emptyForm);
+
+  const { data: workflows, isLoading } = useQuery<ApprovalWorkflow[]>({
+    queryKey: ["/api/approval-workflows"],
+  });
+
+  const saveWorkflowMutation = useMutation({
+    mutationFn: async (data: WorkflowFormState) => {
+      const payload = {
+        name: data.name,
+        category: data.category === "all" ? null : data.category,
+        department: data.department === "all" ? null : data.department,
+        active: data.active,
+        stages: data.stages,
+      };
+      const response = editingWorkflow
+        ? await apiRequest("PUT", `/api/approval-workflows/${editingWorkflow.id}`, payload)
+        : await apiRequest("POST", "/api/approval-workflows", payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/approval-workflows"] });
+      toast({
+        title: "Flujo guardado",
+        description: "El flujo de aprobación se ha guardado correctamente.",
+      });
+      setShowDialog(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error al guardar flujo",
+        description: error instanceof Error ? error.message : "Error al guardar el flujo de aprobación",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteWorkflowMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/approval-workflows/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/approval-workflows"] });
+      toast({
+        title: "Flujo eliminado",
+        description: "El flujo de aprobación se ha eliminado.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error al eliminar flujo",
+        description: error instanceof Error ? error.message : "Error al eliminar el flujo de aprobación",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openNewDialog = () => {
+    setEditingWorkflow(null);
+    setForm({ ...emptyForm, stages: [{ ...emptyStage }] });
+    setShowDialog(true);
+  };
+
+  const openEditDialog = (workflow: ApprovalWorkflow) => {
+    setEditingWorkflow(workflow);
+    setForm({
+      name: workflow.name,
+      category: workflow.category || "all",
+      department: workflow.department || "all",
+      active: workflow.active,
+      stages: workflow.stages.map((stage) => ({ ...stage })),
+    });
+    setShowDialog(true);
+  };
+
+  const updateStage = (index: number, update: Partial<ApprovalStage>) => {
+    setForm((current) => ({
+      ...current,
+      stages: current.stages.map((stage, i) => (i === index ? { ...stage, ...update } : stage)),
+    }));
+  };
+
+  const toggleStageRole = (index: number, role: ApprovalStage["roles"][number], checked: boolean) => {
+    const stage = form.stages[index];
+    const roles = checked ? [...stage.roles, role] : stage.roles.filter((r) => r !== role);
+    updateStage(index, { roles });
+  };
+
+  const handleSave = () => {
+    if (!form.name || form.stages.some((stage) => !stage.name || stage.roles.length === 0)) {
+      toast({
+        title: "Error",
+        description: "Complete el nombre del flujo y de cada etapa, con al menos un rol aprobador",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveWorkflowMutation.mutate(form);
+  };
+
+  const getCategoryLabel = (category: string | null) =>
+    category ? categoryName(category) : "Todas las categorías";
+
+  const getDepartmentLabel = (department: string | null) => {
+    if (department === "document") return "Depto. del documento";
+    return department ? departmentName(department) : "Cualquier departamento";
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>Rutas de aprobación</Label>
+          <p className="text-sm text-muted-foreground">
+            Etapas secuenciales por categoría y departamento. La etapa siguiente se abre al completarse la anterior.
+          </p>
+        </div>
+        <Button type="button" variant="outline" size="sm" onClick={openNewDialog}>
+          <Plus className="h-4 w-4 mr-1" />
+          Nuevo flujo
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        </div>
+      ) : workflows && workflows.length > 0 ? (
+        <div className="space-y-2">
+          {workflows.map((workflow) => (
+            <div key={workflow.id} className="border rounded-md p-3 flex items-start justify-between">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium">{workflow.name}</span>
+                  {!workflow.active && <Badge variant="secondary">Inactivo</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {getCategoryLabel(workflow.category)} • {getDepartmentLabel(workflow.department)}
+                </p>
+                <div className="flex flex-wrap items-center gap-1 text-xs">
+                  {workflow.stages.map((stage, index) => (
+                    <span key={index} className="flex items-center">
+                      {index > 0 && <ArrowRight className="h-3 w-3 mx-1 text-muted-foreground" />}
+                      <Badge variant="outline">{index + 1}. {stage.name}</Badge>
+                    </span>
+                  ))}
+                </div>
+              </div>
+              <div className="flex space-x-1">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => openEditDialog(workflow)}
+                  title="Editar flujo"
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteWorkflowMutation.mutate(workflow.id)}
+                  disabled={deleteWorkflowMutation.isPending}
+                  title="Eliminar flujo"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground border rounded-md p-3">
+          No hay flujos configurados. Los documentos requieren la aprobación de todos los managers y coordinadores.
+        </p>
+      )}
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingWorkflow ? "Editar flujo de aprobación" : "Nuevo flujo de aprobación"}</DialogTitle>
+            <DialogDescription>
+              Defina a qué documentos aplica el flujo y las etapas de aprobación en orden.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="grid gap-2">
+              <Label htmlFor="workflow-name">Nombre <span className="text-destructive">*</span></Label>
+              <Input
+                id="workflow-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Ej. Procedimientos de Calidad"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label>Categoría</Label>
+                <Select value={form.category} onValueChange={(value) => setForm({ ...form, category: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Categoría" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todas las categorías</SelectItem>
+                    {activeCategories.map((category) => (
+                      <SelectItem key={category.code} value={category.code}>{category.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label>Departamento</Label>
+                <Select value={form.department} onValueChange={(value) => setForm({ ...form, department: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Departamento" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todos los departamentos</SelectItem>
+                    {activeDepartments.map((department) => (
+                      <SelectItem key={department.code} value={department.code}>{department.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="workflow-active">Flujo activo</Label>
+              <Switch
+                id="workflow-active"
+                checked={form.active}
+                onCheckedChange={(checked) => setForm({ ...form, active: checked })}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <Label>Etapas</Label>
+              {form.stages.map((stage, index) => (
+                <div key={index} className="border rounded-md p-3 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium w-6">{index + 1}.</span>
+                    <Input
+                      value={stage.name}
+                      onChange={(e) => updateStage(index, { name: e.target.value })}
+                      placeholder="Nombre de la etapa"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      disabled={form.stages.length === 1}
+                      onClick={() => setForm({ ...form, stages: form.stages.filter((_, i) => i !== index) })}
+                      title="Eliminar etapa"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="flex flex-wrap gap-4 pl-8">
+                    {roleOptions.map((role) => (
+                      <label key={role.value} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={stage.roles.includes(role.value)}
+                          onCheckedChange={(checked) => toggleStageRole(index, role.value, checked === true)}
+                        />
+                        {role.label}
+                      </label>
+                    ))}
+                  </div>
+                  <div className="pl-8">
+                    <Select
+                      value={stage.department ?? "any"}
+                      onValueChange={(value) => updateStage(index, { department: value === "any" ? null : value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Departamento del aprobador" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="document">Mismo departamento del documento</SelectItem>
+                        <SelectItem value="any">Cualquier departamento</SelectItem>
+                        {activeDepartments.map((department) => (
+                          <SelectItem key={department.code} value={department.code}>{department.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setForm({ ...form, stages: [...form.stages, { ...emptyStage }] })}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Añadir etapa
+              </Button>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setShowDialog(false)}
+              disabled={saveWorkflowMutation.isPending}
+            >
+              Cancelar
+            </Button>
+            <Button type="button" onClick={handleSave} disabled={saveWorkflowMutation.isPending}>
+              {saveWorkflowMutation.isPending ? "Guardando..." : "Guardar flujo"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { UserSession } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Loader2, LogOut, Monitor, Smartphone } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+// Short "Chrome en Windows" style label; the full user agent is shown on hover
+function describeUserAgent(userAgent: string | null) {
+  if (!userAgent) return "Dispositivo desconocido";
+
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /OPR\//.test(userAgent) ? "Opera" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    "Navegador";
+  const system =
+    /Windows/.test(userAgent) ? "Windows" :
+    /Android/.test(userAgent) ? "Android" :
+    /iPhone|iPad/.test(userAgent) ? "iOS" :
+    /Mac OS X/.test(userAgent) ? "macOS" :
+    /Linux/.test(userAgent) ? "Linux" :
+    null;
+
+  return system ? `${browser} en ${system}` : browser;
+}
+
+const isMobile = (userAgent: string | null) => !!userAgent && /Mobile|Android|iPhone|iPad/.test(userAgent);
+
+const formatDate = (date: Date | string | null) => (date ? new Date(date).toLocaleString() : "—");
+
+interface ActiveSessionsProps {
+  // Sessions of another user, as seen by an administrator; defaults to the signed-in user
+  userId?: number;
+}
+
+export function ActiveSessions({ userId }: ActiveSessionsProps) {
+  const { toast } = useToast();
+  const endpoint = userId ? `/api/users/${userId}/sessions` : "/api/user/sessions";
+
+  const { data: sessions, isLoading } = useQuery<UserSession[]>({
+    queryKey: [endpoint],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const revokeSessionMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/user/sessions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [endpoint] });
+      toast({ title: "Sesión cerrada", description: "El dispositivo deberá iniciar sesión de nuevo" });
+    },
+    onError: onError("Error al cerrar la sesión"),
+  });
+
+  const revokeAllMutation = useMutation({
+    mutationFn: async () => {
+      if (userId) {
+        await apiRequest("POST", `/api/users/${userId}/logout`);
+      } else {
+        await apiRequest("DELETE", "/api/user/sessions");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [endpoint] });
+      toast({
+        title: "Sesiones cerradas",
+        description: userId
+          ? "El usuario deberá iniciar sesión de nuevo en todos sus dispositivos"
+          : "Se han cerrado todas las demás sesiones",
+      });
+    },
+    onError: onError("Error al cerrar las sesiones"),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const hasOtherSessions = !!sessions?.some((session) => userId || !session.current);
+
+  return (
+    <div className="space-y-4">
+      {sessions && sessions.length > 0 ? (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Dispositivo</TableHead>
+                <TableHead>IP</TableHead>
+                <TableHead>Inicio</TableHead>
+                <TableHead>Última actividad</TableHead>
+                {!userId && <TableHead className="text-right">Acciones</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sessions.map((session) => (
+                <TableRow key={session.id}>
+                  <TableCell title={session.userAgent ?? undefined}>
+                    <div className="flex items-center gap-2">
+                      {isMobile(session.userAgent) ? <Smartphone className="h-4 w-4" /> : <Monitor className="h-4 w-4" />}
+                      <span>{describeUserAgent(session.userAgent)}</span>
+                      {session.current && <Badge variant="outline">Esta sesión</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell>{session.ip ?? "—"}</TableCell>
+                  <TableCell>{formatDate(session.createdAt)}</TableCell>
+                  <TableCell>{formatDate(session.lastSeenAt)}</TableCell>
+                  {!userId && (
+                    <TableCell className="text-right">
+                      {!session.current && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Cerrar sesión"
+                          disabled={revokeSessionMutation.isPending}
+                          onClick={() => revokeSessionMutation.mutate(session.id)}
+                        >
+                          <LogOut className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground py-4 text-center">No hay sesiones activas.</p>
+      )}
+
+      <Button
+        type="button"
+        variant="outline"
+        disabled={!hasOtherSessions || revokeAllMutation.isPending}
+        onClick={() => revokeAllMutation.mutate()}
+      >
+        {revokeAllMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {userId ? "Cerrar todas las sesiones" : "Cerrar las demás sesiones"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { API_TOKEN_SCOPES, ApiTokenInfo, ApiTokenScope, CreatedApiToken } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Copy, KeyRound, Loader2, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+const scopeLabels: Record<ApiTokenScope, string> = {
+  "documents:read": "Documentos: lectura",
+  "documents:write": "Documentos: escritura",
+  "tasks:read": "Tareas: lectura",
+  "tasks:write": "Tareas: escritura",
+  "approvals:read": "Aprobaciones: lectura",
+  "approvals:write": "Aprobaciones: escritura",
+  "policies:read": "Políticas: lectura",
+  "policies:write": "Políticas: escritura",
+  "users:read": "Usuarios: lectura",
+  "activities:read": "Actividad: lectura",
+};
+
+const expirationOptions = [
+  { value: "30", label: "30 días" },
+  { value: "90", label: "90 días" },
+  { value: "180", label: "180 días" },
+  { value: "365", label: "1 año" },
+];
+
+const formatDate = (date: Date | string | null) => (date ? new Date(date).toLocaleString() : "—");
+
+// Personal API tokens of the signed-in user, for scripts that call the API with a Bearer header
+export function ApiTokens() {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState("90");
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const { data: apiTokens, isLoading } = useQuery<ApiTokenInfo[]>({
+    queryKey: ["/api/user/tokens"],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/tokens", {
+        name: name.trim(),
+        scopes,
+        expiresInDays: Number(expiresInDays),
+      });
+      return (await res.json()) as CreatedApiToken;
+    },
+    onSuccess: (data) => {
+      setCreatedToken(data.token);
+      setName("");
+      setScopes([]);
+      queryClient.invalidateQueries({ queryKey: ["/api/user/tokens"] });
+    },
+    onError: onError("Error al crear el token"),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/user/tokens/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/tokens"] });
+      toast({ title: "Token revocado", description: "Los scripts que lo usen dejarán de tener acceso" });
+    },
+    onError: onError("Error al revocar el token"),
+  });
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes(checked ? [...scopes, scope] : scopes.filter((s) => s !== scope));
+  };
+
+  const copyToken = async () => {
+    if (!createdToken) return;
+    try {
+      await navigator.clipboard.writeText(createdToken);
+      toast({ title: "Token copiado", description: "Guárdelo en un lugar seguro" });
+    } catch {
+      toast({ title: "No se pudo copiar", description: "Copie el token manualmente", variant: "destructive" });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {createdToken && (
+        <div className="space-y-3 rounded-md border bg-neutral-50 p-4">
+          <p className="text-sm text-muted-foreground">
+            Copie el token ahora; no se volverá a mostrar. Envíelo en la cabecera
+            <code className="mx-1">Authorization: Bearer &lt;token&gt;</code>.
+          </p>
+          <div className="break-all font-mono text-sm">{createdToken}</div>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={copyToken}>
+              <Copy className="mr-2 h-4 w-4" />
+              Copiar token
+            </Button>
+            <Button type="button" onClick={() => setCreatedToken(null)}>
+              He guardado el token
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {apiTokens && apiTokens.length > 0 ? (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nombre</TableHead>
+                <TableHead>Permisos</TableHead>
+                <TableHead>Caduca</TableHead>
+                <TableHead>Último uso</TableHead>
+                <TableHead className="text-right">Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {apiTokens.map((apiToken) => {
+                const expired = new Date(apiToken.expiresAt) <= new Date();
+                return (
+                  <TableRow key={apiToken.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <KeyRound className="h-4 w-4" />
+                        <span>{apiToken.name}</span>
+                      </div>
+                      <div className="font-mono text-xs text-muted-foreground">{apiToken.tokenPrefix}…</div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {apiToken.scopes.map((scope) => (
+                          <Badge key={scope} variant="outline" title={scopeLabels[scope]}>{scope}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {expired ? <Badge variant="destructive">Caducado</Badge> : formatDate(apiToken.expiresAt)}
+                    </TableCell>
+                    <TableCell>
+                      {formatDate(apiToken.lastUsedAt)}
+                      {apiToken.lastUsedIp && (
+                        <div className="text-xs text-muted-foreground">{apiToken.lastUsedIp}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Revocar token"
+                        disabled={revokeMutation.isPending}
+                        onClick={() => revokeMutation.mutate(apiToken.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground py-4 text-center">No tiene tokens de API.</p>
+      )}
+
+      <form
+        className="space-y-4"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (name.trim() && scopes.length > 0) createMutation.mutate();
+        }}
+      >
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="api-token-name">Nombre</Label>
+            <Input
+              id="api-token-name"
+              placeholder="Importación de documentos"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="api-token-expiration">Caducidad</Label>
+            <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+              <SelectTrigger id="api-token-expiration">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {expirationOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label>Permisos</Label>
+          <div className="grid gap-2 sm:grid-cols-2">
+            {API_TOKEN_SCOPES.map((scope) => (
+              <label key={scope} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={scopes.includes(scope)}
+                  onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                />
+                {scopeLabels[scope]}
+              </label>
+            ))}
+          </div>
+        </div>
+        <Button type="submit" disabled={createMutation.isPending || !name.trim() || scopes.length === 0}>
+          {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Crear token
+        </Button>
+      </form>
+    </div>
+  );
+}
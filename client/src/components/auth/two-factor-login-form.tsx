@@ -0,0 +1,70 @@
+import { useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, ShieldCheck } from "lucide-react";
+
+// Second login step, shown after the password of an account with two-factor authentication
+export function TwoFactorLoginForm() {
+  const { verifyTwoFactorMutation, cancelTwoFactor } = useAuth();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [value, setValue] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = value.trim();
+    if (!trimmed) return;
+    verifyTwoFactorMutation.mutate(useRecoveryCode ? { recoveryCode: trimmed } : { code: trimmed });
+  };
+
+  const toggleMode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setValue("");
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <div className="grid gap-4">
+        <div className="flex items-center gap-2 text-sm text-neutral-700">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+          <span>
+            {useRecoveryCode
+              ? "Introduzca uno de sus códigos de recuperación. Cada código solo puede usarse una vez."
+              : "Introduzca el código de 6 dígitos de su aplicación de autenticación."}
+          </span>
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="two-factor-code">{useRecoveryCode ? "Código de recuperación" : "Código de verificación"}</Label>
+          <Input
+            id="two-factor-code"
+            autoFocus
+            autoComplete="one-time-code"
+            inputMode={useRecoveryCode ? "text" : "numeric"}
+            placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+          />
+        </div>
+        <Button type="submit" className="w-full mt-2" disabled={verifyTwoFactorMutation.isPending || !value.trim()}>
+          {verifyTwoFactorMutation.isPending ? (
+            <span className="flex items-center">
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Verificando...
+            </span>
+          ) : (
+            "Verificar"
+          )}
+        </Button>
+        <div className="flex justify-between text-sm">
+          <button type="button" className="text-primary hover:underline" onClick={toggleMode}>
+            {useRecoveryCode ? "Usar la aplicación de autenticación" : "Usar un código de recuperación"}
+          </button>
+          <button type="button" className="text-neutral-500 hover:underline" onClick={cancelTwoFactor}>
+            Volver
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+}
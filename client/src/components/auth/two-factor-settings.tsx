@@ -0,0 +1,266 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { TwoFactorSetup, TwoFactorStatus } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Copy, Loader2, ShieldCheck } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type RecoveryCodesResponse = { recoveryCodes: string[] };
+
+// Enrollment, recovery codes and deactivation of the signed-in user's two-factor authentication
+export function TwoFactorSettings() {
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/user/2fa"],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/2fa/setup");
+      return (await res.json()) as TwoFactorSetup;
+    },
+    onSuccess: (data) => {
+      setSetup(data);
+      setCode("");
+    },
+    onError: onError("Error al iniciar la configuración"),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (totpCode: string) => {
+      const res = await apiRequest("POST", "/api/user/2fa/enable", { code: totpCode });
+      return (await res.json()) as RecoveryCodesResponse;
+    },
+    onSuccess: (data) => {
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/user/2fa"] });
+      toast({
+        title: "Autenticación de dos factores activada",
+        description: "Guarde sus códigos de recuperación en un lugar seguro",
+      });
+    },
+    onError: onError("Error al activar la autenticación de dos factores"),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (totpCode: string) => {
+      const res = await apiRequest("POST", "/api/user/2fa/recovery-codes", { code: totpCode });
+      return (await res.json()) as RecoveryCodesResponse;
+    },
+    onSuccess: (data) => {
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/user/2fa"] });
+      toast({
+        title: "Códigos regenerados",
+        description: "Los códigos de recuperación anteriores ya no son válidos",
+      });
+    },
+    onError: onError("Error al regenerar los códigos"),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async (currentPassword: string) => {
+      const res = await apiRequest("POST", "/api/user/2fa/disable", { password: currentPassword });
+      return (await res.json()) as TwoFactorStatus;
+    },
+    onSuccess: (data) => {
+      setPassword("");
+      queryClient.setQueryData(["/api/user/2fa"], data);
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      toast({
+        title: "Autenticación de dos factores desactivada",
+        description: "Su cuenta vuelve a protegerse solo con la contraseña",
+      });
+    },
+    onError: onError("Error al desactivar la autenticación de dos factores"),
+  });
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+      toast({ title: "Códigos copiados", description: "Guárdelos en un lugar seguro" });
+    } catch {
+      toast({ title: "No se pudo copiar", description: "Copie los códigos manualmente", variant: "destructive" });
+    }
+  };
+
+  // The user record only changes once the codes have been acknowledged, so pages that depend
+  // on the enrollment do not move on while they are still on screen
+  const acknowledgeRecoveryCodes = () => {
+    setRecoveryCodes(null);
+    queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+  };
+
+  if (isLoading || !status) {
+    return (
+      <div className="flex justify-center items-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Si pierde el acceso a su aplicación de autenticación podrá iniciar sesión con uno de estos códigos.
+          Cada código solo puede usarse una vez y no se volverán a mostrar.
+        </p>
+        <div className="grid grid-cols-2 gap-2 rounded-md border bg-neutral-50 p-4 font-mono text-sm">
+          {recoveryCodes.map((recoveryCode) => (
+            <span key={recoveryCode}>{recoveryCode}</span>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" onClick={copyRecoveryCodes}>
+            <Copy className="mr-2 h-4 w-4" />
+            Copiar códigos
+          </Button>
+          <Button type="button" onClick={acknowledgeRecoveryCodes}>
+            He guardado los códigos
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (status.enabled) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center gap-3">
+          <ShieldCheck className="h-5 w-5 text-success" />
+          <Badge className="bg-success">Activada</Badge>
+          <span className="text-sm text-muted-foreground">
+            {status.recoveryCodesRemaining} códigos de recuperación disponibles
+          </span>
+        </div>
+
+        <form
+          className="space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (code.trim()) regenerateMutation.mutate(code.trim());
+          }}
+        >
+          <Label htmlFor="regenerate-code">Regenerar códigos de recuperación</Label>
+          <div className="flex gap-2">
+            <Input
+              id="regenerate-code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              placeholder="Código de verificación"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+            />
+            <Button type="submit" variant="outline" disabled={regenerateMutation.isPending || !code.trim()}>
+              {regenerateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Regenerar
+            </Button>
+          </div>
+        </form>
+
+        {status.required ? (
+          <p className="text-sm text-muted-foreground">
+            La política del sistema exige la autenticación de dos factores para su rol, por lo que no puede desactivarse.
+          </p>
+        ) : (
+          <form
+            className="space-y-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (password) disableMutation.mutate(password);
+            }}
+          >
+            <Label htmlFor="disable-2fa-password">Desactivar (introduzca su contraseña)</Label>
+            <div className="flex gap-2">
+              <Input
+                id="disable-2fa-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+              <Button type="submit" variant="destructive" disabled={disableMutation.isPending || !password}>
+                {disableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Desactivar
+              </Button>
+            </div>
+          </form>
+        )}
+      </div>
+    );
+  }
+
+  if (setup) {
+    return (
+      <form
+        className="space-y-4"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (code.trim()) enableMutation.mutate(code.trim());
+        }}
+      >
+        <p className="text-sm text-muted-foreground">
+          Escanee el código QR con su aplicación de autenticación (Google Authenticator, Microsoft Authenticator,
+          FreeOTP...) e introduzca el código de 6 dígitos que muestra.
+        </p>
+        <div className="flex flex-col items-center gap-2">
+          <img src={setup.qrCode} alt="Código QR de autenticación de dos factores" className="h-48 w-48" />
+          <p className="text-xs text-muted-foreground">
+            ¿No puede escanearlo? Introduzca la clave manualmente:
+          </p>
+          <code className="rounded bg-neutral-100 px-2 py-1 text-sm break-all">{setup.secret}</code>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="enable-2fa-code">Código de verificación</Label>
+          <Input
+            id="enable-2fa-code"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            placeholder="123456"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+          />
+        </div>
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" onClick={() => setSetup(null)}>
+            Cancelar
+          </Button>
+          <Button type="submit" disabled={enableMutation.isPending || !code.trim()}>
+            {enableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Activar
+          </Button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Además de la contraseña, se le pedirá un código de su aplicación de autenticación al iniciar sesión.
+        {status.required && " La política del sistema lo exige para su rol."}
+      </p>
+      <Button type="button" onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+        {setupMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Configurar autenticación de dos factores
+      </Button>
+    </div>
+  );
+}
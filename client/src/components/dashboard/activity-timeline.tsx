@@ -1,8 +1,13 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { useQuery } from "@tanstack/react-query";
-import { CheckCircle, Edit, XCircle, Clipboard, Clock } from "lucide-react";
-import { Activity, User } from "@shared/schema";
+import { useInfiniteList } from "@/hooks/use-list-query";
+import { useDepartments } from "@/hooks/use-departments";
+import { CheckCircle, Edit, XCircle, Clipboard, Clock, History, Paperclip, Lock, LockOpen, LogOut, KeyRound, Trash2, UserX, UserCheck, Mail, ShieldCheck, ShieldOff, CalendarCheck, ArrowRightLeft, FileCheck, RefreshCw, BookOpen, BellRing } from "lucide-react";
+import { documentStatusLabels } from "@/lib/document-status";
+import { Activity, DocumentStatus, User } from "@shared/schema";
+
+// Statuses in activity details, in lower case to read within a sentence
+const statusLabel = (status: string) => (documentStatusLabels[status as DocumentStatus] ?? status ?? "").toLowerCase();
 
 type ExtendedActivity = Activity & {
   user?: Partial<User>;
@@ -13,6 +18,8 @@ interface ActivityItemProps {
 }
 
 function ActivityItem({ activity }: ActivityItemProps) {
+  const { departmentName } = useDepartments();
+  
   const getActivityIcon = () => {
     switch (activity.action) {
       case "create":
@@ -25,6 +32,54 @@ function ActivityItem({ activity }: ActivityItemProps) {
         return <XCircle className="h-4 w-4 text-white" />;
       case "submit":
         return <Clipboard className="h-4 w-4 text-white" />;
+      case "restore":
+        return <History className="h-4 w-4 text-white" />;
+      case "review":
+        return <CalendarCheck className="h-4 w-4 text-white" />;
+      case "transition":
+        return <ArrowRightLeft className="h-4 w-4 text-white" />;
+      case "accept":
+        return <FileCheck className="h-4 w-4 text-white" />;
+      case "reacceptance":
+        return <RefreshCw className="h-4 w-4 text-white" />;
+      case "assign":
+        return <BookOpen className="h-4 w-4 text-white" />;
+      case "remind":
+        return <BellRing className="h-4 w-4 text-white" />;
+      case "attach":
+      case "detach":
+        return <Paperclip className="h-4 w-4 text-white" />;
+      case "reset_password":
+      case "change_password":
+      case "lockout":
+        return <Lock className="h-4 w-4 text-white" />;
+      case "unlock":
+        return <LockOpen className="h-4 w-4 text-white" />;
+      case "revoke_session":
+      case "revoke_sessions":
+      case "force_logout":
+        return <LogOut className="h-4 w-4 text-white" />;
+      case "create_token":
+      case "revoke_token":
+        return <KeyRound className="h-4 w-4 text-white" />;
+      case "delete":
+        return <Trash2 className="h-4 w-4 text-white" />;
+      case "deactivate":
+        return <UserX className="h-4 w-4 text-white" />;
+      case "reactivate":
+      case "register":
+        return <UserCheck className="h-4 w-4 text-white" />;
+      case "invite":
+        return <Mail className="h-4 w-4 text-white" />;
+      case "revoke":
+        return <XCircle className="h-4 w-4 text-white" />;
+      case "enable_2fa":
+      case "regenerate_recovery_codes":
+      case "use_recovery_code":
+        return <ShieldCheck className="h-4 w-4 text-white" />;
+      case "disable_2fa":
+      case "reset_2fa":
+        return <ShieldOff className="h-4 w-4 text-white" />;
       default:
         return <Edit className="h-4 w-4 text-white" />;
     }
@@ -35,13 +90,55 @@ function ActivityItem({ activity }: ActivityItemProps) {
       case "create":
         return "bg-primary";
       case "update":
+      case "update_profile":
+      case "restore":
+      case "transition":
+      case "attach":
+      case "detach":
         return "bg-primary";
       case "approved":
+      case "review":
+      case "accept":
         return "bg-success";
+      case "reacceptance":
+      case "remind":
+        return "bg-warning";
+      case "assign":
+        return "bg-primary";
       case "rejected":
         return "bg-destructive";
       case "submit":
+      case "reset_password":
         return "bg-warning";
+      case "reactivate":
+      case "change_password":
+      case "register":
+        return "bg-success";
+      case "invite":
+        return "bg-primary";
+      case "enable_2fa":
+        return "bg-success";
+      case "regenerate_recovery_codes":
+      case "use_recovery_code":
+      case "reset_2fa":
+        return "bg-warning";
+      case "deactivate":
+      case "revoke":
+      case "disable_2fa":
+      case "lockout":
+        return "bg-destructive";
+      case "unlock":
+        return "bg-success";
+      case "revoke_session":
+      case "revoke_sessions":
+        return "bg-primary";
+      case "force_logout":
+        return "bg-warning";
+      case "create_token":
+        return "bg-primary";
+      case "revoke_token":
+      case "delete":
+        return "bg-destructive";
       default:
         return "bg-neutral-500";
     }
@@ -55,13 +152,98 @@ function ActivityItem({ activity }: ActivityItemProps) {
           return `Documento "${details?.title}" creado`;
         } else if (activity.entityType === "task") {
           return `Tarea "${details?.title}" creada`;
+        } else if (activity.entityType === "user") {
+          return `Usuario "${details?.username}" creado`;
+        } else if (activity.entityType === "department") {
+          return `Departamento "${details?.name}" creado`;
+        } else if (activity.entityType === "document_category") {
+          return `Categoría "${details?.name}" creada`;
         }
         return "Nuevo elemento creado";
       case "update":
         if (activity.entityType === "document") {
           return `Documento "${details?.title}" actualizado a v${details?.version}`;
+        } else if (activity.entityType === "user") {
+          return `Usuario "${details?.username}" actualizado`;
+        } else if (activity.entityType === "settings") {
+          return "Configuración del sistema actualizada";
+        } else if (activity.entityType === "department") {
+          return `Departamento "${details?.name}" actualizado`;
+        } else if (activity.entityType === "document_category") {
+          return `Categoría "${details?.name}" actualizada`;
         }
         return "Elemento actualizado";
+      case "delete":
+        if (activity.entityType === "document") {
+          return `Documento "${details?.title}" eliminado`;
+        } else if (activity.entityType === "department") {
+          return `Departamento "${details?.name}" eliminado`;
+        } else if (activity.entityType === "document_category") {
+          return `Categoría "${details?.name}" eliminada`;
+        } else if (activity.entityType === "policy_assignment") {
+          return `Asignación de "${details?.title}" eliminada`;
+        }
+        return "Elemento eliminado";
+      case "update_permissions":
+        return "Permisos por rol actualizados";
+      case "reset_password":
+        return `Contraseña de "${details?.username}" restablecida`;
+      case "change_password":
+        return "Contraseña cambiada";
+      case "update_profile":
+        return "Perfil actualizado";
+      case "deactivate":
+        return `Usuario "${details?.username}" desactivado`;
+      case "reactivate":
+        return `Usuario "${details?.username}" reactivado`;
+      case "register":
+        return `Usuario "${details?.username}" registrado`;
+      case "invite":
+        return "Invitación de registro enviada";
+      case "revoke":
+        return "Invitación de registro revocada";
+      case "lockout":
+        return `Cuenta de "${details?.username}" bloqueada`;
+      case "unlock":
+        return `Cuenta de "${details?.username}" desbloqueada`;
+      case "revoke_session":
+        return "Sesión cerrada en otro dispositivo";
+      case "revoke_sessions":
+        return "Sesiones cerradas en otros dispositivos";
+      case "force_logout":
+        return `Sesiones de "${details?.username}" cerradas`;
+      case "create_token":
+        return `Token de API "${details?.name}" creado`;
+      case "revoke_token":
+        return `Token de API "${details?.name}" revocado`;
+      case "enable_2fa":
+        return "Autenticación de dos factores activada";
+      case "disable_2fa":
+        return "Autenticación de dos factores desactivada";
+      case "reset_2fa":
+        return `2FA de "${details?.username}" restablecida`;
+      case "regenerate_recovery_codes":
+        return "Códigos de recuperación regenerados";
+      case "use_recovery_code":
+        return "Inicio de sesión con código de recuperación";
+      case "restore":
+        return `Documento "${details?.title}" restaurado a v${details?.version}`;
+      case "review":
+        return `Revisión periódica de "${details?.title}" confirmada`;
+      case "transition":
+        return `Cambio de estado de "${details?.title}"`;
+      case "accept":
+        return `Política "${details?.title}" aceptada`;
+      case "reacceptance":
+        return `Nueva aceptación requerida para "${details?.title}"`;
+      case "assign":
+        return `Política "${details?.title}" asignada como lectura obligatoria`;
+      case "remind":
+        return `Recordatorio de lectura de "${details?.title}"`;
+      case "attach":
+        return `Archivos adjuntados a "${details?.title}"`;
+      case "detach":
+        return `Archivo eliminado de "${details?.title}"`;
       case "approved":
         if (activity.entityType === "approval") {
           return `Documento "${details?.documentTitle}" aprobado`;
@@ -93,13 +275,103 @@ function ActivityItem({ activity }: ActivityItemProps) {
     switch (activity.action) {
       case "create":
         if (activity.entityType === "document") {
-          description += `ha creado un nuevo documento en el departamento de ${details?.department || "la empresa"}.`;
+          description += `ha creado un nuevo documento en el departamento de ${details?.department ? departmentName(details.department) : "la empresa"}.`;
         } else if (activity.entityType === "task") {
           description += `ha creado una nueva tarea asignada a ${details?.assignedToName || "un usuario"}.`;
+        } else if (activity.entityType === "user") {
+          description += `ha dado de alta a ${details?.name} en el departamento de ${departmentName(details?.department)}.`;
+        } else if (activity.entityType === "department") {
+          description += `ha creado el departamento ${details?.name} (${details?.code}).`;
+        } else if (activity.entityType === "document_category") {
+          description += `ha creado la categoría de documentos ${details?.name}.`;
         }
         break;
       case "update":
-        description += `ha actualizado el ${activity.entityType}.`;
+        if (activity.entityType === "user" && details?.changes?.length) {
+          description += `ha modificado ${details.changes.join(", ")} de ${details?.name}.`;
+        } else if (activity.entityType === "settings") {
+          description += `ha modificado ${details?.changes?.join(", ")}.`;
+        } else if (activity.entityType === "department") {
+          description += `ha modificado ${details?.changes?.join(", ")} del departamento ${details?.name}.`;
+        } else if (activity.entityType === "document_category") {
+          description += `ha modificado ${details?.changes?.join(", ")} de la categoría ${details?.name}.`;
+        } else {
+          description += `ha actualizado el ${activity.entityType}.`;
+        }
+        break;
+      case "delete":
+        description += activity.entityType === "department"
+          ? `ha eliminado el departamento ${details?.name} (${details?.code}).`
+          : activity.entityType === "document_category"
+          ? `ha eliminado la categoría de documentos ${details?.name}.`
+          : activity.entityType === "policy_assignment"
+          ? `ha eliminado una asignación de lectura obligatoria y cancelado sus tareas pendientes.`
+          : `ha eliminado el ${activity.entityType}.`;
+        break;
+      case "reset_password":
+        description += `ha asignado una nueva contraseña a ${details?.name}.`;
+        break;
+      case "change_password":
+        description += `ha cambiado su contraseña.`;
+        break;
+      case "update_profile":
+        description += `ha actualizado su perfil.`;
+        break;
+      case "deactivate":
+        description += `ha desactivado la cuenta de ${details?.name}.`;
+        break;
+      case "reactivate":
+        description += `ha reactivado la cuenta de ${details?.name}.`;
+        break;
+      case "register":
+        description += details?.invitationId
+          ? `se ha registrado mediante una invitación.`
+          : `se ha registrado en el sistema.`;
+        break;
+      case "invite":
+        description += `ha invitado a ${details?.email || "un nuevo usuario"} al departamento de ${departmentName(details?.department)}.`;
+        break;
+      case "revoke":
+        description += `ha revocado la invitación de ${details?.email || "un nuevo usuario"}.`;
+        break;
+      case "lockout":
+        description = `La cuenta de ${details?.name} se ha bloqueado tras ${details?.failures} intentos de inicio de sesión fallidos.`;
+        break;
+      case "unlock":
+        description += `ha desbloqueado la cuenta de ${details?.name}.`;
+        break;
+      case "revoke_session":
+        description += `ha cerrado una de sus sesiones.`;
+        break;
+      case "revoke_sessions":
+        description += `ha cerrado sus sesiones en los demás dispositivos.`;
+        break;
+      case "force_logout":
+        description += `ha cerrado todas las sesiones de ${details?.name}.`;
+        break;
+      case "create_token":
+        description += `ha creado un token de API con los permisos ${details?.scopes?.join(", ")}.`;
+        break;
+      case "revoke_token":
+        description += `ha revocado un token de API.`;
+        break;
+      case "update_permissions":
+        description += `ha cambiado los permisos del rol ${details?.role}.`;
+        break;
+      case "enable_2fa":
+        description += `ha activado la autenticación de dos factores.`;
+        break;
+      case "disable_2fa":
+        description += `ha desactivado la autenticación de dos factores.`;
+        break;
+      case "reset_2fa":
+        description += `ha restablecido la autenticación de dos factores de ${details?.name}.`;
+        break;
+      case "regenerate_recovery_codes":
+        description += `ha generado nuevos códigos de recuperación.`;
+        break;
+      case "use_recovery_code":
+        description += `ha iniciado sesión con un código de recuperación (quedan ${details?.remaining}).`;
         break;
       case "approved":
         if (activity.entityType === "approval") {
@@ -120,6 +392,38 @@ function ActivityItem({ activity }: ActivityItemProps) {
       case "submit":
         description += `ha enviado el documento para aprobación.`;
         break;
+      case "restore":
+        description += `ha restaurado el contenido de la versión ${details?.restoredFrom}.`;
+        break;
+      case "transition":
+        description += `ha cambiado el estado del documento de ${statusLabel(details?.from)} a ${statusLabel(details?.to)}`;
+        description += details?.reason ? `: "${details.reason}".` : ".";
+        break;
+      case "accept":
+        description += details?.version
+          ? `ha aceptado la versión ${details.version} de la política.`
+          : `ha aceptado la política.`;
+        break;
+      case "assign":
+        description += `ha asignado la política a ${details?.assignees} usuarios con fecha límite ${new Date(details?.dueDate).toLocaleDateString()}.`;
+        break;
+      case "remind":
+        description += `ha recordado la lectura a ${details?.assignees} usuarios que aún no la aceptan.`;
+        break;
+      case "reacceptance":
+        description += `ha publicado la versión ${details?.version}, que sustituye a la ${details?.previousVersion}; ${details?.users} usuarios deben aceptarla de nuevo.`;
+        break;
+      case "review":
+        description += details?.nextReviewAt
+          ? `ha confirmado que el documento sigue vigente. Próxima revisión: ${new Date(details.nextReviewAt).toLocaleDateString()}.`
+          : `ha confirmado que el documento sigue vigente.`;
+        break;
+      case "attach":
+        description += `ha adjuntado ${details?.files?.join(", ")}.`;
+        break;
+      case "detach":
+        description += `ha eliminado ${details?.files?.join(", ")}.`;
+        break;
       default:
         description += `ha realizado una acción en el sistema.`;
     }
@@ -163,15 +467,13 @@ function ActivityItem({ activity }: ActivityItemProps) {
 }
 
 export function ActivityTimeline() {
-  const { data: activities, isLoading } = useQuery<ExtendedActivity[]>({
-    queryKey: ["/api/activities"],
-    select: (data) => {
-      // Sort by createdAt
-      return [...data].sort((a, b) => 
-        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-      );
-    }
-  });
+  const {
+    items: activities,
+    isLoading,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage
+  } = useInfiniteList<ExtendedActivity>("/api/activities", { sort: "-createdAt", pageSize: 4 });
 
   return (
     <Card className="mt-6">
@@ -185,8 +487,8 @@ export function ActivityTimeline() {
           <div className="space-y-6">
             {isLoading ? (
               <div className="text-center py-4 text-neutral-500">Cargando actividad reciente...</div>
-            ) : activities && activities.length > 0 ? (
-              activities.slice(0, 4).map((activity) => (
+            ) : activities.length > 0 ? (
+              activities.map((activity) => (
                 <ActivityItem key={activity.id} activity={activity} />
               ))
             ) : (
@@ -194,11 +496,18 @@ export function ActivityTimeline() {
             )}
           </div>
           
-          <div className="mt-6 text-center">
-            <Button variant="link" className="text-primary hover:text-primary-dark">
-              Ver más actividad
-            </Button>
-          </div>
+          {hasNextPage && (
+            <div className="mt-6 text-center">
+              <Button
+                variant="link"
+                className="text-primary hover:text-primary-dark"
+                disabled={isFetchingNextPage}
+                onClick={() => fetchNextPage()}
+              >
+                {isFetchingNextPage ? "Cargando..." : "Ver más actividad"}
+              </Button>
+            </div>
+          )}
         </div>
       </CardContent>
     </Card>
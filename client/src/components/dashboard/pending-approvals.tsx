@@ -1,8 +1,9 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { useQuery } from "@tanstack/react-query";
 import { Eye, CheckCircle, XCircle } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
+import { usePagedQuery } from "@/hooks/use-list-query";
+import { useDepartments } from "@/hooks/use-departments";
 import { User, Document, Approval } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -22,6 +23,8 @@ function PendingApprovalItem({
   onApprove, 
   onReject 
 }: PendingApprovalItemProps) {
+  const { departmentName } = useDepartments();
+  
   return (
     <tr className="hover:bg-neutral-50">
       <td className="px-3 py-4 whitespace-nowrap">
@@ -31,7 +34,7 @@ function PendingApprovalItem({
           </span>
           <div>
             <div className="text-sm font-medium text-neutral-900">{document.title}</div>
-            <div className="text-xs text-neutral-500">{document.department}</div>
+            <div className="text-xs text-neutral-500">{departmentName(document.department)}</div>
           </div>
         </div>
       </td>
@@ -41,7 +44,7 @@ function PendingApprovalItem({
           {document.createdByUser?.role === "analyst" ? "Analista" : 
            document.createdByUser?.role === "operator" ? "Operador" : 
            document.createdByUser?.role === "manager" ? "Manager" : 
-           document.createdByUser?.role === "coordinator" ? "Coordinador" : "Usuario"} de {document.createdByUser?.department}
+           document.createdByUser?.role === "coordinator" ? "Coordinador" : "Usuario"} de {departmentName(document.createdByUser?.department)}
         </div>
       </td>
       <td className="px-3 py-4 whitespace-nowrap">
@@ -120,13 +123,11 @@ export function PendingApprovals({ onViewDocument }: { onViewDocument: (document
   const { toast } = useToast();
   const { user } = useAuth();
   
-  const { data: approvals, isLoading, refetch } = useQuery<ExtendedApproval[]>({
-    queryKey: ["/api/approvals"],
-    select: (data) => {
-      // Filter only pending approvals
-      return data.filter((approval) => approval.status === "pending");
-    }
+  const { data, isLoading, refetch } = usePagedQuery<ExtendedApproval>("/api/approvals", {
+    status: "pending",
+    pageSize: 10,
   });
+  const approvals = data?.items;
   
   const handleApprove = async (approval: Approval) => {
     try {
@@ -1,11 +1,13 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { useQuery } from "@tanstack/react-query";
 import { Eye, Download, Plus } from "lucide-react";
 import { Document, User } from "@shared/schema";
 import { useState } from "react";
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
+import { usePagedQuery } from "@/hooks/use-list-query";
 import { NewDocumentModal } from "@/components/documents/new-document-modal";
+import { documentStatusBadgeClasses, documentStatusLabels } from "@/lib/document-status";
 
 type ExtendedDocument = Document & {
   createdByUser?: Partial<User>;
@@ -17,34 +19,6 @@ interface DocumentCardProps {
 }
 
 function DocumentCard({ document, onView }: DocumentCardProps) {
-  const getStatusBadge = (status: string) => {
-    switch (status) {
-      case "approved":
-        return "bg-success text-white";
-      case "pending":
-        return "bg-warning text-white";
-      case "rejected":
-        return "bg-destructive text-white";
-      case "draft":
-      default:
-        return "bg-neutral-500 text-white";
-    }
-  };
-
-  const getStatusText = (status: string) => {
-    switch (status) {
-      case "approved":
-        return "Aprobado";
-      case "pending":
-        return "Pendiente";
-      case "rejected":
-        return "Rechazado";
-      case "draft":
-      default:
-        return "Borrador";
-    }
-  };
-
   const formatDate = (date: Date) => {
     return new Date(date).toLocaleDateString();
   };
@@ -71,8 +45,8 @@ function DocumentCard({ document, onView }: DocumentCardProps) {
           className="h-full w-full object-cover" 
         />
         <div className="absolute top-2 right-2">
-          <span className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusBadge(document.status)}`}>
-            {getStatusText(document.status)}
+          <span className={`px-2 py-1 text-xs font-medium rounded-full ${documentStatusBadgeClasses[document.status]}`}>
+            {documentStatusLabels[document.status]}
           </span>
         </div>
       </div>
@@ -126,16 +100,13 @@ function DocumentCard({ document, onView }: DocumentCardProps) {
 export function RecentDocuments({ onViewDocument }: { onViewDocument: (document: Document) => void }) {
   const [newDocumentModalOpen, setNewDocumentModalOpen] = useState(false);
   const { user } = useAuth();
+  const { can } = usePermissions();
   
-  const { data: documents, isLoading } = useQuery<ExtendedDocument[]>({
-    queryKey: ["/api/documents"],
-    select: (data) => {
-      // Sort by updatedAt
-      return [...data].sort((a, b) => 
-        new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
-      );
-    }
+  const { data, isLoading } = usePagedQuery<ExtendedDocument>("/api/documents", {
+    sort: "-updatedAt",
+    pageSize: 4,
   });
+  const documents = data?.items;
 
   return (
     <>
@@ -143,15 +114,17 @@ export function RecentDocuments({ onViewDocument }: { onViewDocument: (document:
         <CardHeader className="px-6 py-4 border-b border-neutral-200 flex flex-row items-center justify-between">
           <CardTitle className="text-lg font-semibold text-neutral-900">Documentos Recientes</CardTitle>
           <div className="flex space-x-2">
-            <Button 
-              variant="primary" 
-              size="sm" 
-              className="text-sm"
-              onClick={() => setNewDocumentModalOpen(true)}
-            >
-              <Plus className="h-4 w-4 mr-1" />
-              Nuevo Documento
-            </Button>
+            {can("document.create") && (
+              <Button 
+                variant="primary" 
+                size="sm" 
+                className="text-sm"
+                onClick={() => setNewDocumentModalOpen(true)}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Nuevo Documento
+              </Button>
+            )}
             <Button variant="link" size="sm" className="text-neutral-500 hover:text-primary">
               Ver todos
             </Button>
@@ -163,7 +136,7 @@ export function RecentDocuments({ onViewDocument }: { onViewDocument: (document:
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
               {documents && documents.length > 0 ? (
-                documents.slice(0, 4).map((document) => (
+                documents.map((document) => (
                   <DocumentCard 
                     key={document.id} 
                     document={document}
@@ -1,8 +1,8 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { useQuery } from "@tanstack/react-query";
 import { CheckCircle, Info, Clock, Plus } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
+import { usePagedQuery } from "@/hooks/use-list-query";
 import { Task, User } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -97,16 +97,14 @@ export function TasksList() {
   const { toast } = useToast();
   const { user } = useAuth();
   
-  const { data: tasks, isLoading } = useQuery<ExtendedTask[]>({
-    queryKey: ["/api/tasks"],
-    select: (data) => {
-      // Filter only pending tasks assigned to current user
-      return data.filter((task) => 
-        (task.status === "pending" || task.status === "in_progress") && 
-        task.assignedTo === user?.id
-      );
-    }
-  });
+  // Open tasks assigned to the current user, most urgent first
+  const { data, isLoading } = usePagedQuery<ExtendedTask>("/api/tasks", {
+    status: ["pending", "in_progress"],
+    assignedTo: user?.id,
+    sort: "dueDate,-priority",
+    pageSize: 3,
+  }, { enabled: !!user });
+  const tasks = data?.items;
   
   const handleCompleteTask = async (task: Task) => {
     try {
@@ -161,7 +159,7 @@ export function TasksList() {
               Cargando tareas...
             </div>
           ) : tasks && tasks.length > 0 ? (
-            tasks.slice(0, 3).map((task) => (
+            tasks.map((task) => (
               <TaskItem 
                 key={task.id} 
                 task={task}
@@ -0,0 +1,80 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Eye, CalendarClock } from "lucide-react";
+import { Document, isReviewOverdue } from "@shared/schema";
+import { usePagedQuery } from "@/hooks/use-list-query";
+import { useDepartments } from "@/hooks/use-departments";
+
+// How far ahead the widget looks for periodic reviews
+const UPCOMING_REVIEW_DAYS = 60;
+
+export function UpcomingReviews({ onViewDocument }: { onViewDocument: (document: Document) => void }) {
+  const { departmentName } = useDepartments();
+
+  const horizon = new Date();
+  horizon.setDate(horizon.getDate() + UPCOMING_REVIEW_DAYS);
+
+  // Overdue reviews come first, as they have the earliest dates
+  const { data, isLoading } = usePagedQuery<Document>("/api/documents", {
+    reviewDueTo: horizon.toISOString().slice(0, 10),
+    sort: "nextReviewAt",
+    pageSize: 5,
+  });
+  const documents = data?.items;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="px-6 py-4 border-b border-neutral-200 flex flex-row items-center justify-between">
+        <CardTitle className="text-lg font-semibold text-neutral-900">Próximas Revisiones</CardTitle>
+        {data && data.total > 0 && (
+          <span className="text-sm text-neutral-500">{data.total} en los próximos {UPCOMING_REVIEW_DAYS} días</span>
+        )}
+      </CardHeader>
+      <CardContent className="px-6 py-4">
+        {isLoading ? (
+          <div className="text-center py-8 text-neutral-500">Cargando revisiones...</div>
+        ) : documents && documents.length > 0 ? (
+          <div className="divide-y divide-neutral-200">
+            {documents.map((document) => {
+              const overdue = isReviewOverdue(document);
+              return (
+                <div key={document.id} className="flex items-center justify-between py-3">
+                  <div className="flex items-center">
+                    <CalendarClock className={`h-5 w-5 mr-3 ${overdue ? "text-destructive" : "text-warning"}`} />
+                    <div>
+                      <div className="text-sm font-medium text-neutral-900">
+                        {document.code && <span className="font-mono text-neutral-500 mr-2">{document.code}</span>}
+                        {document.title}
+                      </div>
+                      <div className="text-xs text-neutral-500">{departmentName(document.department)}</div>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <span className={`px-2 py-1 text-xs font-medium rounded-full ${
+                      overdue ? "bg-destructive text-white" : "bg-warning bg-opacity-10 text-warning"
+                    }`}>
+                      {overdue ? "Vencida" : "Vence"} {new Date(document.nextReviewAt!).toLocaleDateString()}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => onViewDocument(document)}
+                      title="Ver documento"
+                    >
+                      <Eye className="h-4 w-4 text-neutral-500" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="text-center py-8 text-neutral-500">
+            No hay revisiones previstas en los próximos {UPCOMING_REVIEW_DAYS} días
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
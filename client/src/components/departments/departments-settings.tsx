@@ -0,0 +1,302 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Department } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription
+} from "@/components/ui/dialog";
+import { UserPicker } from "@/components/users/user-picker";
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useDepartments } from "@/hooks/use-departments";
+
+type DepartmentFormState = {
+  code: string;
+  name: string;
+  parentId: string;
+  headUserId: string;
+  active: boolean;
+};
+
+const emptyForm: DepartmentFormState = {
+  code: "",
+  name: "",
+  parentId: "none",
+  headUserId: "none",
+  active: true,
+};
+
+// Department catalogue for the system settings. Codes are fixed once created; departments in
+// use can only be deactivated.
+export function DepartmentsSettings() {
+  const { toast } = useToast();
+  const { departments, departmentName, isLoading } = useDepartments();
+  const [showDialog, setShowDialog] = useState(false);
+  const [editingDepartment, setEditingDepartment] = useState<Department | null>(null);
+  const [form, setForm] = useState<DepartmentFormState>(emptyForm);
+
+  const saveDepartmentMutation = useMutation({
+    mutationFn: async (data: DepartmentFormState) => {
+      const payload = {
+        name: data.name.trim(),
+        parentId: data.parentId === "none" ? null : Number(data.parentId),
+        headUserId: data.headUserId === "none" ? null : Number(data.headUserId),
+        active: data.active,
+      };
+      const response = editingDepartment
+        ? await apiRequest("PUT", `/api/departments/${editingDepartment.id}`, payload)
+        : await apiRequest("POST", "/api/departments", { ...payload, code: data.code.trim() });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/departments"] });
+      toast({
+        title: "Departamento guardado",
+        description: "El departamento se ha guardado correctamente.",
+      });
+      setShowDialog(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error al guardar departamento",
+        description: error instanceof Error ? error.message : "Error al guardar el departamento",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteDepartmentMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/departments/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/departments"] });
+      toast({
+        title: "Departamento eliminado",
+        description: "El departamento se ha eliminado.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error al eliminar departamento",
+        description: error instanceof Error ? error.message : "Error al eliminar el departamento",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openNewDialog = () => {
+    setEditingDepartment(null);
+    setForm(emptyForm);
+    setShowDialog(true);
+  };
+
+  const openEditDialog = (department: Department) => {
+    setEditingDepartment(department);
+    setForm({
+      code: department.code,
+      name: department.name,
+      parentId: department.parentId ? String(department.parentId) : "none",
+      headUserId: department.headUserId ? String(department.headUserId) : "none",
+      active: department.active,
+    });
+    setShowDialog(true);
+  };
+
+  const handleSave = () => {
+    if (!form.code.trim() || !form.name.trim()) {
+      toast({
+        title: "Error",
+        description: "Complete el código y el nombre del departamento",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveDepartmentMutation.mutate(form);
+  };
+
+  const parentName = (parentId: number | null) =>
+    departmentName(departments.find((department) => department.id === parentId)?.code);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-end">
+        <Button type="button" variant="outline" size="sm" onClick={openNewDialog}>
+          <Plus className="h-4 w-4 mr-1" />
+          Nuevo departamento
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Código</TableHead>
+                <TableHead>Nombre</TableHead>
+                <TableHead>Depende de</TableHead>
+                <TableHead>Estado</TableHead>
+                <TableHead className="text-right">Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {departments.map((department) => (
+                <TableRow key={department.id}>
+                  <TableCell className="font-mono">{department.code}</TableCell>
+                  <TableCell>{department.name}</TableCell>
+                  <TableCell>{department.parentId ? parentName(department.parentId) : "—"}</TableCell>
+                  <TableCell>
+                    {department.active ? (
+                      <Badge variant="outline" className="border-success text-success">Activo</Badge>
+                    ) : (
+                      <Badge variant="outline" className="text-muted-foreground">Inactivo</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => openEditDialog(department)}
+                      title="Editar departamento"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteDepartmentMutation.mutate(department.id)}
+                      disabled={deleteDepartmentMutation.isPending}
+                      title="Eliminar departamento"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="sm:max-w-[520px]">
+          <DialogHeader>
+            <DialogTitle>{editingDepartment ? "Editar departamento" : "Nuevo departamento"}</DialogTitle>
+            <DialogDescription>
+              El código identifica al departamento en documentos y usuarios y no se puede cambiar después.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="department-code">Código <span className="text-destructive">*</span></Label>
+                <Input
+                  id="department-code"
+                  value={form.code}
+                  disabled={!!editingDepartment}
+                  onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                  placeholder="PRD"
+                  maxLength={10}
+                />
+              </div>
+              <div className="grid gap-2 col-span-2">
+                <Label htmlFor="department-name">Nombre <span className="text-destructive">*</span></Label>
+                <Input
+                  id="department-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="Producción"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label>Depende de</Label>
+                <Select value={form.parentId} onValueChange={(value) => setForm({ ...form, parentId: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Departamento" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Ninguno</SelectItem>
+                    {departments
+                      .filter((department) => department.id !== editingDepartment?.id)
+                      .map((department) => (
+                        <SelectItem key={department.id} value={String(department.id)}>{department.name}</SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label>Responsable</Label>
+                <UserPicker
+                  value={form.headUserId === "none" ? null : Number(form.headUserId)}
+                  onChange={(user) => setForm({ ...form, headUserId: user ? String(user.id) : "none" })}
+                  placeholder="Responsable"
+                  noneLabel="Sin responsable"
+                  describe={(user) => departmentName(user.department)}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="department-active">Departamento activo</Label>
+                <p className="text-xs text-muted-foreground">
+                  Los departamentos inactivos conservan sus usuarios y documentos, pero no se pueden asignar a registros nuevos.
+                </p>
+              </div>
+              <Switch
+                id="department-active"
+                checked={form.active}
+                onCheckedChange={(checked) => setForm({ ...form, active: checked })}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setShowDialog(false)}>
+              Cancelar
+            </Button>
+            <Button type="button" onClick={handleSave} disabled={saveDepartmentMutation.isPending}>
+              {saveDepartmentMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Guardar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { useRef } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { apiRequest, apiUpload, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { DocumentAttachment } from "@shared/schema";
+import { Download, FileText, Image, Loader2, Paperclip, Trash2 } from "lucide-react";
+
+export const ATTACHMENT_ACCEPT = ".pdf,.docx,.xlsx,.png,.jpg,.jpeg,.gif,.webp";
+
+interface DocumentAttachmentsProps {
+  documentId: number;
+  canEdit: boolean;
+}
+
+export function formatFileSize(size: number) {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function DocumentAttachments({ documentId, canEdit }: DocumentAttachmentsProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { data: attachments = [], isLoading } = useQuery<Omit<DocumentAttachment, "extractedText">[]>({
+    queryKey: [`/api/documents/${documentId}/attachments`],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/documents/${documentId}/attachments`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/documents/${documentId}/versions`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/documents/${documentId}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async (files: File[]) => {
+      const formData = new FormData();
+      files.forEach((file) => formData.append("files", file));
+      const res = await apiUpload(`/api/documents/${documentId}/attachments`, formData);
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Archivos adjuntados",
+        description: "Los archivos se han adjuntado al documento.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al adjuntar",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (attachmentId: number) => {
+      await apiRequest("DELETE", `/api/documents/${documentId}/attachments/${attachmentId}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Adjunto eliminado",
+        description: "El archivo se ha quitado del documento.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al eliminar",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (files.length > 0) {
+      uploadMutation.mutate(files);
+    }
+    e.target.value = "";
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-md font-medium text-neutral-900">Archivos Adjuntos</h3>
+        {canEdit && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={ATTACHMENT_ACCEPT}
+              className="hidden"
+              onChange={handleFilesSelected}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex items-center"
+              disabled={uploadMutation.isPending}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              {uploadMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <Paperclip className="h-4 w-4 mr-1" />
+              )}
+              Adjuntar archivos
+            </Button>
+          </>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        </div>
+      ) : attachments.length === 0 ? (
+        <p className="text-sm text-neutral-500">Este documento no tiene archivos adjuntos.</p>
+      ) : (
+        <div className="space-y-2">
+          {attachments.map((attachment) => (
+            <div key={attachment.id} className="flex items-center justify-between bg-neutral-50 rounded-lg px-4 py-2">
+              <div className="flex items-center min-w-0">
+                {attachment.mimeType.startsWith("image/") ? (
+                  <Image className="h-4 w-4 text-neutral-500 mr-3 flex-shrink-0" />
+                ) : (
+                  <FileText className="h-4 w-4 text-neutral-500 mr-3 flex-shrink-0" />
+                )}
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-neutral-900 truncate">{attachment.fileName}</div>
+                  <div className="text-xs text-neutral-500">{formatFileSize(attachment.size)}</div>
+                </div>
+              </div>
+              <div className="flex items-center space-x-1">
+                <Button variant="ghost" size="icon" className="h-8 w-8" asChild>
+                  <a href={`/api/documents/${documentId}/attachments/${attachment.id}/download`}>
+                    <Download className="h-4 w-4" />
+                  </a>
+                </Button>
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-destructive"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => deleteMutation.mutate(attachment.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
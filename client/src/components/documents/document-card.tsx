@@ -1,7 +1,8 @@
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Eye, Download, User } from "lucide-react";
-import { Document, User as UserType } from "@shared/schema";
+import { Eye, Download, User, CalendarClock } from "lucide-react";
+import { Document, User as UserType, isReviewOverdue } from "@shared/schema";
+import { documentStatusBadgeClasses, documentStatusLabels } from "@/lib/document-status";
 
 interface DocumentCardProps {
   document: Document & { createdByUser?: Partial<UserType> };
@@ -9,34 +10,6 @@ interface DocumentCardProps {
 }
 
 export function DocumentCard({ document, onView }: DocumentCardProps) {
-  const getStatusBadge = (status: string) => {
-    switch (status) {
-      case "approved":
-        return "bg-success text-white";
-      case "pending":
-        return "bg-warning text-white";
-      case "rejected":
-        return "bg-destructive text-white";
-      case "draft":
-      default:
-        return "bg-neutral-500 text-white";
-    }
-  };
-
-  const getStatusText = (status: string) => {
-    switch (status) {
-      case "approved":
-        return "Aprobado";
-      case "pending":
-        return "Pendiente";
-      case "rejected":
-        return "Rechazado";
-      case "draft":
-      default:
-        return "Borrador";
-    }
-  };
-
   const formatDate = (date: Date) => {
     return new Date(date).toLocaleDateString();
   };
@@ -62,13 +35,22 @@ export function DocumentCard({ document, onView }: DocumentCardProps) {
           alt={document.title} 
           className="h-full w-full object-cover" 
         />
-        <div className="absolute top-2 right-2">
-          <span className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusBadge(document.status)}`}>
-            {getStatusText(document.status)}
+        <div className="absolute top-2 right-2 flex flex-col items-end gap-1">
+          <span className={`px-2 py-1 text-xs font-medium rounded-full ${documentStatusBadgeClasses[document.status]}`}>
+            {documentStatusLabels[document.status]}
           </span>
+          {isReviewOverdue(document) && (
+            <span className="px-2 py-1 text-xs font-medium rounded-full bg-destructive text-white flex items-center">
+              <CalendarClock className="h-3 w-3 mr-1" />
+              Revisión vencida
+            </span>
+          )}
         </div>
       </div>
       <div className="p-4">
+        {document.code && (
+          <p className="text-xs font-mono text-neutral-500">{document.code}</p>
+        )}
         <h3 className="text-sm font-medium text-neutral-900">{document.title}</h3>
         <p className="mt-1 text-xs text-neutral-500">Actualizado: {formatDate(document.updatedAt)}</p>
         <div className="mt-3 flex justify-between items-center">
@@ -0,0 +1,428 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ApprovalWorkflow, CategoryField, CATEGORY_FIELD_TYPES, DocumentCategory } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription
+} from "@/components/ui/dialog";
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useDocumentCategories } from "@/hooks/use-document-categories";
+
+const fieldTypeLabels: Record<CategoryField["type"], string> = {
+  text: "Texto",
+  number: "Número",
+  date: "Fecha",
+};
+
+type CategoryFormState = {
+  code: string;
+  name: string;
+  prefix: string;
+  requiredFields: CategoryField[];
+  approvalWorkflowId: string;
+  reviewPeriodMonths: string;
+  template: string;
+  active: boolean;
+};
+
+const emptyForm: CategoryFormState = {
+  code: "",
+  name: "",
+  prefix: "",
+  requiredFields: [],
+  approvalWorkflowId: "none",
+  reviewPeriodMonths: "",
+  template: "",
+  active: true,
+};
+
+const emptyField: CategoryField = { key: "", label: "", type: "text" };
+
+// Document category catalogue for the system settings. Codes are fixed once created;
+// categories in use can only be deactivated.
+export function DocumentCategoriesSettings() {
+  const { toast } = useToast();
+  const { categories, isLoading } = useDocumentCategories();
+  const [showDialog, setShowDialog] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<DocumentCategory | null>(null);
+  const [form, setForm] = useState<CategoryFormState>(emptyForm);
+
+  const { data: workflows } = useQuery<ApprovalWorkflow[]>({
+    queryKey: ["/api/approval-workflows"],
+    enabled: showDialog,
+  });
+
+  const saveCategoryMutation = useMutation({
+    mutationFn: async (data: CategoryFormState) => {
+      const payload = {
+        name: data.name.trim(),
+        prefix: data.prefix.trim(),
+        requiredFields: data.requiredFields.map((field) => ({ ...field, label: field.label.trim() })),
+        approvalWorkflowId: data.approvalWorkflowId === "none" ? null : Number(data.approvalWorkflowId),
+        reviewPeriodMonths: data.reviewPeriodMonths ? Number(data.reviewPeriodMonths) : null,
+        template: data.template,
+        active: data.active,
+      };
+      const response = editingCategory
+        ? await apiRequest("PUT", `/api/document-categories/${editingCategory.id}`, payload)
+        : await apiRequest("POST", "/api/document-categories", { ...payload, code: data.code.trim() });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/document-categories"] });
+      toast({
+        title: "Categoría guardada",
+        description: "La categoría se ha guardado correctamente.",
+      });
+      setShowDialog(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error al guardar categoría",
+        description: error instanceof Error ? error.message : "Error al guardar la categoría",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteCategoryMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/document-categories/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/document-categories"] });
+      toast({
+        title: "Categoría eliminada",
+        description: "La categoría se ha eliminado.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error al eliminar categoría",
+        description: error instanceof Error ? error.message : "Error al eliminar la categoría",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openNewDialog = () => {
+    setEditingCategory(null);
+    setForm(emptyForm);
+    setShowDialog(true);
+  };
+
+  const openEditDialog = (category: DocumentCategory) => {
+    setEditingCategory(category);
+    setForm({
+      code: category.code,
+      name: category.name,
+      prefix: category.prefix,
+      requiredFields: category.requiredFields,
+      approvalWorkflowId: category.approvalWorkflowId ? String(category.approvalWorkflowId) : "none",
+      reviewPeriodMonths: category.reviewPeriodMonths ? String(category.reviewPeriodMonths) : "",
+      template: category.template,
+      active: category.active,
+    });
+    setShowDialog(true);
+  };
+
+  const updateField = (index: number, update: Partial<CategoryField>) => {
+    setForm({
+      ...form,
+      requiredFields: form.requiredFields.map((field, i) => (i === index ? { ...field, ...update } : field)),
+    });
+  };
+
+  const handleSave = () => {
+    if (!form.code.trim() || !form.name.trim() || !form.prefix.trim()) {
+      toast({
+        title: "Error",
+        description: "Complete el código, el nombre y el prefijo de la categoría",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (form.requiredFields.some((field) => !field.key || !field.label.trim())) {
+      toast({
+        title: "Error",
+        description: "Cada campo obligatorio necesita una clave y una etiqueta",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveCategoryMutation.mutate(form);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-end">
+        <Button type="button" variant="outline" size="sm" onClick={openNewDialog}>
+          <Plus className="h-4 w-4 mr-1" />
+          Nueva categoría
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nombre</TableHead>
+                <TableHead>Prefijo</TableHead>
+                <TableHead>Campos</TableHead>
+                <TableHead>Revisión</TableHead>
+                <TableHead>Estado</TableHead>
+                <TableHead className="text-right">Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {categories.map((category) => (
+                <TableRow key={category.id}>
+                  <TableCell>
+                    <div>{category.name}</div>
+                    <div className="text-xs text-muted-foreground font-mono">{category.code}</div>
+                  </TableCell>
+                  <TableCell className="font-mono">{category.prefix}</TableCell>
+                  <TableCell>{category.requiredFields.length || "—"}</TableCell>
+                  <TableCell>{category.reviewPeriodMonths ? `${category.reviewPeriodMonths} meses` : "—"}</TableCell>
+                  <TableCell>
+                    {category.active ? (
+                      <Badge variant="outline" className="border-success text-success">Activa</Badge>
+                    ) : (
+                      <Badge variant="outline" className="text-muted-foreground">Inactiva</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => openEditDialog(category)}
+                      title="Editar categoría"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteCategoryMutation.mutate(category.id)}
+                      disabled={deleteCategoryMutation.isPending}
+                      title="Eliminar categoría"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingCategory ? "Editar categoría" : "Nueva categoría"}</DialogTitle>
+            <DialogDescription>
+              El código identifica a la categoría en los documentos y no se puede cambiar después.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="grid grid-cols-4 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="category-code">Código <span className="text-destructive">*</span></Label>
+                <Input
+                  id="category-code"
+                  value={form.code}
+                  disabled={!!editingCategory}
+                  onChange={(e) => setForm({ ...form, code: e.target.value.toLowerCase() })}
+                  placeholder="procedure"
+                  maxLength={30}
+                />
+              </div>
+              <div className="grid gap-2 col-span-2">
+                <Label htmlFor="category-name">Nombre <span className="text-destructive">*</span></Label>
+                <Input
+                  id="category-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="Procedimiento"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="category-prefix">Prefijo <span className="text-destructive">*</span></Label>
+                <Input
+                  id="category-prefix"
+                  value={form.prefix}
+                  onChange={(e) => setForm({ ...form, prefix: e.target.value.toUpperCase() })}
+                  placeholder="PRO"
+                  maxLength={5}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label>Ruta de aprobación por defecto</Label>
+                <Select
+                  value={form.approvalWorkflowId}
+                  onValueChange={(value) => setForm({ ...form, approvalWorkflowId: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Flujo de aprobación" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Según los flujos configurados</SelectItem>
+                    {workflows?.map((workflow) => (
+                      <SelectItem key={workflow.id} value={String(workflow.id)}>
+                        {workflow.name}{workflow.active ? "" : " (inactivo)"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="category-review-period">Revisión periódica (meses)</Label>
+                <Input
+                  id="category-review-period"
+                  type="number"
+                  min={1}
+                  max={120}
+                  value={form.reviewPeriodMonths}
+                  onChange={(e) => setForm({ ...form, reviewPeriodMonths: e.target.value })}
+                  placeholder="Sin revisión periódica"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground -mt-2">
+              Los flujos creados para esta categoría tienen prioridad sobre la ruta por defecto.
+            </p>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Campos obligatorios</Label>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setForm({ ...form, requiredFields: [...form.requiredFields, { ...emptyField }] })}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Añadir campo
+                </Button>
+              </div>
+              {form.requiredFields.length === 0 && (
+                <p className="text-xs text-muted-foreground">Los documentos de esta categoría no piden datos adicionales.</p>
+              )}
+              {form.requiredFields.map((field, index) => (
+                <div key={index} className="grid grid-cols-[1fr_1.5fr_1fr_auto] gap-2">
+                  <Input
+                    value={field.key}
+                    onChange={(e) => updateField(index, { key: e.target.value.toLowerCase().replace(/[^a-z0-9_]/g, "_") })}
+                    placeholder="clave"
+                    className="font-mono"
+                  />
+                  <Input
+                    value={field.label}
+                    onChange={(e) => updateField(index, { label: e.target.value })}
+                    placeholder="Etiqueta"
+                  />
+                  <Select
+                    value={field.type}
+                    onValueChange={(value) => updateField(index, { type: value as CategoryField["type"] })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Tipo" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CATEGORY_FIELD_TYPES.map((type) => (
+                        <SelectItem key={type} value={type}>{fieldTypeLabels[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setForm({ ...form, requiredFields: form.requiredFields.filter((_, i) => i !== index) })}
+                    title="Quitar campo"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="category-template">Plantilla de contenido</Label>
+              <Textarea
+                id="category-template"
+                value={form.template}
+                onChange={(e) => setForm({ ...form, template: e.target.value })}
+                rows={6}
+                placeholder="Texto con el que empieza el editor al crear un documento de esta categoría"
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="category-active">Categoría activa</Label>
+                <p className="text-xs text-muted-foreground">
+                  Las categorías inactivas conservan sus documentos, pero no se pueden elegir para documentos nuevos.
+                </p>
+              </div>
+              <Switch
+                id="category-active"
+                checked={form.active}
+                onCheckedChange={(checked) => setForm({ ...form, active: checked })}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setShowDialog(false)}>
+              Cancelar
+            </Button>
+            <Button type="button" onClick={handleSave} disabled={saveCategoryMutation.isPending}>
+              {saveCategoryMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Guardar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Document, DocumentTransitionAction, SearchResult } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList
+} from "@/components/ui/command";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription
+} from "@/components/ui/dialog";
+import { Check, Loader2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { documentActionLabels } from "@/lib/document-status";
+import { useToast } from "@/hooks/use-toast";
+import { useDocumentSearch } from "@/hooks/use-document-search";
+import { cn } from "@/lib/utils";
+
+// Actions that retire a document ask for confirmation, a reason and, to supersede it, its successor
+const CONFIRMED_ACTIONS: DocumentTransitionAction[] = ["supersede", "make_obsolete", "archive"];
+
+const actionDescriptions: Partial<Record<DocumentTransitionAction, string>> = {
+  supersede: "El documento deja de estar vigente y se indica el documento publicado que lo reemplaza.",
+  make_obsolete: "El documento deja de estar vigente sin reemplazo. Indique el motivo.",
+  archive: "El documento se conserva como registro histórico y ya no se puede modificar.",
+};
+
+// Lifecycle buttons for the preview footer; the server decides which ones the user gets
+export function DocumentLifecycleActions({ document }: { document: Document }) {
+  const { toast } = useToast();
+  const [pendingAction, setPendingAction] = useState<DocumentTransitionAction | null>(null);
+  const [reason, setReason] = useState("");
+  const [supersededBy, setSupersededBy] = useState<SearchResult["document"] | null>(null);
+  const [successorQuery, setSuccessorQuery] = useState("");
+
+  const { data: actions } = useQuery<DocumentTransitionAction[]>({
+    queryKey: [`/api/documents/${document.id}/transitions`],
+  });
+
+  // Successors are searched on the server among the published documents
+  const successorSearch = useDocumentSearch(pendingAction === "supersede" ? successorQuery : "", {
+    status: "published",
+    pageSize: 20,
+  });
+  const successors = (successorSearch.data?.results ?? [])
+    .map((result) => result.document)
+    .filter((candidate) => candidate.id !== document.id);
+
+  const transitionMutation = useMutation({
+    mutationFn: async (action: DocumentTransitionAction) => {
+      const res = await apiRequest("POST", `/api/documents/${document.id}/transitions`, {
+        action,
+        reason: reason.trim() || undefined,
+        supersededBy: action === "supersede" ? supersededBy?.id : undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: (_updated: Document, action) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/documents/${document.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/documents/${document.id}/transitions`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      toast({
+        title: "Estado actualizado",
+        description: `${documentActionLabels[action]}: operación completada.`,
+      });
+      setPendingAction(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al cambiar el estado",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAction = (action: DocumentTransitionAction) => {
+    if (!CONFIRMED_ACTIONS.includes(action)) {
+      setReason("");
+      transitionMutation.mutate(action);
+      return;
+    }
+    setReason("");
+    setSupersededBy(null);
+    setSuccessorQuery("");
+    setPendingAction(action);
+  };
+
+  const canConfirm = pendingAction === "supersede"
+    ? !!supersededBy
+    : pendingAction !== "make_obsolete" || !!reason.trim();
+
+  if (!actions || actions.length === 0) return null;
+
+  return (
+    <>
+      {actions.map((action) => (
+        <Button
+          key={action}
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => handleAction(action)}
+          disabled={transitionMutation.isPending}
+        >
+          {documentActionLabels[action]}
+        </Button>
+      ))}
+
+      <Dialog open={!!pendingAction} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>{pendingAction && documentActionLabels[pendingAction]}</DialogTitle>
+            <DialogDescription>{pendingAction && actionDescriptions[pendingAction]}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            {pendingAction === "supersede" && (
+              <div className="grid gap-2">
+                <Label>Sustituido por <span className="text-destructive">*</span></Label>
+                <Command shouldFilter={false} className="border rounded-md">
+                  <CommandInput
+                    placeholder="Buscar documento publicado por código o título..."
+                    value={successorQuery}
+                    onValueChange={setSuccessorQuery}
+                  />
+                  <CommandList className="max-h-48">
+                    {successorSearch.isSearching && !successorSearch.isLoading && (
+                      <CommandEmpty>No se encontraron documentos publicados</CommandEmpty>
+                    )}
+                    <CommandGroup>
+                      {successors.map((successor) => (
+                        <CommandItem key={successor.id} value={String(successor.id)} onSelect={() => setSupersededBy(successor)}>
+                          <Check className={cn("h-4 w-4", successor.id === supersededBy?.id ? "opacity-100" : "opacity-0")} />
+                          {successor.code ? `${successor.code} · ${successor.title}` : successor.title}
+                        </CommandItem>
+                      ))}
+                    </CommandGroup>
+                  </CommandList>
+                </Command>
+                {supersededBy && (
+                  <p className="text-sm text-muted-foreground">
+                    Seleccionado: {supersededBy.code ? `${supersededBy.code} · ${supersededBy.title}` : supersededBy.title}
+                  </p>
+                )}
+              </div>
+            )}
+            <div className="grid gap-2">
+              <Label htmlFor="transition-reason">
+                Motivo {pendingAction === "make_obsolete" && <span className="text-destructive">*</span>}
+              </Label>
+              <Textarea
+                id="transition-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={3}
+                maxLength={1000}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setPendingAction(null)}>
+              Cancelar
+            </Button>
+            <Button
+              type="button"
+              onClick={() => pendingAction && transitionMutation.mutate(pendingAction)}
+              disabled={!canConfirm || transitionMutation.isPending}
+            >
+              {transitionMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Confirmar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
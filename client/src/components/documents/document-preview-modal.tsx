@@ -1,10 +1,20 @@
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Button } from "@/components/ui/button";
-import { Document, User, Approval } from "@shared/schema";
-import { Download, Share, Edit, CheckCircle, X } from "lucide-react";
-import { useQuery } from "@tanstack/react-query";
-import { useState, useEffect } from "react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Document, User, Approval, isReviewOverdue } from "@shared/schema";
+import { Download, Share, Edit, CheckCircle, X, CalendarCheck } from "lucide-react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useDepartments } from "@/hooks/use-departments";
+import { useDocumentCategories } from "@/hooks/use-document-categories";
+import { DocumentVersionHistory } from "./document-version-history";
+import { DocumentAttachments } from "./document-attachments";
+import { DocumentLifecycleActions } from "./document-lifecycle-actions";
+import { documentStatusBadgeClasses, documentStatusLabels } from "@/lib/document-status";
 
 interface DocumentPreviewModalProps {
   open: boolean;
@@ -15,31 +25,76 @@ interface DocumentPreviewModalProps {
   };
 }
 
-export function DocumentPreviewModal({ open, onClose, document }: DocumentPreviewModalProps) {
-  const [documentVersions, setDocumentVersions] = useState<any[]>([]);
+export function DocumentPreviewModal({ open, onClose, document: initialDocument }: DocumentPreviewModalProps) {
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const { departmentName } = useDepartments();
+  const { categoryByCode, categoryName } = useDocumentCategories();
+  const { toast } = useToast();
   
-  useEffect(() => {
-    if (document?.id) {
-      // Here you would fetch document versions from API
-      // For now, we'll simulate it
-      const mockVersions = [
-        {
-          id: 1,
-          version: document.version,
-          createdAt: document.createdAt,
-          user: document.createdByUser
-        }
-      ];
-      setDocumentVersions(mockVersions);
-    }
-  }, [document]);
+  // Keep content and version fresh after a restore from the history tab
+  const { data: latestDocument } = useQuery<Document>({
+    queryKey: [`/api/documents/${initialDocument?.id}`],
+    enabled: open && !!initialDocument?.id,
+  });
   
-  if (!document) return null;
+  const supersededBy = latestDocument?.supersededBy ?? initialDocument?.supersededBy;
+  const { data: supersedingDocument } = useQuery<Document>({
+    queryKey: [`/api/documents/${supersededBy}`],
+    enabled: open && !!supersededBy,
+  });
+  
+  const reviewMutation = useMutation({
+    mutationFn: async (documentId: number) => {
+      const res = await apiRequest("POST", `/api/documents/${documentId}/review`);
+      return await res.json();
+    },
+    onSuccess: (reviewedDocument: Document) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/documents/${reviewedDocument.id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      toast({
+        title: "Revisión confirmada",
+        description: reviewedDocument.nextReviewAt
+          ? `Próxima revisión: ${new Date(reviewedDocument.nextReviewAt).toLocaleDateString()}`
+          : "El documento sigue vigente.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al confirmar la revisión",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  if (!initialDocument) return null;
+  
+  const document = latestDocument?.id === initialDocument.id
+    ? { ...initialDocument, ...latestDocument }
+    : initialDocument;
+  
+  const canEdit = !!user && (
+    document.createdBy === user.id ||
+    can("document.edit_any") ||
+    (can("document.edit_department") && document.department === user.department)
+  );
 
   const formatDate = (date: Date) => {
     return new Date(date).toLocaleDateString();
   };
 
+  // Metadata under the labels of the category's fields; keys the category no longer asks for keep their key
+  const categoryFields = categoryByCode(document.category)?.requiredFields ?? [];
+  const metadataEntries = Object.entries(document.metadata ?? {})
+    .filter(([, value]) => value)
+    .map(([key, value]) => ({
+      key,
+      label: categoryFields.find((field) => field.key === key)?.label ?? key,
+      value,
+    }));
+
   const formatDateTime = (date: Date) => {
     return `${new Date(date).toLocaleDateString()} - ${new Date(date).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}`;
   };
@@ -48,18 +103,13 @@ export function DocumentPreviewModal({ open, onClose, document }: DocumentPrevie
     <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
       <DialogContent className="max-w-4xl w-full max-h-[90vh] flex flex-col p-0">
         <DialogHeader className="px-6 py-4 border-b border-neutral-200 flex flex-row items-center justify-between">
-          <DialogTitle className="text-lg font-semibold text-neutral-900">{document.title}</DialogTitle>
+          <DialogTitle className="text-lg font-semibold text-neutral-900">
+            {document.code && <span className="font-mono text-neutral-500 mr-2">{document.code}</span>}
+            {document.title}
+          </DialogTitle>
           <div className="flex items-center space-x-2">
-            <span className={`px-2 py-1 text-xs font-medium rounded-full ${
-              document.status === "approved" ? "bg-success text-white" :
-              document.status === "pending" ? "bg-warning text-white" :
-              document.status === "rejected" ? "bg-destructive text-white" :
-              "bg-neutral-500 text-white"
-            }`}>
-              {document.status === "approved" ? "Aprobado" :
-               document.status === "pending" ? "Pendiente" :
-               document.status === "rejected" ? "Rechazado" :
-               "Borrador"}
+            <span className={`px-2 py-1 text-xs font-medium rounded-full ${documentStatusBadgeClasses[document.status]}`}>
+              {documentStatusLabels[document.status]}
             </span>
             <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClose}>
               <X className="h-4 w-4" />
@@ -67,108 +117,173 @@ export function DocumentPreviewModal({ open, onClose, document }: DocumentPrevie
           </div>
         </DialogHeader>
         
-        <ScrollArea className="flex-1 p-6">
-          <div className="flex flex-col space-y-6">
-            <div className="flex flex-col space-y-2">
-              <h3 className="text-md font-medium text-neutral-900">Información del Documento</h3>
-              <div className="grid grid-cols-2 gap-4 text-sm">
-                <div>
-                  <span className="text-neutral-500">Creado por:</span>
-                  <span className="ml-2 text-neutral-900">{document.createdByUser?.name || "Usuario"}</span>
-                </div>
-                <div>
-                  <span className="text-neutral-500">Fecha de creación:</span>
-                  <span className="ml-2 text-neutral-900">{formatDate(document.createdAt)}</span>
-                </div>
-                <div>
-                  <span className="text-neutral-500">Última actualización:</span>
-                  <span className="ml-2 text-neutral-900">{formatDate(document.updatedAt)}</span>
-                </div>
-                <div>
-                  <span className="text-neutral-500">Versión:</span>
-                  <span className="ml-2 text-neutral-900">{document.version}</span>
+        <Tabs defaultValue="document" className="flex-1 flex flex-col min-h-0">
+          <TabsList className="mx-6 mt-4 self-start">
+            <TabsTrigger value="document">Documento</TabsTrigger>
+            <TabsTrigger value="history">Historial de versiones</TabsTrigger>
+          </TabsList>
+          
+          <TabsContent value="document" className="flex-1 min-h-0 mt-0">
+            <ScrollArea className="h-full p-6">
+              <div className="flex flex-col space-y-6">
+                <div className="flex flex-col space-y-2">
+                  <h3 className="text-md font-medium text-neutral-900">Información del Documento</h3>
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <div>
+                      <span className="text-neutral-500">Código:</span>
+                      <span className="ml-2 text-neutral-900 font-mono">{document.code || "Se asignará al aprobarse"}</span>
+                    </div>
+                    <div>
+                      <span className="text-neutral-500">Creado por:</span>
+                      <span className="ml-2 text-neutral-900">{document.createdByUser?.name || "Usuario"}</span>
+                    </div>
+                    <div>
+                      <span className="text-neutral-500">Fecha de creación:</span>
+                      <span className="ml-2 text-neutral-900">{formatDate(document.createdAt)}</span>
+                    </div>
+                    <div>
+                      <span className="text-neutral-500">Última actualización:</span>
+                      <span className="ml-2 text-neutral-900">{formatDate(document.updatedAt)}</span>
+                    </div>
+                    <div>
+                      <span className="text-neutral-500">Versión:</span>
+                      <span className="ml-2 text-neutral-900">{document.version}</span>
+                    </div>
+                    <div>
+                      <span className="text-neutral-500">Versión publicada:</span>
+                      <span className="ml-2 text-neutral-900">{document.publishedVersion || "Sin publicar"}</span>
+                    </div>
+                    <div>
+                      <span className="text-neutral-500">Revisión periódica:</span>
+                      <span className="ml-2 text-neutral-900">
+                        {document.reviewPeriodMonths ? `Cada ${document.reviewPeriodMonths} meses` : "Sin revisión periódica"}
+                      </span>
+                    </div>
+                    <div>
+                      <span className="text-neutral-500">Próxima revisión:</span>
+                      <span className={`ml-2 ${isReviewOverdue(document) ? "text-destructive font-medium" : "text-neutral-900"}`}>
+                        {document.nextReviewAt
+                          ? `${formatDate(document.nextReviewAt)}${isReviewOverdue(document) ? " (vencida)" : ""}`
+                          : document.reviewPeriodMonths ? "Al publicarse" : "—"}
+                      </span>
+                    </div>
+                    <div>
+                      <span className="text-neutral-500">Departamento:</span>
+                      <span className="ml-2 text-neutral-900">{departmentName(document.department)}</span>
+                    </div>
+                    <div>
+                      <span className="text-neutral-500">Categoría:</span>
+                      <span className="ml-2 text-neutral-900">{categoryName(document.category)}</span>
+                    </div>
+                    {document.statusChangedAt && (
+                      <div>
+                        <span className="text-neutral-500">{documentStatusLabels[document.status]} desde:</span>
+                        <span className="ml-2 text-neutral-900">{formatDate(document.statusChangedAt)}</span>
+                      </div>
+                    )}
+                    {document.statusReason && (
+                      <div>
+                        <span className="text-neutral-500">Motivo:</span>
+                        <span className="ml-2 text-neutral-900">{document.statusReason}</span>
+                      </div>
+                    )}
+                    {document.supersededBy && (
+                      <div>
+                        <span className="text-neutral-500">Sustituido por:</span>
+                        <span className="ml-2 text-neutral-900">{supersedingDocument?.code ?? supersedingDocument?.title ?? `#${document.supersededBy}`}</span>
+                      </div>
+                    )}
+                    {metadataEntries.map((entry) => (
+                      <div key={entry.key}>
+                        <span className="text-neutral-500">{entry.label}:</span>
+                        <span className="ml-2 text-neutral-900">{entry.value}</span>
+                      </div>
+                    ))}
+                  </div>
                 </div>
-                <div>
-                  <span className="text-neutral-500">Departamento:</span>
-                  <span className="ml-2 text-neutral-900">{document.department}</span>
+                
+                <div className="border-t border-neutral-200 pt-6">
+                  <h3 className="text-md font-medium text-neutral-900 mb-4">Contenido del Documento</h3>
+                  
+                  {document.category === "process" && (
+                    <img 
+                      src="https://pixabay.com/get/g00b9e2d22c630fcdb1ecbfe40596e91babb8132ec8f9fa42bb26d971b7f7e6b16c908b73b969fe5e8a1651e97bc867cf399df130ffe3d8882b722ca1966a0b72_1280.jpg" 
+                      alt="Diagrama de flujo del proceso" 
+                      className="w-full h-auto rounded-lg mb-6" 
+                    />
+                  )}
+                  
+                  <div className="space-y-4 text-sm text-neutral-800">
+                    {document.content.split('\n').map((paragraph, index) => (
+                      <p key={index}>{paragraph}</p>
+                    ))}
+                  </div>
                 </div>
-                <div>
-                  <span className="text-neutral-500">Categoría:</span>
-                  <span className="ml-2 text-neutral-900">{document.category}</span>
+                
+                <div className="border-t border-neutral-200 pt-6">
+                  <DocumentAttachments documentId={document.id} canEdit={canEdit} />
                 </div>
-              </div>
-            </div>
-            
-            <div className="border-t border-neutral-200 pt-6">
-              <h3 className="text-md font-medium text-neutral-900 mb-4">Contenido del Documento</h3>
-              
-              {document.category === "process" && (
-                <img 
-                  src="https://pixabay.com/get/g00b9e2d22c630fcdb1ecbfe40596e91babb8132ec8f9fa42bb26d971b7f7e6b16c908b73b969fe5e8a1651e97bc867cf399df130ffe3d8882b722ca1966a0b72_1280.jpg" 
-                  alt="Diagrama de flujo del proceso" 
-                  className="w-full h-auto rounded-lg mb-6" 
-                />
-              )}
-              
-              <div className="space-y-4 text-sm text-neutral-800">
-                {document.content.split('\n').map((paragraph, index) => (
-                  <p key={index}>{paragraph}</p>
-                ))}
-              </div>
-            </div>
-            
-            {document.approvals && document.approvals.length > 0 && (
-              <div className="border-t border-neutral-200 pt-6">
-                <h3 className="text-md font-medium text-neutral-900 mb-4">Historial de Aprobaciones</h3>
-                <div className="bg-neutral-50 rounded-lg p-4">
-                  <div className="space-y-4">
-                    {document.approvals.map((approval) => (
-                      <div key={approval.id} className="flex items-start">
-                        <div className={`h-8 w-8 rounded-full ${
-                          approval.status === "approved" ? "bg-success" :
-                          approval.status === "rejected" ? "bg-destructive" :
-                          "bg-warning"
-                        } flex items-center justify-center mr-3`}>
-                          {approval.status === "approved" ? (
-                            <CheckCircle className="h-4 w-4 text-white" />
-                          ) : approval.status === "rejected" ? (
-                            <X className="h-4 w-4 text-white" />
-                          ) : (
-                            <div className="h-4 w-4 rounded-full border-2 border-white" />
-                          )}
-                        </div>
-                        <div>
-                          <div className="text-sm font-medium text-neutral-900">
-                            {approval.status === "approved" 
-                              ? `Aprobado por ${approval.user?.name}`
-                              : approval.status === "rejected"
-                              ? `Rechazado por ${approval.user?.name}`
-                              : `Pendiente de aprobación por ${approval.user?.name}`
-                            }
-                            {approval.user?.role && ` (${
-                              approval.user.role === "manager" ? "Manager" :
-                              approval.user.role === "coordinator" ? "Coordinador" :
-                              approval.user.role === "admin" ? "Administrador" :
-                              approval.user.role
-                            }${approval.user.department ? ` de ${approval.user.department}` : ""})`}
-                          </div>
-                          <div className="mt-1 text-xs text-neutral-500">
-                            {approval.approvedAt ? formatDateTime(approval.approvedAt) : formatDateTime(approval.createdAt)}
-                          </div>
-                          {approval.comments && (
-                            <div className="mt-1 text-xs text-neutral-700">
-                              Comentario: "{approval.comments}"
+                
+                {document.approvals && document.approvals.length > 0 && (
+                  <div className="border-t border-neutral-200 pt-6">
+                    <h3 className="text-md font-medium text-neutral-900 mb-4">Historial de Aprobaciones</h3>
+                    <div className="bg-neutral-50 rounded-lg p-4">
+                      <div className="space-y-4">
+                        {document.approvals.map((approval) => (
+                          <div key={approval.id} className="flex items-start">
+                            <div className={`h-8 w-8 rounded-full ${
+                              approval.status === "approved" ? "bg-success" :
+                              approval.status === "rejected" ? "bg-destructive" :
+                              "bg-warning"
+                            } flex items-center justify-center mr-3`}>
+                              {approval.status === "approved" ? (
+                                <CheckCircle className="h-4 w-4 text-white" />
+                              ) : approval.status === "rejected" ? (
+                                <X className="h-4 w-4 text-white" />
+                              ) : (
+                                <div className="h-4 w-4 rounded-full border-2 border-white" />
+                              )}
+                            </div>
+                            <div>
+                              <div className="text-sm font-medium text-neutral-900">
+                                {approval.status === "approved" 
+                                  ? `Aprobado por ${approval.user?.name}`
+                                  : approval.status === "rejected"
+                                  ? `Rechazado por ${approval.user?.name}`
+                                  : `Pendiente de aprobación por ${approval.user?.name}`
+                                }
+                                {approval.user?.role && ` (${
+                                  approval.user.role === "manager" ? "Manager" :
+                                  approval.user.role === "coordinator" ? "Coordinador" :
+                                  approval.user.role === "admin" ? "Administrador" :
+                                  approval.user.role
+                                }${approval.user.department ? ` de ${departmentName(approval.user.department)}` : ""})`}
+                              </div>
+                              <div className="mt-1 text-xs text-neutral-500">
+                                {approval.approvedAt ? formatDateTime(approval.approvedAt) : formatDateTime(approval.createdAt)}
+                              </div>
+                              {approval.comments && (
+                                <div className="mt-1 text-xs text-neutral-700">
+                                  Comentario: "{approval.comments}"
+                                </div>
+                              )}
                             </div>
-                          )}
-                        </div>
+                          </div>
+                        ))}
                       </div>
-                    ))}
+                    </div>
                   </div>
-                </div>
+                )}
               </div>
-            )}
-          </div>
-        </ScrollArea>
+            </ScrollArea>
+          </TabsContent>
+          
+          <TabsContent value="history" className="flex-1 min-h-0 mt-0">
+            <ScrollArea className="h-full p-6">
+              <DocumentVersionHistory documentId={document.id} canRestore={canEdit} />
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
         
         <div className="px-6 py-4 border-t border-neutral-200 flex justify-between">
           <div className="flex space-x-2">
@@ -181,7 +296,21 @@ export function DocumentPreviewModal({ open, onClose, document }: DocumentPrevie
               Compartir
             </Button>
           </div>
-          <div>
+          <div className="flex space-x-2">
+            <DocumentLifecycleActions document={document} />
+            {canEdit && document.status === "published" && document.reviewPeriodMonths && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex items-center"
+                onClick={() => reviewMutation.mutate(document.id)}
+                disabled={reviewMutation.isPending}
+                title="Confirma que el documento sigue vigente y programa la próxima revisión"
+              >
+                <CalendarCheck className="h-4 w-4 mr-1" />
+                Confirmar revisión
+              </Button>
+            )}
             <Button variant="default" size="sm" className="flex items-center bg-primary hover:bg-primary/90">
               <Edit className="h-4 w-4 mr-1" />
               Editar Documento
@@ -0,0 +1,222 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { DocumentVersion } from "@shared/schema";
+import { History, Loader2, RotateCcw } from "lucide-react";
+
+type VersionEntry = DocumentVersion & {
+  createdByName?: string;
+  isCurrent: boolean;
+};
+
+type DiffOperation = "equal" | "added" | "removed";
+
+type LineChange =
+  | { type: DiffOperation; value: string }
+  | { type: "modified"; oldValue: string; value: string; words: { type: DiffOperation; value: string }[] };
+
+interface VersionDiff {
+  stats: { added: number; removed: number; modified: number };
+  changes: LineChange[];
+}
+
+interface DocumentVersionHistoryProps {
+  documentId: number;
+  canRestore: boolean;
+}
+
+function DiffLine({ change }: { change: LineChange }) {
+  if (change.type === "modified") {
+    return (
+      <div className="px-3 py-0.5 bg-amber-50 border-l-2 border-amber-400 whitespace-pre-wrap">
+        {change.words.map((word, index) => (
+          <span
+            key={index}
+            className={
+              word.type === "added" ? "bg-green-200 text-green-900" :
+              word.type === "removed" ? "bg-red-200 text-red-900 line-through" :
+              ""
+            }
+          >
+            {word.value}
+          </span>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className={`px-3 py-0.5 whitespace-pre-wrap ${
+      change.type === "added" ? "bg-green-50 border-l-2 border-green-500 text-green-900" :
+      change.type === "removed" ? "bg-red-50 border-l-2 border-red-500 text-red-900 line-through" :
+      "border-l-2 border-transparent text-neutral-700"
+    }`}>
+      {change.value || " "}
+    </div>
+  );
+}
+
+export function DocumentVersionHistory({ documentId, canRestore }: DocumentVersionHistoryProps) {
+  const { toast } = useToast();
+  const [fromId, setFromId] = useState<string>("");
+  const [toId, setToId] = useState<string>("");
+
+  const { data: versions = [], isLoading } = useQuery<VersionEntry[]>({
+    queryKey: [`/api/documents/${documentId}/versions`],
+  });
+
+  // Compare the two latest versions by default
+  useEffect(() => {
+    if (versions.length > 1) {
+      setToId(String(versions[0].id));
+      setFromId(String(versions[1].id));
+    }
+  }, [versions]);
+
+  const { data: diff, isLoading: isDiffLoading } = useQuery<VersionDiff>({
+    queryKey: [`/api/documents/${documentId}/versions/diff?from=${fromId}&to=${toId}`],
+    enabled: !!fromId && !!toId && fromId !== toId,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (versionId: number) => {
+      const res = await apiRequest("POST", `/api/documents/${documentId}/versions/${versionId}/restore`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/documents/${documentId}/versions`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/documents/${documentId}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      toast({
+        title: "Versión restaurada",
+        description: "El contenido se ha restaurado como una nueva versión del documento.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al restaurar",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatDateTime = (date: Date) => {
+    return `${new Date(date).toLocaleDateString()} - ${new Date(date).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}`;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col space-y-6">
+      <div>
+        <h3 className="text-md font-medium text-neutral-900 mb-4">Versiones</h3>
+        <div className="space-y-2">
+          {versions.map((version) => (
+            <div key={version.id} className="flex items-center justify-between bg-neutral-50 rounded-lg px-4 py-3">
+              <div className="flex items-start">
+                <History className="h-4 w-4 text-neutral-500 mr-3 mt-0.5" />
+                <div>
+                  <div className="text-sm font-medium text-neutral-900">
+                    Versión {version.version}
+                    {version.isCurrent && (
+                      <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-primary text-white">Actual</span>
+                    )}
+                    {version.isPublished && (
+                      <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-success text-white">Publicada</span>
+                    )}
+                  </div>
+                  <div className="mt-1 text-xs text-neutral-500">
+                    {version.createdByName || "Usuario"} · {formatDateTime(version.createdAt)}
+                    {version.attachmentIds.length > 0 && ` · ${version.attachmentIds.length} adjunto${version.attachmentIds.length === 1 ? "" : "s"}`}
+                  </div>
+                </div>
+              </div>
+              {canRestore && !version.isCurrent && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="flex items-center"
+                  disabled={restoreMutation.isPending}
+                  onClick={() => restoreMutation.mutate(version.id)}
+                >
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  Restaurar
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {versions.length > 1 && (
+        <div className="border-t border-neutral-200 pt-6">
+          <h3 className="text-md font-medium text-neutral-900 mb-4">Comparar versiones</h3>
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <div className="space-y-2">
+              <Label>Desde</Label>
+              <Select value={fromId} onValueChange={setFromId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Seleccionar versión" />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map((version) => (
+                    <SelectItem key={version.id} value={String(version.id)}>
+                      Versión {version.version}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Hasta</Label>
+              <Select value={toId} onValueChange={setToId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Seleccionar versión" />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map((version) => (
+                    <SelectItem key={version.id} value={String(version.id)}>
+                      Versión {version.version}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {fromId === toId ? (
+            <p className="text-sm text-neutral-500">Selecciona dos versiones distintas para ver los cambios.</p>
+          ) : isDiffLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            </div>
+          ) : diff && (
+            <>
+              <div className="flex space-x-4 text-xs mb-2">
+                <span className="text-green-700">+{diff.stats.added} líneas añadidas</span>
+                <span className="text-red-700">-{diff.stats.removed} líneas eliminadas</span>
+                <span className="text-amber-700">~{diff.stats.modified} líneas modificadas</span>
+              </div>
+              <div className="rounded-lg border border-neutral-200 font-mono text-xs py-2">
+                {diff.changes.map((change, index) => (
+                  <DiffLine key={index} change={change} />
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
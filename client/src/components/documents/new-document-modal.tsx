@@ -1,10 +1,12 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
 import {
   Bold,
   Italic,
@@ -18,11 +20,14 @@ import {
 } from "lucide-react";
 import { useForm, Controller } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertDocumentSchema, InsertDocument } from "@shared/schema";
+import { insertDocumentSchema, InsertDocument, User } from "@shared/schema";
 import { useAuth } from "@/hooks/use-auth";
 import { useMutation, useQuery } from "@tanstack/react-query";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, apiUpload, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useDepartments } from "@/hooks/use-departments";
+import { useDocumentCategories } from "@/hooks/use-document-categories";
+import { ATTACHMENT_ACCEPT, formatFileSize } from "./document-attachments";
 import { z } from "zod";
 
 interface NewDocumentModalProps {
@@ -41,16 +46,25 @@ const documentFormSchema = insertDocumentSchema.extend({
 
 type DocumentFormValues = z.infer<typeof documentFormSchema>;
 
+
 export function NewDocumentModal({ open, onClose }: NewDocumentModalProps) {
   const { toast } = useToast();
   const { user } = useAuth();
+  const { activeDepartments, departmentName } = useDepartments();
+  const { activeCategories, categoryByCode } = useDocumentCategories();
   const [reviewers, setReviewers] = useState<number[]>([]);
+  const [autoAssignReviewers, setAutoAssignReviewers] = useState(true);
+  const [files, setFiles] = useState<File[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   
   const {
     register,
     handleSubmit,
     control,
     reset,
+    watch,
+    getValues,
+    setValue,
     formState: { errors, isSubmitting },
   } = useForm<DocumentFormValues>({
     resolver: zodResolver(documentFormSchema),
@@ -60,19 +74,38 @@ export function NewDocumentModal({ open, onClose }: NewDocumentModalProps) {
       content: "",
       department: user?.department || "",
       category: "",
-      status: "draft",
-      version: "1.0",
       createdBy: user?.id || 0,
+      visibleDepartments: [],
+      metadata: {},
     },
   });
   
-  // Query to get users who can be reviewers (managers, coordinators)
-  const { data: potentialReviewers } = useQuery({
-    queryKey: ["/api/users"],
-    select: (users) => users.filter(user => 
-      ["manager", "coordinator", "admin"].includes(user.role)
-    ),
-    enabled: open && (user?.role === "admin" || user?.role === "manager" || user?.role === "coordinator"),
+  const selectedCategory = categoryByCode(watch("category"));
+  const requiredFields = selectedCategory?.requiredFields ?? [];
+  
+  // The category's template fills the editor unless the author already wrote something of their own
+  const changeCategory = (code: string) => {
+    const previousTemplate = categoryByCode(getValues("category"))?.template ?? "";
+    const content = getValues("content");
+    const template = categoryByCode(code)?.template ?? "";
+    if (!content.trim() || content === previousTemplate) {
+      setValue("content", template);
+    }
+    // Documents are reviewed as often as their category asks unless the author changes it
+    setValue("reviewPeriodMonths", categoryByCode(code)?.reviewPeriodMonths ?? null);
+  };
+  
+  const resetForm = () => {
+    reset();
+    setReviewers([]);
+    setAutoAssignReviewers(true);
+    setFiles([]);
+  };
+  
+  // Query to get users who can be reviewers (managers, coordinators, admins)
+  const { data: potentialReviewers } = useQuery<Pick<User, "id" | "name" | "role" | "department">[]>({
+    queryKey: ["/api/users/reviewers"],
+    enabled: open,
   });
   
   const createDocumentMutation = useMutation({
@@ -86,7 +119,7 @@ export function NewDocumentModal({ open, onClose }: NewDocumentModalProps) {
         title: "Documento creado",
         description: "El documento se ha creado exitosamente.",
       });
-      reset();
+      resetForm();
       onClose();
     },
     onError: (error) => {
@@ -98,6 +131,22 @@ export function NewDocumentModal({ open, onClose }: NewDocumentModalProps) {
     },
   });
   
+  const uploadAttachmentsMutation = useMutation({
+    mutationFn: async ({ documentId, files }: { documentId: number; files: File[] }) => {
+      const formData = new FormData();
+      files.forEach((file) => formData.append("files", file));
+      const response = await apiUpload(`/api/documents/${documentId}/attachments`, formData);
+      return response.json();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Hubo un error al adjuntar los archivos",
+        variant: "destructive",
+      });
+    },
+  });
+  
   const submitForApprovalMutation = useMutation({
     mutationFn: async (documentId: number) => {
       const response = await apiRequest("POST", `/api/documents/${documentId}/submit`, {});
@@ -109,7 +158,7 @@ export function NewDocumentModal({ open, onClose }: NewDocumentModalProps) {
         title: "Documento enviado",
         description: "El documento se ha enviado para aprobación exitosamente.",
       });
-      reset();
+      resetForm();
       onClose();
     },
     onError: (error) => {
@@ -122,13 +171,37 @@ export function NewDocumentModal({ open, onClose }: NewDocumentModalProps) {
   });
   
   const onSubmit = async (data: DocumentFormValues, asDraft: boolean = true) => {
+    // Captured before the create callbacks reset the form
+    const selectedFiles = files;
+    
+    // Only the fields of the chosen category are kept, in case the author switched categories
+    const metadata = Object.fromEntries(
+      requiredFields.map((field) => [field.key, data.metadata?.[field.key]?.trim() ?? ""])
+    );
+    const missingFields = requiredFields.filter((field) => !metadata[field.key]);
+    if (missingFields.length > 0) {
+      toast({
+        title: "Error",
+        description: `Complete los campos obligatorios: ${missingFields.map((field) => field.label).join(", ")}`,
+        variant: "destructive",
+      });
+      return;
+    }
+    
     try {
-      // Create document
+      // Create document; submission moves it to pending through the approval workflow
       const document = await createDocumentMutation.mutateAsync({
         ...data,
-        status: asDraft ? "draft" : "pending",
+        metadata,
+        reviewerIds: reviewers,
+        autoAssignReviewers,
       });
       
+      // Attachments need the document id, so they go up right after creation
+      if (selectedFiles.length > 0) {
+        await uploadAttachmentsMutation.mutateAsync({ documentId: document.id, files: selectedFiles });
+      }
+      
       // If not draft, submit for approval
       if (!asDraft) {
         await submitForApprovalMutation.mutateAsync(document.id);
@@ -147,9 +220,15 @@ export function NewDocumentModal({ open, onClose }: NewDocumentModalProps) {
   };
   
   const handleCancel = () => {
-    reset();
+    resetForm();
     onClose();
   };
+  
+  const toggleReviewer = (reviewerId: number, checked: boolean) => {
+    setReviewers((current) =>
+      checked ? [...current, reviewerId] : current.filter((id) => id !== reviewerId)
+    );
+  };
 
   return (
     <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
@@ -195,11 +274,9 @@ export function NewDocumentModal({ open, onClose }: NewDocumentModalProps) {
                         <SelectValue placeholder="Seleccionar departamento" />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="Production">Producción</SelectItem>
-                        <SelectItem value="Quality">Control de Calidad</SelectItem>
-                        <SelectItem value="HR">Recursos Humanos</SelectItem>
-                        <SelectItem value="Logistics">Logística</SelectItem>
-                        <SelectItem value="Sales">Ventas</SelectItem>
+                        {activeDepartments.map((department) => (
+                          <SelectItem key={department.code} value={department.code}>{department.name}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                   )}
@@ -218,18 +295,19 @@ export function NewDocumentModal({ open, onClose }: NewDocumentModalProps) {
                   control={control}
                   render={({ field }) => (
                     <Select
-                      onValueChange={field.onChange}
+                      onValueChange={(value) => {
+                        changeCategory(value);
+                        field.onChange(value);
+                      }}
                       defaultValue={field.value}
                     >
                       <SelectTrigger className={errors.category ? "border-destructive" : ""}>
                         <SelectValue placeholder="Seleccionar categoría" />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="process">Proceso Operativo</SelectItem>
-                        <SelectItem value="policy">Política</SelectItem>
-                        <SelectItem value="instruction">Instructivo</SelectItem>
-                        <SelectItem value="procedure">Procedimiento</SelectItem>
-                        <SelectItem value="manual">Manual</SelectItem>
+                        {activeCategories.map((category) => (
+                          <SelectItem key={category.code} value={category.code}>{category.name}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                   )}
@@ -240,6 +318,81 @@ export function NewDocumentModal({ open, onClose }: NewDocumentModalProps) {
               </div>
             </div>
             
+            {requiredFields.length > 0 && (
+              <div className="grid grid-cols-2 gap-4">
+                {requiredFields.map((field) => (
+                  <div key={field.key}>
+                    <Label htmlFor={`metadata-${field.key}`} className="block text-sm font-medium text-neutral-700 mb-1">
+                      {field.label} <span className="text-destructive">*</span>
+                    </Label>
+                    <Input
+                      id={`metadata-${field.key}`}
+                      type={field.type}
+                      {...register(`metadata.${field.key}`)}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+            
+            <div>
+              <Label htmlFor="reviewPeriodMonths" className="block text-sm font-medium text-neutral-700 mb-1">
+                Revisión periódica (meses)
+              </Label>
+              <Controller
+                name="reviewPeriodMonths"
+                control={control}
+                render={({ field }) => (
+                  <Input
+                    id="reviewPeriodMonths"
+                    type="number"
+                    min={1}
+                    max={120}
+                    value={field.value ?? ""}
+                    onChange={(e) => field.onChange(e.target.value ? Number(e.target.value) : null)}
+                    placeholder="Sin revisión periódica"
+                    className={`w-48 ${errors.reviewPeriodMonths ? "border-destructive" : ""}`}
+                  />
+                )}
+              />
+              <p className="text-xs text-neutral-500 mt-1">
+                Una vez aprobado, el documento deberá revisarse con esta frecuencia.
+              </p>
+            </div>
+            
+            <div>
+              <Label className="block text-sm font-medium text-neutral-700 mb-1">
+                Visible para
+              </Label>
+              <Controller
+                name="visibleDepartments"
+                control={control}
+                render={({ field }) => {
+                  const selected = field.value ?? [];
+                  return (
+                    <div className="flex flex-wrap gap-x-4 gap-y-2">
+                      {activeDepartments.map((department) => (
+                        <label key={department.code} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={selected.includes(department.code)}
+                            onCheckedChange={(checked) => field.onChange(
+                              checked === true
+                                ? [...selected, department.code]
+                                : selected.filter((value) => value !== department.code)
+                            )}
+                          />
+                          {department.name}
+                        </label>
+                      ))}
+                    </div>
+                  );
+                }}
+              />
+              <p className="text-xs text-neutral-500 mt-1">
+                Departamentos que podrán consultarlo una vez publicado. Sin selección, será visible para toda la organización.
+              </p>
+            </div>
+            
             <div>
               <Label htmlFor="description" className="block text-sm font-medium text-neutral-700 mb-1">
                 Descripción
@@ -277,7 +430,19 @@ export function NewDocumentModal({ open, onClose }: NewDocumentModalProps) {
                   <Button type="button" variant="ghost" size="icon" className="h-8 w-8">
                     <Image className="h-4 w-4 text-neutral-700" />
                   </Button>
-                  <Button type="button" variant="ghost" size="icon" className="h-8 w-8">
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    multiple
+                    accept={ATTACHMENT_ACCEPT}
+                    className="hidden"
+                    onChange={(e) => {
+                      const selected = Array.from(e.target.files || []);
+                      setFiles((current) => [...current, ...selected]);
+                      e.target.value = "";
+                    }}
+                  />
+                  <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => fileInputRef.current?.click()}>
                     <Paperclip className="h-4 w-4 text-neutral-700" />
                   </Button>
                 </div>
@@ -292,31 +457,70 @@ export function NewDocumentModal({ open, onClose }: NewDocumentModalProps) {
               {errors.content && (
                 <p className="text-xs text-destructive mt-1">{errors.content.message}</p>
               )}
+              {files.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {files.map((file, index) => (
+                    <span key={index} className="inline-flex items-center px-2 py-1 rounded-md bg-neutral-100 text-xs text-neutral-700">
+                      <Paperclip className="h-3 w-3 mr-1" />
+                      {file.name} ({formatFileSize(file.size)})
+                      <button
+                        type="button"
+                        className="ml-1 text-neutral-500 hover:text-neutral-700"
+                        onClick={() => setFiles((current) => current.filter((_, i) => i !== index))}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
             </div>
             
             <div>
               <Label htmlFor="reviewers" className="block text-sm font-medium text-neutral-700 mb-1">
                 Revisores
               </Label>
-              <Select>
-                <SelectTrigger>
-                  <SelectValue placeholder="Seleccione revisores" />
-                </SelectTrigger>
-                <SelectContent>
-                  {potentialReviewers ? (
+              <div className="border border-neutral-300 rounded-md max-h-40 overflow-y-auto divide-y divide-neutral-100">
+                {potentialReviewers ? (
+                  potentialReviewers.length > 0 ? (
                     potentialReviewers.map((reviewer) => (
-                      <SelectItem key={reviewer.id} value={reviewer.id.toString()}>
-                        {reviewer.name} ({reviewer.role === "manager" ? "Manager" : 
-                         reviewer.role === "coordinator" ? "Coordinador" : "Admin"} de {reviewer.department})
-                      </SelectItem>
+                      <label
+                        key={reviewer.id}
+                        className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer hover:bg-neutral-50"
+                      >
+                        <Checkbox
+                          checked={reviewers.includes(reviewer.id)}
+                          onCheckedChange={(checked) => toggleReviewer(reviewer.id, checked === true)}
+                        />
+                        <span>
+                          {reviewer.name} ({reviewer.role === "manager" ? "Manager" : 
+                           reviewer.role === "coordinator" ? "Coordinador" : "Admin"} de {departmentName(reviewer.department)})
+                        </span>
+                      </label>
                     ))
                   ) : (
-                    <SelectItem value="loading">Cargando revisores...</SelectItem>
-                  )}
-                </SelectContent>
-              </Select>
+                    <p className="px-3 py-2 text-sm text-neutral-500">No hay revisores disponibles.</p>
+                  )
+                ) : (
+                  <p className="px-3 py-2 text-sm text-neutral-500">Cargando revisores...</p>
+                )}
+              </div>
+              <div className="mt-2 flex items-center justify-between">
+                <Label htmlFor="auto-assign-reviewers" className="text-sm text-neutral-700">
+                  Asignar automáticamente según la jerarquía si no hay revisores seleccionados
+                </Label>
+                <Switch
+                  id="auto-assign-reviewers"
+                  checked={autoAssignReviewers}
+                  onCheckedChange={setAutoAssignReviewers}
+                />
+              </div>
               <p className="mt-1 text-xs text-neutral-500">
-                Los revisores serán asignados automáticamente según la jerarquía.
+                {reviewers.length > 0
+                  ? `Solo los ${reviewers.length} revisor(es) seleccionado(s) recibirán la solicitud de aprobación.`
+                  : autoAssignReviewers
+                  ? "Los revisores serán asignados automáticamente según la jerarquía."
+                  : "Seleccione al menos un revisor para poder enviar el documento a aprobación."}
               </p>
             </div>
           </form>
@@ -0,0 +1,106 @@
+import { Button } from "@/components/ui/button";
+import { SEARCH_HIGHLIGHT_START, SEARCH_HIGHLIGHT_END, SearchResponse, SearchResult } from "@shared/schema";
+import { ChevronLeft, ChevronRight, FileText } from "lucide-react";
+import { useDepartments } from "@/hooks/use-departments";
+import { useDocumentCategories } from "@/hooks/use-document-categories";
+
+// Renders search highlights (delimited by private-use markers) as <mark> elements
+export function HighlightedText({ text }: { text: string }) {
+  const parts = text.split(SEARCH_HIGHLIGHT_START);
+
+  return (
+    <>
+      {parts.map((part, index) => {
+        if (index === 0) return <span key={index}>{part}</span>;
+        const [highlighted, rest] = part.split(SEARCH_HIGHLIGHT_END);
+        return (
+          <span key={index}>
+            <mark className="bg-yellow-200 text-inherit rounded-sm px-0.5">{highlighted}</mark>
+            {rest}
+          </span>
+        );
+      })}
+    </>
+  );
+}
+
+interface SearchResultsProps {
+  response: SearchResponse;
+  onSelect: (result: SearchResult) => void;
+  onPageChange: (page: number) => void;
+}
+
+export function SearchResults({ response, onSelect, onPageChange }: SearchResultsProps) {
+  const { departmentName } = useDepartments();
+  const { categoryName } = useDocumentCategories();
+  const totalPages = Math.max(1, Math.ceil(response.total / response.pageSize));
+
+  if (response.results.length === 0) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        <FileText className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+        <h3 className="text-lg font-medium mb-2">Sin resultados</h3>
+        <p>Ningún documento coincide con la búsqueda.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {response.total} {response.total === 1 ? "resultado" : "resultados"}
+      </p>
+      <div className="space-y-3">
+        {response.results.map((result) => (
+          <button
+            key={result.document.id}
+            type="button"
+            className="block w-full text-left rounded-lg border border-neutral-200 bg-white p-4 hover:border-primary transition-colors"
+            onClick={() => onSelect(result)}
+          >
+            <div className="flex items-center justify-between">
+              <h3 className="font-medium text-neutral-900">
+                {result.document.code && (
+                  <span className="font-mono text-neutral-500 mr-2">{result.document.code}</span>
+                )}
+                <HighlightedText text={result.titleHighlight} />
+              </h3>
+              <span className="text-xs text-neutral-500">v{result.document.version}</span>
+            </div>
+            <div className="mt-1 text-xs text-neutral-500">
+              {departmentName(result.document.department)} · {categoryName(result.document.category)}
+            </div>
+            {result.snippet && (
+              <p className="mt-2 text-sm text-neutral-700 line-clamp-3">
+                <HighlightedText text={result.snippet} />
+              </p>
+            )}
+          </button>
+        ))}
+      </div>
+      {totalPages > 1 && (
+        <div className="flex items-center justify-center space-x-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={response.page <= 1}
+            onClick={() => onPageChange(response.page - 1)}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Página {response.page} de {totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={response.page >= totalPages}
+            onClick={() => onPageChange(response.page + 1)}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useDepartments } from "@/hooks/use-departments";
 import { useLocation } from "wouter";
 import { Link } from "wouter";
 import { 
@@ -21,6 +23,8 @@ interface SidebarProps {
 
 export function Sidebar({ pendingApprovalCount = 0, pendingTaskCount = 0 }: SidebarProps) {
   const { user, logoutMutation } = useAuth();
+  const { can } = usePermissions();
+  const { departmentName } = useDepartments();
   const [location] = useLocation();
   
   const isActive = (path: string) => {
@@ -67,7 +71,7 @@ export function Sidebar({ pendingApprovalCount = 0, pendingTaskCount = 0 }: Side
                user?.role === "manager" ? "Manager" : 
                user?.role === "analyst" ? "Analista" : 
                user?.role === "operator" ? "Operador" : 
-               user?.role === "admin" ? "Administrador" : ""} de {user?.department}</p>
+               user?.role === "admin" ? "Administrador" : ""} de {departmentName(user?.department)}</p>
           </div>
         </div>
         
@@ -122,7 +126,7 @@ export function Sidebar({ pendingApprovalCount = 0, pendingTaskCount = 0 }: Side
             </div>
           </Link>
           
-          {(user?.role === "admin" || user?.role === "manager" || user?.role === "coordinator") && (
+          {can("user.view") && (
             <Link href="/users">
               <div className={`sidebar-link ${isActive("/users") ? "active" : ""}`}>
                 <Users className="mr-3 h-5 w-5 text-neutral-500" />
@@ -131,12 +135,14 @@ export function Sidebar({ pendingApprovalCount = 0, pendingTaskCount = 0 }: Side
             </Link>
           )}
           
-          <Link href="/reports">
-            <div className={`sidebar-link ${isActive("/reports") ? "active" : ""}`}>
-              <BarChart2 className="mr-3 h-5 w-5 text-neutral-500" />
-              Reportes
-            </div>
-          </Link>
+          {can("report.view") && (
+            <Link href="/reports">
+              <div className={`sidebar-link ${isActive("/reports") ? "active" : ""}`}>
+                <BarChart2 className="mr-3 h-5 w-5 text-neutral-500" />
+                Reportes
+              </div>
+            </Link>
+          )}
           
           <Link href="/settings">
             <div className={`sidebar-link ${isActive("/settings") ? "active" : ""}`}>
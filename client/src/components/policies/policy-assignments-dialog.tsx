@@ -0,0 +1,343 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  Document,
+  PolicyAssigneeStatus,
+  PolicyAssignmentWithProgress,
+  User,
+  UserRole
+} from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { UserPicker } from "@/components/users/user-picker";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription
+} from "@/components/ui/dialog";
+import { BellRing, Loader2, Trash2, X } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useDepartments } from "@/hooks/use-departments";
+import { usePermissions } from "@/hooks/use-permissions";
+
+const roles: { value: UserRole; label: string }[] = [
+  { value: "admin", label: "Administrador" },
+  { value: "manager", label: "Manager" },
+  { value: "coordinator", label: "Coordinador" },
+  { value: "analyst", label: "Analista" },
+  { value: "operator", label: "Operador" },
+];
+
+const statusLabels: Record<PolicyAssigneeStatus, string> = {
+  not_opened: "Sin abrir",
+  opened: "Abierta",
+  accepted: "Aceptada",
+};
+
+const statusBadgeClasses: Record<PolicyAssigneeStatus, string> = {
+  not_opened: "bg-neutral-500 text-white",
+  opened: "bg-info text-white",
+  accepted: "bg-success text-white",
+};
+
+type AssignmentFormState = {
+  departments: string[];
+  roles: UserRole[];
+  users: User[];
+  dueDate: string;
+};
+
+const emptyForm: AssignmentFormState = { departments: [], roles: [], users: [], dueDate: "" };
+
+const toggle = <T,>(values: T[], value: T, checked: boolean) =>
+  checked ? [...values, value] : values.filter((item) => item !== value);
+
+interface PolicyAssignmentsDialogProps {
+  policy: Document | null;
+  open: boolean;
+  onClose: () => void;
+}
+
+// Mandatory-reading assignments of a policy: who has to accept it, by when, and how far each
+// assignee got. Users with policy.assign can create assignments, send reminders and remove them.
+export function PolicyAssignmentsDialog({ policy, open, onClose }: PolicyAssignmentsDialogProps) {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const { activeDepartments, departmentName } = useDepartments();
+  const [form, setForm] = useState<AssignmentFormState>(emptyForm);
+  const canAssign = can("policy.assign") && policy?.status === "published";
+
+  const assignmentsKey = [`/api/policies/${policy?.id}/assignments`];
+  const { data: assignments, isLoading } = useQuery<PolicyAssignmentWithProgress[]>({
+    queryKey: assignmentsKey,
+    enabled: open && !!policy,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: assignmentsKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/policies/adoption"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const assignMutation = useMutation({
+    mutationFn: async (data: AssignmentFormState) => {
+      const res = await apiRequest("POST", `/api/policies/${policy!.id}/assignments`, {
+        departments: data.departments,
+        roles: data.roles,
+        userIds: data.users.map((user) => user.id),
+        // The deadline is the end of the chosen day
+        dueDate: new Date(`${data.dueDate}T23:59:59`).toISOString(),
+      });
+      return (await res.json()) as PolicyAssignmentWithProgress;
+    },
+    onSuccess: (assignment) => {
+      refresh();
+      setForm(emptyForm);
+      toast({
+        title: "Política asignada",
+        description: `${assignment.assignees.length} usuarios deben leerla y aceptarla.`,
+      });
+    },
+    onError: onError("Error al asignar la política"),
+  });
+
+  const remindMutation = useMutation({
+    mutationFn: async (assignmentId: number) => {
+      const res = await apiRequest("POST", `/api/policy-assignments/${assignmentId}/reminders`);
+      return (await res.json()) as { reminded: number };
+    },
+    onSuccess: ({ reminded }) => {
+      refresh();
+      toast({
+        title: "Recordatorios enviados",
+        description: reminded > 0
+          ? `Se recordó la lectura a ${reminded} usuarios.`
+          : "Todos los usuarios ya aceptaron la política.",
+      });
+    },
+    onError: onError("Error al enviar recordatorios"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (assignmentId: number) => {
+      await apiRequest("DELETE", `/api/policy-assignments/${assignmentId}`);
+    },
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: "Asignación eliminada",
+        description: "Se cancelaron las tareas de lectura pendientes.",
+      });
+    },
+    onError: onError("Error al eliminar la asignación"),
+  });
+
+  const hasTargets = form.departments.length + form.roles.length + form.users.length > 0;
+
+  const targetSummary = (assignment: PolicyAssignmentWithProgress) => [
+    ...assignment.departments.map(departmentName),
+    ...assignment.roles.map((role) => roles.find((r) => r.value === role)?.label ?? role),
+    ...(assignment.userIds.length > 0 ? [`${assignment.userIds.length} usuarios`] : []),
+  ].join(", ");
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Lectura obligatoria</DialogTitle>
+          <DialogDescription>{policy?.title}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : assignments && assignments.length > 0 ? (
+            assignments.map((assignment) => {
+              const accepted = assignment.assignees.filter((a) => a.status === "accepted").length;
+              return (
+                <div key={assignment.id} className="border rounded-lg p-4 space-y-3">
+                  <div className="flex justify-between items-start gap-4">
+                    <div>
+                      <p className="font-medium">{targetSummary(assignment)}</p>
+                      <p className="text-sm text-muted-foreground">
+                        Fecha límite: {new Date(assignment.dueDate).toLocaleDateString()} • {accepted} de {assignment.assignees.length} aceptada(s)
+                      </p>
+                    </div>
+                    {can("policy.assign") && (
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => remindMutation.mutate(assignment.id)}
+                          disabled={remindMutation.isPending || accepted === assignment.assignees.length}
+                        >
+                          <BellRing className="h-4 w-4 mr-1" />
+                          Recordar
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Eliminar asignación"
+                          onClick={() => deleteMutation.mutate(assignment.id)}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Usuario</TableHead>
+                        <TableHead>Departamento</TableHead>
+                        <TableHead>Estado</TableHead>
+                        <TableHead>Recordatorios</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {assignment.assignees.map((assignee) => (
+                        <TableRow key={assignee.id}>
+                          <TableCell>{assignee.user?.name ?? `#${assignee.userId}`}</TableCell>
+                          <TableCell>{departmentName(assignee.user?.department)}</TableCell>
+                          <TableCell>
+                            <Badge className={statusBadgeClasses[assignee.status]}>
+                              {statusLabels[assignee.status]}
+                            </Badge>
+                            {assignee.overdue && (
+                              <Badge variant="destructive" className="ml-2">Vencida</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell>{assignee.reminderCount}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              );
+            })
+          ) : (
+            <div className="text-center py-6 text-muted-foreground">
+              Esta política no está asignada como lectura obligatoria
+            </div>
+          )}
+
+          {canAssign && (
+            <div className="border-t pt-4 space-y-4">
+              <h3 className="text-sm font-medium">Nueva asignación</h3>
+              <div className="grid gap-2">
+                <Label>Departamentos</Label>
+                <div className="flex flex-wrap gap-x-4 gap-y-2">
+                  {activeDepartments.map((department) => (
+                    <label key={department.code} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={form.departments.includes(department.code)}
+                        onCheckedChange={(checked) => setForm({
+                          ...form,
+                          departments: toggle(form.departments, department.code, checked === true),
+                        })}
+                      />
+                      {department.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="grid gap-2">
+                <Label>Roles</Label>
+                <div className="flex flex-wrap gap-x-4 gap-y-2">
+                  {roles.map((role) => (
+                    <label key={role.value} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={form.roles.includes(role.value)}
+                        onCheckedChange={(checked) => setForm({
+                          ...form,
+                          roles: toggle(form.roles, role.value, checked === true),
+                        })}
+                      />
+                      {role.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="grid gap-2">
+                <Label>Usuarios</Label>
+                <UserPicker
+                  value={null}
+                  onChange={(user) => user && setForm({ ...form, users: [...form.users, user] })}
+                  placeholder="Añadir usuario"
+                  excludeIds={form.users.map((user) => user.id)}
+                  describe={(user) => departmentName(user.department)}
+                />
+                {form.users.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {form.users.map((user) => (
+                      <Badge key={user.id} variant="secondary" className="gap-1">
+                        {user.name} ({departmentName(user.department)})
+                        <button
+                          type="button"
+                          title="Quitar"
+                          onClick={() => setForm({ ...form, users: form.users.filter((u) => u.id !== user.id) })}
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div className="grid gap-2 max-w-xs">
+                <Label htmlFor="assignment-due-date">Fecha límite <span className="text-destructive">*</span></Label>
+                <Input
+                  id="assignment-due-date"
+                  type="date"
+                  value={form.dueDate}
+                  onChange={(e) => setForm({ ...form, dueDate: e.target.value })}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Cada usuario recibe una tarea de lectura con la fecha límite. Los nuevos miembros de los departamentos y roles elegidos se añaden automáticamente.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cerrar
+          </Button>
+          {canAssign && (
+            <Button
+              type="button"
+              onClick={() => assignMutation.mutate(form)}
+              disabled={!hasTargets || !form.dueDate || assignMutation.isPending}
+            >
+              {assignMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Asignar
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
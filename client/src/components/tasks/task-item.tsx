@@ -17,6 +17,7 @@ import { useState } from "react";
 import { Task } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 
 // Define a local UserInfo type for component use
@@ -47,9 +48,9 @@ export function TaskItem({ task }: TaskItemProps) {
   
   const { toast } = useToast();
   const { user } = useAuth();
+  const { can } = usePermissions();
   
-  const canUpdateTask = user?.id === task.assignedTo || 
-                        ["admin", "manager", "coordinator"].includes(user?.role || "");
+  const canUpdateTask = user?.id === task.assignedTo || can("task.update_any");
   
   const getPriorityBadge = (priority: string) => {
     switch (priority) {
@@ -0,0 +1,122 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { PERMISSIONS, Permission, RolePermissions, UserRole } from "@shared/schema";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+const roles: { value: UserRole; label: string }[] = [
+  { value: "admin", label: "Administrador" },
+  { value: "manager", label: "Manager" },
+  { value: "coordinator", label: "Coordinador" },
+  { value: "analyst", label: "Analista" },
+  { value: "operator", label: "Operador" },
+];
+
+const permissionLabels: Record<Permission, string> = {
+  "document.create": "Crear documentos",
+  "document.view_all": "Ver todos los documentos",
+  "document.view_department": "Ver borradores de su departamento",
+  "document.edit_department": "Editar documentos de su departamento",
+  "document.edit_any": "Editar documentos de otros usuarios",
+  "document.submit_any": "Enviar a aprobación documentos de otros usuarios",
+  "document.delete": "Eliminar documentos",
+  "document.retire": "Sustituir, declarar obsoletos y archivar documentos de su departamento",
+  "document.retire_any": "Sustituir, declarar obsoletos y archivar documentos de otros departamentos",
+  "approval.view_all": "Ver todas las aprobaciones",
+  "approval.decide": "Aprobar o rechazar documentos",
+  "approval.decide_any": "Decidir aprobaciones asignadas a otros usuarios",
+  "workflow.manage": "Gestionar flujos de aprobación",
+  "task.view_all": "Ver todas las tareas",
+  "task.assign": "Crear y asignar tareas",
+  "task.update_any": "Actualizar tareas de otros usuarios",
+  "policy.view_acceptances": "Ver aceptaciones de políticas",
+  "policy.assign": "Asignar políticas como lectura obligatoria",
+  "user.view": "Ver usuarios",
+  "user.manage": "Gestionar usuarios e invitaciones",
+  "department.manage": "Gestionar departamentos",
+  "category.manage": "Gestionar categorías de documentos",
+  "report.view": "Ver reportes",
+  "activity.view_system": "Ver la actividad de usuarios, configuración y seguridad",
+  "settings.manage": "Gestionar la configuración del sistema",
+};
+
+// Permission matrix for the system settings. The administrator column is fixed.
+export function RolePermissionsSettings() {
+  const { toast } = useToast();
+
+  const { data: rolePermissions, isLoading } = useQuery<RolePermissions>({
+    queryKey: ["/api/role-permissions"],
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ role, permissions }: { role: UserRole; permissions: Permission[] }) => {
+      const res = await apiRequest("PUT", `/api/role-permissions/${role}`, { permissions });
+      return (await res.json()) as RolePermissions;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/role-permissions"], data);
+      queryClient.invalidateQueries({ queryKey: ["/api/user/permissions"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error al actualizar los permisos", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const togglePermission = (role: UserRole, permission: Permission, checked: boolean) => {
+    if (!rolePermissions) return;
+    const current = rolePermissions[role];
+    const permissions = checked ? [...current, permission] : current.filter((p) => p !== permission);
+    updateMutation.mutate({ role, permissions });
+  };
+
+  if (isLoading || !rolePermissions) {
+    return (
+      <div className="flex justify-center items-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Permiso</TableHead>
+            {roles.map((role) => (
+              <TableHead key={role.value} className="text-center">{role.label}</TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {PERMISSIONS.map((permission) => (
+            <TableRow key={permission}>
+              <TableCell>
+                <div>{permissionLabels[permission]}</div>
+                <div className="font-mono text-xs text-muted-foreground">{permission}</div>
+              </TableCell>
+              {roles.map((role) => (
+                <TableCell key={role.value} className="text-center">
+                  <Checkbox
+                    checked={rolePermissions[role.value].includes(permission)}
+                    disabled={role.value === "admin" || updateMutation.isPending}
+                    onCheckedChange={(checked) => togglePermission(role.value, permission, checked === true)}
+                  />
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,333 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Invitation, RegistrationInfo } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription
+} from "@/components/ui/dialog";
+import { Copy, Loader2, Mail, XCircle } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useDepartments } from "@/hooks/use-departments";
+import { useAuth } from "@/hooks/use-auth";
+
+type InvitationResponse = Omit<Invitation, "tokenHash">;
+
+const roleOptions = [
+  { value: "analyst", label: "Analista" },
+  { value: "operator", label: "Operador" },
+  { value: "coordinator", label: "Coordinador" },
+  { value: "manager", label: "Manager" },
+  { value: "admin", label: "Administrador" },
+];
+
+const registrationModeLabels: Record<RegistrationInfo["mode"], string> = {
+  disabled: "Registro desactivado",
+  invite: "Registro solo por invitación",
+  open: "Registro abierto",
+};
+
+type InvitationFormState = {
+  email: string;
+  role: string;
+  department: string;
+  expiresInDays: string;
+};
+
+const emptyForm: InvitationFormState = {
+  email: "",
+  role: "analyst",
+  department: "",
+  expiresInDays: "7",
+};
+
+function getInvitationStatus(invitation: InvitationResponse) {
+  if (invitation.acceptedAt) return { label: "Aceptada", className: "bg-success" };
+  if (invitation.revokedAt) return { label: "Revocada", className: "bg-neutral-500" };
+  if (new Date(invitation.expiresAt) <= new Date()) return { label: "Caducada", className: "bg-warning" };
+  return { label: "Pendiente", className: "bg-info", pending: true };
+}
+
+export function UserInvitations() {
+  const { toast } = useToast();
+  const { activeDepartments, departmentName } = useDepartments();
+  const { user } = useAuth();
+  // Only administrators can invite someone as an administrator
+  const assignableRoles = roleOptions.filter((option) => option.value !== "admin" || user?.role === "admin");
+  const [showDialog, setShowDialog] = useState(false);
+  const [form, setForm] = useState<InvitationFormState>(emptyForm);
+  const [invitationLink, setInvitationLink] = useState<string | null>(null);
+
+  const { data: registration } = useQuery<RegistrationInfo>({
+    queryKey: ["/api/registration"],
+  });
+
+  const { data: invitations, isLoading } = useQuery<InvitationResponse[]>({
+    queryKey: ["/api/invitations"],
+  });
+
+  const createInvitationMutation = useMutation({
+    mutationFn: async (data: InvitationFormState) => {
+      const response = await apiRequest("POST", "/api/invitations", {
+        email: data.email.trim() || undefined,
+        role: data.role,
+        department: data.department,
+        expiresInDays: Number(data.expiresInDays),
+      });
+      return (await response.json()) as InvitationResponse & { token: string };
+    },
+    onSuccess: (invitation) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
+      // The token is only available now; the link cannot be shown again later
+      setInvitationLink(`${window.location.origin}/auth?invite=${encodeURIComponent(invitation.token)}`);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error al crear la invitación",
+        description: error instanceof Error ? error.message : "Error al crear la invitación",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeInvitationMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/invitations/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
+      toast({
+        title: "Invitación revocada",
+        description: "El enlace de invitación ya no puede utilizarse",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error al revocar la invitación",
+        description: error instanceof Error ? error.message : "Error al revocar la invitación",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openDialog = () => {
+    setForm(emptyForm);
+    setInvitationLink(null);
+    setShowDialog(true);
+  };
+
+  const handleCreate = () => {
+    if (!form.department) {
+      toast({
+        title: "Error",
+        description: "El departamento es obligatorio",
+        variant: "destructive",
+      });
+      return;
+    }
+    createInvitationMutation.mutate(form);
+  };
+
+  const copyLink = async () => {
+    if (!invitationLink) return;
+    try {
+      await navigator.clipboard.writeText(invitationLink);
+      toast({ title: "Enlace copiado", description: "Envíe el enlace a la persona invitada" });
+    } catch {
+      toast({ title: "No se pudo copiar", description: "Copie el enlace manualmente", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="pb-3 flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="text-lg">Invitaciones</CardTitle>
+          {registration && (
+            <p className="text-sm text-muted-foreground mt-1">{registrationModeLabels[registration.mode]}</p>
+          )}
+        </div>
+        <Button variant="outline" onClick={openDialog} disabled={registration?.mode === "disabled"}>
+          <Mail className="mr-2 h-4 w-4" />
+          Invitar
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center items-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : invitations && invitations.length > 0 ? (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Rol</TableHead>
+                  <TableHead>Departamento</TableHead>
+                  <TableHead>Caduca</TableHead>
+                  <TableHead>Estado</TableHead>
+                  <TableHead className="text-right">Acciones</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invitations.map((invitation) => {
+                  const status = getInvitationStatus(invitation);
+                  return (
+                    <TableRow key={invitation.id}>
+                      <TableCell>{invitation.email ?? <span className="text-muted-foreground">Cualquiera</span>}</TableCell>
+                      <TableCell>{roleOptions.find((option) => option.value === invitation.role)?.label ?? invitation.role}</TableCell>
+                      <TableCell>
+                        {departmentName(invitation.department)}
+                      </TableCell>
+                      <TableCell>{new Date(invitation.expiresAt).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        <Badge className={status.className}>{status.label}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {"pending" in status && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Revocar invitación"
+                            disabled={revokeInvitationMutation.isPending}
+                            onClick={() => revokeInvitationMutation.mutate(invitation.id)}
+                          >
+                            <XCircle className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground py-4 text-center">No se han enviado invitaciones.</p>
+        )}
+      </CardContent>
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>Nueva Invitación</DialogTitle>
+            <DialogDescription>
+              La persona invitada se registrará con el rol y el departamento indicados.
+            </DialogDescription>
+          </DialogHeader>
+
+          {invitationLink ? (
+            <div className="space-y-3 py-4">
+              <Label htmlFor="invitation-link">Enlace de invitación</Label>
+              <div className="flex gap-2">
+                <Input id="invitation-link" value={invitationLink} readOnly />
+                <Button type="button" variant="outline" size="icon" onClick={copyLink} title="Copiar enlace">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Este enlace solo se muestra una vez. Si se pierde, revoque la invitación y cree una nueva.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-4 py-4">
+              <div className="grid gap-2">
+                <Label htmlFor="invitation-email">Email (opcional)</Label>
+                <Input
+                  id="invitation-email"
+                  type="email"
+                  placeholder="Cualquier email"
+                  value={form.email}
+                  onChange={(e) => setForm({ ...form, email: e.target.value })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <Label>Rol</Label>
+                  <Select value={form.role} onValueChange={(value) => setForm({ ...form, role: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {assignableRoles.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid gap-2">
+                  <Label>Departamento</Label>
+                  <Select value={form.department} onValueChange={(value) => setForm({ ...form, department: value })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Seleccione" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {activeDepartments.map((department) => (
+                        <SelectItem key={department.code} value={department.code}>{department.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="grid gap-2">
+                <Label>Validez</Label>
+                <Select value={form.expiresInDays} onValueChange={(value) => setForm({ ...form, expiresInDays: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="1">1 día</SelectItem>
+                    <SelectItem value="7">7 días</SelectItem>
+                    <SelectItem value="14">14 días</SelectItem>
+                    <SelectItem value="30">30 días</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            {invitationLink ? (
+              <Button onClick={() => setShowDialog(false)}>Cerrar</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={() => setShowDialog(false)}>
+                  Cancelar
+                </Button>
+                <Button onClick={handleCreate} disabled={createInvitationMutation.isPending}>
+                  {createInvitationMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Crear invitación
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
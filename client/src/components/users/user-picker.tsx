@@ -0,0 +1,131 @@
+import { useEffect, useState } from "react";
+import { User } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList
+} from "@/components/ui/command";
+import { Check, ChevronsUpDown, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useInfiniteList, usePagedQuery } from "@/hooks/use-list-query";
+
+const SEARCH_DEBOUNCE_MS = 300;
+const PICKER_PAGE_SIZE = 20;
+
+interface UserPickerProps {
+  id?: string;
+  value: number | null;
+  onChange: (user: User | null) => void;
+  placeholder?: string;
+  // Offers an option to clear the selection, with this label
+  noneLabel?: string;
+  // Deactivated users are left out unless this is false
+  activeOnly?: boolean;
+  excludeIds?: number[];
+  // Secondary text shown next to each user's name
+  describe?: (user: User) => string;
+  className?: string;
+}
+
+// Searchable user select. Users are searched on the server a page at a time, so it works
+// whatever the number of users.
+export function UserPicker({
+  id,
+  value,
+  onChange,
+  placeholder = "Seleccionar usuario",
+  noneLabel,
+  activeOnly = true,
+  excludeIds = [],
+  describe = (user) => `@${user.username}`,
+  className,
+}: UserPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(search.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const { items, hasNextPage, fetchNextPage, isFetchingNextPage, isLoading } = useInfiniteList<User>("/api/users", {
+    q: debouncedSearch,
+    active: activeOnly ? "true" : undefined,
+    sort: "name",
+    pageSize: PICKER_PAGE_SIZE,
+  }, { enabled: open });
+  const options = items.filter((user) => !excludeIds.includes(user.id));
+
+  // The selected user may not be among the loaded pages
+  const { data: selectedPage } = usePagedQuery<User>("/api/users", { id: value ? [value] : undefined, pageSize: 1 }, {
+    enabled: value !== null,
+  });
+  const selected = value === null ? undefined : selectedPage?.items.find((user) => user.id === value);
+
+  const select = (user: User | null) => {
+    onChange(user);
+    setOpen(false);
+    setSearch("");
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className={cn("w-full justify-between font-normal", className)}
+        >
+          <span className={cn("truncate", !selected && "text-muted-foreground")}>
+            {selected ? selected.name : value === null && noneLabel ? noneLabel : placeholder}
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command shouldFilter={false}>
+          <CommandInput placeholder="Buscar por nombre o usuario..." value={search} onValueChange={setSearch} />
+          <CommandList>
+            {isLoading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-4 w-4 animate-spin text-primary" />
+              </div>
+            ) : (
+              <CommandEmpty>No se encontraron usuarios</CommandEmpty>
+            )}
+            <CommandGroup>
+              {noneLabel && !debouncedSearch && (
+                <CommandItem value="none" onSelect={() => select(null)}>
+                  <Check className={cn("h-4 w-4", value === null ? "opacity-100" : "opacity-0")} />
+                  {noneLabel}
+                </CommandItem>
+              )}
+              {options.map((user) => (
+                <CommandItem key={user.id} value={String(user.id)} onSelect={() => select(user)}>
+                  <Check className={cn("h-4 w-4", user.id === value ? "opacity-100" : "opacity-0")} />
+                  <span className="truncate">{user.name}</span>
+                  <span className="ml-auto text-xs text-muted-foreground truncate">{describe(user)}</span>
+                </CommandItem>
+              ))}
+              {hasNextPage && (
+                <CommandItem value="more" disabled={isFetchingNextPage} onSelect={() => fetchNextPage()}>
+                  {isFetchingNextPage && <Loader2 className="h-4 w-4 animate-spin" />}
+                  <span className="text-muted-foreground">Cargar más</span>
+                </CommandItem>
+              )}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,33 +1,40 @@
-import { createContext, ReactNode, useContext } from "react";
+import { createContext, ReactNode, useContext, useState } from "react";
 import {
   useQuery,
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { insertUserSchema, User as SelectUser, InsertUser } from "@shared/schema";
+import { CurrentUser, InsertUser, RegisterUser, TwoFactorChallenge } from "@shared/schema";
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
 type AuthContextType = {
-  user: SelectUser | null;
+  user: CurrentUser | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
+  // The password was accepted and the account is waiting for its second factor
+  twoFactorPending: boolean;
+  cancelTwoFactor: () => void;
+  loginMutation: UseMutationResult<CurrentUser | TwoFactorChallenge, Error, LoginData>;
+  verifyTwoFactorMutation: UseMutationResult<CurrentUser, Error, TwoFactorData>;
   logoutMutation: UseMutationResult<void, Error, void>;
-  registerMutation: UseMutationResult<SelectUser, Error, InsertUser>;
+  registerMutation: UseMutationResult<CurrentUser, Error, RegisterUser>;
 };
 
 type LoginData = Pick<InsertUser, "username" | "password">;
 
+type TwoFactorData = { code: string } | { recoveryCode: string };
+
 export const AuthContext = createContext<AuthContextType | null>(null);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const { toast } = useToast();
+  const [twoFactorPending, setTwoFactorPending] = useState(false);
   const {
     data: user,
     error,
     isLoading,
-  } = useQuery<SelectUser | undefined, Error>({
+  } = useQuery<CurrentUser | undefined, Error>({
     queryKey: ["/api/user"],
     queryFn: getQueryFn({ on401: "returnNull" }),
   });
@@ -37,7 +44,33 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
-    onSuccess: (user: SelectUser) => {
+    onSuccess: (result: CurrentUser | TwoFactorChallenge) => {
+      if ("twoFactorRequired" in result) {
+        setTwoFactorPending(true);
+        return;
+      }
+      queryClient.setQueryData(["/api/user"], result);
+      toast({
+        title: "Inicio de sesión exitoso",
+        description: `Bienvenido(a), ${result.name}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error de inicio de sesión",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const verifyTwoFactorMutation = useMutation({
+    mutationFn: async (data: TwoFactorData) => {
+      const res = await apiRequest("POST", "/api/login/2fa", data);
+      return await res.json();
+    },
+    onSuccess: (user: CurrentUser) => {
+      setTwoFactorPending(false);
       queryClient.setQueryData(["/api/user"], user);
       toast({
         title: "Inicio de sesión exitoso",
@@ -45,8 +78,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       });
     },
     onError: (error: Error) => {
+      // The challenge is gone after too many attempts or once it expires
+      if (/sign in again/.test(error.message)) {
+        setTwoFactorPending(false);
+      }
       toast({
-        title: "Error de inicio de sesión",
+        title: "Error de verificación",
         description: error.message,
         variant: "destructive",
       });
@@ -54,11 +91,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   });
 
   const registerMutation = useMutation({
-    mutationFn: async (credentials: InsertUser) => {
+    mutationFn: async (credentials: RegisterUser) => {
       const res = await apiRequest("POST", "/api/register", credentials);
       return await res.json();
     },
-    onSuccess: (user: SelectUser) => {
+    onSuccess: (user: CurrentUser) => {
       queryClient.setQueryData(["/api/user"], user);
       toast({
         title: "Registro exitoso",
@@ -80,6 +117,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
     onSuccess: () => {
       queryClient.setQueryData(["/api/user"], null);
+      // The next user to sign in on this browser may have another role
+      queryClient.removeQueries({ queryKey: ["/api/user/permissions"] });
       toast({
         title: "Cierre de sesión exitoso",
         description: "Has cerrado sesión correctamente",
@@ -100,7 +139,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         user: user ?? null,
         isLoading,
         error,
+        twoFactorPending,
+        cancelTwoFactor: () => setTwoFactorPending(false),
         loginMutation,
+        verifyTwoFactorMutation,
         logoutMutation,
         registerMutation,
       }}
@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query";
+import { Department } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+
+// Managed departments. Dropdowns offer the active ones; records keep pointing at inactive
+// departments, so names are looked up among all of them.
+export function useDepartments() {
+  const { user } = useAuth();
+  const { data: departments, isLoading } = useQuery<Department[]>({
+    queryKey: ["/api/departments"],
+    enabled: !!user,
+  });
+
+  const departmentName = (code: string | null | undefined) =>
+    departments?.find((department) => department.code === code)?.name ?? code ?? "";
+
+  return {
+    departments: departments ?? [],
+    activeDepartments: (departments ?? []).filter((department) => department.active),
+    departmentName,
+    isLoading,
+  };
+}
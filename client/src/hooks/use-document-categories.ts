@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import { DocumentCategory } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+
+// Managed document categories. New documents pick among the active ones; names are looked up
+// among all of them, since documents keep categories deactivated afterwards.
+export function useDocumentCategories() {
+  const { user } = useAuth();
+  const { data: categories, isLoading } = useQuery<DocumentCategory[]>({
+    queryKey: ["/api/document-categories"],
+    enabled: !!user,
+  });
+
+  const categoryByCode = (code: string | null | undefined) =>
+    categories?.find((category) => category.code === code);
+
+  const categoryName = (code: string | null | undefined) => categoryByCode(code)?.name ?? code ?? "";
+
+  return {
+    categories: categories ?? [],
+    activeCategories: (categories ?? []).filter((category) => category.active),
+    categoryByCode,
+    categoryName,
+    isLoading,
+  };
+}
@@ -0,0 +1,41 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { SearchResponse } from "@shared/schema";
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface DocumentSearchOptions {
+  department?: string;
+  category?: string;
+  status?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+// Server-side full-text search; stays idle while the query is empty
+export function useDocumentSearch(query: string, options: DocumentSearchOptions = {}) {
+  const [debouncedQuery, setDebouncedQuery] = useState(query.trim());
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const params = new URLSearchParams({ q: debouncedQuery });
+  if (options.department) params.set("department", options.department);
+  if (options.category) params.set("category", options.category);
+  if (options.status) params.set("status", options.status);
+  if (options.page) params.set("page", String(options.page));
+  if (options.pageSize) params.set("pageSize", String(options.pageSize));
+
+  const search = useQuery<SearchResponse>({
+    queryKey: [`/api/search?${params.toString()}`],
+    enabled: debouncedQuery.length > 0,
+    staleTime: 30000,
+  });
+
+  return {
+    ...search,
+    isSearching: debouncedQuery.length > 0,
+  };
+}
@@ -0,0 +1,73 @@
+import { useEffect } from "react";
+import { keepPreviousData, useInfiniteQuery, useQueries, useQuery } from "@tanstack/react-query";
+import { apiRequest, buildQueryUrl } from "@/lib/queryClient";
+import { Page } from "@shared/schema";
+
+// Filters, sort and paging sent to the list endpoints (/api/documents, /api/tasks, ...).
+// Arrays are sent comma-separated; undefined, "" and "all" are omitted.
+export type ListParams = Record<string, string | number | Date | (string | number)[] | undefined>;
+
+interface ListQueryOptions {
+  enabled?: boolean;
+}
+
+// A single page; the previous page stays on screen while the next one loads
+export function usePagedQuery<T>(url: string, params: ListParams = {}, options: ListQueryOptions = {}) {
+  return useQuery<Page<T>>({
+    queryKey: [url, params],
+    placeholderData: keepPreviousData,
+    ...options,
+  });
+}
+
+// Only the number of matching rows, e.g. for badges and report counters
+export function useListTotal(url: string, params: ListParams = {}, options: ListQueryOptions = {}) {
+  const query = usePagedQuery<unknown>(url, { ...params, pageSize: 1 }, options);
+  return { ...query, total: query.data?.total ?? 0 };
+}
+
+// One total per value of a filter field, e.g. documents per status
+export function useListTotals(url: string, field: string, values: readonly string[], params: ListParams = {}) {
+  const results = useQueries({
+    queries: values.map((value) => ({
+      queryKey: [url, { ...params, [field]: value, pageSize: 1 }],
+    })),
+  });
+  return results.map((result) => (result.data as Page<unknown> | undefined)?.total ?? 0);
+}
+
+// Pages appended one after another, for "load more" lists
+export function useInfiniteList<T>(url: string, params: ListParams = {}, options: ListQueryOptions = {}) {
+  const query = useInfiniteQuery({
+    queryKey: [url, params, "infinite"],
+    queryFn: async ({ pageParam }) => {
+      const res = await apiRequest("GET", buildQueryUrl(url, { ...params, page: pageParam }));
+      return (await res.json()) as Page<T>;
+    },
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) =>
+      lastPage.page * lastPage.pageSize < lastPage.total ? lastPage.page + 1 : undefined,
+    ...options,
+  });
+
+  return {
+    ...query,
+    items: query.data?.pages.flatMap((page) => page.items) ?? [],
+    total: query.data?.pages[0]?.total ?? 0,
+  };
+}
+
+// Every matching row, fetched page after page, for views that need the complete set
+// (e.g. adoption stats). Pickers should search the server instead.
+export function useAllPages<T>(url: string, params: ListParams = {}, options: ListQueryOptions = {}) {
+  const list = useInfiniteList<T>(url, params, options);
+  const { hasNextPage, isFetchingNextPage, isError, fetchNextPage } = list;
+
+  useEffect(() => {
+    if (hasNextPage && !isFetchingNextPage && !isError) {
+      fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, isError, fetchNextPage]);
+
+  return { ...list, isComplete: list.isSuccess && !hasNextPage };
+}
@@ -0,0 +1,9 @@
+import { useListTotal } from "@/hooks/use-list-query";
+
+// Badge counts shown in the sidebar of every page
+export function usePendingCounts() {
+  const { total: pendingApprovalCount } = useListTotal("/api/approvals", { status: "pending" });
+  const { total: pendingTaskCount } = useListTotal("/api/tasks", { status: ["pending", "in_progress"] });
+
+  return { pendingApprovalCount, pendingTaskCount };
+}
@@ -0,0 +1,16 @@
+import { useQuery } from "@tanstack/react-query";
+import { Permission } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+
+// Permissions of the signed-in user's role, used to hide actions the server would refuse
+export function usePermissions() {
+  const { user } = useAuth();
+  const { data: permissions, isLoading } = useQuery<Permission[]>({
+    queryKey: ["/api/user/permissions"],
+    enabled: !!user,
+  });
+
+  const can = (permission: Permission) => !!user && !!permissions?.includes(permission);
+
+  return { permissions: permissions ?? [], can, isLoading };
+}
@@ -0,0 +1,29 @@
+import type { DocumentStatus, DocumentTransitionAction } from "@shared/schema";
+
+export const documentStatusLabels: Record<DocumentStatus, string> = {
+  draft: "Borrador",
+  in_review: "En revisión",
+  rejected: "Rechazado",
+  published: "Publicado",
+  superseded: "Sustituido",
+  obsolete: "Obsoleto",
+  archived: "Archivado",
+};
+
+export const documentStatusBadgeClasses: Record<DocumentStatus, string> = {
+  draft: "bg-neutral-500 text-white",
+  in_review: "bg-warning text-white",
+  rejected: "bg-destructive text-white",
+  published: "bg-success text-white",
+  superseded: "bg-info text-white",
+  obsolete: "bg-neutral-700 text-white",
+  archived: "bg-neutral-300 text-neutral-700",
+};
+
+export const documentActionLabels: Record<DocumentTransitionAction, string> = {
+  withdraw: "Retirar de revisión",
+  rework: "Volver a edición",
+  supersede: "Marcar como sustituido",
+  make_obsolete: "Declarar obsoleto",
+  archive: "Archivar",
+};
@@ -29,5 +29,21 @@ export function ProtectedRoute({
     );
   }
 
+  if (user.mustChangePassword || user.passwordExpired) {
+    return (
+      <Route path={path}>
+        <Redirect to="/change-password" />
+      </Route>
+    );
+  }
+
+  if (user.twoFactorSetupRequired) {
+    return (
+      <Route path={path}>
+        <Redirect to="/two-factor-setup" />
+      </Route>
+    );
+  }
+
   return <Route path={path} component={Component} />;
 }
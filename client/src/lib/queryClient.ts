@@ -23,13 +23,48 @@ export async function apiRequest(
   return res;
 }
 
+// Multipart variant of apiRequest; the browser sets the boundary header itself
+export async function apiUpload(
+  url: string,
+  formData: FormData,
+  method: string = "POST",
+): Promise<Response> {
+  const res = await fetch(url, {
+    method,
+    body: formData,
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  return res;
+}
+
+// Query keys may carry a params object after the URL, e.g. ["/api/tasks", { status: "pending" }],
+// so invalidating ["/api/tasks"] still reaches every filtered/paged variant.
+// Empty values and the "all" option of filter selects are left out.
+export function buildQueryUrl(url: string, params?: Record<string, unknown>): string {
+  if (!params) return url;
+
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null || value === "" || value === "all") continue;
+    const values = Array.isArray(value) ? value : [value];
+    if (values.length === 0) continue;
+    search.set(key, values.map((v) => (v instanceof Date ? v.toISOString() : String(v))).join(","));
+  }
+
+  const query = search.toString();
+  return query ? `${url}${url.includes("?") ? "&" : "?"}${query}` : url;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey[0] as string, {
+    const params = queryKey[1] as Record<string, unknown> | undefined;
+    const res = await fetch(buildQueryUrl(queryKey[0] as string, params), {
       credentials: "include",
     });
 
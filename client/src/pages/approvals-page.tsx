@@ -1,5 +1,4 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
 import { MainLayout } from "@/components/layout/main-layout";
 import { ApprovalItem } from "@/components/approvals/approval-item";
 import { DocumentPreviewModal } from "@/components/documents/document-preview-modal";
@@ -34,12 +33,33 @@ import {
   Loader2
 } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
+import { useInfiniteList } from "@/hooks/use-list-query";
+import { usePendingCounts } from "@/hooks/use-pending-counts";
+import { useDepartments } from "@/hooks/use-departments";
+import { Button } from "@/components/ui/button";
 
 type ExtendedApproval = Approval & {
   document: Document;
   documentCreator?: Partial<User>;
 };
 
+const APPROVALS_PAGE_SIZE = 30;
+
+type ApprovalList = ReturnType<typeof useInfiniteList<ExtendedApproval>>;
+
+function LoadMoreApprovals({ list }: { list: ApprovalList }) {
+  if (!list.hasNextPage) return null;
+
+  return (
+    <div className="flex justify-center mt-6">
+      <Button variant="outline" disabled={list.isFetchingNextPage} onClick={() => list.fetchNextPage()}>
+        {list.isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Cargar más
+      </Button>
+    </div>
+  );
+}
+
 export default function ApprovalsPage() {
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
@@ -49,46 +69,49 @@ export default function ApprovalsPage() {
   const [showDocumentModal, setShowDocumentModal] = useState(false);
   
   const { user } = useAuth();
+  const { departments } = useDepartments();
   
   // Get pending tasks count for the badge in the sidebar
-  const { data: tasks } = useQuery({
-    queryKey: ["/api/tasks"],
-    select: (data) => data.filter(task => 
-      task.status === "pending" || task.status === "in_progress"
-    )
-  });
+  const { pendingTaskCount } = usePendingCounts();
   
-  // Get all approvals with their documents and creators
-  const { data: allApprovals, isLoading, isError } = useQuery<ExtendedApproval[]>({
-    queryKey: ["/api/approvals"]
+  // One paged list per tab; the status select only leaves its own tab populated
+  const listParams = (status: Approval["status"]) => ({
+    status,
+    sort: "-createdAt",
+    pageSize: APPROVALS_PAGE_SIZE,
   });
+  const isStatusShown = (status: Approval["status"]) => statusFilter === "all" || statusFilter === status;
+  
+  const pendingList = useInfiniteList<ExtendedApproval>("/api/approvals", listParams("pending"), { enabled: isStatusShown("pending") });
+  const approvedList = useInfiniteList<ExtendedApproval>("/api/approvals", listParams("approved"), { enabled: isStatusShown("approved") });
+  const rejectedList = useInfiniteList<ExtendedApproval>("/api/approvals", listParams("rejected"), { enabled: isStatusShown("rejected") });
   
-  // Filter approvals based on search and filters
-  const filteredApprovals = allApprovals?.filter(approval => {
+  const isLoading = pendingList.isLoading || approvedList.isLoading || rejectedList.isLoading;
+  const isError = pendingList.isError || approvedList.isError || rejectedList.isError;
+  
+  // Filter the loaded approvals based on search and department
+  const matchesFilters = (approval: ExtendedApproval) => {
     // Search query filter
     const matchesSearch = searchQuery 
       ? approval.document.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
         (approval.document.description || "").toLowerCase().includes(searchQuery.toLowerCase())
       : true;
     
-    // Status filter
-    const matchesStatus = statusFilter === "all" ? true : approval.status === statusFilter;
-    
     // Department filter
     const matchesDepartment = departmentFilter === "all" ? true : approval.document.department === departmentFilter;
     
-    return matchesSearch && matchesStatus && matchesDepartment;
-  });
+    return matchesSearch && matchesDepartment;
+  };
   
-  // Separate approvals by status
-  const pendingApprovals = filteredApprovals?.filter(approval => approval.status === "pending") || [];
-  const approvedApprovals = filteredApprovals?.filter(approval => approval.status === "approved") || [];
-  const rejectedApprovals = filteredApprovals?.filter(approval => approval.status === "rejected") || [];
+  const statusItems = (list: ApprovalList, status: Approval["status"]) =>
+    isStatusShown(status) ? list.items.filter(matchesFilters) : [];
+  const statusTotal = (list: ApprovalList, status: Approval["status"]) =>
+    isStatusShown(status) ? list.total : 0;
   
-  // Get unique departments for filter options
-  const departments = allApprovals 
-    ? [...new Set(allApprovals.map(approval => approval.document.department))]
-    : [];
+  // Separate approvals by status
+  const pendingApprovals = statusItems(pendingList, "pending");
+  const approvedApprovals = statusItems(approvedList, "approved");
+  const rejectedApprovals = statusItems(rejectedList, "rejected");
   
   const handleViewDocument = (document: Document) => {
     setSelectedDocument(document);
@@ -97,8 +120,8 @@ export default function ApprovalsPage() {
   
   return (
     <MainLayout 
-      pendingApprovalCount={pendingApprovals.length || 0}
-      pendingTaskCount={tasks?.length || 0}
+      pendingApprovalCount={pendingList.total}
+      pendingTaskCount={pendingTaskCount}
     >
       <div className="mb-6">
         <h1 className="text-2xl font-bold">Aprobaciones</h1>
@@ -144,9 +167,9 @@ export default function ApprovalsPage() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">Todos los departamentos</SelectItem>
-                  {departments.map((department, index) => (
-                    <SelectItem key={index} value={department}>
-                      {department}
+                  {departments.map((department) => (
+                    <SelectItem key={department.code} value={department.code}>
+                      {department.name}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -160,15 +183,15 @@ export default function ApprovalsPage() {
         <TabsList>
           <TabsTrigger value="pending" className="flex items-center">
             <Clock className="mr-2 h-4 w-4" />
-            Pendientes ({pendingApprovals.length})
+            Pendientes ({statusTotal(pendingList, "pending")})
           </TabsTrigger>
           <TabsTrigger value="approved" className="flex items-center">
             <CheckCircle className="mr-2 h-4 w-4" />
-            Aprobados ({approvedApprovals.length})
+            Aprobados ({statusTotal(approvedList, "approved")})
           </TabsTrigger>
           <TabsTrigger value="rejected" className="flex items-center">
             <XCircle className="mr-2 h-4 w-4" />
-            Rechazados ({rejectedApprovals.length})
+            Rechazados ({statusTotal(rejectedList, "rejected")})
           </TabsTrigger>
         </TabsList>
         
@@ -182,15 +205,18 @@ export default function ApprovalsPage() {
               Error al cargar aprobaciones. Intente de nuevo.
             </div>
           ) : pendingApprovals.length > 0 ? (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {pendingApprovals.map((approval) => (
-                <ApprovalItem 
-                  key={approval.id} 
-                  approval={approval}
-                  onViewDocument={handleViewDocument}
-                />
-              ))}
-            </div>
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {pendingApprovals.map((approval) => (
+                  <ApprovalItem 
+                    key={approval.id} 
+                    approval={approval}
+                    onViewDocument={handleViewDocument}
+                  />
+                ))}
+              </div>
+              <LoadMoreApprovals list={pendingList} />
+            </>
           ) : (
             <div className="text-center py-12 text-muted-foreground">
               <Clock className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
@@ -206,15 +232,18 @@ export default function ApprovalsPage() {
               <Loader2 className="h-8 w-8 animate-spin text-primary" />
             </div>
           ) : approvedApprovals.length > 0 ? (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {approvedApprovals.map((approval) => (
-                <ApprovalItem 
-                  key={approval.id} 
-                  approval={approval}
-                  onViewDocument={handleViewDocument}
-                />
-              ))}
-            </div>
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {approvedApprovals.map((approval) => (
+                  <ApprovalItem 
+                    key={approval.id} 
+                    approval={approval}
+                    onViewDocument={handleViewDocument}
+                  />
+                ))}
+              </div>
+              <LoadMoreApprovals list={approvedList} />
+            </>
           ) : (
             <div className="text-center py-12 text-muted-foreground">
               <CheckCircle className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
@@ -230,15 +259,18 @@ export default function ApprovalsPage() {
               <Loader2 className="h-8 w-8 animate-spin text-primary" />
             </div>
           ) : rejectedApprovals.length > 0 ? (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {rejectedApprovals.map((approval) => (
-                <ApprovalItem 
-                  key={approval.id} 
-                  approval={approval}
-                  onViewDocument={handleViewDocument}
-                />
-              ))}
-            </div>
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {rejectedApprovals.map((approval) => (
+                  <ApprovalItem 
+                    key={approval.id} 
+                    approval={approval}
+                    onViewDocument={handleViewDocument}
+                  />
+                ))}
+              </div>
+              <LoadMoreApprovals list={rejectedList} />
+            </>
           ) : (
             <div className="text-center py-12 text-muted-foreground">
               <XCircle className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
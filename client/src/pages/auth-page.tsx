@@ -3,8 +3,10 @@ import { Link, useLocation } from "wouter";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertUserSchema } from "@shared/schema";
+import { useQuery } from "@tanstack/react-query";
+import { passwordSchema, RegistrationInfo } from "@shared/schema";
 import { useAuth } from "@/hooks/use-auth";
+import { TwoFactorLoginForm } from "@/components/auth/two-factor-login-form";
 import {
   Card,
   CardContent,
@@ -34,24 +36,49 @@ const loginSchema = z.object({
 
 type LoginFormValues = z.infer<typeof loginSchema>;
 
-// Registration schema
-const registerSchema = insertUserSchema.extend({
+// Registration schema; the role is never chosen here, it comes from the invitation
+const registerSchema = z.object({
   username: z.string().min(3, { message: "El usuario debe tener al menos 3 caracteres" }),
-  password: z.string().min(6, { message: "La contraseña debe tener al menos 6 caracteres" }),
+  password: passwordSchema,
   name: z.string().min(1, { message: "El nombre es obligatorio" }),
   email: z.string().email({ message: "Email inválido" }),
-  role: z.enum(["admin", "manager", "coordinator", "analyst", "operator"], { 
-    errorMap: () => ({ message: "El rol es obligatorio" }) 
-  }),
   department: z.string().min(1, { message: "El departamento es obligatorio" }),
 });
 
 type RegisterFormValues = z.infer<typeof registerSchema>;
 
+const roleNames: Record<string, string> = {
+  admin: "Administrador",
+  manager: "Manager",
+  coordinator: "Coordinador",
+  analyst: "Analista",
+  operator: "Operador",
+};
+
+const invitationErrors: Record<string, string> = {
+  "Invitation not found": "La invitación no es válida.",
+  "Invitation has been revoked": "La invitación ha sido revocada.",
+  "Invitation has already been used": "La invitación ya ha sido utilizada.",
+  "Invitation has expired": "La invitación ha caducado.",
+};
+
 export default function AuthPage() {
   const [, navigate] = useLocation();
-  const { user, loginMutation, registerMutation } = useAuth();
-  const [activeTab, setActiveTab] = useState<string>("login");
+  const { user, twoFactorPending, loginMutation, registerMutation } = useAuth();
+  // Invitation links look like /auth?invite=<token>
+  const [inviteToken] = useState(() => new URLSearchParams(window.location.search).get("invite") ?? undefined);
+  const [activeTab, setActiveTab] = useState<string>(inviteToken ? "register" : "login");
+
+  const { data: registration } = useQuery<RegistrationInfo>({
+    queryKey: ["/api/registration", { invite: inviteToken }],
+  });
+  const invitation = registration?.invitation;
+  const canRegister = registration ? registration.mode !== "disabled" : false;
+  const needsInvitation = registration?.mode === "invite" && !invitation;
+  const departments = registration?.departments ?? [];
+  const invitationDepartment = invitation
+    ? departments.find((department) => department.code === invitation.department)?.name ?? invitation.department
+    : "";
 
   // Use useEffect for redirection instead of conditional return
   // This avoids the "Rendered fewer hooks than expected" error
@@ -78,17 +105,32 @@ export default function AuthPage() {
       password: "",
       name: "",
       email: "",
-      role: "analyst" as const,
       department: "",
     },
   });
 
+  // The invitation fixes the department and, optionally, the email address
+  useEffect(() => {
+    if (invitation) {
+      registerForm.setValue("department", invitation.department);
+      if (invitation.email) {
+        registerForm.setValue("email", invitation.email);
+      }
+    }
+  }, [invitation, registerForm]);
+
+  useEffect(() => {
+    if (registration && !canRegister) {
+      setActiveTab("login");
+    }
+  }, [registration, canRegister]);
+
   const onLoginSubmit = (data: LoginFormValues) => {
     loginMutation.mutate(data);
   };
 
   const onRegisterSubmit = (data: RegisterFormValues) => {
-    registerMutation.mutate(data);
+    registerMutation.mutate({ ...data, inviteToken: invitation ? inviteToken : undefined });
   };
 
   return (
@@ -113,222 +155,219 @@ export default function AuthPage() {
           </CardHeader>
           <CardContent>
             <Tabs defaultValue="login" value={activeTab} onValueChange={setActiveTab}>
-              <TabsList className="grid w-full grid-cols-2 mb-4">
-                <TabsTrigger value="login">Iniciar Sesión</TabsTrigger>
-                <TabsTrigger value="register">Registrarse</TabsTrigger>
-              </TabsList>
+              {canRegister && (
+                <TabsList className="grid w-full grid-cols-2 mb-4">
+                  <TabsTrigger value="login">Iniciar Sesión</TabsTrigger>
+                  <TabsTrigger value="register">Registrarse</TabsTrigger>
+                </TabsList>
+              )}
               
               <TabsContent value="login">
-                <form onSubmit={loginForm.handleSubmit(onLoginSubmit)}>
-                  <div className="grid gap-4">
-                    <div className="grid gap-2">
-                      <Label htmlFor="login-username">Usuario</Label>
-                      <Input
-                        id="login-username"
-                        placeholder="Ingrese su usuario"
-                        {...loginForm.register("username")}
-                        className={loginForm.formState.errors.username ? "border-destructive" : ""}
-                      />
-                      {loginForm.formState.errors.username && (
-                        <p className="text-xs text-destructive mt-1">
-                          {loginForm.formState.errors.username.message}
-                        </p>
-                      )}
-                    </div>
-                    <div className="grid gap-2">
-                      <Label htmlFor="login-password">Contraseña</Label>
-                      <Input
-                        id="login-password"
-                        type="password"
-                        placeholder="Ingrese su contraseña"
-                        {...loginForm.register("password")}
-                        className={loginForm.formState.errors.password ? "border-destructive" : ""}
-                      />
-                      {loginForm.formState.errors.password && (
-                        <p className="text-xs text-destructive mt-1">
-                          {loginForm.formState.errors.password.message}
-                        </p>
-                      )}
-                    </div>
-                    <Button 
-                      type="submit" 
-                      className="w-full mt-2"
-                      disabled={loginMutation.isPending}
-                    >
-                      {loginMutation.isPending ? (
-                        <span className="flex items-center">
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                          Iniciando sesión...
-                        </span>
-                      ) : (
-                        "Iniciar Sesión"
-                      )}
-                    </Button>
-                  </div>
-                </form>
-              </TabsContent>
-              
-              <TabsContent value="register">
-                <form onSubmit={registerForm.handleSubmit(onRegisterSubmit)}>
-                  <div className="grid gap-4">
-                    <div className="grid grid-cols-2 gap-4">
+                {twoFactorPending ? (
+                  <TwoFactorLoginForm />
+                ) : (
+                  <form onSubmit={loginForm.handleSubmit(onLoginSubmit)}>
+                    <div className="grid gap-4">
                       <div className="grid gap-2">
-                        <Label htmlFor="register-username">Usuario</Label>
+                        <Label htmlFor="login-username">Usuario</Label>
                         <Input
-                          id="register-username"
-                          placeholder="Nombre de usuario"
-                          {...registerForm.register("username")}
-                          className={registerForm.formState.errors.username ? "border-destructive" : ""}
+                          id="login-username"
+                          placeholder="Ingrese su usuario"
+                          {...loginForm.register("username")}
+                          className={loginForm.formState.errors.username ? "border-destructive" : ""}
                         />
-                        {registerForm.formState.errors.username && (
+                        {loginForm.formState.errors.username && (
                           <p className="text-xs text-destructive mt-1">
-                            {registerForm.formState.errors.username.message}
+                            {loginForm.formState.errors.username.message}
                           </p>
                         )}
                       </div>
                       <div className="grid gap-2">
-                        <Label htmlFor="register-password">Contraseña</Label>
+                        <Label htmlFor="login-password">Contraseña</Label>
                         <Input
-                          id="register-password"
+                          id="login-password"
                           type="password"
-                          placeholder="Contraseña"
-                          {...registerForm.register("password")}
-                          className={registerForm.formState.errors.password ? "border-destructive" : ""}
+                          placeholder="Ingrese su contraseña"
+                          {...loginForm.register("password")}
+                          className={loginForm.formState.errors.password ? "border-destructive" : ""}
                         />
-                        {registerForm.formState.errors.password && (
+                        {loginForm.formState.errors.password && (
                           <p className="text-xs text-destructive mt-1">
-                            {registerForm.formState.errors.password.message}
+                            {loginForm.formState.errors.password.message}
                           </p>
                         )}
                       </div>
+                      <Button 
+                        type="submit" 
+                        className="w-full mt-2"
+                        disabled={loginMutation.isPending}
+                      >
+                        {loginMutation.isPending ? (
+                          <span className="flex items-center">
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            Iniciando sesión...
+                          </span>
+                        ) : (
+                          "Iniciar Sesión"
+                        )}
+                      </Button>
                     </div>
-                    <div className="grid gap-2">
-                      <Label htmlFor="register-name">Nombre completo</Label>
-                      <Input
-                        id="register-name"
-                        placeholder="Nombre y apellido"
-                        {...registerForm.register("name")}
-                        className={registerForm.formState.errors.name ? "border-destructive" : ""}
-                      />
-                      {registerForm.formState.errors.name && (
-                        <p className="text-xs text-destructive mt-1">
-                          {registerForm.formState.errors.name.message}
-                        </p>
-                      )}
-                    </div>
-                    <div className="grid gap-2">
-                      <Label htmlFor="register-email">Correo electrónico</Label>
-                      <Input
-                        id="register-email"
-                        type="email"
-                        placeholder="correo@ejemplo.com"
-                        {...registerForm.register("email")}
-                        className={registerForm.formState.errors.email ? "border-destructive" : ""}
-                      />
-                      {registerForm.formState.errors.email && (
-                        <p className="text-xs text-destructive mt-1">
-                          {registerForm.formState.errors.email.message}
-                        </p>
+                  </form>
+                )}
+              </TabsContent>
+              
+              <TabsContent value="register">
+                {needsInvitation ? (
+                  <div className="text-center py-6 text-sm text-neutral-600 space-y-2">
+                    {registration?.invitationError && (
+                      <p className="text-destructive">
+                        {invitationErrors[registration.invitationError] ?? registration.invitationError}
+                      </p>
+                    )}
+                    <p>El registro solo está disponible mediante una invitación. Solicítela a un administrador.</p>
+                  </div>
+                ) : (
+                  <form onSubmit={registerForm.handleSubmit(onRegisterSubmit)}>
+                    <div className="grid gap-4">
+                      {invitation && (
+                        <div className="rounded-md bg-primary/10 px-3 py-2 text-sm text-neutral-700">
+                          Ha sido invitado(a) como <strong>{roleNames[invitation.role] ?? invitation.role}</strong> en
+                          el departamento de <strong>{invitationDepartment}</strong>.
+                        </div>
                       )}
-                    </div>
-                    <div className="grid grid-cols-2 gap-4">
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="grid gap-2">
+                          <Label htmlFor="register-username">Usuario</Label>
+                          <Input
+                            id="register-username"
+                            placeholder="Nombre de usuario"
+                            {...registerForm.register("username")}
+                            className={registerForm.formState.errors.username ? "border-destructive" : ""}
+                          />
+                          {registerForm.formState.errors.username && (
+                            <p className="text-xs text-destructive mt-1">
+                              {registerForm.formState.errors.username.message}
+                            </p>
+                          )}
+                        </div>
+                        <div className="grid gap-2">
+                          <Label htmlFor="register-password">Contraseña</Label>
+                          <Input
+                            id="register-password"
+                            type="password"
+                            placeholder="Contraseña"
+                            {...registerForm.register("password")}
+                            className={registerForm.formState.errors.password ? "border-destructive" : ""}
+                          />
+                          {registerForm.formState.errors.password && (
+                            <p className="text-xs text-destructive mt-1">
+                              {registerForm.formState.errors.password.message}
+                            </p>
+                          )}
+                        </div>
+                      </div>
                       <div className="grid gap-2">
-                        <Label htmlFor="register-role">Rol</Label>
-                        <Select 
-                          onValueChange={(value: "admin" | "manager" | "coordinator" | "analyst" | "operator") => {
-                            registerForm.setValue("role", value);
-                          }} 
-                          defaultValue={registerForm.getValues("role")}
-                        >
-                          <SelectTrigger 
-                            id="register-role"
-                            className={registerForm.formState.errors.role ? "border-destructive" : ""}
-                          >
-                            <SelectValue placeholder="Seleccione un rol" />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="analyst">Analista</SelectItem>
-                            <SelectItem value="operator">Operador</SelectItem>
-                            <SelectItem value="coordinator">Coordinador</SelectItem>
-                            <SelectItem value="manager">Manager</SelectItem>
-                          </SelectContent>
-                        </Select>
-                        {registerForm.formState.errors.role && (
+                        <Label htmlFor="register-name">Nombre completo</Label>
+                        <Input
+                          id="register-name"
+                          placeholder="Nombre y apellido"
+                          {...registerForm.register("name")}
+                          className={registerForm.formState.errors.name ? "border-destructive" : ""}
+                        />
+                        {registerForm.formState.errors.name && (
                           <p className="text-xs text-destructive mt-1">
-                            {registerForm.formState.errors.role.message}
+                            {registerForm.formState.errors.name.message}
                           </p>
                         )}
                       </div>
                       <div className="grid gap-2">
-                        <Label htmlFor="register-department">Departamento</Label>
-                        <Select 
-                          onValueChange={(value) => registerForm.setValue("department", value)} 
-                          defaultValue={registerForm.getValues("department")}
-                        >
-                          <SelectTrigger 
-                            id="register-department"
-                            className={registerForm.formState.errors.department ? "border-destructive" : ""}
-                          >
-                            <SelectValue placeholder="Seleccione" />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="Production">Producción</SelectItem>
-                            <SelectItem value="Quality">Control de Calidad</SelectItem>
-                            <SelectItem value="HR">Recursos Humanos</SelectItem>
-                            <SelectItem value="Logistics">Logística</SelectItem>
-                            <SelectItem value="Sales">Ventas</SelectItem>
-                          </SelectContent>
-                        </Select>
-                        {registerForm.formState.errors.department && (
+                        <Label htmlFor="register-email">Correo electrónico</Label>
+                        <Input
+                          id="register-email"
+                          type="email"
+                          placeholder="correo@ejemplo.com"
+                          readOnly={!!invitation?.email}
+                          {...registerForm.register("email")}
+                          className={registerForm.formState.errors.email ? "border-destructive" : ""}
+                        />
+                        {registerForm.formState.errors.email && (
                           <p className="text-xs text-destructive mt-1">
-                            {registerForm.formState.errors.department.message}
+                            {registerForm.formState.errors.email.message}
                           </p>
                         )}
                       </div>
-                    </div>
-                    <Button 
-                      type="submit" 
-                      className="w-full mt-2"
-                      disabled={registerMutation.isPending}
-                    >
-                      {registerMutation.isPending ? (
-                        <span className="flex items-center">
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                          Registrando...
-                        </span>
-                      ) : (
-                        "Registrarse"
+                      {!invitation && (
+                        <div className="grid gap-2">
+                          <Label htmlFor="register-department">Departamento</Label>
+                          <Select 
+                            onValueChange={(value) => registerForm.setValue("department", value)} 
+                            defaultValue={registerForm.getValues("department")}
+                          >
+                            <SelectTrigger 
+                              id="register-department"
+                              className={registerForm.formState.errors.department ? "border-destructive" : ""}
+                            >
+                              <SelectValue placeholder="Seleccione" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {departments.map((department) => (
+                                <SelectItem key={department.code} value={department.code}>{department.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {registerForm.formState.errors.department && (
+                            <p className="text-xs text-destructive mt-1">
+                              {registerForm.formState.errors.department.message}
+                            </p>
+                          )}
+                        </div>
                       )}
-                    </Button>
-                  </div>
-                </form>
+                      <Button 
+                        type="submit" 
+                        className="w-full mt-2"
+                        disabled={registerMutation.isPending}
+                      >
+                        {registerMutation.isPending ? (
+                          <span className="flex items-center">
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            Registrando...
+                          </span>
+                        ) : (
+                          "Registrarse"
+                        )}
+                      </Button>
+                    </div>
+                  </form>
+                )}
               </TabsContent>
             </Tabs>
           </CardContent>
           <CardFooter className="flex flex-col">
-            <p className="mt-2 text-xs text-center text-neutral-500">
-              {activeTab === 'login' ? (
-                <>
-                  ¿No tienes una cuenta?{" "}
-                  <button 
-                    onClick={() => setActiveTab("register")} 
-                    className="text-primary hover:underline"
-                  >
-                    Regístrate aquí
-                  </button>
-                </>
-              ) : (
-                <>
-                  ¿Ya tienes una cuenta?{" "}
-                  <button 
-                    onClick={() => setActiveTab("login")} 
-                    className="text-primary hover:underline"
-                  >
-                    Inicia sesión
-                  </button>
-                </>
-              )}
-            </p>
+            {canRegister && (
+              <p className="mt-2 text-xs text-center text-neutral-500">
+                {activeTab === 'login' ? (
+                  <>
+                    ¿No tienes una cuenta?{" "}
+                    <button 
+                      onClick={() => setActiveTab("register")} 
+                      className="text-primary hover:underline"
+                    >
+                      Regístrate aquí
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    ¿Ya tienes una cuenta?{" "}
+                    <button 
+                      onClick={() => setActiveTab("login")} 
+                      className="text-primary hover:underline"
+                    >
+                      Inicia sesión
+                    </button>
+                  </>
+                )}
+              </p>
+            )}
           </CardFooter>
         </Card>
       </div>
@@ -0,0 +1,132 @@
+import { useEffect } from "react";
+import { useLocation } from "wouter";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { CurrentUser, passwordSchema } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+
+const changePasswordFormSchema = z.object({
+  currentPassword: z.string().min(1, { message: "La contraseña actual es obligatoria" }),
+  newPassword: passwordSchema,
+  confirmPassword: z.string().min(1, { message: "Confirme la nueva contraseña" }),
+}).refine((data) => data.newPassword === data.confirmPassword, {
+  message: "Las contraseñas no coinciden",
+  path: ["confirmPassword"],
+});
+
+type ChangePasswordFormValues = z.infer<typeof changePasswordFormSchema>;
+
+// Shown instead of every protected page while the account has an administrator-assigned or expired password
+export default function ChangePasswordPage() {
+  const [, navigate] = useLocation();
+  const { user, isLoading, logoutMutation } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (isLoading) return;
+    if (!user) {
+      navigate("/auth");
+    } else if (!user.mustChangePassword && !user.passwordExpired) {
+      navigate("/dashboard");
+    }
+  }, [user, isLoading, navigate]);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ChangePasswordFormValues>({
+    resolver: zodResolver(changePasswordFormSchema),
+    defaultValues: {
+      currentPassword: "",
+      newPassword: "",
+      confirmPassword: "",
+    },
+  });
+
+  const changePasswordMutation = useMutation({
+    mutationFn: async ({ currentPassword, newPassword }: ChangePasswordFormValues) => {
+      const res = await apiRequest("POST", "/api/user/password", { currentPassword, newPassword });
+      return (await res.json()) as CurrentUser;
+    },
+    onSuccess: (updatedUser) => {
+      queryClient.setQueryData(["/api/user"], updatedUser);
+      toast({
+        title: "Contraseña actualizada",
+        description: "Su nueva contraseña se ha guardado correctamente",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al cambiar la contraseña",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-neutral-50 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Cambio de contraseña obligatorio</CardTitle>
+          <CardDescription>
+            {user?.mustChangePassword
+              ? "Un administrador ha asignado su contraseña. Elija una nueva para continuar."
+              : "Su contraseña ha caducado. Elija una nueva para continuar."}
+          </CardDescription>
+        </CardHeader>
+        <form onSubmit={handleSubmit((data) => changePasswordMutation.mutate(data))}>
+          <CardContent className="space-y-4">
+            <div className="grid gap-2">
+              <Label htmlFor="current-password">Contraseña actual</Label>
+              <Input id="current-password" type="password" {...register("currentPassword")} />
+              {errors.currentPassword && (
+                <p className="text-xs text-destructive">{errors.currentPassword.message}</p>
+              )}
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="new-password">Nueva contraseña</Label>
+              <Input id="new-password" type="password" {...register("newPassword")} />
+              {errors.newPassword && (
+                <p className="text-xs text-destructive">{errors.newPassword.message}</p>
+              )}
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="confirm-password">Confirmar nueva contraseña</Label>
+              <Input id="confirm-password" type="password" {...register("confirmPassword")} />
+              {errors.confirmPassword && (
+                <p className="text-xs text-destructive">{errors.confirmPassword.message}</p>
+              )}
+            </div>
+          </CardContent>
+          <CardFooter className="flex justify-between">
+            <Button type="button" variant="ghost" onClick={() => logoutMutation.mutate()}>
+              Cerrar sesión
+            </Button>
+            <Button type="submit" disabled={changePasswordMutation.isPending}>
+              {changePasswordMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Guardar contraseña
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+    </div>
+  );
+}
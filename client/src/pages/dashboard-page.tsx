@@ -1,12 +1,14 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
 import { MainLayout } from "@/components/layout/main-layout";
 import { StatsCard } from "@/components/dashboard/stats-card";
 import { PendingApprovals } from "@/components/dashboard/pending-approvals";
 import { TasksList } from "@/components/dashboard/tasks-list";
 import { RecentDocuments } from "@/components/dashboard/recent-documents";
+import { UpcomingReviews } from "@/components/dashboard/upcoming-reviews";
 import { ActivityTimeline } from "@/components/dashboard/activity-timeline";
 import { DocumentPreviewModal } from "@/components/documents/document-preview-modal";
+import { useListTotal } from "@/hooks/use-list-query";
+import { usePendingCounts } from "@/hooks/use-pending-counts";
 import { Document } from "@shared/schema";
 import { 
   FileText, 
@@ -19,32 +21,10 @@ export default function DashboardPage() {
   const [selectedDocument, setSelectedDocument] = useState<Document | null>(null);
   const [showDocumentModal, setShowDocumentModal] = useState(false);
   
-  // Get pending approvals count
-  const { data: approvals } = useQuery({
-    queryKey: ["/api/approvals"],
-    select: (data) => data.filter(approval => approval.status === "pending")
-  });
-  
-  // Get pending tasks count
-  const { data: tasks } = useQuery({
-    queryKey: ["/api/tasks"],
-    select: (data) => data.filter(task => 
-      task.status === "pending" || task.status === "in_progress"
-    )
-  });
-  
-  // Get documents count
-  const { data: documents } = useQuery({
-    queryKey: ["/api/documents"]
-  });
-  
-  // Get policies count and acceptance rate
-  const { data: policies } = useQuery({
-    queryKey: ["/api/documents"],
-    select: (data) => data.filter(doc => 
-      doc.category === "policy" && doc.status === "approved"
-    )
-  });
+  const { pendingApprovalCount, pendingTaskCount } = usePendingCounts();
+  const { total: documentCount } = useListTotal("/api/documents");
+  const { total: completedTaskCount } = useListTotal("/api/tasks", { status: "completed" });
+  const { total: activePolicyCount } = useListTotal("/api/documents", { category: "policy", status: "published" });
   
   const handleViewDocument = (document: Document) => {
     setSelectedDocument(document);
@@ -53,14 +33,14 @@ export default function DashboardPage() {
   
   return (
     <MainLayout 
-      pendingApprovalCount={approvals?.length || 0}
-      pendingTaskCount={tasks?.length || 0}
+      pendingApprovalCount={pendingApprovalCount}
+      pendingTaskCount={pendingTaskCount}
     >
       {/* Dashboard Overview */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
         <StatsCard
           title="Documentos Totales"
-          value={documents?.length || 0}
+          value={documentCount}
           icon={<FileText className="h-5 w-5" />}
           iconBgColor="bg-primary bg-opacity-10"
           iconColor="text-primary"
@@ -70,7 +50,7 @@ export default function DashboardPage() {
         
         <StatsCard
           title="Pendientes de Aprobación"
-          value={approvals?.length || 0}
+          value={pendingApprovalCount}
           icon={<Timer className="h-5 w-5" />}
           iconBgColor="bg-secondary bg-opacity-10"
           iconColor="text-secondary"
@@ -80,7 +60,7 @@ export default function DashboardPage() {
         
         <StatsCard
           title="Tareas Completadas"
-          value={tasks?.filter(task => task.status === "completed")?.length || 0}
+          value={completedTaskCount}
           icon={<CheckCircle className="h-5 w-5" />}
           iconBgColor="bg-success bg-opacity-10"
           iconColor="text-success"
@@ -90,7 +70,7 @@ export default function DashboardPage() {
         
         <StatsCard
           title="Políticas Activas"
-          value={policies?.length || 0}
+          value={activePolicyCount}
           icon={<BookOpen className="h-5 w-5" />}
           iconBgColor="bg-info bg-opacity-10"
           iconColor="text-info"
@@ -111,6 +91,9 @@ export default function DashboardPage() {
       {/* Recent Documents Section */}
       <RecentDocuments onViewDocument={handleViewDocument} />
       
+      {/* Upcoming Periodic Reviews */}
+      <UpcomingReviews onViewDocument={handleViewDocument} />
+      
       {/* Activity Timeline */}
       <ActivityTimeline />
       
@@ -1,10 +1,18 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
 import { MainLayout } from "@/components/layout/main-layout";
 import { DocumentCard } from "@/components/documents/document-card";
 import { DocumentPreviewModal } from "@/components/documents/document-preview-modal";
 import { NewDocumentModal } from "@/components/documents/new-document-modal";
-import { Document, User } from "@shared/schema";
+import { SearchResults } from "@/components/documents/search-results";
+import { useDocumentSearch } from "@/hooks/use-document-search";
+import { useInfiniteList } from "@/hooks/use-list-query";
+import { usePendingCounts } from "@/hooks/use-pending-counts";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useDepartments } from "@/hooks/use-departments";
+import { useDocumentCategories } from "@/hooks/use-document-categories";
+import { queryClient } from "@/lib/queryClient";
+import { documentStatusLabels } from "@/lib/document-status";
+import { Document, User, DOCUMENT_STATUSES } from "@shared/schema";
 import { 
   Card,
   CardContent,
@@ -33,78 +41,86 @@ type ExtendedDocument = Document & {
   createdByUser?: Partial<User>;
 };
 
+const DOCUMENTS_PAGE_SIZE = 24;
+
 export default function DocumentsPage() {
   const [searchQuery, setSearchQuery] = useState("");
   const [categoryFilter, setCategoryFilter] = useState<string>("all");
   const [departmentFilter, setDepartmentFilter] = useState<string>("all");
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [activeTab, setActiveTab] = useState<string>("all");
+  const [searchPage, setSearchPage] = useState(1);
   
   const [selectedDocument, setSelectedDocument] = useState<Document | null>(null);
   const [showDocumentModal, setShowDocumentModal] = useState(false);
   const [showNewDocumentModal, setShowNewDocumentModal] = useState(false);
+  const { can } = usePermissions();
+  const { departments } = useDepartments();
+  const { categories } = useDocumentCategories();
   
   // Get approvals and tasks counts for the badge in the sidebar
-  const { data: approvals } = useQuery({
-    queryKey: ["/api/approvals"],
-    select: (data) => data.filter(approval => approval.status === "pending")
-  });
+  const { pendingApprovalCount, pendingTaskCount } = usePendingCounts();
   
-  const { data: tasks } = useQuery({
-    queryKey: ["/api/tasks"],
-    select: (data) => data.filter(task => 
-      task.status === "pending" || task.status === "in_progress"
-    )
+  // Documents matching the selected filters, filtered and paged by the server
+  const {
+    items: documents,
+    total: documentTotal,
+    isLoading,
+    isError,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage
+  } = useInfiniteList<ExtendedDocument>("/api/documents", {
+    category: categoryFilter,
+    department: departmentFilter,
+    status: statusFilter,
+    sort: "-updatedAt",
+    pageSize: DOCUMENTS_PAGE_SIZE,
   });
   
-  // Get documents with their creators
-  const { data: documents, isLoading, isError } = useQuery<ExtendedDocument[]>({
-    queryKey: ["/api/documents"]
+  // Text queries go to the server-side full-text search
+  const search = useDocumentSearch(searchQuery, {
+    category: categoryFilter === "all" ? undefined : categoryFilter,
+    department: departmentFilter === "all" ? undefined : departmentFilter,
+    status: statusFilter === "all" ? undefined : statusFilter,
+    page: searchPage,
   });
   
+  useEffect(() => {
+    setSearchPage(1);
+  }, [searchQuery, categoryFilter, departmentFilter, statusFilter]);
+  
+  // Match counts per filter value while searching
+  const facetCount = (facet: "category" | "department" | "status", value: string) => {
+    if (!search.isSearching || !search.data) return "";
+    const count = search.data.facets[facet].find((f) => f.value === value)?.count || 0;
+    return ` (${count})`;
+  };
+  
   const handleViewDocument = (document: Document) => {
     setSelectedDocument(document);
     setShowDocumentModal(true);
   };
   
-  // Filter documents based on search and filters
-  const filteredDocuments = documents?.filter(doc => {
-    // Search query filter
-    const matchesSearch = searchQuery 
-      ? doc.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        (doc.description || "").toLowerCase().includes(searchQuery.toLowerCase())
-      : true;
-    
-    // Category filter
-    const matchesCategory = categoryFilter === "all" ? true : doc.category === categoryFilter;
-    
-    // Department filter
-    const matchesDepartment = departmentFilter === "all" ? true : doc.department === departmentFilter;
-    
-    // Status filter
-    const matchesStatus = statusFilter === "all" ? true : doc.status === statusFilter;
-    
-    // Tab filter (My Documents, All Documents)
-    const matchesTab = true; // This would be implemented based on user
-    
-    return matchesSearch && matchesCategory && matchesDepartment && matchesStatus && matchesTab;
-  });
-  
-  // Get unique categories, departments for filter options
-  const categories = documents ? [...new Set(documents.map(doc => doc.category))] : [];
-  const departments = documents ? [...new Set(documents.map(doc => doc.department))] : [];
+  // Search results only carry a summary of the document, so load the full one
+  const handleViewSearchResult = async (documentId: number) => {
+    const document = await queryClient.fetchQuery<Document>({ queryKey: [`/api/documents/${documentId}`] });
+    handleViewDocument(document);
+  };
   
   return (
     <MainLayout 
-      pendingApprovalCount={approvals?.length || 0}
-      pendingTaskCount={tasks?.length || 0}
+      pendingApprovalCount={pendingApprovalCount}
+      pendingTaskCount={pendingTaskCount}
     >
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-bold">Documentos</h1>
-        <Button onClick={() => setShowNewDocumentModal(true)}>
-          <Plus className="mr-2 h-4 w-4" />
-          Nuevo Documento
-        </Button>
+        {can("document.create") && (
+          <Button onClick={() => setShowNewDocumentModal(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Nuevo Documento
+          </Button>
+        )}
       </div>
       
       <Card className="mb-6">
@@ -132,14 +148,10 @@ export default function DocumentsPage() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">Todas las categorías</SelectItem>
-                  {categories.map((category, index) => (
-                    <SelectItem key={index} value={category}>
-                      {category === "process" ? "Proceso Operativo" :
-                       category === "policy" ? "Política" :
-                       category === "instruction" ? "Instructivo" :
-                       category === "procedure" ? "Procedimiento" :
-                       category === "manual" ? "Manual" :
-                       category}
+                  {categories.map((category) => (
+                    <SelectItem key={category.code} value={category.code}>
+                      {category.name}
+                      {facetCount("category", category.code)}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -151,9 +163,10 @@ export default function DocumentsPage() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">Todos los departamentos</SelectItem>
-                  {departments.map((department, index) => (
-                    <SelectItem key={index} value={department}>
-                      {department}
+                  {departments.map((department) => (
+                    <SelectItem key={department.code} value={department.code}>
+                      {department.name}
+                      {facetCount("department", department.code)}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -165,10 +178,11 @@ export default function DocumentsPage() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">Todos los estados</SelectItem>
-                  <SelectItem value="draft">Borrador</SelectItem>
-                  <SelectItem value="pending">Pendiente</SelectItem>
-                  <SelectItem value="approved">Aprobado</SelectItem>
-                  <SelectItem value="rejected">Rechazado</SelectItem>
+                  {DOCUMENT_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {documentStatusLabels[status]}{facetCount("status", status)}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -182,7 +196,25 @@ export default function DocumentsPage() {
           <TabsTrigger value="my">Mis Documentos</TabsTrigger>
         </TabsList>
         <TabsContent value="all" className="mt-6">
-          {isLoading ? (
+          {search.isSearching ? (
+            search.isLoading || !search.data ? (
+              search.isError ? (
+                <div className="text-center py-12 text-destructive">
+                  Error al buscar documentos. Intente de nuevo.
+                </div>
+              ) : (
+                <div className="flex justify-center items-center py-12">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+              )
+            ) : (
+              <SearchResults
+                response={search.data}
+                onPageChange={setSearchPage}
+                onSelect={(result) => handleViewSearchResult(result.document.id)}
+              />
+            )
+          ) : isLoading ? (
             <div className="flex justify-center items-center py-12">
               <Loader2 className="h-8 w-8 animate-spin text-primary" />
             </div>
@@ -190,29 +222,44 @@ export default function DocumentsPage() {
             <div className="text-center py-12 text-destructive">
               Error al cargar documentos. Intente de nuevo.
             </div>
-          ) : filteredDocuments && filteredDocuments.length > 0 ? (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-              {filteredDocuments.map((document) => (
-                <DocumentCard 
-                  key={document.id} 
-                  document={document}
-                  onView={() => handleViewDocument(document)}
-                />
-              ))}
+          ) : documents.length > 0 ? (
+            <div className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+                {documents.map((document) => (
+                  <DocumentCard 
+                    key={document.id} 
+                    document={document}
+                    onView={() => handleViewDocument(document)}
+                  />
+                ))}
+              </div>
+              <div className="flex flex-col items-center space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  Mostrando {documents.length} de {documentTotal} documentos
+                </p>
+                {hasNextPage && (
+                  <Button variant="outline" disabled={isFetchingNextPage} onClick={() => fetchNextPage()}>
+                    {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Cargar más
+                  </Button>
+                )}
+              </div>
             </div>
           ) : (
             <div className="text-center py-12 text-muted-foreground">
               <FileText className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
               <h3 className="text-lg font-medium mb-2">No se encontraron documentos</h3>
               <p>Pruebe a cambiar los filtros o cree un nuevo documento.</p>
-              <Button 
-                variant="outline" 
-                className="mt-4"
-                onClick={() => setShowNewDocumentModal(true)}
-              >
-                <Plus className="mr-2 h-4 w-4" />
-                Crear Documento
-              </Button>
+              {can("document.create") && (
+                <Button 
+                  variant="outline" 
+                  className="mt-4"
+                  onClick={() => setShowNewDocumentModal(true)}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Crear Documento
+                </Button>
+              )}
             </div>
           )}
         </TabsContent>
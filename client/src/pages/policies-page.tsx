@@ -1,9 +1,25 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { useDocumentSearch } from "@/hooks/use-document-search";
+import { useAllPages } from "@/hooks/use-list-query";
+import { usePendingCounts } from "@/hooks/use-pending-counts";
 import { MainLayout } from "@/components/layout/main-layout";
 import { DocumentCard } from "@/components/documents/document-card";
 import { DocumentPreviewModal } from "@/components/documents/document-preview-modal";
-import { Document, User, PolicyAcceptance } from "@shared/schema";
+import { PolicyAssignmentsDialog } from "@/components/policies/policy-assignments-dialog";
+import {
+  Document,
+  User,
+  PolicyAcceptance,
+  PolicyAcceptanceStatus,
+  PolicyAdoption,
+  UserPolicyAssignment,
+  MAX_PAGE_SIZE,
+  DOCUMENT_STATUSES,
+  isReviewOverdue,
+  policyAcceptanceStatus
+} from "@shared/schema";
+import { documentStatusLabels } from "@/lib/document-status";
 import { 
   Card,
   CardContent,
@@ -27,11 +43,15 @@ import {
   Clock,
   AlertTriangle,
   Loader2,
-  Filter
+  Filter,
+  Users,
+  ClipboardList
 } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useDepartments } from "@/hooks/use-departments";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { 
@@ -56,61 +76,56 @@ type ExtendedDocument = Document & {
   acceptanceCount?: number;
   acceptancePercentage?: number;
   currentUserAccepted?: boolean;
+  acceptanceStatus?: PolicyAcceptanceStatus;
+  // Last version the user accepted before a new major version invalidated it
+  previousAcceptedVersion?: string;
+  // The user's mandatory reading of the policy with the nearest deadline
+  assignment?: UserPolicyAssignment;
 };
 
 type UserAcceptance = PolicyAcceptance & {
-  user: Partial<User>;
+  user?: Partial<User>;
 };
 
 export default function PoliciesPage() {
   const [searchQuery, setSearchQuery] = useState("");
   const [departmentFilter, setDepartmentFilter] = useState<string>("all");
-  const [statusFilter, setStatusFilter] = useState<string>("approved");
+  const [statusFilter, setStatusFilter] = useState<string>("published");
   const [selectedPolicy, setSelectedPolicy] = useState<ExtendedDocument | null>(null);
   const [showPolicyModal, setShowPolicyModal] = useState(false);
   const [showAcceptanceDialog, setShowAcceptanceDialog] = useState(false);
   const [showAcceptancesListDialog, setShowAcceptancesListDialog] = useState(false);
   const [policyAcceptances, setPolicyAcceptances] = useState<UserAcceptance[]>([]);
+  const [assignmentsPolicy, setAssignmentsPolicy] = useState<ExtendedDocument | null>(null);
   
   const { toast } = useToast();
   const { user } = useAuth();
+  const { can } = usePermissions();
+  const { departmentName } = useDepartments();
   
-  // Get pending approvals count for the badge in the sidebar
-  const { data: approvals } = useQuery({
-    queryKey: ["/api/approvals"],
-    select: (data) => data.filter(approval => approval.status === "pending")
-  });
+  // Get pending approvals and tasks counts for the badge in the sidebar
+  const { pendingApprovalCount, pendingTaskCount } = usePendingCounts();
   
-  // Get pending tasks count for the badge in the sidebar
-  const { data: tasks } = useQuery({
-    queryKey: ["/api/tasks"],
-    select: (data) => data.filter(task => 
-      task.status === "pending" || task.status === "in_progress"
-    )
+  // Get all documents with policies category, page after page; the adoption stats need every policy
+  const { items: policyItems, isLoading, isError } = useAllPages<ExtendedDocument>("/api/documents", {
+    category: "policy",
+    // Users accept the version in effect, not a revision someone is working on
+    published: "true",
+    sort: "title",
+    pageSize: MAX_PAGE_SIZE,
   });
+  const policies = isLoading ? undefined : policyItems.map(policy => ({
+    ...policy,
+    // Default values that will be updated with acceptance data if available
+    acceptanceCount: 0,
+    acceptancePercentage: 0,
+    currentUserAccepted: false
+  }));
   
-  // Get all documents with policies category
-  const { data: policies, isLoading, isError } = useQuery<ExtendedDocument[]>({
-    queryKey: ["/api/documents"],
-    select: (data) => {
-      // Filter policies
-      return data
-        .filter(doc => doc.category === "policy")
-        .map(policy => ({
-          ...policy,
-          // Default values that will be updated with acceptance data if available
-          acceptanceCount: 0,
-          acceptancePercentage: 0,
-          currentUserAccepted: false
-        }));
-    }
-  });
+  const search = useDocumentSearch(searchQuery, { category: "policy", pageSize: 100 });
   
-  // Get all users for calculating acceptance percentage
-  const { data: users } = useQuery<User[]>({
-    queryKey: ["/api/users"],
-    enabled: policies !== undefined && policies.length > 0
-  });
+  // Position of each matching policy in the ranked search results
+  const searchRanks = new Map(search.data?.results.map((result, index) => [result.document.id, index]) || []);
   
   // Get policy acceptances for the current user
   const { data: userAcceptances } = useQuery<PolicyAcceptance[]>({
@@ -118,6 +133,28 @@ export default function PoliciesPage() {
     enabled: policies !== undefined && policies.length > 0
   });
   
+  // Mandatory readings assigned to the current user
+  const { data: userAssignments } = useQuery<UserPolicyAssignment[]>({
+    queryKey: ["/api/policies/assignments/user"],
+  });
+  
+  // Adoption of each assigned policy across the organization
+  const { data: adoption } = useQuery<PolicyAdoption[]>({
+    queryKey: ["/api/policies/adoption"],
+    enabled: can("policy.view_acceptances"),
+  });
+  const adoptionByPolicy = new Map(adoption?.map(item => [item.documentId, item]) || []);
+  
+  // Opening a policy marks the user's mandatory readings of it as opened
+  const openPolicyMutation = useMutation({
+    mutationFn: async (policyId: number) => {
+      await apiRequest("POST", `/api/policies/${policyId}/open`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/policies/assignments/user"] });
+    },
+  });
+  
   // Accept policy mutation
   const acceptPolicyMutation = useMutation({
     mutationFn: async (policyId: number) => {
@@ -126,6 +163,10 @@ export default function PoliciesPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/policies/acceptances/user"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/policies/assignments/user"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/policies/adoption"] });
+      // Accepting a new version completes its re-acceptance and reading tasks
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
       toast({
         title: "Política aceptada",
         description: "Has aceptado exitosamente esta política",
@@ -157,45 +198,64 @@ export default function PoliciesPage() {
     }
   };
   
-  // Combine policies with acceptance data
+  // Combine policies with acceptance data; only acceptances of the current major version count
   const enhancedPolicies = policies?.map(policy => {
-    const accepted = userAcceptances?.some(
-      acceptance => acceptance.documentId === policy.id
-    ) || false;
+    const acceptanceStatus = policyAcceptanceStatus(userAcceptances || [], policy.id);
+    const previousAcceptance = acceptanceStatus === "needs_reacceptance"
+      ? userAcceptances
+          ?.filter(acceptance => acceptance.documentId === policy.id)
+          .sort((a, b) => new Date(b.acceptedAt).getTime() - new Date(a.acceptedAt).getTime())[0]
+      : undefined;
+    
+    const assignment = userAssignments
+      ?.filter(item => item.documentId === policy.id)
+      .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime())[0];
     
     return {
       ...policy,
-      currentUserAccepted: accepted
+      acceptanceStatus,
+      currentUserAccepted: acceptanceStatus === "accepted",
+      previousAcceptedVersion: previousAcceptance?.version,
+      assignment
     };
   });
   
   // Filter policies based on search and filters
   const filteredPolicies = enhancedPolicies?.filter(policy => {
-    // Search query filter
-    const matchesSearch = searchQuery 
-      ? policy.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        (policy.description || "").toLowerCase().includes(searchQuery.toLowerCase())
-      : true;
+    // Search query filter (ranked full-text search on the server)
+    const matchesSearch = search.isSearching ? searchRanks.has(policy.id) : true;
     
     // Department filter
     const matchesDepartment = departmentFilter === "all" ? true : policy.department === departmentFilter;
     
-    // Status filter
-    const matchesStatus = statusFilter === "all" ? true : policy.status === statusFilter;
+    // Status filter; "review_overdue" picks published policies past their periodic review
+    const matchesStatus = statusFilter === "all" ? true :
+      statusFilter === "review_overdue" ? isReviewOverdue(policy) : policy.status === statusFilter;
     
     return matchesSearch && matchesDepartment && matchesStatus;
-  });
+  }).sort((a, b) => search.isSearching ? searchRanks.get(a.id)! - searchRanks.get(b.id)! : 0);
   
-  // Separate policies by user acceptance
-  const acceptedPolicies = filteredPolicies?.filter(policy => policy.currentUserAccepted) || [];
+  // Policies the user still has to accept, mandatory readings first by deadline
   const pendingPolicies = filteredPolicies?.filter(policy => 
-    !policy.currentUserAccepted && policy.status === "approved"
+    !policy.currentUserAccepted && policy.status === "published"
+  ).sort((a, b) =>
+    (a.assignment ? new Date(a.assignment.dueDate).getTime() : Infinity) -
+    (b.assignment ? new Date(b.assignment.dueDate).getTime() : Infinity)
   ) || [];
   
-  // Calculate total adoption rate
-  const totalApprovedPolicies = policies?.filter(p => p.status === "approved").length || 0;
-  const totalAcceptedByUser = acceptedPolicies.length;
-  const adoptionRate = totalApprovedPolicies ? Math.round((totalAcceptedByUser / totalApprovedPolicies) * 100) : 0;
+  // The user's adoption rate counts the policies assigned to them, once each
+  const assignedPolicyIds = Array.from(new Set(userAssignments?.map(item => item.documentId) || []));
+  const assignedToUser = assignedPolicyIds.length;
+  const acceptedByUser = assignedPolicyIds.filter(id =>
+    userAssignments?.some(item => item.documentId === id && item.status === "accepted")
+  ).length;
+  const overdueForUser = assignedPolicyIds.filter(id =>
+    userAssignments?.some(item => item.documentId === id && item.overdue)
+  ).length;
+  const adoptionRate = assignedToUser ? Math.round((acceptedByUser / assignedToUser) * 100) : 0;
+  
+  // Published policies with their adoption, for users who can see acceptances
+  const publishedPolicies = enhancedPolicies?.filter(policy => policy.status === "published") || [];
   
   // Get unique departments for filter options
   const departments = policies 
@@ -205,6 +265,9 @@ export default function PoliciesPage() {
   const handleViewPolicy = (policy: Document) => {
     setSelectedPolicy(policy as ExtendedDocument);
     setShowPolicyModal(true);
+    if (policy.status === "published") {
+      openPolicyMutation.mutate(policy.id);
+    }
   };
   
   const handleAcceptPolicy = () => {
@@ -224,8 +287,8 @@ export default function PoliciesPage() {
 
   return (
     <MainLayout 
-      pendingApprovalCount={approvals?.length || 0}
-      pendingTaskCount={tasks?.length || 0}
+      pendingApprovalCount={pendingApprovalCount}
+      pendingTaskCount={pendingTaskCount}
     >
       <div className="flex justify-between items-center mb-6">
         <div>
@@ -264,7 +327,7 @@ export default function PoliciesPage() {
                     <SelectItem value="all">Todos los departamentos</SelectItem>
                     {departments.map((department, index) => (
                       <SelectItem key={index} value={department}>
-                        {department}
+                        {departmentName(department)}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -276,10 +339,10 @@ export default function PoliciesPage() {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">Todos los estados</SelectItem>
-                    <SelectItem value="draft">Borrador</SelectItem>
-                    <SelectItem value="pending">Pendiente</SelectItem>
-                    <SelectItem value="approved">Aprobado</SelectItem>
-                    <SelectItem value="rejected">Rechazado</SelectItem>
+                    {DOCUMENT_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>{documentStatusLabels[status]}</SelectItem>
+                    ))}
+                    <SelectItem value="review_overdue">Revisión vencida</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -292,25 +355,36 @@ export default function PoliciesPage() {
             <CardTitle className="text-lg">Mi Adopción</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="space-y-4">
-              <div>
-                <div className="flex justify-between mb-1">
-                  <span className="text-sm font-medium">Progreso de adopción</span>
-                  <span className="text-sm font-medium">{adoptionRate}%</span>
-                </div>
-                <Progress value={adoptionRate} className="h-2" />
-              </div>
-              <div className="grid grid-cols-2 gap-4 text-center">
+            {assignedToUser > 0 ? (
+              <div className="space-y-4">
                 <div>
-                  <p className="text-2xl font-bold">{totalAcceptedByUser}</p>
-                  <p className="text-xs text-muted-foreground">Políticas aceptadas</p>
+                  <div className="flex justify-between mb-1">
+                    <span className="text-sm font-medium">Lecturas obligatorias</span>
+                    <span className="text-sm font-medium">{adoptionRate}%</span>
+                  </div>
+                  <Progress value={adoptionRate} className="h-2" />
                 </div>
-                <div>
-                  <p className="text-2xl font-bold">{pendingPolicies.length}</p>
-                  <p className="text-xs text-muted-foreground">Pendientes</p>
+                <div className="grid grid-cols-2 gap-4 text-center">
+                  <div>
+                    <p className="text-2xl font-bold">{acceptedByUser}</p>
+                    <p className="text-xs text-muted-foreground">Aceptadas</p>
+                  </div>
+                  <div>
+                    <p className="text-2xl font-bold">{assignedToUser - acceptedByUser}</p>
+                    <p className="text-xs text-muted-foreground">Pendientes</p>
+                  </div>
                 </div>
+                {overdueForUser > 0 && (
+                  <p className="text-xs text-destructive text-center">
+                    {overdueForUser} con la fecha límite vencida
+                  </p>
+                )}
               </div>
-            </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No tienes políticas asignadas como lectura obligatoria.
+              </p>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -336,10 +410,32 @@ export default function PoliciesPage() {
                       <div>
                         <h3 className="font-medium">{policy.title}</h3>
                         <p className="text-sm text-muted-foreground">
-                          {policy.department} • Actualizado: {formatDate(policy.updatedAt)}
+                          {departmentName(policy.department)} • Actualizado: {formatDate(policy.updatedAt)}
                         </p>
+                        {policy.acceptanceStatus === "needs_reacceptance" && (
+                          <p className="text-sm text-muted-foreground">
+                            Aceptaste la versión {policy.previousAcceptedVersion}; la versión {policy.publishedVersion ?? policy.version} requiere una nueva aceptación.
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex flex-col items-end gap-1">
+                        {policy.acceptanceStatus === "needs_reacceptance" ? (
+                          <Badge className="bg-warning">Requiere nueva aceptación</Badge>
+                        ) : (
+                          <Badge variant="warning">Pendiente de aceptación</Badge>
+                        )}
+                        {policy.assignment && (
+                          policy.assignment.overdue ? (
+                            <Badge variant="destructive">
+                              Obligatoria • vencida el {formatDate(policy.assignment.dueDate)}
+                            </Badge>
+                          ) : (
+                            <Badge variant="outline">
+                              Obligatoria • antes del {formatDate(policy.assignment.dueDate)}
+                            </Badge>
+                          )
+                        )}
                       </div>
-                      <Badge variant="warning">Pendiente de aceptación</Badge>
                     </div>
                     {policy.description && (
                       <p className="text-sm mt-2">{policy.description}</p>
@@ -357,7 +453,7 @@ export default function PoliciesPage() {
                         size="sm"
                         onClick={() => handleShowAcceptanceDialog(policy)}
                       >
-                        Aceptar política
+                        {policy.acceptanceStatus === "needs_reacceptance" ? "Aceptar nueva versión" : "Aceptar política"}
                       </Button>
                     </div>
                   </div>
@@ -391,19 +487,36 @@ export default function PoliciesPage() {
                   <div key={policy.id} className="flex justify-between items-center p-2 hover:bg-neutral-50 rounded-md">
                     <div className="flex-1">
                       <p className="text-sm font-medium truncate">{policy.title}</p>
-                      <p className="text-xs text-muted-foreground">{policy.department}</p>
+                      <p className="text-xs text-muted-foreground">{departmentName(policy.department)}</p>
                     </div>
+                    {isReviewOverdue(policy) && (
+                      <Badge variant="destructive" className="ml-2">Revisión vencida</Badge>
+                    )}
                     {policy.currentUserAccepted ? (
                       <Badge variant="success" className="ml-2">Aceptada</Badge>
-                    ) : policy.status === "approved" ? (
+                    ) : policy.status === "published" && policy.acceptanceStatus === "needs_reacceptance" ? (
+                      <Badge className="ml-2 bg-warning">Nueva versión</Badge>
+                    ) : policy.status === "published" ? (
                       <Badge variant="warning" className="ml-2">Pendiente</Badge>
                     ) : (
                       <Badge variant="secondary" className="ml-2">
-                        {policy.status === "draft" ? "Borrador" : 
-                         policy.status === "pending" ? "En revisión" : 
-                         policy.status === "rejected" ? "Rechazada" : policy.status}
+                        {documentStatusLabels[policy.status]}
                       </Badge>
                     )}
+                    {can("policy.view_acceptances") && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="ml-1 h-7 w-7"
+                        title="Ver aceptaciones"
+                        onClick={() => {
+                          setSelectedPolicy(policy);
+                          fetchPolicyAcceptances(policy.id);
+                        }}
+                      >
+                        <Users className="h-4 w-4" />
+                      </Button>
+                    )}
                   </div>
                 ))}
               </div>
@@ -421,6 +534,72 @@ export default function PoliciesPage() {
         </Card>
       </div>
       
+      {can("policy.view_acceptances") && (
+        <Card className="mb-6">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg flex items-center">
+              <ClipboardList className="h-5 w-5 text-primary mr-2" />
+              Adopción por política
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {publishedPolicies.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Política</TableHead>
+                    <TableHead className="text-right">Asignados</TableHead>
+                    <TableHead className="text-right">Abiertas</TableHead>
+                    <TableHead className="text-right">Aceptadas</TableHead>
+                    <TableHead className="w-40">Adopción</TableHead>
+                    <TableHead className="text-right">Vencidas</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {publishedPolicies.map((policy) => {
+                    const stats = adoptionByPolicy.get(policy.id);
+                    const rate = stats?.assigned ? Math.round((stats.accepted / stats.assigned) * 100) : 0;
+                    return (
+                      <TableRow key={policy.id}>
+                        <TableCell className="font-medium">{policy.title}</TableCell>
+                        <TableCell className="text-right">{stats?.assigned ?? 0}</TableCell>
+                        <TableCell className="text-right">{stats?.opened ?? 0}</TableCell>
+                        <TableCell className="text-right">{stats?.accepted ?? 0}</TableCell>
+                        <TableCell>
+                          {stats ? (
+                            <div className="flex items-center gap-2">
+                              <Progress value={rate} className="h-2" />
+                              <span className="text-xs w-10 text-right">{rate}%</span>
+                            </div>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">Sin asignar</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {stats?.overdue ? (
+                            <span className="text-destructive font-medium">{stats.overdue}</span>
+                          ) : 0}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="outline" size="sm" onClick={() => setAssignmentsPolicy(policy)}>
+                            Asignaciones
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            ) : (
+              <div className="text-center py-6 text-muted-foreground text-sm">
+                No hay políticas publicadas
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+      
       <Card>
         <CardHeader className="pb-3">
           <CardTitle className="text-lg">Todas las Políticas</CardTitle>
@@ -461,6 +640,13 @@ export default function PoliciesPage() {
         document={selectedPolicy || undefined}
       />
       
+      {/* Mandatory Reading Assignments Dialog */}
+      <PolicyAssignmentsDialog
+        policy={assignmentsPolicy}
+        open={!!assignmentsPolicy}
+        onClose={() => setAssignmentsPolicy(null)}
+      />
+      
       {/* Policy Acceptance Dialog */}
       <Dialog open={showAcceptanceDialog} onOpenChange={setShowAcceptanceDialog}>
         <DialogContent className="sm:max-w-[500px]">
@@ -476,9 +662,12 @@ export default function PoliciesPage() {
             <div className="bg-neutral-50 p-4 rounded-md">
               <p className="text-sm mb-2"><strong>Detalles de la política:</strong></p>
               <ul className="text-sm space-y-1">
-                <li><strong>Departamento:</strong> {selectedPolicy?.department}</li>
+                <li><strong>Departamento:</strong> {departmentName(selectedPolicy?.department)}</li>
                 <li><strong>Fecha de actualización:</strong> {selectedPolicy ? formatDate(selectedPolicy.updatedAt) : ''}</li>
-                <li><strong>Versión:</strong> {selectedPolicy?.version}</li>
+                <li><strong>Versión:</strong> {selectedPolicy?.publishedVersion ?? selectedPolicy?.version}</li>
+                {selectedPolicy?.previousAcceptedVersion && (
+                  <li><strong>Versión aceptada anteriormente:</strong> {selectedPolicy.previousAcceptedVersion}</li>
+                )}
               </ul>
             </div>
           </div>
@@ -527,22 +716,31 @@ export default function PoliciesPage() {
                     <TableHead>Usuario</TableHead>
                     <TableHead>Rol</TableHead>
                     <TableHead>Departamento</TableHead>
+                    <TableHead>Versión</TableHead>
                     <TableHead>Fecha de Aceptación</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {policyAcceptances.map((acceptance) => (
                     <TableRow key={acceptance.id}>
-                      <TableCell>{acceptance.user.name}</TableCell>
+                      <TableCell>{acceptance.user?.name}</TableCell>
+                      <TableCell>
+                        {acceptance.user?.role === "analyst" ? "Analista" : 
+                         acceptance.user?.role === "operator" ? "Operador" : 
+                         acceptance.user?.role === "coordinator" ? "Coordinador" : 
+                         acceptance.user?.role === "manager" ? "Manager" : 
+                         acceptance.user?.role === "admin" ? "Administrador" : 
+                         acceptance.user?.role}
+                      </TableCell>
+                      <TableCell>{departmentName(acceptance.user?.department)}</TableCell>
                       <TableCell>
-                        {acceptance.user.role === "analyst" ? "Analista" : 
-                         acceptance.user.role === "operator" ? "Operador" : 
-                         acceptance.user.role === "coordinator" ? "Coordinador" : 
-                         acceptance.user.role === "manager" ? "Manager" : 
-                         acceptance.user.role === "admin" ? "Administrador" : 
-                         acceptance.user.role}
+                        {acceptance.version}
+                        {acceptance.invalidatedAt && (
+                          <Badge className="ml-2 bg-warning">
+                            Sustituida por {acceptance.supersededByVersion}
+                          </Badge>
+                        )}
                       </TableCell>
-                      <TableCell>{acceptance.user.department}</TableCell>
                       <TableCell>{formatDate(acceptance.acceptedAt)}</TableCell>
                     </TableRow>
                   ))}
@@ -1,6 +1,9 @@
 import { MainLayout } from "@/components/layout/main-layout";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
-import { useQuery } from "@tanstack/react-query";
+import { useListTotal, useListTotals } from "@/hooks/use-list-query";
+import { useDocumentCategories } from "@/hooks/use-document-categories";
+import { documentStatusLabels } from "@/lib/document-status";
+import { DOCUMENT_STATUSES, DocumentStatus } from "@shared/schema";
 import { 
   Chart as ChartJS, 
   CategoryScale, 
@@ -18,7 +21,6 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import { useState } from "react";
-import { Document, Approval, Task } from "@shared/schema";
 
 ChartJS.register(
   CategoryScale,
@@ -32,83 +34,62 @@ ChartJS.register(
   LineElement
 );
 
+// Slice colors for the category chart, reused in turn when there are more categories
+const CATEGORY_COLORS = [
+  '255, 99, 132',
+  '54, 162, 235',
+  '255, 206, 86',
+  '75, 192, 192',
+  '153, 102, 255',
+  '255, 159, 64',
+];
+
+const STATUS_COLORS: Record<DocumentStatus, string> = {
+  draft: '128, 128, 128',
+  in_review: '255, 193, 7',
+  rejected: '220, 53, 69',
+  published: '40, 167, 69',
+  superseded: '54, 162, 235',
+  obsolete: '52, 58, 64',
+  archived: '173, 181, 189',
+};
+
 export default function ReportsPage() {
   const [timePeriod, setTimePeriod] = useState("month");
   
-  const { data: documents = [] } = useQuery<Document[]>({
-    queryKey: ["/api/documents"],
-  });
-  
-  const { data: approvals = [] } = useQuery<Approval[]>({
-    queryKey: ["/api/approvals"],
-  });
-  
-  const { data: tasks = [] } = useQuery<Task[]>({
-    queryKey: ["/api/tasks"],
-  });
-  
-  const { data: activities = [] } = useQuery<any[]>({
-    queryKey: ["/api/activities"],
-  });
+  // Counts come from the totals of the paginated list endpoints
+  const { total: documentTotal } = useListTotal("/api/documents");
+  const { categories } = useDocumentCategories();
+  const documentCategoryCounts = useListTotals("/api/documents", "category", categories.map((category) => category.code));
+  const documentStatusCounts = useListTotals("/api/documents", "status", DOCUMENT_STATUSES);
+  const approvalStatusCounts = useListTotals("/api/approvals", "status", ['pending', 'approved', 'rejected']);
+  const taskPriorityCounts = useListTotals("/api/tasks", "priority", ['low', 'medium', 'high', 'urgent']);
 
   // Processing data for charts
   const documentsByCategory = {
-    labels: ['Proceso', 'Política', 'Instructivo', 'Procedimiento', 'Manual', 'Otro'],
+    labels: [...categories.map((category) => category.name), 'Otro'],
     datasets: [
       {
         label: 'Documentos por Categoría',
         data: [
-          documents?.filter(d => d.category === 'process').length || 0,
-          documents?.filter(d => d.category === 'policy').length || 0,
-          documents?.filter(d => d.category === 'instruction').length || 0,
-          documents?.filter(d => d.category === 'procedure').length || 0,
-          documents?.filter(d => d.category === 'manual').length || 0,
-          documents?.filter(d => !['process', 'policy', 'instruction', 'procedure', 'manual'].includes(d.category)).length || 0,
-        ],
-        backgroundColor: [
-          'rgba(255, 99, 132, 0.6)',
-          'rgba(54, 162, 235, 0.6)',
-          'rgba(255, 206, 86, 0.6)',
-          'rgba(75, 192, 192, 0.6)',
-          'rgba(153, 102, 255, 0.6)',
-          'rgba(255, 159, 64, 0.6)',
-        ],
-        borderColor: [
-          'rgba(255, 99, 132, 1)',
-          'rgba(54, 162, 235, 1)',
-          'rgba(255, 206, 86, 1)',
-          'rgba(75, 192, 192, 1)',
-          'rgba(153, 102, 255, 1)',
-          'rgba(255, 159, 64, 1)',
+          ...documentCategoryCounts,
+          Math.max(0, documentTotal - documentCategoryCounts.reduce((sum, count) => sum + count, 0)),
         ],
+        backgroundColor: [...categories, null].map((_, index) => `rgba(${CATEGORY_COLORS[index % CATEGORY_COLORS.length]}, 0.6)`),
+        borderColor: [...categories, null].map((_, index) => `rgba(${CATEGORY_COLORS[index % CATEGORY_COLORS.length]}, 1)`),
         borderWidth: 1,
       },
     ],
   };
 
   const documentsByStatus = {
-    labels: ['Borrador', 'Pendiente', 'Aprobado', 'Rechazado'],
+    labels: DOCUMENT_STATUSES.map((status) => documentStatusLabels[status]),
     datasets: [
       {
         label: 'Documentos por Estado',
-        data: [
-          documents?.filter(d => d.status === 'draft').length || 0,
-          documents?.filter(d => d.status === 'pending').length || 0,
-          documents?.filter(d => d.status === 'approved').length || 0,
-          documents?.filter(d => d.status === 'rejected').length || 0,
-        ],
-        backgroundColor: [
-          'rgba(128, 128, 128, 0.6)',
-          'rgba(255, 193, 7, 0.6)',
-          'rgba(40, 167, 69, 0.6)',
-          'rgba(220, 53, 69, 0.6)',
-        ],
-        borderColor: [
-          'rgba(128, 128, 128, 1)',
-          'rgba(255, 193, 7, 1)',
-          'rgba(40, 167, 69, 1)',
-          'rgba(220, 53, 69, 1)',
-        ],
+        data: documentStatusCounts,
+        backgroundColor: DOCUMENT_STATUSES.map((status) => `rgba(${STATUS_COLORS[status]}, 0.6)`),
+        borderColor: DOCUMENT_STATUSES.map((status) => `rgba(${STATUS_COLORS[status]}, 1)`),
         borderWidth: 1,
       },
     ],
@@ -119,12 +100,7 @@ export default function ReportsPage() {
     datasets: [
       {
         label: 'Tareas por Prioridad',
-        data: [
-          tasks?.filter(t => t.priority === 'low').length || 0,
-          tasks?.filter(t => t.priority === 'medium').length || 0,
-          tasks?.filter(t => t.priority === 'high').length || 0,
-          tasks?.filter(t => t.priority === 'urgent').length || 0,
-        ],
+        data: taskPriorityCounts,
         backgroundColor: [
           'rgba(40, 167, 69, 0.6)',
           'rgba(255, 193, 7, 0.6)',
@@ -230,11 +206,7 @@ export default function ReportsPage() {
                   data={{
                     labels: ['Pendientes', 'Aprobadas', 'Rechazadas'],
                     datasets: [{
-                      data: [
-                        approvals?.filter(a => a.status === 'pending').length || 0,
-                        approvals?.filter(a => a.status === 'approved').length || 0, 
-                        approvals?.filter(a => a.status === 'rejected').length || 0
-                      ],
+                      data: approvalStatusCounts,
                       backgroundColor: [
                         'rgba(255, 193, 7, 0.6)',
                         'rgba(40, 167, 69, 0.6)',
@@ -6,57 +6,206 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useDepartments } from "@/hooks/use-departments";
 import { useToast } from "@/hooks/use-toast";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ApprovalWorkflowsSettings } from "@/components/approvals/approval-workflows-settings";
+import { TwoFactorSettings } from "@/components/auth/two-factor-settings";
+import { ActiveSessions } from "@/components/auth/active-sessions";
+import { ApiTokens } from "@/components/auth/api-tokens";
+import { RolePermissionsSettings } from "@/components/users/role-permissions-settings";
+import { DepartmentsSettings } from "@/components/departments/departments-settings";
+import { DocumentCategoriesSettings } from "@/components/documents/document-categories-settings";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  DEFAULT_SYSTEM_SETTINGS,
+  DEFAULT_USER_PREFERENCES,
+  CurrentUser,
+  SystemSettings,
+  User,
+  UserPreferences,
+  passwordSchema
+} from "@shared/schema";
+
+type ProfileUpdate = Partial<Pick<User, "name" | "email" | "preferences">>;
+type NotificationChannel = keyof UserPreferences;
+type NotificationTopic = keyof UserPreferences["emailNotifications"];
+type NumericSystemSetting = {
+  [K in keyof SystemSettings]: SystemSettings[K] extends number ? K : never;
+}[keyof SystemSettings];
 
 export default function SettingsPage() {
   const { user } = useAuth();
+  const { can } = usePermissions();
+  const { departmentName } = useDepartments();
   const { toast } = useToast();
-  const [loading, setLoading] = useState(false);
   
-  const isAdmin = user?.role === 'admin';
+  const isAdmin = can("settings.manage");
 
-  const handleSaveProfile = (e: React.FormEvent) => {
-    e.preventDefault();
-    setLoading(true);
-    
-    // Simulate API call
-    setTimeout(() => {
-      setLoading(false);
+  const [name, setName] = useState(user?.name ?? "");
+  const [email, setEmail] = useState(user?.email ?? "");
+  const [preferences, setPreferences] = useState<UserPreferences>(user?.preferences ?? DEFAULT_USER_PREFERENCES);
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [systemSettings, setSystemSettings] = useState<SystemSettings>(DEFAULT_SYSTEM_SETTINGS);
+
+  const { data: savedSystemSettings } = useQuery<SystemSettings>({
+    queryKey: ["/api/settings"],
+    enabled: isAdmin,
+  });
+
+  useEffect(() => {
+    if (savedSystemSettings) {
+      setSystemSettings(savedSystemSettings);
+    }
+  }, [savedSystemSettings]);
+
+  useEffect(() => {
+    if (user) {
+      setName(user.name);
+      setEmail(user.email);
+      setPreferences(user.preferences ?? DEFAULT_USER_PREFERENCES);
+    }
+  }, [user]);
+
+  const updateProfileMutation = useMutation({
+    mutationFn: async (data: ProfileUpdate) => {
+      const res = await apiRequest("PATCH", "/api/user", data);
+      return (await res.json()) as CurrentUser;
+    },
+    onSuccess: (updatedUser) => {
+      queryClient.setQueryData(["/api/user"], updatedUser);
+    },
+    onError: (error: Error) => {
       toast({
-        title: "Perfil actualizado",
-        description: "Tu perfil ha sido actualizado correctamente.",
+        title: "Error al guardar",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const changePasswordMutation = useMutation({
+    mutationFn: async (data: { currentPassword: string; newPassword: string }) => {
+      const res = await apiRequest("POST", "/api/user/password", data);
+      return (await res.json()) as CurrentUser;
+    },
+    onSuccess: (updatedUser) => {
+      queryClient.setQueryData(["/api/user"], updatedUser);
+      setCurrentPassword("");
+      setNewPassword("");
+      setConfirmPassword("");
+      toast({
+        title: "Contraseña actualizada",
+        description: "Tu contraseña ha sido actualizada y se han cerrado tus otras sesiones.",
       });
-    }, 1000);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al cambiar la contraseña",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateSystemSettingsMutation = useMutation({
+    mutationFn: async (data: SystemSettings) => {
+      const res = await apiRequest("PUT", "/api/settings", data);
+      return (await res.json()) as SystemSettings;
+    },
+    onSuccess: (settings) => {
+      queryClient.setQueryData(["/api/settings"], settings);
+      // The 2FA policy may now apply to the administrator themselves
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      toast({
+        title: "Configuración guardada",
+        description: "La configuración del sistema se ha actualizado",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al guardar la configuración",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const setNumberSetting = (key: NumericSystemSetting, value: string) => {
+    setSystemSettings({ ...systemSettings, [key]: Number(value) });
+  };
+
+  const handleSaveProfile = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateProfileMutation.mutate(
+      { name, email },
+      {
+        onSuccess: () => {
+          toast({
+            title: "Perfil actualizado",
+            description: "Tu perfil ha sido actualizado correctamente.",
+          });
+        },
+      }
+    );
   };
 
   const handleSavePassword = (e: React.FormEvent) => {
     e.preventDefault();
-    setLoading(true);
-    
-    // Simulate API call
-    setTimeout(() => {
-      setLoading(false);
+
+    if (!currentPassword || !newPassword || !confirmPassword) {
       toast({
-        title: "Contraseña actualizada",
-        description: "Tu contraseña ha sido actualizada correctamente.",
+        title: "Error",
+        description: "Por favor, complete todos los campos",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (newPassword !== confirmPassword) {
+      toast({
+        title: "Error",
+        description: "Las contraseñas no coinciden",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const passwordCheck = passwordSchema.safeParse(newPassword);
+    if (!passwordCheck.success) {
+      toast({
+        title: "Error",
+        description: passwordCheck.error.errors[0].message,
+        variant: "destructive",
       });
-    }, 1000);
+      return;
+    }
+
+    changePasswordMutation.mutate({ currentPassword, newPassword });
   };
 
   const handleSaveNotifications = (e: React.FormEvent) => {
     e.preventDefault();
-    setLoading(true);
-    
-    // Simulate API call
-    setTimeout(() => {
-      setLoading(false);
-      toast({
-        title: "Preferencias actualizadas",
-        description: "Tus preferencias de notificación han sido actualizadas.",
-      });
-    }, 1000);
+    updateProfileMutation.mutate(
+      { preferences },
+      {
+        onSuccess: () => {
+          toast({
+            title: "Preferencias actualizadas",
+            description: "Tus preferencias de notificación han sido actualizadas.",
+          });
+        },
+      }
+    );
+  };
+
+  const setNotification = (channel: NotificationChannel, topic: NotificationTopic, checked: boolean) => {
+    setPreferences({ ...preferences, [channel]: { ...preferences[channel], [topic]: checked } });
   };
 
   return (
@@ -89,16 +238,16 @@ export default function SettingsPage() {
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div className="space-y-2">
                     <Label htmlFor="name">Nombre completo</Label>
-                    <Input id="name" defaultValue={user?.name} />
+                    <Input id="name" value={name} onChange={(e) => setName(e.target.value)} />
                   </div>
                   <div className="space-y-2">
                     <Label htmlFor="email">Correo electrónico</Label>
-                    <Input id="email" type="email" defaultValue={user?.email} />
+                    <Input id="email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} />
                   </div>
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="department">Departamento</Label>
-                  <Input id="department" defaultValue={user?.department} disabled={!isAdmin} />
+                  <Input id="department" value={departmentName(user?.department)} readOnly disabled />
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="role">Rol</Label>
@@ -112,8 +261,8 @@ export default function SettingsPage() {
                 </div>
               </CardContent>
               <CardFooter>
-                <Button type="submit" disabled={loading}>
-                  {loading ? "Guardando..." : "Guardar cambios"}
+                <Button type="submit" disabled={updateProfileMutation.isPending}>
+                  {updateProfileMutation.isPending ? "Guardando..." : "Guardar cambios"}
                 </Button>
               </CardFooter>
             </form>
@@ -132,24 +281,57 @@ export default function SettingsPage() {
               <CardContent className="space-y-4">
                 <div className="space-y-2">
                   <Label htmlFor="current-password">Contraseña actual</Label>
-                  <Input id="current-password" type="password" />
+                  <Input id="current-password" type="password" value={currentPassword} onChange={(e) => setCurrentPassword(e.target.value)} />
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="new-password">Nueva contraseña</Label>
-                  <Input id="new-password" type="password" />
+                  <Input id="new-password" type="password" value={newPassword} onChange={(e) => setNewPassword(e.target.value)} />
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="confirm-password">Confirmar contraseña</Label>
-                  <Input id="confirm-password" type="password" />
+                  <Input id="confirm-password" type="password" value={confirmPassword} onChange={(e) => setConfirmPassword(e.target.value)} />
                 </div>
               </CardContent>
               <CardFooter>
-                <Button type="submit" disabled={loading}>
-                  {loading ? "Actualizando..." : "Actualizar contraseña"}
+                <Button type="submit" disabled={changePasswordMutation.isPending}>
+                  {changePasswordMutation.isPending ? "Actualizando..." : "Actualizar contraseña"}
                 </Button>
               </CardFooter>
             </form>
           </Card>
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle>Autenticación de dos factores</CardTitle>
+              <CardDescription>
+                Protege tu cuenta con un código de una aplicación de autenticación
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <TwoFactorSettings />
+            </CardContent>
+          </Card>
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle>Sesiones activas</CardTitle>
+              <CardDescription>
+                Navegadores y dispositivos en los que has iniciado sesión
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ActiveSessions />
+            </CardContent>
+          </Card>
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle>Tokens de API</CardTitle>
+              <CardDescription>
+                Acceso a la API para scripts e integraciones, con tus mismos permisos limitados a los ámbitos elegidos
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ApiTokens />
+            </CardContent>
+          </Card>
         </TabsContent>
 
         <TabsContent value="notifications">
@@ -171,7 +353,11 @@ export default function SettingsPage() {
                         Recibe notificaciones cuando un documento requiera tu aprobación
                       </p>
                     </div>
-                    <Switch id="email-approvals" defaultChecked />
+                    <Switch
+                      id="email-approvals"
+                      checked={preferences.emailNotifications.approvals}
+                      onCheckedChange={(checked) => setNotification("emailNotifications", "approvals", checked)}
+                    />
                   </div>
                   <div className="flex items-center justify-between">
                     <div className="space-y-0.5">
@@ -180,7 +366,11 @@ export default function SettingsPage() {
                         Recibe notificaciones cuando se te asigne una nueva tarea
                       </p>
                     </div>
-                    <Switch id="email-tasks" defaultChecked />
+                    <Switch
+                      id="email-tasks"
+                      checked={preferences.emailNotifications.tasks}
+                      onCheckedChange={(checked) => setNotification("emailNotifications", "tasks", checked)}
+                    />
                   </div>
                   <div className="flex items-center justify-between">
                     <div className="space-y-0.5">
@@ -189,7 +379,11 @@ export default function SettingsPage() {
                         Recibe notificaciones cuando se publique una nueva política
                       </p>
                     </div>
-                    <Switch id="email-policies" defaultChecked />
+                    <Switch
+                      id="email-policies"
+                      checked={preferences.emailNotifications.policies}
+                      onCheckedChange={(checked) => setNotification("emailNotifications", "policies", checked)}
+                    />
                   </div>
                 </div>
                 <div className="space-y-4">
@@ -201,7 +395,11 @@ export default function SettingsPage() {
                         Mostrar notificaciones para solicitudes de aprobación
                       </p>
                     </div>
-                    <Switch id="in-app-approvals" defaultChecked />
+                    <Switch
+                      id="in-app-approvals"
+                      checked={preferences.inAppNotifications.approvals}
+                      onCheckedChange={(checked) => setNotification("inAppNotifications", "approvals", checked)}
+                    />
                   </div>
                   <div className="flex items-center justify-between">
                     <div className="space-y-0.5">
@@ -210,7 +408,11 @@ export default function SettingsPage() {
                         Mostrar notificaciones para nuevas tareas
                       </p>
                     </div>
-                    <Switch id="in-app-tasks" defaultChecked />
+                    <Switch
+                      id="in-app-tasks"
+                      checked={preferences.inAppNotifications.tasks}
+                      onCheckedChange={(checked) => setNotification("inAppNotifications", "tasks", checked)}
+                    />
                   </div>
                   <div className="flex items-center justify-between">
                     <div className="space-y-0.5">
@@ -219,13 +421,17 @@ export default function SettingsPage() {
                         Mostrar notificaciones para nuevas políticas
                       </p>
                     </div>
-                    <Switch id="in-app-policies" defaultChecked />
+                    <Switch
+                      id="in-app-policies"
+                      checked={preferences.inAppNotifications.policies}
+                      onCheckedChange={(checked) => setNotification("inAppNotifications", "policies", checked)}
+                    />
                   </div>
                 </div>
               </CardContent>
               <CardFooter>
-                <Button type="submit" disabled={loading}>
-                  {loading ? "Guardando..." : "Guardar preferencias"}
+                <Button type="submit" disabled={updateProfileMutation.isPending}>
+                  {updateProfileMutation.isPending ? "Guardando..." : "Guardar preferencias"}
                 </Button>
               </CardFooter>
             </form>
@@ -244,23 +450,75 @@ export default function SettingsPage() {
               <CardContent className="space-y-6">
                 <div className="space-y-4">
                   <h3 className="text-sm font-medium">Flujos de aprobación</h3>
+                  <ApprovalWorkflowsSettings />
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div className="space-y-2">
-                      <Label htmlFor="approval-levels">Niveles de aprobación requeridos</Label>
-                      <Select defaultValue="2">
-                        <SelectTrigger id="approval-levels">
-                          <SelectValue placeholder="Seleccionar niveles" />
+                      <Label htmlFor="auto-approve">Aprobación automática (días)</Label>
+                      <Input id="auto-approve" type="number" min="0" defaultValue="0" />
+                    </div>
+                  </div>
+                </div>
+                <div className="space-y-4">
+                  <h3 className="text-sm font-medium">Codificación de documentos</h3>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="document-code-assignment">Asignar código</Label>
+                      <Select
+                        value={systemSettings.documentCodeAssignment}
+                        onValueChange={(value) => setSystemSettings({
+                          ...systemSettings,
+                          documentCodeAssignment: value as SystemSettings["documentCodeAssignment"],
+                        })}
+                      >
+                        <SelectTrigger id="document-code-assignment">
+                          <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="1">1 nivel</SelectItem>
-                          <SelectItem value="2">2 niveles</SelectItem>
-                          <SelectItem value="3">3 niveles</SelectItem>
+                          <SelectItem value="creation">Al crear el documento</SelectItem>
+                          <SelectItem value="approval">En la primera aprobación</SelectItem>
                         </SelectContent>
                       </Select>
+                      <p className="text-xs text-muted-foreground">
+                        Formato DEPARTAMENTO-PREFIJO-NÚMERO (PRD-PRO-0042), numerado por departamento y categoría
+                      </p>
+                    </div>
+                  </div>
+                </div>
+                <div className="space-y-4">
+                  <h3 className="text-sm font-medium">Revisión periódica</h3>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="review-reminder">Aviso de revisión (días)</Label>
+                      <Input
+                        id="review-reminder"
+                        type="number"
+                        min="0"
+                        max="365"
+                        value={systemSettings.reviewReminderDays}
+                        onChange={(e) => setNumberSetting("reviewReminderDays", e.target.value)}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Días antes de la fecha de revisión en que el autor recibe la tarea de revisar el documento
+                      </p>
                     </div>
+                  </div>
+                </div>
+                <div className="space-y-4">
+                  <h3 className="text-sm font-medium">Lectura obligatoria de políticas</h3>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div className="space-y-2">
-                      <Label htmlFor="auto-approve">Aprobación automática (días)</Label>
-                      <Input id="auto-approve" type="number" min="0" defaultValue="0" />
+                      <Label htmlFor="policy-reminder">Recordatorios de lectura (días)</Label>
+                      <Input
+                        id="policy-reminder"
+                        type="number"
+                        min="1"
+                        max="90"
+                        value={systemSettings.policyReminderDays}
+                        onChange={(e) => setNumberSetting("policyReminderDays", e.target.value)}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Días antes de la fecha límite en que se recuerda la lectura a quien no ha aceptado la política, y cada cuántos días se repite el recordatorio
+                      </p>
                     </div>
                   </div>
                 </div>
@@ -282,30 +540,156 @@ export default function SettingsPage() {
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div className="space-y-2">
                       <Label htmlFor="session-timeout">Tiempo de sesión (minutos)</Label>
-                      <Input id="session-timeout" type="number" min="5" defaultValue="60" />
+                      <Input
+                        id="session-timeout"
+                        type="number"
+                        min="5"
+                        max="1440"
+                        value={systemSettings.sessionIdleMinutes}
+                        onChange={(e) => setNumberSetting("sessionIdleMinutes", e.target.value)}
+                      />
+                      <p className="text-xs text-muted-foreground">La sesión se cierra tras este tiempo sin actividad</p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="session-max">Duración máxima de sesión (horas)</Label>
+                      <Input
+                        id="session-max"
+                        type="number"
+                        min="1"
+                        max="720"
+                        value={systemSettings.sessionMaxHours}
+                        onChange={(e) => setNumberSetting("sessionMaxHours", e.target.value)}
+                      />
+                      <p className="text-xs text-muted-foreground">Pasado este tiempo hay que volver a iniciar sesión</p>
                     </div>
                     <div className="space-y-2">
                       <Label htmlFor="password-expiration">Expiración de contraseña (días)</Label>
-                      <Input id="password-expiration" type="number" min="0" defaultValue="90" />
+                      <Input
+                        id="password-expiration"
+                        type="number"
+                        min="0"
+                        max="3650"
+                        value={systemSettings.passwordExpirationDays}
+                        onChange={(e) => setNumberSetting("passwordExpirationDays", e.target.value)}
+                      />
+                      <p className="text-xs text-muted-foreground">0 para que las contraseñas no caduquen</p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="password-history">Historial de contraseñas</Label>
+                      <Input
+                        id="password-history"
+                        type="number"
+                        min="0"
+                        max="24"
+                        value={systemSettings.passwordHistoryCount}
+                        onChange={(e) => setNumberSetting("passwordHistoryCount", e.target.value)}
+                      />
+                      <p className="text-xs text-muted-foreground">Número de contraseñas anteriores que no pueden reutilizarse</p>
                     </div>
                   </div>
                   <div className="flex items-center justify-between">
                     <div className="space-y-0.5">
                       <Label htmlFor="two-factor">Autenticación de dos factores</Label>
                       <p className="text-sm text-muted-foreground">
-                        Requerir 2FA para todos los usuarios
+                        Requerir 2FA para administradores, managers y coordinadores
                       </p>
                     </div>
-                    <Switch id="two-factor" />
+                    <Switch
+                      id="two-factor"
+                      checked={systemSettings.requireTwoFactorForApprovers}
+                      onCheckedChange={(checked) => setSystemSettings({ ...systemSettings, requireTwoFactorForApprovers: checked })}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-4">
+                  <h3 className="text-sm font-medium">Bloqueo por intentos fallidos</h3>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="max-failed-logins">Intentos por usuario</Label>
+                      <Input
+                        id="max-failed-logins"
+                        type="number"
+                        min="1"
+                        max="100"
+                        value={systemSettings.maxFailedLogins}
+                        onChange={(e) => setNumberSetting("maxFailedLogins", e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="max-failed-logins-ip">Intentos por dirección IP</Label>
+                      <Input
+                        id="max-failed-logins-ip"
+                        type="number"
+                        min="1"
+                        max="1000"
+                        value={systemSettings.maxFailedLoginsPerIp}
+                        onChange={(e) => setNumberSetting("maxFailedLoginsPerIp", e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="lockout-minutes">Duración del bloqueo (minutos)</Label>
+                      <Input
+                        id="lockout-minutes"
+                        type="number"
+                        min="1"
+                        max="1440"
+                        value={systemSettings.lockoutMinutes}
+                        onChange={(e) => setNumberSetting("lockoutMinutes", e.target.value)}
+                      />
+                    </div>
                   </div>
+                  <p className="text-sm text-muted-foreground">
+                    A partir del tercer intento fallido cada nuevo intento debe esperar el doble que el anterior.
+                    Al alcanzar el límite, la cuenta o la dirección quedan bloqueadas durante el tiempo indicado.
+                  </p>
                 </div>
               </CardContent>
               <CardFooter>
-                <Button>
-                  Guardar configuración
+                <Button
+                  onClick={() => updateSystemSettingsMutation.mutate(systemSettings)}
+                  disabled={updateSystemSettingsMutation.isPending}
+                >
+                  {updateSystemSettingsMutation.isPending ? "Guardando..." : "Guardar configuración"}
                 </Button>
               </CardFooter>
             </Card>
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle>Permisos por rol</CardTitle>
+                <CardDescription>
+                  Acciones permitidas a cada rol; los cambios se aplican al momento
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <RolePermissionsSettings />
+              </CardContent>
+            </Card>
+            {can("department.manage") && (
+              <Card className="mt-6">
+                <CardHeader>
+                  <CardTitle>Departamentos</CardTitle>
+                  <CardDescription>
+                    Departamentos disponibles para usuarios, documentos e invitaciones
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <DepartmentsSettings />
+                </CardContent>
+              </Card>
+            )}
+            {can("category.manage") && (
+              <Card className="mt-6">
+                <CardHeader>
+                  <CardTitle>Categorías de documentos</CardTitle>
+                  <CardDescription>
+                    Tipos de documento con su prefijo, campos obligatorios, ruta de aprobación, revisión periódica y plantilla
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <DocumentCategoriesSettings />
+                </CardContent>
+              </Card>
+            )}
           </TabsContent>
         )}
       </Tabs>
@@ -1,9 +1,13 @@
 import { useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useMutation } from "@tanstack/react-query";
 import { MainLayout } from "@/components/layout/main-layout";
 import { TaskItem } from "@/components/tasks/task-item";
+import { UserPicker } from "@/components/users/user-picker";
 import { Task, User, Document } from "@shared/schema";
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useInfiniteList } from "@/hooks/use-list-query";
+import { usePendingCounts } from "@/hooks/use-pending-counts";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { 
@@ -53,6 +57,23 @@ type ExtendedTask = Task & {
   documentTitle?: string;
 };
 
+const TASKS_PAGE_SIZE = 30;
+
+type TaskList = ReturnType<typeof useInfiniteList<ExtendedTask>>;
+
+function LoadMoreTasks({ list }: { list: TaskList }) {
+  if (!list.hasNextPage) return null;
+
+  return (
+    <div className="flex justify-center mt-6">
+      <Button variant="outline" disabled={list.isFetchingNextPage} onClick={() => list.fetchNextPage()}>
+        {list.isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Cargar más
+      </Button>
+    </div>
+  );
+}
+
 export default function TasksPage() {
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
@@ -68,23 +89,28 @@ export default function TasksPage() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   
   const { user } = useAuth();
+  const { can } = usePermissions();
   const { toast } = useToast();
   
-  // Get pending approvals count for the badge in the sidebar
-  const { data: approvals } = useQuery({
-    queryKey: ["/api/approvals"],
-    select: (data) => data.filter(approval => approval.status === "pending")
-  });
+  // Get pending approvals and tasks counts for the badge in the sidebar
+  const { pendingApprovalCount, pendingTaskCount } = usePendingCounts();
   
-  // Get all tasks with related users
-  const { data: allTasks, isLoading, isError } = useQuery<ExtendedTask[]>({
-    queryKey: ["/api/tasks"]
+  // One paged list per tab, filtered by priority on the server
+  const listParams = (status: Task["status"]) => ({
+    status,
+    priority: priorityFilter,
+    pageSize: TASKS_PAGE_SIZE,
   });
+  const isStatusShown = (status: Task["status"]) => statusFilter === "all" || statusFilter === status;
   
-  // Get all users for assignee selection
-  const { data: users } = useQuery<User[]>({
-    queryKey: ["/api/users"]
-  });
+  const pendingList = useInfiniteList<ExtendedTask>("/api/tasks", listParams("pending"), { enabled: isStatusShown("pending") });
+  const inProgressList = useInfiniteList<ExtendedTask>("/api/tasks", listParams("in_progress"), { enabled: isStatusShown("in_progress") });
+  const completedList = useInfiniteList<ExtendedTask>("/api/tasks", listParams("completed"), { enabled: isStatusShown("completed") });
+  const canceledList = useInfiniteList<ExtendedTask>("/api/tasks", listParams("canceled"), { enabled: isStatusShown("canceled") });
+  
+  const taskLists = [pendingList, inProgressList, completedList, canceledList];
+  const isLoading = taskLists.some((list) => list.isLoading);
+  const isError = taskLists.some((list) => list.isError);
   
   // Create task mutation
   const createTaskMutation = useMutation({
@@ -110,28 +136,22 @@ export default function TasksPage() {
     },
   });
   
-  // Filter tasks based on search and filters
-  const filteredTasks = allTasks?.filter(task => {
-    // Search query filter
-    const matchesSearch = searchQuery 
-      ? task.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        (task.description || "").toLowerCase().includes(searchQuery.toLowerCase())
-      : true;
-    
-    // Status filter
-    const matchesStatus = statusFilter === "all" ? true : task.status === statusFilter;
-    
-    // Priority filter
-    const matchesPriority = priorityFilter === "all" ? true : task.priority === priorityFilter;
-    
-    return matchesSearch && matchesStatus && matchesPriority;
-  });
+  // Search query filter over the loaded tasks
+  const matchesSearch = (task: ExtendedTask) => searchQuery 
+    ? task.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      (task.description || "").toLowerCase().includes(searchQuery.toLowerCase())
+    : true;
+  
+  const statusItems = (list: TaskList, status: Task["status"]) =>
+    isStatusShown(status) ? list.items.filter(matchesSearch) : [];
+  const statusTotal = (list: TaskList, status: Task["status"]) =>
+    isStatusShown(status) ? list.total : 0;
   
   // Separate tasks by status
-  const pendingTasks = filteredTasks?.filter(task => task.status === "pending") || [];
-  const inProgressTasks = filteredTasks?.filter(task => task.status === "in_progress") || [];
-  const completedTasks = filteredTasks?.filter(task => task.status === "completed") || [];
-  const canceledTasks = filteredTasks?.filter(task => task.status === "canceled") || [];
+  const pendingTasks = statusItems(pendingList, "pending");
+  const inProgressTasks = statusItems(inProgressList, "in_progress");
+  const completedTasks = statusItems(completedList, "completed");
+  const canceledTasks = statusItems(canceledList, "canceled");
   
   const handleCreateTask = async () => {
     if (!taskTitle) {
@@ -181,8 +201,8 @@ export default function TasksPage() {
   
   return (
     <MainLayout 
-      pendingApprovalCount={approvals?.length || 0}
-      pendingTaskCount={pendingTasks.length + inProgressTasks.length}
+      pendingApprovalCount={pendingApprovalCount}
+      pendingTaskCount={pendingTaskCount}
     >
       <div className="flex justify-between items-center mb-6">
         <div>
@@ -191,10 +211,12 @@ export default function TasksPage() {
             Gestiona y controla tus tareas y asignaciones
           </p>
         </div>
-        <Button onClick={() => setShowNewTaskDialog(true)}>
-          <Plus className="mr-2 h-4 w-4" />
-          Nueva Tarea
-        </Button>
+        {can("task.assign") && (
+          <Button onClick={() => setShowNewTaskDialog(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Nueva Tarea
+          </Button>
+        )}
       </div>
       
       <Card className="mb-6">
@@ -250,19 +272,19 @@ export default function TasksPage() {
         <TabsList>
           <TabsTrigger value="pending" className="flex items-center">
             <ClipboardList className="mr-2 h-4 w-4" />
-            Pendientes ({pendingTasks.length})
+            Pendientes ({statusTotal(pendingList, "pending")})
           </TabsTrigger>
           <TabsTrigger value="in_progress" className="flex items-center">
             <Clock className="mr-2 h-4 w-4" />
-            En Progreso ({inProgressTasks.length})
+            En Progreso ({statusTotal(inProgressList, "in_progress")})
           </TabsTrigger>
           <TabsTrigger value="completed" className="flex items-center">
             <CheckCircle className="mr-2 h-4 w-4" />
-            Completadas ({completedTasks.length})
+            Completadas ({statusTotal(completedList, "completed")})
           </TabsTrigger>
           <TabsTrigger value="canceled" className="flex items-center">
             <XCircle className="mr-2 h-4 w-4" />
-            Canceladas ({canceledTasks.length})
+            Canceladas ({statusTotal(canceledList, "canceled")})
           </TabsTrigger>
         </TabsList>
         
@@ -276,24 +298,29 @@ export default function TasksPage() {
               Error al cargar tareas. Intente de nuevo.
             </div>
           ) : pendingTasks.length > 0 ? (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {pendingTasks.map((task) => (
-                <TaskItem key={task.id} task={task} />
-              ))}
-            </div>
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {pendingTasks.map((task) => (
+                  <TaskItem key={task.id} task={task} />
+                ))}
+              </div>
+              <LoadMoreTasks list={pendingList} />
+            </>
           ) : (
             <div className="text-center py-12 text-muted-foreground">
               <ClipboardList className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
               <h3 className="text-lg font-medium mb-2">No hay tareas pendientes</h3>
               <p>No hay tareas pendientes que coincidan con los filtros actuales.</p>
-              <Button 
-                variant="outline" 
-                className="mt-4"
-                onClick={() => setShowNewTaskDialog(true)}
-              >
-                <Plus className="mr-2 h-4 w-4" />
-                Crear Nueva Tarea
-              </Button>
+              {can("task.assign") && (
+                <Button 
+                  variant="outline" 
+                  className="mt-4"
+                  onClick={() => setShowNewTaskDialog(true)}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Crear Nueva Tarea
+                </Button>
+              )}
             </div>
           )}
         </TabsContent>
@@ -304,11 +331,14 @@ export default function TasksPage() {
               <Loader2 className="h-8 w-8 animate-spin text-primary" />
             </div>
           ) : inProgressTasks.length > 0 ? (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {inProgressTasks.map((task) => (
-                <TaskItem key={task.id} task={task} />
-              ))}
-            </div>
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {inProgressTasks.map((task) => (
+                  <TaskItem key={task.id} task={task} />
+                ))}
+              </div>
+              <LoadMoreTasks list={inProgressList} />
+            </>
           ) : (
             <div className="text-center py-12 text-muted-foreground">
               <Clock className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
@@ -324,11 +354,14 @@ export default function TasksPage() {
               <Loader2 className="h-8 w-8 animate-spin text-primary" />
             </div>
           ) : completedTasks.length > 0 ? (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {completedTasks.map((task) => (
-                <TaskItem key={task.id} task={task} />
-              ))}
-            </div>
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {completedTasks.map((task) => (
+                  <TaskItem key={task.id} task={task} />
+                ))}
+              </div>
+              <LoadMoreTasks list={completedList} />
+            </>
           ) : (
             <div className="text-center py-12 text-muted-foreground">
               <CheckCircle className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
@@ -344,11 +377,14 @@ export default function TasksPage() {
               <Loader2 className="h-8 w-8 animate-spin text-primary" />
             </div>
           ) : canceledTasks.length > 0 ? (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {canceledTasks.map((task) => (
-                <TaskItem key={task.id} task={task} />
-              ))}
-            </div>
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {canceledTasks.map((task) => (
+                  <TaskItem key={task.id} task={task} />
+                ))}
+              </div>
+              <LoadMoreTasks list={canceledList} />
+            </>
           ) : (
             <div className="text-center py-12 text-muted-foreground">
               <XCircle className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
@@ -398,32 +434,17 @@ export default function TasksPage() {
               <Label htmlFor="task-assignee">
                 Asignar a <span className="text-destructive">*</span>
               </Label>
-              <Select 
-                value={taskAssignee?.toString() || ""} 
-                onValueChange={(value) => setTaskAssignee(Number(value))}
-              >
-                <SelectTrigger 
-                  id="task-assignee"
-                  className={!taskAssignee ? "border-destructive" : ""}
-                >
-                  <SelectValue placeholder="Seleccionar usuario" />
-                </SelectTrigger>
-                <SelectContent>
-                  {users ? (
-                    users.map((u) => (
-                      <SelectItem key={u.id} value={u.id.toString()}>
-                        {u.name} ({u.role === "analyst" ? "Analista" : 
-                         u.role === "operator" ? "Operador" : 
-                         u.role === "coordinator" ? "Coordinador" : 
-                         u.role === "manager" ? "Manager" : 
-                         "Usuario"})
-                      </SelectItem>
-                    ))
-                  ) : (
-                    <SelectItem value="">Cargando usuarios...</SelectItem>
-                  )}
-                </SelectContent>
-              </Select>
+              <UserPicker
+                id="task-assignee"
+                value={taskAssignee}
+                onChange={(user) => setTaskAssignee(user?.id ?? null)}
+                describe={(u) => u.role === "analyst" ? "Analista" :
+                  u.role === "operator" ? "Operador" :
+                  u.role === "coordinator" ? "Coordinador" :
+                  u.role === "manager" ? "Manager" :
+                  "Usuario"}
+                className={!taskAssignee ? "border-destructive" : ""}
+              />
               {!taskAssignee && (
                 <p className="text-xs text-destructive mt-1">Debe seleccionar un usuario</p>
               )}
@@ -0,0 +1,49 @@
+import { useEffect } from "react";
+import { useLocation } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { TwoFactorSettings } from "@/components/auth/two-factor-settings";
+
+// Shown instead of every protected page while the 2FA policy applies to an account without it
+export default function TwoFactorSetupPage() {
+  const [, navigate] = useLocation();
+  const { user, isLoading, logoutMutation } = useAuth();
+
+  useEffect(() => {
+    if (isLoading) return;
+    if (!user) {
+      navigate("/auth");
+    } else if (!user.twoFactorSetupRequired) {
+      navigate("/dashboard");
+    }
+  }, [user, isLoading, navigate]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-neutral-50 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Autenticación de dos factores obligatoria</CardTitle>
+          <CardDescription>
+            La política del sistema exige la autenticación de dos factores para su rol. Configúrela para continuar.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <TwoFactorSettings />
+        </CardContent>
+        <CardFooter>
+          <Button type="button" variant="ghost" onClick={() => logoutMutation.mutate()}>
+            Cerrar sesión
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
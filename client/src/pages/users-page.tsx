@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
 import { MainLayout } from "@/components/layout/main-layout";
 import { User } from "@shared/schema";
 import { 
@@ -25,11 +25,23 @@ import {
   Lock,
   Users as UsersIcon,
   UserPlus,
-  Filter
+  Filter,
+  ChevronLeft,
+  ChevronRight,
+  UserX,
+  UserCheck,
+  ShieldOff,
+  LockOpen,
+  MonitorSmartphone
 } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useDepartments } from "@/hooks/use-departments";
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
+import { usePagedQuery } from "@/hooks/use-list-query";
+import { usePendingCounts } from "@/hooks/use-pending-counts";
+import { UserInvitations } from "@/components/users/user-invitations";
 import { Badge } from "@/components/ui/badge";
 import { 
   Table, 
@@ -48,15 +60,16 @@ import {
   DialogDescription
 } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
+import { ActiveSessions } from "@/components/auth/active-sessions";
 import { useForm, Controller } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { insertUserSchema } from "@shared/schema";
+import { insertUserSchema, passwordSchema } from "@shared/schema";
 
 // Create user form schema with validation
 const userFormSchema = insertUserSchema.extend({
   username: z.string().min(3, { message: "El usuario debe tener al menos 3 caracteres" }),
-  password: z.string().min(6, { message: "La contraseña debe tener al menos 6 caracteres" }),
+  password: passwordSchema,
   name: z.string().min(1, { message: "El nombre es obligatorio" }),
   email: z.string().email({ message: "Email inválido" }),
   role: z.string().min(1, { message: "El rol es obligatorio" }),
@@ -69,39 +82,52 @@ type UserFormValues = z.infer<typeof userFormSchema>;
 const editUserFormSchema = userFormSchema.partial({ password: true });
 type EditUserFormValues = z.infer<typeof editUserFormSchema>;
 
+const USERS_PAGE_SIZE = 25;
+
 export default function UsersPage() {
   const [searchQuery, setSearchQuery] = useState("");
   const [roleFilter, setRoleFilter] = useState<string>("all");
   const [departmentFilter, setDepartmentFilter] = useState<string>("all");
+  const [statusFilter, setStatusFilter] = useState<string>("all");
   const [showNewUserDialog, setShowNewUserDialog] = useState(false);
   const [showEditUserDialog, setShowEditUserDialog] = useState(false);
   const [showResetPasswordDialog, setShowResetPasswordDialog] = useState(false);
+  const [showSessionsDialog, setShowSessionsDialog] = useState(false);
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
+  const [page, setPage] = useState(1);
   
   const { toast } = useToast();
   const { user } = useAuth();
+  const { can } = usePermissions();
+  const { departments, activeDepartments, departmentName } = useDepartments();
   
-  // If user is not admin, manager or coordinator, redirect
-  const isAuthorized = ["admin", "manager", "coordinator"].includes(user?.role || "");
+  const isAuthorized = can("user.view");
+  // Creating, editing, resetting or deactivating accounts needs user.manage
+  const isAdmin = can("user.manage");
+  const currentUserId = user?.id;
+  // Only administrators can hand out the admin role or manage an administrator's account
+  const canAssignAdmin = user?.role === "admin";
+  const canManageAccount = (account: User) => canAssignAdmin || account.role !== "admin";
   
   // Get pending approvals and tasks counts for the sidebar
-  const { data: approvals } = useQuery({
-    queryKey: ["/api/approvals"],
-    select: (data) => data.filter(approval => approval.status === "pending")
-  });
+  const { pendingApprovalCount, pendingTaskCount } = usePendingCounts();
   
-  const { data: tasks } = useQuery({
-    queryKey: ["/api/tasks"],
-    select: (data) => data.filter(task => 
-      task.status === "pending" || task.status === "in_progress"
-    )
-  });
+  // Get the users matching the search and filters, one page at a time
+  const { data: userPage, isLoading, isError } = usePagedQuery<User>("/api/users", {
+    q: searchQuery.trim(),
+    role: roleFilter,
+    department: departmentFilter,
+    active: statusFilter,
+    sort: "name",
+    page,
+    pageSize: USERS_PAGE_SIZE,
+  }, { enabled: isAuthorized });
+  const filteredUsers = userPage?.items;
+  const totalPages = userPage ? Math.max(1, Math.ceil(userPage.total / userPage.pageSize)) : 1;
   
-  // Get all users
-  const { data: users, isLoading, isError } = useQuery<User[]>({
-    queryKey: ["/api/users"],
-    enabled: isAuthorized
-  });
+  useEffect(() => {
+    setPage(1);
+  }, [searchQuery, roleFilter, departmentFilter, statusFilter]);
   
   // Create user form
   const {
@@ -141,14 +167,14 @@ export default function UsersPage() {
   // Create user mutation
   const createUserMutation = useMutation({
     mutationFn: async (userData: UserFormValues) => {
-      const response = await apiRequest("POST", "/api/register", userData);
+      const response = await apiRequest("POST", "/api/users", userData);
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/users"] });
       toast({
         title: "Usuario creado",
-        description: "El usuario ha sido creado exitosamente",
+        description: "El usuario deberá cambiar su contraseña al iniciar sesión",
       });
       setShowNewUserDialog(false);
       resetNewUser();
@@ -195,7 +221,7 @@ export default function UsersPage() {
     onSuccess: () => {
       toast({
         title: "Contraseña restablecida",
-        description: "La contraseña ha sido restablecida exitosamente",
+        description: "El usuario deberá elegir una nueva contraseña en su próximo inicio de sesión",
       });
       setShowResetPasswordDialog(false);
       setNewPassword("");
@@ -210,28 +236,75 @@ export default function UsersPage() {
     },
   });
   
-  // Filter users based on search and filters
-  const filteredUsers = users?.filter(user => {
-    // Search query filter
-    const matchesSearch = searchQuery 
-      ? user.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        user.username.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        user.email.toLowerCase().includes(searchQuery.toLowerCase())
-      : true;
-    
-    // Role filter
-    const matchesRole = roleFilter === "all" ? true : user.role === roleFilter;
-    
-    // Department filter
-    const matchesDepartment = departmentFilter === "all" ? true : user.department === departmentFilter;
-    
-    return matchesSearch && matchesRole && matchesDepartment;
+  // Deactivate / reactivate mutation
+  const setUserActiveMutation = useMutation({
+    mutationFn: async ({ id, active }: { id: number, active: boolean }) => {
+      const response = await apiRequest("POST", `/api/users/${id}/${active ? "reactivate" : "deactivate"}`);
+      return response.json();
+    },
+    onSuccess: (_, { active }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: active ? "Usuario reactivado" : "Usuario desactivado",
+        description: active
+          ? "El usuario puede volver a iniciar sesión"
+          : "El usuario ya no puede iniciar sesión y sus sesiones se han cerrado",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error al cambiar el estado del usuario",
+        description: error instanceof Error ? error.message : "Error al cambiar el estado del usuario",
+        variant: "destructive",
+      });
+    },
+  });
+  
+  // Removes the user's authenticator so they can sign in with their password and enroll again
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/users/${id}/reset-2fa`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "2FA restablecida",
+        description: "El usuario deberá configurar de nuevo la autenticación de dos factores",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error al restablecer la 2FA",
+        description: error instanceof Error ? error.message : "Error al restablecer la 2FA",
+        variant: "destructive",
+      });
+    },
+  });
+  
+  // Lifts a lockout caused by failed logins
+  const unlockUserMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/users/${id}/unlock`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "Cuenta desbloqueada",
+        description: "El usuario puede volver a iniciar sesión",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error al desbloquear la cuenta",
+        description: error instanceof Error ? error.message : "Error al desbloquear la cuenta",
+        variant: "destructive",
+      });
+    },
   });
   
-  // Get unique departments for filter options
-  const departments = users 
-    ? [...new Set(users.map(user => user.department))]
-    : [];
+  const isLocked = (user: User) => !!user.lockedUntil && new Date(user.lockedUntil) > new Date();
   
   const handleCreateUser = (data: UserFormValues) => {
     createUserMutation.mutate(data);
@@ -262,10 +335,11 @@ export default function UsersPage() {
       return;
     }
     
-    if (newPassword.length < 6) {
+    const passwordCheck = passwordSchema.safeParse(newPassword);
+    if (!passwordCheck.success) {
       toast({
         title: "Error",
-        description: "La contraseña debe tener al menos 6 caracteres",
+        description: passwordCheck.error.errors[0].message,
         variant: "destructive",
       });
       return;
@@ -297,6 +371,11 @@ export default function UsersPage() {
     setShowEditUserDialog(true);
   };
   
+  const openSessionsDialog = (user: User) => {
+    setSelectedUser(user);
+    setShowSessionsDialog(true);
+  };
+  
   const openResetPasswordDialog = (user: User) => {
     setSelectedUser(user);
     setNewPassword("");
@@ -317,8 +396,8 @@ export default function UsersPage() {
 
   return (
     <MainLayout 
-      pendingApprovalCount={approvals?.length || 0}
-      pendingTaskCount={tasks?.length || 0}
+      pendingApprovalCount={pendingApprovalCount}
+      pendingTaskCount={pendingTaskCount}
     >
       <div className="flex justify-between items-center mb-6">
         <div>
@@ -327,10 +406,12 @@ export default function UsersPage() {
             Administra los usuarios y sus roles en el sistema
           </p>
         </div>
-        <Button onClick={() => setShowNewUserDialog(true)}>
-          <UserPlus className="mr-2 h-4 w-4" />
-          Nuevo Usuario
-        </Button>
+        {isAdmin && (
+          <Button onClick={() => setShowNewUserDialog(true)}>
+            <UserPlus className="mr-2 h-4 w-4" />
+            Nuevo Usuario
+          </Button>
+        )}
       </div>
       
       <Card className="mb-6">
@@ -351,7 +432,7 @@ export default function UsersPage() {
                 />
               </div>
             </div>
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
               <Select value={roleFilter} onValueChange={setRoleFilter}>
                 <SelectTrigger className="w-full">
                   <SelectValue placeholder="Rol" />
@@ -372,13 +453,24 @@ export default function UsersPage() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">Todos los departamentos</SelectItem>
-                  {departments.map((department, index) => (
-                    <SelectItem key={index} value={department}>
-                      {department}
+                  {departments.map((department) => (
+                    <SelectItem key={department.code} value={department.code}>
+                      {department.name}
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
+              
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Estado" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todos los estados</SelectItem>
+                  <SelectItem value="true">Activos</SelectItem>
+                  <SelectItem value="false">Inactivos</SelectItem>
+                </SelectContent>
+              </Select>
             </div>
           </div>
         </CardContent>
@@ -411,7 +503,8 @@ export default function UsersPage() {
                     <TableHead>Email</TableHead>
                     <TableHead>Rol</TableHead>
                     <TableHead>Departamento</TableHead>
-                    <TableHead className="text-right">Acciones</TableHead>
+                    <TableHead>Estado</TableHead>
+                    {isAdmin && <TableHead className="text-right">Acciones</TableHead>}
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -432,29 +525,107 @@ export default function UsersPage() {
                           {getRoleName(user.role)}
                         </Badge>
                       </TableCell>
-                      <TableCell>{user.department}</TableCell>
-                      <TableCell className="text-right space-x-2">
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => openEditUserDialog(user)}
-                          title="Editar usuario"
-                        >
-                          <Pencil className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => openResetPasswordDialog(user)}
-                          title="Restablecer contraseña"
-                        >
-                          <Lock className="h-4 w-4" />
-                        </Button>
+                      <TableCell>{departmentName(user.department)}</TableCell>
+                      <TableCell>
+                        {user.active ? (
+                          <Badge variant="outline" className="border-success text-success">Activo</Badge>
+                        ) : (
+                          <Badge variant="outline" className="text-muted-foreground">Inactivo</Badge>
+                        )}
+                        {isLocked(user) && (
+                          <Badge
+                            variant="outline"
+                            className="ml-2 border-warning text-warning"
+                            title={`Hasta ${new Date(user.lockedUntil!).toLocaleTimeString()}`}
+                          >
+                            Bloqueado
+                          </Badge>
+                        )}
                       </TableCell>
+                      {isAdmin && (
+                        <TableCell className="text-right space-x-2">
+                          {canManageAccount(user) && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => openEditUserDialog(user)}
+                                title="Editar usuario"
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => openResetPasswordDialog(user)}
+                                title="Restablecer contraseña"
+                              >
+                                <Lock className="h-4 w-4" />
+                              </Button>
+                              {user.id !== currentUserId && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => openSessionsDialog(user)}
+                                  title="Sesiones activas"
+                                >
+                                  <MonitorSmartphone className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {isLocked(user) && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  disabled={unlockUserMutation.isPending}
+                                  onClick={() => unlockUserMutation.mutate(user.id)}
+                                  title="Desbloquear cuenta"
+                                >
+                                  <LockOpen className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {user.totpEnabled && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  disabled={resetTwoFactorMutation.isPending}
+                                  onClick={() => resetTwoFactorMutation.mutate(user.id)}
+                                  title="Restablecer 2FA"
+                                >
+                                  <ShieldOff className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {user.id !== currentUserId && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  disabled={setUserActiveMutation.isPending}
+                                  onClick={() => setUserActiveMutation.mutate({ id: user.id, active: !user.active })}
+                                  title={user.active ? "Desactivar usuario" : "Reactivar usuario"}
+                                >
+                                  {user.active ? <UserX className="h-4 w-4" /> : <UserCheck className="h-4 w-4" />}
+                                </Button>
+                              )}
+                            </>
+                          )}
+                        </TableCell>
+                      )}
                     </TableRow>
                   ))}
                 </TableBody>
               </Table>
+              {totalPages > 1 && (
+                <div className="flex items-center justify-end space-x-2 border-t px-4 py-3">
+                  <span className="text-sm text-muted-foreground">
+                    Página {page} de {totalPages} · {userPage?.total} usuarios
+                  </span>
+                  <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
             </div>
           ) : (
             <div className="text-center py-12 text-muted-foreground">
@@ -466,6 +637,8 @@ export default function UsersPage() {
         </CardContent>
       </Card>
       
+      {isAdmin && <UserInvitations />}
+      
       {/* New User Dialog */}
       <Dialog open={showNewUserDialog} onOpenChange={setShowNewUserDialog}>
         <DialogContent className="sm:max-w-[500px]">
@@ -473,6 +646,7 @@ export default function UsersPage() {
             <DialogTitle>Crear Nuevo Usuario</DialogTitle>
             <DialogDescription>
               Complete el formulario para crear un nuevo usuario en el sistema.
+              El usuario deberá cambiar la contraseña asignada en su primer inicio de sesión.
             </DialogDescription>
           </DialogHeader>
           
@@ -566,7 +740,7 @@ export default function UsersPage() {
                         <SelectItem value="operator">Operador</SelectItem>
                         <SelectItem value="coordinator">Coordinador</SelectItem>
                         <SelectItem value="manager">Manager</SelectItem>
-                        <SelectItem value="admin">Administrador</SelectItem>
+                        {canAssignAdmin && <SelectItem value="admin">Administrador</SelectItem>}
                       </SelectContent>
                     </Select>
                   )}
@@ -596,11 +770,9 @@ export default function UsersPage() {
                         <SelectValue placeholder="Seleccionar departamento" />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="Production">Producción</SelectItem>
-                        <SelectItem value="Quality">Control de Calidad</SelectItem>
-                        <SelectItem value="HR">Recursos Humanos</SelectItem>
-                        <SelectItem value="Logistics">Logística</SelectItem>
-                        <SelectItem value="Sales">Ventas</SelectItem>
+                        {activeDepartments.map((department) => (
+                          <SelectItem key={department.code} value={department.code}>{department.name}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                   )}
@@ -726,7 +898,7 @@ export default function UsersPage() {
                         <SelectItem value="operator">Operador</SelectItem>
                         <SelectItem value="coordinator">Coordinador</SelectItem>
                         <SelectItem value="manager">Manager</SelectItem>
-                        <SelectItem value="admin">Administrador</SelectItem>
+                        {canAssignAdmin && <SelectItem value="admin">Administrador</SelectItem>}
                       </SelectContent>
                     </Select>
                   )}
@@ -756,11 +928,9 @@ export default function UsersPage() {
                         <SelectValue placeholder="Seleccionar departamento" />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="Production">Producción</SelectItem>
-                        <SelectItem value="Quality">Control de Calidad</SelectItem>
-                        <SelectItem value="HR">Recursos Humanos</SelectItem>
-                        <SelectItem value="Logistics">Logística</SelectItem>
-                        <SelectItem value="Sales">Ventas</SelectItem>
+                        {activeDepartments.map((department) => (
+                          <SelectItem key={department.code} value={department.code}>{department.name}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                   )}
@@ -811,6 +981,7 @@ export default function UsersPage() {
             <DialogTitle>Restablecer Contraseña</DialogTitle>
             <DialogDescription>
               Establecer una nueva contraseña para {selectedUser?.name}.
+              Se le pedirá que la cambie en su próximo inicio de sesión.
             </DialogDescription>
           </DialogHeader>
           
@@ -881,6 +1052,19 @@ export default function UsersPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+      
+      {/* Active Sessions Dialog */}
+      <Dialog open={showSessionsDialog} onOpenChange={setShowSessionsDialog}>
+        <DialogContent className="sm:max-w-[700px]">
+          <DialogHeader>
+            <DialogTitle>Sesiones activas</DialogTitle>
+            <DialogDescription>
+              Sesiones abiertas por {selectedUser?.name}. Al cerrarlas deberá volver a iniciar sesión en todos sus dispositivos.
+            </DialogDescription>
+          </DialogHeader>
+          {selectedUser && showSessionsDialog && <ActiveSessions userId={selectedUser.id} />}
+        </DialogContent>
+      </Dialog>
     </MainLayout>
   );
 }
@@ -0,0 +1,37 @@
+import { asc, isNull } from "drizzle-orm";
+import { documents } from "@shared/schema";
+import { db, pool } from "../server/db";
+import { assignDocumentCode } from "../server/document-codes";
+import { getSystemSettings } from "../server/settings";
+
+// Gives controlled codes to the documents created before codes existed:
+//   npm run db:push
+//   npm run db:assign-document-codes
+// Documents are numbered in creation order. With codes assigned at first approval, only
+// published documents get one; the rest receive theirs when approved.
+
+async function main() {
+  const { documentCodeAssignment } = await getSystemSettings();
+  const uncoded = await db
+    .select()
+    .from(documents)
+    .where(isNull(documents.code))
+    .orderBy(asc(documents.id));
+
+  let assigned = 0;
+  for (const document of uncoded) {
+    if (documentCodeAssignment === "approval" && !document.publishedVersion) continue;
+
+    const coded = await assignDocumentCode(document);
+    console.log(`${coded.code}: ${coded.title}`);
+    assigned++;
+  }
+  console.log(`Assigned ${assigned} document code(s).`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,81 @@
+import { z } from "zod";
+import { adminCreateUserSchema } from "@shared/schema";
+import { pool } from "../server/db";
+import { validateDepartments } from "../server/departments";
+import { hashPassword } from "../server/password-hashing";
+import { storage } from "../server/storage";
+
+// Creates an administrator, e.g. the first one of a new database. Registration is by invitation
+// by default and an empty database has nobody to send one, so the first account is created here:
+//   read -rs PASSWORD; echo -n "$PASSWORD" | npm run db:create-admin -- admin admin@example.com "Nombre Apellido"
+// The password is read from standard input so it stays out of the shell history. The account
+// belongs to the ADM department unless --department says otherwise.
+
+const USAGE = "Usage: create-admin [--department CODE] <username> <email> <name>  (password on standard input)";
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf8").replace(/\r?\n$/, "");
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  let department = "ADM";
+
+  const flagIndex = args.indexOf("--department");
+  if (flagIndex !== -1) {
+    department = args[flagIndex + 1] ?? "";
+    args.splice(flagIndex, 2);
+  }
+
+  const [username, email, name] = args;
+  if (args.length !== 3 || !username || !email || !name) {
+    throw new Error(USAGE);
+  }
+
+  const password = process.stdin.isTTY ? "" : await readStdin();
+  if (!password) {
+    throw new Error(USAGE);
+  }
+
+  // The same rules as an account created from the users page
+  const validatedData = adminCreateUserSchema.parse({
+    username,
+    email,
+    name,
+    password,
+    role: "admin",
+    department,
+    mustChangePassword: false,
+  });
+
+  // Looking the department up also creates the default ones in a new database
+  const departmentError = await validateDepartments([department]);
+  if (departmentError) {
+    throw new Error(departmentError);
+  }
+
+  if (await storage.getUserByUsername(username)) {
+    throw new Error(`User ${username} already exists`);
+  }
+
+  const user = await storage.createUser({
+    ...validatedData,
+    password: await hashPassword(validatedData.password),
+  });
+  console.log(`Created administrator ${user.username} (#${user.id})`);
+}
+
+main()
+  .catch((error) => {
+    if (error instanceof z.ZodError) {
+      console.error(error.errors.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("\n"));
+    } else {
+      console.error(error instanceof Error ? error.message : error);
+    }
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,51 @@
+import { hashPassword, PASSWORD_HASH_ALGORITHMS, type PasswordHashAlgorithm } from "../server/password-hashing";
+
+// Prints a password hash in the same format the server stores, e.g. for seeding users:
+//   npm run hash-password -- 'admin123'
+//   npm run hash-password -- --algorithm bcrypt 'admin123'
+//   echo -n 'admin123' | npm run hash-password
+// Without --algorithm, PASSWORD_HASH_ALGORITHM (default argon2id) is used.
+
+const USAGE = `Usage: hash-password [--algorithm ${PASSWORD_HASH_ALGORITHMS.join("|")}] [password]`;
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf8").replace(/\r?\n$/, "");
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  let algorithm: PasswordHashAlgorithm | undefined;
+
+  const flagIndex = args.indexOf("--algorithm");
+  if (flagIndex !== -1) {
+    const value = args[flagIndex + 1] as PasswordHashAlgorithm;
+    if (!PASSWORD_HASH_ALGORITHMS.includes(value)) {
+      console.error(USAGE);
+      process.exit(1);
+    }
+    algorithm = value;
+    args.splice(flagIndex, 2);
+  }
+
+  if (args.length > 1 || args[0] === "--help") {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const password = args[0] ?? (process.stdin.isTTY ? "" : await readStdin());
+  if (!password) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  console.log(await hashPassword(password, algorithm));
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
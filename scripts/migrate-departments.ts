@@ -0,0 +1,138 @@
+import type { PoolClient } from "@neondatabase/serverless";
+import { DEFAULT_DEPARTMENTS } from "@shared/schema";
+import { pool } from "../server/db";
+
+// Turns the free-text departments of an existing database into managed departments:
+//   npm run db:migrate-departments
+//   npm run db:push
+// Run it before db:push, which adds the foreign keys the old values would violate. Known
+// names ("Production") map to the default codes ("PRD"); any other value becomes a department
+// of its own, named after it. Values that already are department codes are left alone, so the
+// script can be run more than once.
+
+const LEGACY_CODES: Record<string, string> = Object.fromEntries(
+  DEFAULT_DEPARTMENTS.map(({ legacyName, code }) => [legacyName, code])
+);
+
+async function columnExists(client: PoolClient, table: string, column: string): Promise<boolean> {
+  const { rows } = await client.query(
+    "SELECT 1 FROM information_schema.columns WHERE table_name = $1 AND column_name = $2",
+    [table, column]
+  );
+  return rows.length > 0;
+}
+
+// A code for a value no default department covers: its first letters, numbered if taken
+function newCode(value: string, taken: Set<string>): string {
+  const base = value.normalize("NFD").toUpperCase().replace(/[^A-Z0-9]/g, "").slice(0, 3).padEnd(2, "X");
+  let code = base;
+  for (let n = 2; taken.has(code); n++) {
+    code = `${base}${n}`;
+  }
+  return code;
+}
+
+async function migrate(client: PoolClient) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS departments (
+      id serial PRIMARY KEY,
+      code text NOT NULL CONSTRAINT departments_code_unique UNIQUE,
+      name text NOT NULL,
+      parent_id integer CONSTRAINT departments_parent_id_departments_id_fk REFERENCES departments(id),
+      head_user_id integer CONSTRAINT departments_head_user_id_users_id_fk REFERENCES users(id),
+      active boolean NOT NULL DEFAULT true,
+      created_at timestamp NOT NULL DEFAULT now(),
+      updated_at timestamp NOT NULL DEFAULT now()
+    )
+  `);
+
+  for (const { code, name } of DEFAULT_DEPARTMENTS) {
+    await client.query("INSERT INTO departments (code, name) VALUES ($1, $2) ON CONFLICT (code) DO NOTHING", [code, name]);
+  }
+
+  const hasInvitations = await columnExists(client, "invitations", "department");
+  const hasWorkflows = await columnExists(client, "approval_workflows", "department");
+  const hasVisibleDepartments = await columnExists(client, "documents", "visible_departments");
+
+  const textColumns = [
+    "SELECT department AS value FROM users",
+    "SELECT department FROM documents",
+    ...(hasInvitations ? ["SELECT department FROM invitations"] : []),
+    ...(hasWorkflows ? ["SELECT department FROM approval_workflows WHERE department IS NOT NULL"] : []),
+  ];
+  const values = new Set<string>((await client.query(textColumns.join(" UNION "))).rows.map((row) => row.value));
+
+  const workflows = hasWorkflows
+    ? (await client.query("SELECT id, stages FROM approval_workflows")).rows
+    : [];
+  for (const workflow of workflows) {
+    for (const stage of workflow.stages) {
+      if (stage.department && stage.department !== "document") values.add(stage.department);
+    }
+  }
+
+  const documents = hasVisibleDepartments
+    ? (await client.query("SELECT id, visible_departments FROM documents WHERE json_array_length(visible_departments) > 0")).rows
+    : [];
+  for (const document of documents) {
+    for (const department of document.visible_departments) values.add(department);
+  }
+
+  // Old value -> department code, for every value that is not a code yet
+  const codes = new Set<string>((await client.query("SELECT code FROM departments")).rows.map((row) => row.code));
+  const mapping = new Map<string, string>();
+  for (const value of Array.from(values)) {
+    if (codes.has(value)) continue;
+
+    let code = LEGACY_CODES[value];
+    if (!code) {
+      code = newCode(value, codes);
+      await client.query("INSERT INTO departments (code, name) VALUES ($1, $2)", [code, value]);
+      codes.add(code);
+      console.log(`Created department ${code} for "${value}"`);
+    }
+    mapping.set(value, code);
+  }
+
+  const tables = ["users", "documents", ...(hasInvitations ? ["invitations"] : []), ...(hasWorkflows ? ["approval_workflows"] : [])];
+  for (const [value, code] of Array.from(mapping)) {
+    for (const table of tables) {
+      const { rowCount } = await client.query(`UPDATE ${table} SET department = $1 WHERE department = $2`, [code, value]);
+      if (rowCount) console.log(`${table}: "${value}" -> ${code} (${rowCount})`);
+    }
+  }
+
+  const mapCode = (value: string) => mapping.get(value) ?? value;
+  for (const workflow of workflows) {
+    const stages = workflow.stages.map((stage: { department: string | null }) => ({
+      ...stage,
+      department: stage.department && mapCode(stage.department),
+    }));
+    await client.query("UPDATE approval_workflows SET stages = $1 WHERE id = $2", [JSON.stringify(stages), workflow.id]);
+  }
+  for (const document of documents) {
+    const visibleDepartments = document.visible_departments.map(mapCode);
+    await client.query("UPDATE documents SET visible_departments = $1 WHERE id = $2", [JSON.stringify(visibleDepartments), document.id]);
+  }
+}
+
+async function main() {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    await migrate(client);
+    await client.query("COMMIT");
+    console.log("Departments migrated. Run npm run db:push to add the foreign keys.");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,38 @@
+import { pool } from "../server/db";
+
+// Renames the statuses of documents created before the lifecycle states:
+//   npm run db:push
+//   npm run db:migrate-document-statuses
+// "pending" documents become "in_review" and "approved" ones "published". Drafts and rejected
+// documents keep their status, so the script can be run more than once.
+
+const RENAMED_STATUSES: Record<string, string> = {
+  pending: "in_review",
+  approved: "published",
+};
+
+async function main() {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    for (const [oldStatus, newStatus] of Object.entries(RENAMED_STATUSES)) {
+      const { rowCount } = await client.query(
+        "UPDATE documents SET status = $1, status_changed_at = COALESCE(status_changed_at, updated_at) WHERE status = $2",
+        [newStatus, oldStatus]
+      );
+      console.log(`documents: "${oldStatus}" -> "${newStatus}" (${rowCount ?? 0})`);
+    }
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,55 @@
+import { pool } from "../server/db";
+
+// Ties the policy acceptances of an existing database to a version:
+//   npm run db:migrate-policy-acceptances
+//   npm run db:push
+// Run it before db:push, which cannot add the required `version` column to a table with rows.
+// Each earlier acceptance is taken as an acceptance of the policy's current published version,
+// and the unique index moves from (user, document) to (user, document, version). Columns and
+// indexes that already exist are left alone, so the script can be run more than once.
+
+async function main() {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    await client.query(`
+      ALTER TABLE policy_acceptances
+        ADD COLUMN IF NOT EXISTS version text,
+        ADD COLUMN IF NOT EXISTS invalidated_at timestamp,
+        ADD COLUMN IF NOT EXISTS superseded_by_version text,
+        ADD COLUMN IF NOT EXISTS reacceptance_task_id integer
+    `);
+
+    const { rowCount } = await client.query(`
+      UPDATE policy_acceptances pa
+      SET version = COALESCE(d.published_version, d.version)
+      FROM documents d
+      WHERE d.id = pa.document_id AND pa.version IS NULL
+    `);
+    console.log(`policy_acceptances: version set on ${rowCount ?? 0} acceptances`);
+
+    // Acceptances of deleted documents have no version to take
+    const { rowCount: orphaned } = await client.query("DELETE FROM policy_acceptances WHERE version IS NULL");
+    if (orphaned) {
+      console.log(`policy_acceptances: removed ${orphaned} acceptances of deleted documents`);
+    }
+
+    await client.query("ALTER TABLE policy_acceptances ALTER COLUMN version SET NOT NULL");
+    await client.query("DROP INDEX IF EXISTS user_document_idx");
+    await client.query(
+      "CREATE UNIQUE INDEX IF NOT EXISTS user_document_version_idx ON policy_acceptances (user_id, document_id, version)"
+    );
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,78 @@
+import { createHash, randomBytes } from "crypto";
+import { API_TOKEN_SCOPES, type ApiToken, type ApiTokenInfo, type ApiTokenScope, type User } from "@shared/schema";
+import { storage } from "./storage";
+
+// Marks the string as one of our tokens, e.g. for secret scanners
+const TOKEN_PREFIX = "gpp_";
+const DISPLAYED_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+
+// lastUsedAt is only rewritten once it is this old, so scripts do not write on every request
+const LAST_USED_INTERVAL_MS = 60 * 1000;
+
+// Area of the API each first path segment after /api/ belongs to
+const SCOPE_AREAS: Record<string, string> = {
+  documents: "documents",
+  search: "documents",
+  tasks: "tasks",
+  approvals: "approvals",
+  "approval-workflows": "approvals",
+  policies: "policies",
+  users: "users",
+  activities: "activities",
+};
+
+export function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function generateApiToken(): { token: string; tokenHash: string; tokenPrefix: string } {
+  const token = TOKEN_PREFIX + randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashApiToken(token), tokenPrefix: token.slice(0, DISPLAYED_PREFIX_LENGTH) };
+}
+
+export function toApiTokenInfo(apiToken: ApiToken): ApiTokenInfo {
+  const { tokenHash, ...info } = apiToken;
+  return info;
+}
+
+/**
+ * The scope a token needs for this request: reads need "<area>:read", anything else
+ * "<area>:write". Null for endpoints no token may call, such as the account and
+ * administration endpoints.
+ */
+export function requiredScope(method: string, path: string): ApiTokenScope | null {
+  const area = SCOPE_AREAS[path.split("/")[2] ?? ""];
+  if (!area) return null;
+
+  const access = method === "GET" || method === "HEAD" ? "read" : "write";
+  const scope = `${area}:${access}` as ApiTokenScope;
+  return API_TOKEN_SCOPES.includes(scope) ? scope : null;
+}
+
+// The token and its owner when the token is known, unrevoked, unexpired and its owner still active
+export async function authenticateApiToken(
+  token: string,
+  ip: string | undefined,
+  now = new Date(),
+): Promise<{ apiToken: ApiToken; user: User } | null> {
+  let apiToken = await storage.getApiTokenByHash(hashApiToken(token));
+  if (!apiToken || apiToken.revokedAt || apiToken.expiresAt <= now) return null;
+
+  const user = await storage.getUser(apiToken.userId);
+  if (!user?.active) return null;
+
+  if (!apiToken.lastUsedAt || now.getTime() - apiToken.lastUsedAt.getTime() >= LAST_USED_INTERVAL_MS) {
+    apiToken = await storage.updateApiToken(apiToken.id, { lastUsedAt: now, lastUsedIp: ip ?? null });
+  }
+
+  return { apiToken, user };
+}
+
+// Revokes every token of the user, e.g. when an administrator resets their password
+export async function revokeUserApiTokens(userId: number, now = new Date()): Promise<number> {
+  const apiTokens = await storage.getApiTokensByUser(userId);
+  for (const apiToken of apiTokens) {
+    await storage.updateApiToken(apiToken.id, { revokedAt: now });
+  }
+  return apiTokens.length;
+}
@@ -0,0 +1,261 @@
+import { storage } from "./storage";
+import { publishVersion } from "./versioning";
+import { assignDocumentCode } from "./document-codes";
+import { completeReview } from "./document-reviews";
+import { transitionDocument } from "./document-lifecycle";
+import { approverRoles } from "@shared/schema";
+import type { Approval, ApprovalStage, ApprovalWorkflow, Document, User } from "@shared/schema";
+
+// Route used when no stored workflow matches a document: a single stage where
+// every manager and coordinator has to approve
+const DEFAULT_STAGES: ApprovalStage[] = [
+  { name: "Aprobación", roles: ["manager", "coordinator"], department: null },
+];
+
+// Picks the most specific active workflow for the document's category and department.
+// Workflows written for the category come first, then the category's default route; a
+// workflow with no category/department acts as a catch-all.
+export async function findWorkflowForDocument(document: Document): Promise<ApprovalWorkflow | undefined> {
+  const workflows = await storage.getAllApprovalWorkflows();
+
+  const candidates = workflows
+    .filter((workflow) => workflow.active)
+    .filter((workflow) => !workflow.category || workflow.category === document.category)
+    .filter((workflow) => !workflow.department || workflow.department === document.department)
+    .map((workflow) => ({
+      workflow,
+      score: (workflow.category ? 2 : 0) + (workflow.department ? 1 : 0),
+    }))
+    .sort((a, b) => b.score - a.score || a.workflow.id - b.workflow.id);
+
+  if (candidates[0] && candidates[0].score >= 2) {
+    return candidates[0].workflow;
+  }
+
+  const category = await storage.getDocumentCategoryByCode(document.category);
+  const defaultWorkflow = workflows.find((workflow) => workflow.id === category?.approvalWorkflowId);
+  if (defaultWorkflow?.active) {
+    return defaultWorkflow;
+  }
+
+  return candidates[0]?.workflow;
+}
+
+// Returns an error message when any reviewer cannot approve documents of this author
+export async function validateReviewers(reviewerIds: number[], authorId: number): Promise<string | null> {
+  for (const reviewerId of reviewerIds) {
+    if (reviewerId === authorId) {
+      return "The author cannot review their own document";
+    }
+
+    const reviewer = await storage.getUser(reviewerId);
+    if (!reviewer) {
+      return `Reviewer ${reviewerId} not found`;
+    }
+
+    if (!reviewer.active) {
+      return `User ${reviewer.username} is deactivated`;
+    }
+
+    if (!(approverRoles as readonly string[]).includes(reviewer.role)) {
+      return `User ${reviewer.username} does not have an approver role`;
+    }
+  }
+
+  return null;
+}
+
+// Reviewers chosen by the author that can still approve (roles may have changed since)
+async function getEligibleReviewers(document: Document): Promise<number[]> {
+  const eligible: number[] = [];
+
+  for (const reviewerId of document.reviewerIds) {
+    if (!(await validateReviewers([reviewerId], document.createdBy))) {
+      eligible.push(reviewerId);
+    }
+  }
+
+  return eligible;
+}
+
+function reviewerStage(reviewerIds: number[]): ApprovalStage {
+  return { name: "Revisores seleccionados", roles: [...approverRoles], department: null, userIds: reviewerIds };
+}
+
+// Stages of the document's current round. Rounds started before stages were copied onto the
+// document fall back to its workflow.
+async function getStagesForDocument(document: Document): Promise<ApprovalStage[]> {
+  if (document.approvalStages?.length) {
+    return document.approvalStages;
+  }
+
+  if (!document.approvalWorkflowId) {
+    const reviewerIds = await getEligibleReviewers(document);
+    return reviewerIds.length > 0 ? [reviewerStage(reviewerIds)] : DEFAULT_STAGES;
+  }
+
+  const workflow = await storage.getApprovalWorkflow(document.approvalWorkflowId);
+  return workflow?.stages.length ? workflow.stages : DEFAULT_STAGES;
+}
+
+// Approvers of a stage, never the author; administrators other than the author pick up stages
+// nobody else can approve. Empty when the author is the only administrator left.
+export async function resolveStageApprovers(stage: ApprovalStage, document: Document): Promise<User[]> {
+  let candidates: User[];
+
+  if (stage.userIds?.length) {
+    // Named users must still be active and hold an approver role, as when they were chosen
+    const users = await Promise.all(stage.userIds.map((id) => storage.getUser(id)));
+    candidates = users.filter((user): user is User =>
+      !!user && user.active && (approverRoles as readonly string[]).includes(user.role)
+    );
+  } else {
+    const department = stage.department === "document" ? document.department : stage.department;
+    candidates = (await storage.getUsersByRole(stage.roles)).filter(
+      (user) => !department || user.department === department
+    );
+  }
+  const approvers = candidates.filter((user) => user.id !== document.createdBy);
+
+  if (approvers.length > 0) {
+    return approvers;
+  }
+
+  return (await storage.getUsersByRole(["admin"])).filter((user) => user.id !== document.createdBy);
+}
+
+async function openStage(document: Document, stage: ApprovalStage, stageNumber: number): Promise<Approval[]> {
+  const approvers = await resolveStageApprovers(stage, document);
+  const created: Approval[] = [];
+
+  for (const approver of approvers) {
+    created.push(await storage.createApproval({
+      documentId: document.id,
+      userId: approver.id,
+      status: "pending",
+      stage: stageNumber,
+      round: document.approvalRound,
+    }));
+  }
+
+  return created;
+}
+
+export class NoReviewersError extends Error {
+  constructor() {
+    super("No eligible reviewers selected and automatic assignment is disabled");
+  }
+}
+
+export class NoApproversError extends Error {
+  constructor(stage: ApprovalStage) {
+    super(`No active user can approve the stage "${stage.name}"`);
+  }
+}
+
+// Starts a new approval round for the document and opens its first stage.
+// Reviewers chosen by the author take precedence over the hierarchy workflow.
+export async function startApprovalRound(document: Document, submittedBy: number): Promise<Approval[]> {
+  const reviewerIds = await getEligibleReviewers(document);
+
+  if (reviewerIds.length === 0 && !document.autoAssignReviewers) {
+    throw new NoReviewersError();
+  }
+
+  const workflow = reviewerIds.length === 0 ? await findWorkflowForDocument(document) : undefined;
+  const stages = workflow?.stages.length
+    ? workflow.stages
+    : reviewerIds.length > 0 ? [reviewerStage(reviewerIds)] : DEFAULT_STAGES;
+
+  // A stage nobody can approve would leave the document in review for good
+  for (const stage of stages) {
+    if ((await resolveStageApprovers(stage, document)).length === 0) {
+      throw new NoApproversError(stage);
+    }
+  }
+
+  const updatedDocument = await transitionDocument(document, "submit", {
+    userId: submittedBy,
+    changes: {
+      approvalWorkflowId: workflow?.id ?? null,
+      approvalStage: 1,
+      approvalRound: document.approvalRound + 1,
+      approvalStages: stages,
+    },
+  });
+
+  return openStage(updatedDocument, stages[0], 1);
+}
+
+// Only approvals of the document's current round and stage can still be decided
+export function isApprovalActive(approval: Approval, document: Document): boolean {
+  return approval.status === "pending" &&
+    document.status === "in_review" &&
+    approval.round === document.approvalRound &&
+    approval.stage === document.approvalStage;
+}
+
+export type ApprovalOutcome = "rejected" | "waiting" | "advanced" | "approved";
+
+// Applies an approval decision (already stored) to the document, opening the
+// next stage once every approver of the current one has approved. Each step first
+// moves the document off the decided stage, so concurrent decisions on the same stage
+// cannot advance, reject or publish it twice; the ones that lose are left "waiting".
+export async function applyApprovalDecision(approval: Approval, document: Document): Promise<ApprovalOutcome> {
+  const closeStage = (toStage: number | null) =>
+    storage.moveApprovalStage(document.id, approval.round, approval.stage, toStage);
+
+  if (approval.status === "rejected") {
+    const closedDocument = await closeStage(null);
+    if (!closedDocument) {
+      return "waiting";
+    }
+    await transitionDocument(closedDocument, "reject", { userId: approval.userId, reason: approval.comments });
+    return "rejected";
+  }
+
+  const stageApprovals = (await storage.getApprovalsByDocumentId(document.id)).filter(
+    (a) => a.round === approval.round && a.stage === approval.stage
+  );
+  const stageComplete = stageApprovals.every((a) => a.status === "approved" || a.id === approval.id);
+
+  if (!stageComplete) {
+    return "waiting";
+  }
+
+  const stages = await getStagesForDocument(document);
+  const nextStageNumber = approval.stage + 1;
+
+  if (nextStageNumber > stages.length) {
+    const closedDocument = await closeStage(null);
+    if (!closedDocument) {
+      return "waiting";
+    }
+    const approvedDocument = await transitionDocument(closedDocument, "approve", { userId: approval.userId });
+    const publishedDocument = await assignDocumentCode(await publishVersion(approvedDocument, approval.userId));
+    // Publishing a version restarts its periodic review cycle
+    await completeReview(publishedDocument);
+    return "approved";
+  }
+
+  // Approvers may have left since the submission; the author has to submit the document again
+  const nextStage = stages[nextStageNumber - 1];
+  if ((await resolveStageApprovers(nextStage, document)).length === 0) {
+    const closedDocument = await closeStage(null);
+    if (!closedDocument) {
+      return "waiting";
+    }
+    await transitionDocument(closedDocument, "reject", {
+      userId: approval.userId,
+      reason: new NoApproversError(nextStage).message,
+    });
+    return "rejected";
+  }
+
+  const updatedDocument = await closeStage(nextStageNumber);
+  if (!updatedDocument) {
+    return "waiting";
+  }
+  await openStage(updatedDocument, nextStage, nextStageNumber);
+  return "advanced";
+}
@@ -0,0 +1,161 @@
+import crypto from "crypto";
+import path from "path";
+import multer from "multer";
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { fileStorage } from "./file-storage";
+import { extractAttachmentText } from "./text-extraction";
+import type { DocumentAttachment } from "@shared/schema";
+
+interface AllowedType {
+  extensions: string[];
+  // Checks the leading bytes so a renamed executable can't pass as a PDF
+  matches: (data: Buffer) => boolean;
+}
+
+const startsWith = (data: Buffer, signature: number[], offset = 0) =>
+  signature.every((byte, index) => data[offset + index] === byte);
+
+const isZip = (data: Buffer) => startsWith(data, [0x50, 0x4b, 0x03, 0x04]);
+
+const ALLOWED_TYPES: Record<string, AllowedType> = {
+  "application/pdf": {
+    extensions: [".pdf"],
+    matches: (data) => startsWith(data, [0x25, 0x50, 0x44, 0x46, 0x2d]),
+  },
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": {
+    extensions: [".docx"],
+    matches: isZip,
+  },
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": {
+    extensions: [".xlsx"],
+    matches: isZip,
+  },
+  "image/png": {
+    extensions: [".png"],
+    matches: (data) => startsWith(data, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  },
+  "image/jpeg": {
+    extensions: [".jpg", ".jpeg"],
+    matches: (data) => startsWith(data, [0xff, 0xd8, 0xff]),
+  },
+  "image/gif": {
+    extensions: [".gif"],
+    matches: (data) => startsWith(data, [0x47, 0x49, 0x46, 0x38]),
+  },
+  "image/webp": {
+    extensions: [".webp"],
+    matches: (data) => startsWith(data, [0x52, 0x49, 0x46, 0x46]) && startsWith(data, [0x57, 0x45, 0x42, 0x50], 8),
+  },
+};
+
+const MAX_FILE_SIZE = Number(process.env.MAX_ATTACHMENT_SIZE_MB || 20) * 1024 * 1024;
+const MAX_FILES_PER_UPLOAD = 10;
+
+export class AttachmentValidationError extends Error {}
+
+function checkDeclaredType(file: Express.Multer.File): string | null {
+  const allowed = ALLOWED_TYPES[file.mimetype];
+  if (!allowed) {
+    return `File type ${file.mimetype} is not allowed`;
+  }
+
+  if (!allowed.extensions.includes(path.extname(file.originalname).toLowerCase())) {
+    return `File extension of ${file.originalname} does not match ${file.mimetype}`;
+  }
+
+  return null;
+}
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_FILE_SIZE, files: MAX_FILES_PER_UPLOAD },
+  // Browsers send UTF-8 file names; the multipart default would decode them as latin1
+  defParamCharset: "utf8",
+  fileFilter: (_req, file, cb) => {
+    const error = checkDeclaredType(file);
+    if (error) {
+      return cb(new AttachmentValidationError(error));
+    }
+    cb(null, true);
+  },
+});
+
+// Parses the "files" multipart field, answering 400/413 for invalid uploads
+export function uploadAttachments(req: Request, res: Response, next: NextFunction) {
+  upload.array("files", MAX_FILES_PER_UPLOAD)(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const status = error.code === "LIMIT_FILE_SIZE" ? 413 : 400;
+      return res.status(status).json({ message: error.message, code: error.code });
+    }
+    if (error instanceof AttachmentValidationError) {
+      return res.status(400).json({ message: error.message });
+    }
+    if (error) {
+      return next(error);
+    }
+    next();
+  });
+}
+
+// Content check done once the file is in memory, complementing the multer filter
+export function validateAttachmentContent(file: Express.Multer.File): string | null {
+  if (file.size === 0) {
+    return `${file.originalname} is empty`;
+  }
+
+  if (!ALLOWED_TYPES[file.mimetype]?.matches(file.buffer)) {
+    return `Contents of ${file.originalname} do not match ${file.mimetype}`;
+  }
+
+  return null;
+}
+
+export async function storeAttachment(
+  documentId: number,
+  file: Express.Multer.File,
+  userId: number
+): Promise<DocumentAttachment> {
+  const checksum = crypto.createHash("sha256").update(file.buffer).digest("hex");
+  const storageKey = `${documentId}/${crypto.randomUUID()}${path.extname(file.originalname).toLowerCase()}`;
+
+  const extractedText = await extractAttachmentText(file.buffer, file.mimetype);
+
+  await fileStorage.save(storageKey, file.buffer);
+
+  try {
+    return await storage.createDocumentAttachment({
+      documentId,
+      fileName: path.basename(file.originalname),
+      mimeType: file.mimetype,
+      size: file.size,
+      checksum,
+      storageKey,
+      extractedText,
+      uploadedBy: userId,
+    });
+  } catch (error) {
+    // Don't leave orphaned files behind when the row can't be written
+    await fileStorage.remove(storageKey).catch(() => {});
+    throw error;
+  }
+}
+
+// Extracted text is only used by search and can be large, so it isn't sent to clients
+export function toAttachmentResponse({ extractedText, ...attachment }: DocumentAttachment) {
+  return attachment;
+}
+
+// Sends the stored file, letting the browser save it under its original name
+export async function sendAttachment(res: Response, attachment: DocumentAttachment) {
+  const stream = await fileStorage.read(attachment.storageKey);
+
+  res.setHeader("Content-Type", attachment.mimeType);
+  res.setHeader("Content-Length", String(attachment.size));
+  res.setHeader("Content-Disposition", `attachment; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`);
+  res.setHeader("X-Content-Type-Options", "nosniff");
+  res.setHeader("X-Checksum-SHA256", attachment.checksum);
+
+  stream.on("error", () => res.destroy());
+  stream.pipe(res);
+}
@@ -1,31 +1,125 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, Request, Response } from "express";
 import session from "express-session";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
-import { promisify } from "util";
+import QRCode from "qrcode";
+import { z } from "zod";
 import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
+import { hashPassword, verifyPassword } from "./password-hashing";
+import { isPasswordExpired, isPasswordReused, passwordUpdate } from "./password-policy";
+import { getRegistrationMode, hashInvitationToken, invitationProblem } from "./registration";
+import { getSystemSettings } from "./settings";
+import { loginRetryAfter, recordLoginFailure, recordLoginSuccess } from "./login-throttle";
+import { listUserSessions, publicSessionId, revokeUserSession } from "./sessions";
+import { getUserPermissions } from "./permissions";
+import { authenticateApiToken, generateApiToken, requiredScope, toApiTokenInfo } from "./api-tokens";
+import { validateDepartments } from "./departments";
+import {
+  generateTotpSecret,
+  totpProvisioningUri,
+  verifyTotp,
+  generateRecoveryCodes,
+  consumeRecoveryCode
+} from "./totp";
+import {
+  User as SelectUser,
+  changePasswordSchema,
+  updateProfileSchema,
+  registerUserSchema,
+  totpCodeSchema,
+  disableTwoFactorSchema,
+  twoFactorLoginSchema,
+  createApiTokenSchema,
+  approverRoles,
+  type ApiToken,
+  type CreatedApiToken,
+  type Invitation,
+  type RegistrationInfo,
+  type CurrentUser,
+  type TwoFactorChallenge,
+  type TwoFactorSetup,
+  type TwoFactorStatus
+} from "@shared/schema";
 
 declare global {
   namespace Express {
     interface User extends SelectUser {}
+    interface Request {
+      // Set when the request was signed in with a personal API token instead of a session
+      apiToken?: ApiToken;
+    }
   }
 }
 
-const scryptAsync = promisify(scrypt);
+declare module "express-session" {
+  interface SessionData {
+    // Set once the password of an account with two-factor authentication has been checked,
+    // until the second step signs the user in
+    pendingTwoFactor?: { userId: number; expiresAt: number; attempts: number };
+    // Timestamps (ms) for the idle and absolute session timeouts
+    authenticatedAt?: number;
+    lastSeenAt?: number;
+    // Shown in the list of active sessions
+    userAgent?: string;
+    ip?: string;
+  }
+}
+
+// Endpoints still reachable while the user has to replace an administrator-assigned password
+const PASSWORD_CHANGE_ALLOWED_PATHS = ["/api/user", "/api/user/password", "/api/logout"];
+
+// Endpoints still reachable while the user has to enroll in two-factor authentication. A user
+// who also has to replace their password does that first, as the password gate blocks enrollment.
+const TWO_FACTOR_SETUP_ALLOWED_PATHS = ["/api/user", "/api/user/password", "/api/logout"];
 
-async function hashPassword(password: string) {
-  const salt = randomBytes(16).toString("hex");
-  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
-  return `${buf.toString("hex")}.${salt}`;
+// lastSeenAt is only rewritten once it is this old, so reads do not save the session every time
+const SESSION_TOUCH_INTERVAL_MS = 60 * 1000;
+
+const TWO_FACTOR_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const TWO_FACTOR_MAX_ATTEMPTS = 5;
+
+// Removes credentials and second-factor secrets before a user is sent to the client
+export function sanitizeUser(user: SelectUser) {
+  const { password, passwordHistory, totpSecret, totpLastUsedStep, totpRecoveryCodes, ...sanitizedUser } = user;
+  return sanitizedUser;
 }
 
-async function comparePasswords(supplied: string, stored: string) {
-  const [hashed, salt] = stored.split(".");
-  const hashedBuf = Buffer.from(hashed, "hex");
-  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
-  return timingSafeEqual(hashedBuf, suppliedBuf);
+async function isTwoFactorRequired(user: SelectUser): Promise<boolean> {
+  const settings = await getSystemSettings();
+  return settings.requireTwoFactorForApprovers && (approverRoles as readonly string[]).includes(user.role);
+}
+
+async function isPasswordChangeRequired(user: SelectUser): Promise<boolean> {
+  return user.mustChangePassword || isPasswordExpired(user, await getSystemSettings());
+}
+
+async function toCurrentUser(user: SelectUser): Promise<CurrentUser> {
+  return {
+    ...sanitizeUser(user),
+    passwordExpired: isPasswordExpired(user, await getSystemSettings()),
+    twoFactorSetupRequired: !user.totpEnabled && (await isTwoFactorRequired(user)),
+  };
+}
+
+// Starts the session policy clock and records where the session was opened from
+function stampSession(req: Request, now = Date.now()) {
+  req.session.authenticatedAt = now;
+  req.session.lastSeenAt = now;
+  req.session.userAgent = req.get("user-agent");
+  req.session.ip = req.ip;
+}
+
+function sendTooManyAttempts(res: Response, retryAfter: number) {
+  res.set("Retry-After", String(retryAfter));
+  return res.status(429).json({ message: "Too many failed login attempts, try again later", retryAfter });
+}
+
+function toTwoFactorStatus(user: SelectUser, required: boolean): TwoFactorStatus {
+  return {
+    enabled: user.totpEnabled,
+    required,
+    recoveryCodesRemaining: user.totpEnabled ? user.totpRecoveryCodes.length : 0,
+  };
 }
 
 export function setupAuth(app: Express) {
@@ -35,6 +129,7 @@ export function setupAuth(app: Express) {
     saveUninitialized: false,
     store: storage.sessionStore,
     cookie: {
+      // Only until the first authenticated request; from then on the session policy below sets it
       maxAge: 1000 * 60 * 60 * 24, // 1 day
       secure: process.env.NODE_ENV === "production",
     }
@@ -49,11 +144,22 @@ export function setupAuth(app: Express) {
     new LocalStrategy(async (username, password, done) => {
       try {
         const user = await storage.getUserByUsername(username);
-        if (!user || !(await comparePasswords(password, user.password))) {
+        const verification = user ? await verifyPassword(password, user.password) : undefined;
+        // Deactivated accounts fail like wrong credentials, so the response never confirms a password
+        if (!user || !verification?.valid || !user.active) {
           return done(null, false);
-        } else {
-          return done(null, user);
         }
+
+        // Move the stored hash to the configured algorithm and cost while the password is at hand
+        if (verification.needsRehash) {
+          try {
+            return done(null, await storage.updateUser(user.id, { password: await hashPassword(password) }));
+          } catch (error) {
+            console.error("Failed to upgrade password hash", error);
+          }
+        }
+
+        return done(null, user);
       } catch (error) {
         return done(error);
       }
@@ -64,50 +170,361 @@ export function setupAuth(app: Express) {
   passport.deserializeUser(async (id: number, done) => {
     try {
       const user = await storage.getUser(id);
-      done(null, user);
+      // Deactivating an account ends its existing sessions
+      done(null, user?.active ? user : false);
     } catch (error) {
       done(error);
     }
   });
 
+  // Personal API tokens: "Authorization: Bearer <token>" signs the request in without a session,
+  // for the endpoints covered by the token's scopes. Roles are still checked by each route.
+  app.use(async (req, res, next) => {
+    const authorization = req.get("authorization");
+    if (!authorization?.startsWith("Bearer ") || !req.path.startsWith("/api/")) return next();
+
+    try {
+      const authenticated = await authenticateApiToken(authorization.slice("Bearer ".length).trim(), req.ip);
+      if (!authenticated) {
+        return res.status(401).json({ message: "Invalid or expired API token" });
+      }
+
+      const scope = requiredScope(req.method, req.path);
+      if (!scope) {
+        return res.status(403).json({ message: "API tokens cannot be used for this endpoint" });
+      }
+      if (!authenticated.apiToken.scopes.includes(scope)) {
+        return res.status(403).json({ message: `API token is missing the ${scope} scope` });
+      }
+
+      req.user = authenticated.user;
+      req.apiToken = authenticated.apiToken;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Session policy: signed-in sessions end after sessionIdleMinutes without requests and
+  // sessionMaxHours after signing in, whichever comes first
+  app.use(async (req, res, next) => {
+    if (!req.isAuthenticated() || req.apiToken) return next();
+
+    try {
+      const settings = await getSystemSettings();
+      const now = Date.now();
+      const idleMs = settings.sessionIdleMinutes * 60 * 1000;
+      const maxMs = settings.sessionMaxHours * 60 * 60 * 1000;
+      if (req.session.authenticatedAt === undefined) {
+        stampSession(req, now);
+      }
+      const { authenticatedAt = now, lastSeenAt = now } = req.session;
+
+      // An administrator signed the user out of every session opened before sessionsRevokedAt
+      const revoked = !!req.user.sessionsRevokedAt && authenticatedAt <= req.user.sessionsRevokedAt.getTime();
+      if (revoked || now - lastSeenAt > idleMs || now - authenticatedAt > maxMs) {
+        return req.logout((err) => {
+          if (err) return next(err);
+          if (req.path.startsWith("/api/")) {
+            return res.status(401).json({ message: revoked ? "Session has been revoked" : "Session expired" });
+          }
+          next();
+        });
+      }
+
+      // Touching the session saves it, which also renews the cookie. The first request after
+      // signing in always does, to replace the default cookie lifetime.
+      if (now - lastSeenAt >= SESSION_TOUCH_INTERVAL_MS || lastSeenAt === authenticatedAt) {
+        req.session.lastSeenAt = now;
+        req.session.ip = req.ip;
+        req.session.cookie.maxAge = Math.min(idleMs, maxMs - (now - authenticatedAt));
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.use(async (req, res, next) => {
+    if (
+      !req.isAuthenticated() ||
+      !req.path.startsWith("/api/") ||
+      PASSWORD_CHANGE_ALLOWED_PATHS.includes(req.path)
+    ) {
+      return next();
+    }
+
+    try {
+      if (await isPasswordChangeRequired(req.user)) {
+        return res.status(403).json({ message: "Password change required" });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.use(async (req, res, next) => {
+    if (
+      !req.isAuthenticated() ||
+      req.user.totpEnabled ||
+      !req.path.startsWith("/api/") ||
+      TWO_FACTOR_SETUP_ALLOWED_PATHS.includes(req.path) ||
+      req.path.startsWith("/api/user/2fa")
+    ) {
+      return next();
+    }
+
+    try {
+      if (await isTwoFactorRequired(req.user)) {
+        return res.status(403).json({ message: "Two-factor authentication setup required" });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Tells the sign-up form whether it should be shown and what an invitation grants
+  app.get("/api/registration", async (req, res) => {
+    try {
+      const info: RegistrationInfo = { mode: getRegistrationMode() };
+      if (info.mode !== "disabled") {
+        info.departments = (await storage.getAllDepartments())
+          .filter((department) => department.active)
+          .map(({ code, name }) => ({ code, name }));
+      }
+      const token = typeof req.query.invite === "string" ? req.query.invite : undefined;
+
+      if (token && info.mode !== "disabled") {
+        const invitation = await storage.getInvitationByTokenHash(hashInvitationToken(token));
+        const problem = invitation ? invitationProblem(invitation) : "Invitation not found";
+        if (invitation && !problem) {
+          const { email, role, department, expiresAt } = invitation;
+          info.invitation = { email, role, department, expiresAt };
+        } else {
+          info.invitationError = problem ?? undefined;
+        }
+      }
+
+      res.json(info);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch registration settings" });
+    }
+  });
+
   app.post("/api/register", async (req, res, next) => {
     try {
-      const existingUser = await storage.getUserByUsername(req.body.username);
+      const mode = getRegistrationMode();
+      if (mode === "disabled") {
+        return res.status(403).json({ message: "Registration is disabled" });
+      }
+
+      const { inviteToken, ...validatedData } = registerUserSchema.parse(req.body);
+
+      let invitation: Invitation | undefined;
+      if (inviteToken) {
+        invitation = await storage.getInvitationByTokenHash(hashInvitationToken(inviteToken));
+        if (!invitation) {
+          return res.status(400).json({ message: "Invitation not found" });
+        }
+
+        const problem = invitationProblem(invitation);
+        if (problem) {
+          return res.status(400).json({ message: problem });
+        }
+
+        if (invitation.email && invitation.email.toLowerCase() !== validatedData.email.toLowerCase()) {
+          return res.status(400).json({ message: "This invitation was issued for a different email address" });
+        }
+      } else if (mode === "invite") {
+        return res.status(403).json({ message: "An invitation is required to register" });
+      }
+
+      // Self-registered accounts are analysts unless an invitation says otherwise
+      const department = invitation?.department ?? validatedData.department;
+      if (!department) {
+        return res.status(400).json({ message: "Department is required" });
+      }
+      
+      // The invitation's department was checked when it was issued
+      const departmentError = invitation ? null : await validateDepartments([department]);
+      if (departmentError) {
+        return res.status(400).json({ message: departmentError });
+      }
+
+      const existingUser = await storage.getUserByUsername(validatedData.username);
       if (existingUser) {
         return res.status(400).json({ message: "Username already exists" });
       }
 
-      const hashedPassword = await hashPassword(req.body.password);
       const user = await storage.createUser({
-        ...req.body,
-        password: hashedPassword,
+        ...validatedData,
+        password: await hashPassword(validatedData.password),
+        role: invitation?.role ?? "analyst",
+        department,
       });
 
-      req.login(user, (err) => {
+      if (invitation) {
+        await storage.updateInvitation(invitation.id, { acceptedAt: new Date(), acceptedBy: user.id });
+      }
+
+      await storage.createActivity({
+        userId: user.id,
+        action: "register",
+        entityType: "user",
+        entityId: user.id,
+        details: {
+          username: user.username,
+          name: user.name,
+          role: user.role,
+          department: user.department,
+          invitationId: invitation?.id ?? null
+        },
+      });
+
+      req.login(user, async (err) => {
         if (err) return next(err);
-        // Remove password from response
-        const { password, ...userWithoutPassword } = user;
-        res.status(201).json(userWithoutPassword);
+        stampSession(req);
+        try {
+          res.status(201).json(await toCurrentUser(user));
+        } catch (error) {
+          next(error);
+        }
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
       next(error);
     }
   });
 
-  app.post("/api/login", (req, res, next) => {
-    passport.authenticate("local", (err, user, info) => {
+  app.post("/api/login", async (req, res, next) => {
+    const username = typeof req.body?.username === "string" ? req.body.username : "";
+    const ip = req.ip ?? "unknown";
+
+    try {
+      const retryAfter = await loginRetryAfter(username, ip);
+      if (retryAfter) return sendTooManyAttempts(res, retryAfter);
+    } catch (error) {
+      return next(error);
+    }
+
+    passport.authenticate("local", async (err: Error | null, user: SelectUser | false) => {
       if (err) return next(err);
-      if (!user) return res.status(401).json({ message: "Invalid credentials" });
+      if (!user) {
+        try {
+          await recordLoginFailure(username, ip);
+        } catch (error) {
+          return next(error);
+        }
+        return res.status(401).json({ message: "Invalid credentials" });
+      }
+      
+      // The password was right; the session is only established by /api/login/2fa, and the
+      // failure counters are kept until then
+      if (user.totpEnabled) {
+        req.session.pendingTwoFactor = {
+          userId: user.id,
+          expiresAt: Date.now() + TWO_FACTOR_CHALLENGE_TTL_MS,
+          attempts: 0,
+        };
+        const challenge: TwoFactorChallenge = { twoFactorRequired: true };
+        return res.status(200).json(challenge);
+      }
       
-      req.login(user, (err) => {
+      let signedInUser: SelectUser;
+      try {
+        signedInUser = await recordLoginSuccess(user);
+      } catch (error) {
+        return next(error);
+      }
+      
+      req.login(signedInUser, async (err) => {
         if (err) return next(err);
-        // Remove password from response
-        const { password, ...userWithoutPassword } = user;
-        res.status(200).json(userWithoutPassword);
+        stampSession(req);
+        try {
+          res.status(200).json(await toCurrentUser(signedInUser));
+        } catch (error) {
+          next(error);
+        }
       });
     })(req, res, next);
   });
 
+  app.post("/api/login/2fa", async (req, res, next) => {
+    try {
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt <= Date.now()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Verification expired, sign in again" });
+      }
+
+      const validatedData = twoFactorLoginSchema.parse(req.body);
+
+      const user = await storage.getUser(pending.userId);
+      if (!user || !user.active || !user.totpEnabled || !user.totpSecret) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Invalid credentials" });
+      }
+
+      const ip = req.ip ?? "unknown";
+      const retryAfter = await loginRetryAfter(user.username, ip);
+      if (retryAfter) {
+        delete req.session.pendingTwoFactor;
+        return sendTooManyAttempts(res, retryAfter);
+      }
+
+      let update: Partial<SelectUser> | null = null;
+      if ("code" in validatedData) {
+        const step = verifyTotp(user.totpSecret, validatedData.code, user.totpLastUsedStep);
+        if (step !== null) update = { totpLastUsedStep: step };
+      } else {
+        const remaining = consumeRecoveryCode(user.totpRecoveryCodes, validatedData.recoveryCode);
+        if (remaining) update = { totpRecoveryCodes: remaining };
+      }
+
+      if (!update) {
+        await recordLoginFailure(user.username, ip);
+        pending.attempts += 1;
+        if (pending.attempts >= TWO_FACTOR_MAX_ATTEMPTS) {
+          delete req.session.pendingTwoFactor;
+          return res.status(401).json({ message: "Too many invalid codes, sign in again" });
+        }
+        return res.status(401).json({ message: "Invalid verification code" });
+      }
+
+      const verifiedUser = await recordLoginSuccess(await storage.updateUser(user.id, update));
+
+      if ("recoveryCode" in validatedData) {
+        await storage.createActivity({
+          userId: user.id,
+          action: "use_recovery_code",
+          entityType: "user",
+          entityId: user.id,
+          details: { username: user.username, remaining: verifiedUser.totpRecoveryCodes.length },
+        });
+      }
+
+      // Logging in regenerates the session, which also drops the pending challenge
+      req.login(verifiedUser, async (err) => {
+        if (err) return next(err);
+        stampSession(req);
+        try {
+          res.status(200).json(await toCurrentUser(verifiedUser));
+        } catch (error) {
+          next(error);
+        }
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      next(error);
+    }
+  });
+
   app.post("/api/logout", (req, res, next) => {
     req.logout((err) => {
       if (err) return next(err);
@@ -115,10 +532,371 @@ export function setupAuth(app: Express) {
     });
   });
 
-  app.get("/api/user", (req, res) => {
+  app.get("/api/user", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      res.json(await toCurrentUser(req.user));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // What the signed-in user may do, so the client can hide actions it would be refused
+  app.get("/api/user/permissions", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    // Remove password from response
-    const { password, ...userWithoutPassword } = req.user;
-    res.json(userWithoutPassword);
+
+    try {
+      res.json(await getUserPermissions(req.user));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch permissions" });
+    }
+  });
+
+  app.patch("/api/user", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const validatedData = updateProfileSchema.parse(req.body);
+      const user = await storage.updateUser(req.user.id, validatedData);
+
+      const changes = (Object.keys(validatedData) as (keyof typeof validatedData)[])
+        .filter((field) => JSON.stringify(validatedData[field]) !== JSON.stringify(req.user[field]));
+      if (changes.length > 0) {
+        await storage.createActivity({
+          userId: user.id,
+          action: "update_profile",
+          entityType: "user",
+          entityId: user.id,
+          details: { username: user.username, name: user.name, changes },
+        });
+      }
+
+      res.json(await toCurrentUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update profile" });
+    }
+  });
+
+  app.post("/api/user/password", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+      if (!(await verifyPassword(currentPassword, req.user.password)).valid) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+
+      const settings = await getSystemSettings();
+      if (await isPasswordReused(req.user, newPassword, settings)) {
+        return res.status(400).json({
+          message: `The new password must differ from your last ${settings.passwordHistoryCount} passwords`
+        });
+      }
+
+      const user = await storage.updateUser(req.user.id, {
+        ...(await passwordUpdate(req.user, newPassword, settings)),
+        mustChangePassword: false,
+      });
+
+      // Anyone holding another session with the old password is signed out
+      await storage.destroyUserSessions(user.id, req.sessionID);
+
+      await storage.createActivity({
+        userId: user.id,
+        action: "change_password",
+        entityType: "user",
+        entityId: user.id,
+        details: { username: user.username },
+      });
+
+      res.json(await toCurrentUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to change password" });
+    }
+  });
+
+  app.get("/api/user/sessions", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      res.json(await listUserSessions(req.user.id, req.sessionID));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  // Signs the user out of every other browser or device
+  app.delete("/api/user/sessions", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      await storage.destroyUserSessions(req.user.id, req.sessionID);
+
+      await storage.createActivity({
+        userId: req.user.id,
+        action: "revoke_sessions",
+        entityType: "user",
+        entityId: req.user.id,
+        details: { username: req.user.username },
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to revoke sessions" });
+    }
+  });
+
+  app.delete("/api/user/sessions/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      if (req.params.id === publicSessionId(req.sessionID)) {
+        return res.status(400).json({ message: "Use logout to end the current session" });
+      }
+
+      if (!(await revokeUserSession(req.user.id, req.params.id))) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      await storage.createActivity({
+        userId: req.user.id,
+        action: "revoke_session",
+        entityType: "user",
+        entityId: req.user.id,
+        details: { username: req.user.username },
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to revoke session" });
+    }
+  });
+
+  app.get("/api/user/tokens", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const apiTokens = await storage.getApiTokensByUser(req.user.id);
+      res.json(apiTokens.map(toApiTokenInfo));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch API tokens" });
+    }
+  });
+
+  app.post("/api/user/tokens", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const { name, scopes, expiresInDays } = createApiTokenSchema.parse(req.body);
+      const { token, tokenHash, tokenPrefix } = generateApiToken();
+      const apiToken = await storage.createApiToken({
+        userId: req.user.id,
+        name,
+        tokenHash,
+        tokenPrefix,
+        scopes: Array.from(new Set(scopes)),
+        expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+      });
+
+      await storage.createActivity({
+        userId: req.user.id,
+        action: "create_token",
+        entityType: "api_token",
+        entityId: apiToken.id,
+        details: { name, scopes: apiToken.scopes, expiresAt: apiToken.expiresAt },
+      });
+
+      const created: CreatedApiToken = { apiToken: toApiTokenInfo(apiToken), token };
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create API token" });
+    }
+  });
+
+  app.delete("/api/user/tokens/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const id = parseInt(req.params.id);
+      const apiToken = await storage.getApiToken(id);
+      if (!apiToken || apiToken.userId !== req.user.id || apiToken.revokedAt) {
+        return res.status(404).json({ message: "API token not found" });
+      }
+
+      await storage.updateApiToken(id, { revokedAt: new Date() });
+
+      await storage.createActivity({
+        userId: req.user.id,
+        action: "revoke_token",
+        entityType: "api_token",
+        entityId: id,
+        details: { name: apiToken.name },
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to revoke API token" });
+    }
+  });
+
+  app.get("/api/user/2fa", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      res.json(toTwoFactorStatus(req.user, await isTwoFactorRequired(req.user)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch two-factor authentication status" });
+    }
+  });
+
+  // Starts enrollment with a fresh secret; nothing is enforced until /api/user/2fa/enable
+  app.post("/api/user/2fa/setup", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      if (req.user.totpEnabled) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+
+      const secret = generateTotpSecret();
+      await storage.updateUser(req.user.id, { totpSecret: secret, totpLastUsedStep: null });
+
+      const otpauthUrl = totpProvisioningUri(secret, req.user.username);
+      const setup: TwoFactorSetup = {
+        secret,
+        otpauthUrl,
+        qrCode: await QRCode.toDataURL(otpauthUrl),
+      };
+      res.json(setup);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to start two-factor authentication setup" });
+    }
+  });
+
+  app.post("/api/user/2fa/enable", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const { code } = totpCodeSchema.parse(req.body);
+      if (req.user.totpEnabled) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+      if (!req.user.totpSecret) {
+        return res.status(400).json({ message: "Two-factor authentication setup has not been started" });
+      }
+
+      const step = verifyTotp(req.user.totpSecret, code);
+      if (step === null) {
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+
+      const { codes, hashes } = generateRecoveryCodes();
+      const user = await storage.updateUser(req.user.id, {
+        totpEnabled: true,
+        totpLastUsedStep: step,
+        totpRecoveryCodes: hashes,
+      });
+
+      await storage.createActivity({
+        userId: user.id,
+        action: "enable_2fa",
+        entityType: "user",
+        entityId: user.id,
+        details: { username: user.username },
+      });
+
+      // Recovery codes are only shown here and when they are regenerated
+      res.json({ recoveryCodes: codes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to enable two-factor authentication" });
+    }
+  });
+
+  app.post("/api/user/2fa/recovery-codes", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const { code } = totpCodeSchema.parse(req.body);
+      if (!req.user.totpEnabled || !req.user.totpSecret) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+
+      const step = verifyTotp(req.user.totpSecret, code, req.user.totpLastUsedStep);
+      if (step === null) {
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+
+      const { codes, hashes } = generateRecoveryCodes();
+      const user = await storage.updateUser(req.user.id, {
+        totpLastUsedStep: step,
+        totpRecoveryCodes: hashes,
+      });
+
+      await storage.createActivity({
+        userId: user.id,
+        action: "regenerate_recovery_codes",
+        entityType: "user",
+        entityId: user.id,
+        details: { username: user.username },
+      });
+
+      res.json({ recoveryCodes: codes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to regenerate recovery codes" });
+    }
+  });
+
+  app.post("/api/user/2fa/disable", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const { password } = disableTwoFactorSchema.parse(req.body);
+      if (!req.user.totpEnabled) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (!(await verifyPassword(password, req.user.password)).valid) {
+        return res.status(400).json({ message: "Password is incorrect" });
+      }
+      if (await isTwoFactorRequired(req.user)) {
+        return res.status(403).json({ message: "Two-factor authentication is required for your role" });
+      }
+
+      const user = await storage.updateUser(req.user.id, {
+        totpSecret: null,
+        totpEnabled: false,
+        totpLastUsedStep: null,
+        totpRecoveryCodes: [],
+      });
+
+      await storage.createActivity({
+        userId: user.id,
+        action: "disable_2fa",
+        entityType: "user",
+        entityId: user.id,
+        details: { username: user.username },
+      });
+
+      res.json(toTwoFactorStatus(user, false));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to disable two-factor authentication" });
+    }
   });
 }
@@ -0,0 +1,33 @@
+import type { Department } from "@shared/schema";
+import { storage } from "./storage";
+
+/**
+ * Why these department codes cannot be assigned, or null when they all can. Codes in `current`
+ * are what the record already has, so a department deactivated since then can be kept.
+ */
+export async function validateDepartments(codes: string[], current: string[] = []): Promise<string | null> {
+  for (const code of codes) {
+    if (current.includes(code)) continue;
+
+    const department = await storage.getDepartmentByCode(code);
+    if (!department) return `Department ${code} not found`;
+    if (!department.active) return `Department ${code} is inactive`;
+  }
+  return null;
+}
+
+// Why a department cannot become the parent of another one, or null when it can
+export async function parentProblem(department: Pick<Department, "id"> | null, parentId: number): Promise<string | null> {
+  let parent = await storage.getDepartment(parentId);
+  if (!parent) return "Parent department not found";
+
+  // Walk up from the new parent; reaching the department itself would close a cycle
+  const seen = new Set<number>();
+  while (parent) {
+    if (parent.id === department?.id) return "A department cannot be placed under itself";
+    if (seen.has(parent.id) || parent.parentId === null) break;
+    seen.add(parent.id);
+    parent = await storage.getDepartment(parent.parentId);
+  }
+  return null;
+}
@@ -0,0 +1,178 @@
+// Line and word level text diff (Myers' O(ND) algorithm) used to compare document versions
+
+export type DiffOperation = "equal" | "added" | "removed";
+
+export interface WordChange {
+  type: DiffOperation;
+  value: string;
+}
+
+export type LineChange =
+  | { type: DiffOperation; value: string }
+  | { type: "modified"; oldValue: string; value: string; words: WordChange[] };
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+  modified: number;
+}
+
+function diffSequences<T>(a: T[], b: T[]): { type: DiffOperation; value: T }[] {
+  // Common prefix and suffix don't need to go through the edit graph
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const prefix = a.slice(0, start).map((value) => ({ type: "equal" as const, value }));
+  const suffix = a.slice(endA).map((value) => ({ type: "equal" as const, value }));
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+
+  return [...prefix, ...myers(middleA, middleB), ...suffix];
+}
+
+function myers<T>(a: T[], b: T[]): { type: DiffOperation; value: T }[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+
+  if (n === 0) return b.map((value) => ({ type: "added", value }));
+  if (m === 0) return a.map((value) => ({ type: "removed", value }));
+
+  const offset = max;
+  const v = new Int32Array(2 * max + 2);
+  // trace[d] keeps the furthest x reached on diagonals -d..d before step d
+  const trace: Int32Array[] = [];
+
+  outer:
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        break outer;
+      }
+    }
+  }
+
+  const result: { type: DiffOperation; value: T }[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && previous[k - 1 + d] < previous[k + 1 + d]) ? k + 1 : k - 1;
+    const prevX = previous[prevK + d];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      result.push({ type: "equal", value: a[x - 1] });
+      x--;
+      y--;
+    }
+
+    if (x === prevX) {
+      result.push({ type: "added", value: b[y - 1] });
+      y--;
+    } else {
+      result.push({ type: "removed", value: a[x - 1] });
+      x--;
+    }
+  }
+
+  while (x > 0 && y > 0) {
+    result.push({ type: "equal", value: a[x - 1] });
+    x--;
+    y--;
+  }
+
+  return result.reverse();
+}
+
+// Splits on whitespace but keeps it, so joining the tokens restores the original text
+function tokenizeWords(text: string): string[] {
+  return text.split(/(\s+)/).filter((token) => token.length > 0);
+}
+
+export function diffWords(oldText: string, newText: string): WordChange[] {
+  const changes: WordChange[] = [];
+
+  for (const change of diffSequences(tokenizeWords(oldText), tokenizeWords(newText))) {
+    const last = changes[changes.length - 1];
+    if (last && last.type === change.type) {
+      last.value += change.value;
+    } else {
+      changes.push({ type: change.type, value: change.value });
+    }
+  }
+
+  return changes;
+}
+
+// Line diff where a block of removed lines directly followed by added lines is
+// paired up line by line and reported as "modified" with a word level diff
+export function diffLines(oldText: string, newText: string): LineChange[] {
+  const raw = diffSequences(oldText.split("\n"), newText.split("\n"));
+  const changes: LineChange[] = [];
+  let i = 0;
+
+  while (i < raw.length) {
+    if (raw[i].type !== "removed") {
+      changes.push({ type: raw[i].type, value: raw[i].value });
+      i++;
+      continue;
+    }
+
+    const removed: string[] = [];
+    while (i < raw.length && raw[i].type === "removed") {
+      removed.push(raw[i++].value);
+    }
+
+    const added: string[] = [];
+    while (i < raw.length && raw[i].type === "added") {
+      added.push(raw[i++].value);
+    }
+
+    const paired = Math.min(removed.length, added.length);
+    for (let j = 0; j < paired; j++) {
+      changes.push({ type: "modified", oldValue: removed[j], value: added[j], words: diffWords(removed[j], added[j]) });
+    }
+    for (const value of removed.slice(paired)) {
+      changes.push({ type: "removed", value });
+    }
+    for (const value of added.slice(paired)) {
+      changes.push({ type: "added", value });
+    }
+  }
+
+  return changes;
+}
+
+export function summarizeDiff(changes: LineChange[]): DiffStats {
+  return {
+    added: changes.filter((change) => change.type === "added").length,
+    removed: changes.filter((change) => change.type === "removed").length,
+    modified: changes.filter((change) => change.type === "modified").length,
+  };
+}
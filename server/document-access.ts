@@ -0,0 +1,43 @@
+import type { Document, User } from "@shared/schema";
+import { getUserPermissions, hasPermission } from "./permissions";
+import type { ActivityViewer, DocumentViewer } from "./storage";
+
+// What the user may see of the documents, for the storage queries. Only called behind
+// isAuthenticated: without a viewer the storage does not filter at all. Whoever may edit a
+// document also sees it, working draft included.
+export async function documentViewer(user: User | undefined): Promise<DocumentViewer | undefined> {
+  if (!user) return undefined;
+
+  const permissions = await getUserPermissions(user);
+  return {
+    userId: user.id,
+    department: user.department,
+    viewAll: permissions.includes("document.view_all") || permissions.includes("document.edit_any"),
+    viewDepartment: permissions.includes("document.view_department") || permissions.includes("document.edit_department"),
+  };
+}
+
+// What the user may see of the activity log: events on documents as for documentViewer, and
+// those on users, settings and the rest only with activity.view_system
+export async function activityViewer(user: User | undefined): Promise<ActivityViewer | undefined> {
+  const viewer = await documentViewer(user);
+  return viewer && { ...viewer, viewSystem: await hasPermission(user, "activity.view_system") };
+}
+
+// Superseding, making obsolete and archiving is limited to the user's department unless they
+// hold the global permission
+export async function canRetireDocument(user: User | undefined, document: Document): Promise<boolean> {
+  if (!user) return false;
+
+  return (await hasPermission(user, "document.retire_any")) ||
+    (document.department === user.department && (await hasPermission(user, "document.retire")));
+}
+
+// Authors edit their own documents; others need a permission covering the document's department
+export async function canEditDocument(user: User | undefined, document: Document): Promise<boolean> {
+  if (!user) return false;
+  if (document.createdBy === user.id) return true;
+
+  return (await hasPermission(user, "document.edit_any")) ||
+    (document.department === user.department && (await hasPermission(user, "document.edit_department")));
+}
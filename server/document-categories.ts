@@ -0,0 +1,41 @@
+import type { CategoryField } from "@shared/schema";
+import { storage } from "./storage";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Why a value cannot fill a field of the given type, or null when it can
+function fieldValueProblem(field: CategoryField, value: string): string | null {
+  if (field.type === "number" && !Number.isFinite(Number(value))) {
+    return `${field.label} must be a number`;
+  }
+  if (field.type === "date" && (!DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value)))) {
+    return `${field.label} must be a date (YYYY-MM-DD)`;
+  }
+  return null;
+}
+
+/**
+ * Why a document (or workflow) cannot use this category, or null when it can. `current` is the
+ * category the record already has, so a category deactivated (or never created) since then can
+ * be kept. With `metadata`, the fields the category requires must be filled in with valid values.
+ */
+export async function validateDocumentCategory(
+  code: string,
+  current?: string | null,
+  metadata?: Record<string, string>
+): Promise<string | null> {
+  const category = await storage.getDocumentCategoryByCode(code);
+  if (!category) return code === current ? null : `Document category ${code} not found`;
+  if (!category.active && code !== current) return `Document category ${code} is inactive`;
+
+  if (metadata) {
+    for (const field of category.requiredFields) {
+      const value = metadata[field.key]?.trim();
+      if (!value) return `${field.label} is required`;
+
+      const problem = fieldValueProblem(field, value);
+      if (problem) return problem;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,21 @@
+import type { Document } from "@shared/schema";
+import { getSystemSettings } from "./settings";
+import { storage } from "./storage";
+
+// The category's prefix; documents of a category that no longer exists use the first letters of its code
+async function codePrefix(document: Document): Promise<string> {
+  const category = await storage.getDocumentCategoryByCode(document.category);
+  return category?.prefix ?? (document.category.toUpperCase().replace(/[^A-Z0-9]/g, "").slice(0, 3) || "DOC");
+}
+
+// Documents keep their code once assigned, even if their department or category changes later
+export async function assignDocumentCode(document: Document): Promise<Document> {
+  if (document.code) return document;
+  return storage.assignDocumentCode(document.id, await codePrefix(document));
+}
+
+// Codes are assigned at creation unless the settings defer them to the first approval
+export async function assignCodeOnCreation(document: Document): Promise<Document> {
+  const { documentCodeAssignment } = await getSystemSettings();
+  return documentCodeAssignment === "creation" ? assignDocumentCode(document) : document;
+}
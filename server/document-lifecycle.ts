@@ -0,0 +1,114 @@
+import { DOCUMENT_TRANSITION_ACTIONS } from "@shared/schema";
+import type { Document, DocumentStatus, DocumentTransitionAction, User } from "@shared/schema";
+import { storage } from "./storage";
+import { canEditDocument, canRetireDocument } from "./document-access";
+import { stopReviews } from "./document-reviews";
+
+// Every status change of a document goes through transitionDocument, which only allows the
+// actions below from their listed states and records who made the change and why.
+
+export type DocumentAction = "submit" | "approve" | "reject" | DocumentTransitionAction;
+
+interface TransitionRule {
+  from: DocumentStatus[];
+  // "resting" returns the document to published when it has a version in effect, to draft otherwise
+  to: DocumentStatus | "resting";
+  // Who may take the action through the transitions endpoint. Workflow actions are taken by
+  // the submit and approval handlers only.
+  actor: "workflow" | "editor" | "retire";
+}
+
+const TRANSITIONS: Record<DocumentAction, TransitionRule> = {
+  submit: { from: ["draft", "rejected", "published"], to: "in_review", actor: "workflow" },
+  approve: { from: ["in_review"], to: "published", actor: "workflow" },
+  reject: { from: ["in_review"], to: "rejected", actor: "workflow" },
+  withdraw: { from: ["in_review"], to: "resting", actor: "editor" },
+  rework: { from: ["rejected"], to: "resting", actor: "editor" },
+  supersede: { from: ["published"], to: "superseded", actor: "retire" },
+  make_obsolete: { from: ["published"], to: "obsolete", actor: "retire" },
+  archive: { from: ["draft", "rejected", "published", "superseded", "obsolete"], to: "archived", actor: "retire" },
+};
+
+// Documents under review or retired are locked; rejected ones go back to work when edited
+const EDITABLE_STATUSES: DocumentStatus[] = ["draft", "rejected", "published"];
+const RETIRED_STATUSES: DocumentStatus[] = ["superseded", "obsolete", "archived"];
+
+export class InvalidTransitionError extends Error {}
+
+export function canTransition(document: Document, action: DocumentAction): boolean {
+  return TRANSITIONS[action].from.includes(document.status);
+}
+
+export function isEditable(document: Document): boolean {
+  return EDITABLE_STATUSES.includes(document.status);
+}
+
+export function isRetired(document: Document): boolean {
+  return RETIRED_STATUSES.includes(document.status);
+}
+
+// The actions the user may take on the document right now, in the order the UI offers them
+export async function availableActions(user: User | undefined, document: Document): Promise<DocumentTransitionAction[]> {
+  const canEdit = await canEditDocument(user, document);
+  const canRetire = await canRetireDocument(user, document);
+
+  return DOCUMENT_TRANSITION_ACTIONS.filter((action) => {
+    const { actor } = TRANSITIONS[action];
+    return canTransition(document, action) && (actor === "editor" ? canEdit : canRetire);
+  });
+}
+
+interface TransitionOptions {
+  userId: number;
+  reason?: string | null;
+  // Published document that replaces this one, for "supersede"
+  supersededBy?: number;
+  // Other fields the handler changes together with the status
+  changes?: Partial<Document>;
+}
+
+async function transitionProblem(document: Document, action: DocumentAction, options: TransitionOptions): Promise<string | null> {
+  if (!canTransition(document, action)) {
+    return `Cannot ${action.replace("_", " ")} a document in status ${document.status}`;
+  }
+  if (action === "make_obsolete" && !options.reason) {
+    return "A reason is required to make a document obsolete";
+  }
+  if (action === "supersede") {
+    if (!options.supersededBy || options.supersededBy === document.id) {
+      return "The document that supersedes this one is required";
+    }
+    const successor = await storage.getDocument(options.supersededBy);
+    if (!successor || successor.status !== "published") {
+      return "The superseding document must be published";
+    }
+  }
+  return null;
+}
+
+export async function transitionDocument(
+  document: Document,
+  action: DocumentAction,
+  options: TransitionOptions
+): Promise<Document> {
+  const problem = await transitionProblem(document, action, options);
+  if (problem) {
+    throw new InvalidTransitionError(problem);
+  }
+
+  const rule = TRANSITIONS[action];
+  const status = rule.to === "resting" ? (document.publishedVersion ? "published" : "draft") : rule.to;
+
+  const updatedDocument = await storage.updateDocument(document.id, {
+    // Leaving review closes the approval round, so its remaining approvals can no longer be decided
+    ...(document.status === "in_review" ? { approvalStage: null, approvalStages: null } : {}),
+    ...options.changes,
+    status,
+    statusChangedAt: new Date(),
+    statusChangedBy: options.userId,
+    statusReason: options.reason || null,
+    supersededBy: action === "supersede" ? options.supersededBy : document.supersededBy,
+  });
+
+  return isRetired(updatedDocument) ? stopReviews(updatedDocument) : updatedDocument;
+}
@@ -0,0 +1,89 @@
+import type { Document } from "@shared/schema";
+import { getSystemSettings } from "./settings";
+import { storage } from "./storage";
+
+// Approved documents are reviewed every `reviewPeriodMonths` months. Each review (and the
+// approval that publishes a version) restarts the cycle; shortly before the due date the
+// document's author gets a review task.
+
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000;
+
+export function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  const day = result.getDate();
+  result.setDate(1);
+  result.setMonth(result.getMonth() + months);
+  // Jan 31 + 1 month is the last day of February, not March 3
+  const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(day, lastDay));
+  return result;
+}
+
+// Null when the document has no review period or has never been reviewed (published)
+export function nextReviewDate(document: Pick<Document, "lastReviewedAt" | "reviewPeriodMonths">): Date | null {
+  if (!document.lastReviewedAt || !document.reviewPeriodMonths) return null;
+  return addMonths(document.lastReviewedAt, document.reviewPeriodMonths);
+}
+
+// Confirms the document is still valid: restarts the cycle and closes its open review task
+export async function completeReview(document: Document): Promise<Document> {
+  const now = new Date();
+
+  if (document.reviewTaskId) {
+    const task = await storage.getTask(document.reviewTaskId);
+    if (task && task.status !== "completed" && task.status !== "canceled") {
+      await storage.updateTask(task.id, { status: "completed", completedAt: now });
+    }
+  }
+
+  return storage.updateDocument(document.id, {
+    lastReviewedAt: now,
+    nextReviewAt: nextReviewDate({ lastReviewedAt: now, reviewPeriodMonths: document.reviewPeriodMonths }),
+    reviewTaskId: null,
+  });
+}
+
+// Retired documents are no longer reviewed: the cycle stops and the open review task is canceled
+export async function stopReviews(document: Document): Promise<Document> {
+  if (document.reviewTaskId) {
+    const task = await storage.getTask(document.reviewTaskId);
+    if (task && task.status !== "completed" && task.status !== "canceled") {
+      await storage.updateTask(task.id, { status: "canceled" });
+    }
+  }
+
+  return storage.updateDocument(document.id, { nextReviewAt: null, reviewTaskId: null });
+}
+
+// Opens a review task for every document due within the reminder window that has none yet
+export async function createDueReviewTasks(now = new Date()): Promise<number> {
+  const { reviewReminderDays } = await getSystemSettings();
+  const before = new Date(now.getTime() + reviewReminderDays * 24 * 60 * 60 * 1000);
+  const dueDocuments = await storage.getDocumentsDueForReview(before);
+
+  for (const document of dueDocuments) {
+    const task = await storage.createTask({
+      title: `Revisión periódica: ${document.code ?? document.title}`,
+      description: "Revise que el documento sigue vigente y confirme la revisión desde su ficha, o edítelo para actualizarlo.",
+      assignedTo: document.createdBy,
+      assignedBy: document.createdBy,
+      documentId: document.id,
+      priority: document.nextReviewAt && document.nextReviewAt < now ? "high" : "medium",
+      status: "pending",
+      dueDate: document.nextReviewAt,
+    });
+    await storage.updateDocument(document.id, { reviewTaskId: task.id });
+  }
+  return dueDocuments.length;
+}
+
+// Checks for due reviews when the server starts and every hour after that
+export function startReviewScheduler() {
+  const run = () => {
+    createDueReviewTasks().catch((error) => {
+      console.error("Failed to create review tasks", error);
+    });
+  };
+  run();
+  setInterval(run, SCHEDULER_INTERVAL_MS).unref();
+}
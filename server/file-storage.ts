@@ -0,0 +1,55 @@
+import fs from "fs";
+import path from "path";
+import type { Readable } from "stream";
+
+// Backend where uploaded files are kept. Keys are relative paths chosen by the
+// caller ("<documentId>/<uuid>.pdf"), so backends only need to map them.
+export interface FileStorage {
+  save(key: string, data: Buffer): Promise<void>;
+  read(key: string): Promise<Readable>;
+  remove(key: string): Promise<void>;
+}
+
+export class LocalFileStorage implements FileStorage {
+  constructor(private readonly rootDir: string) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+
+    // Keys are generated server side, but never let one escape the upload directory
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error("Invalid storage key");
+    }
+
+    return filePath;
+  }
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data, { flag: "wx" });
+  }
+
+  async read(key: string): Promise<Readable> {
+    const filePath = this.resolve(key);
+    await fs.promises.access(filePath, fs.constants.R_OK);
+    return fs.createReadStream(filePath);
+  }
+
+  async remove(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+}
+
+function createFileStorage(): FileStorage {
+  const driver = process.env.FILE_STORAGE_DRIVER || "local";
+
+  switch (driver) {
+    case "local":
+      return new LocalFileStorage(process.env.UPLOAD_DIR || path.resolve(process.cwd(), "uploads"));
+    default:
+      throw new Error(`Unknown FILE_STORAGE_DRIVER "${driver}"`);
+  }
+}
+
+export const fileStorage: FileStorage = createFileStorage();
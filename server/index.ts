@@ -1,5 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { startReviewScheduler } from "./document-reviews";
+import { startPolicyAssignmentScheduler } from "./policy-assignments";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -66,5 +68,7 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startReviewScheduler();
+    startPolicyAssignmentScheduler();
   });
 })();
@@ -0,0 +1,85 @@
+import { asc, desc, gte, inArray, lte, sql, type AnyColumn, type SQL } from "drizzle-orm";
+import type { Page, SortField } from "@shared/schema";
+
+// Helpers shared by the list* storage methods. MemStorage and DatabaseStorage must
+// agree on ordering: NULLs sort last ascending and first descending (PostgreSQL's
+// default), and ties are broken by id so pages never overlap.
+
+interface PageQuery<F extends string> {
+  page: number;
+  pageSize: number;
+  sort: SortField<F>[];
+}
+
+type SortValue = string | number | Date | null | undefined;
+
+export function pageOffset(query: { page: number; pageSize: number }): number {
+  return (query.page - 1) * query.pageSize;
+}
+
+// In-memory filters; an absent filter matches everything
+export function inList<T>(value: T, allowed?: T[]): boolean {
+  return !allowed || allowed.includes(value);
+}
+
+export function inDateRange(value: Date | null, from?: Date, to?: Date): boolean {
+  if (!from && !to) return true;
+  if (!value) return false;
+  return (!from || value >= from) && (!to || value <= to);
+}
+
+function compareValues(a: SortValue, b: SortValue): number {
+  if (a == null || b == null) {
+    return a == null ? (b == null ? 0 : 1) : -1;
+  }
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+export function paginateInMemory<T extends { id: number }, F extends string>(
+  items: T[],
+  query: PageQuery<F>,
+  sortValue: (item: T, field: F) => SortValue
+): Page<T> {
+  const sorted = [...items].sort((a, b) => {
+    for (const { field, direction } of query.sort) {
+      const result = compareValues(sortValue(a, field), sortValue(b, field));
+      if (result !== 0) return direction === "asc" ? result : -result;
+    }
+    return a.id - b.id;
+  });
+
+  const offset = pageOffset(query);
+  return {
+    items: sorted.slice(offset, offset + query.pageSize),
+    total: items.length,
+    page: query.page,
+    pageSize: query.pageSize,
+  };
+}
+
+// SQL counterparts, meant to be spread into and(...)
+export function inListCondition(column: AnyColumn, values?: unknown[]): SQL | undefined {
+  return values ? inArray(column, values) : undefined;
+}
+
+export function dateRangeConditions(column: AnyColumn, from?: Date, to?: Date): (SQL | undefined)[] {
+  return [from ? gte(column, from) : undefined, to ? lte(column, to) : undefined];
+}
+
+export function orderByFields<F extends string>(
+  sort: SortField<F>[],
+  columns: Record<F, AnyColumn | SQL>,
+  idColumn: AnyColumn
+): SQL[] {
+  return [
+    ...sort.map(({ field, direction }) => (direction === "asc" ? asc(columns[field]) : desc(columns[field]))),
+    asc(idColumn),
+  ];
+}
+
+// Orders an enum column by declaration order ("low" < "medium" < ...) instead of alphabetically
+export function enumOrder(column: AnyColumn, values: readonly string[]): SQL {
+  return sql`array_position(array[${sql.join(values.map((value) => sql`${value}`), sql`, `)}]::text[], ${column})`;
+}
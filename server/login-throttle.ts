@@ -0,0 +1,95 @@
+import { type User } from "@shared/schema";
+import { storage } from "./storage";
+import { getSystemSettings } from "./settings";
+
+// Failures allowed before further attempts have to wait. The wait starts at one second and
+// doubles with every failure, up to MAX_BACKOFF_SECONDS.
+const FREE_ATTEMPTS = 2;
+const MAX_BACKOFF_SECONDS = 60;
+
+const usernameKey = (username: string) => `user:${username}`;
+const ipKey = (ip: string) => `ip:${ip}`;
+
+export function backoffSeconds(failures: number): number {
+  if (failures <= FREE_ATTEMPTS) return 0;
+  return Math.min(2 ** (failures - FREE_ATTEMPTS - 1), MAX_BACKOFF_SECONDS);
+}
+
+function secondsUntil(date: Date, now: Date): number {
+  return Math.ceil((date.getTime() - now.getTime()) / 1000);
+}
+
+/**
+ * How long a login for this username from this address has to wait, or null when it may go
+ * ahead. Checked before the password so a locked account cannot be probed at all.
+ */
+export async function loginRetryAfter(username: string, ip: string, now = new Date()): Promise<number | null> {
+  const [userAttempt, ipAttempt, user] = await Promise.all([
+    storage.getLoginAttempt(usernameKey(username)),
+    storage.getLoginAttempt(ipKey(ip)),
+    storage.getUserByUsername(username),
+  ]);
+
+  let retryAfter = 0;
+  for (const lockedUntil of [user?.lockedUntil, userAttempt?.lockedUntil, ipAttempt?.lockedUntil]) {
+    if (lockedUntil && lockedUntil > now) {
+      retryAfter = Math.max(retryAfter, secondsUntil(lockedUntil, now));
+    }
+  }
+  for (const attempt of [userAttempt, ipAttempt]) {
+    if (attempt) {
+      const waitUntil = new Date(attempt.lastFailureAt.getTime() + backoffSeconds(attempt.failures) * 1000);
+      if (waitUntil > now) {
+        retryAfter = Math.max(retryAfter, secondsUntil(waitUntil, now));
+      }
+    }
+  }
+
+  return retryAfter > 0 ? retryAfter : null;
+}
+
+// Counts a wrong password or second-factor code, locking the account or the address once it
+// reaches the configured limit. Unknown usernames are counted too so they look the same.
+export async function recordLoginFailure(username: string, ip: string, now = new Date()): Promise<void> {
+  const settings = await getSystemSettings();
+  const lockoutMs = settings.lockoutMinutes * 60 * 1000;
+  const resetBefore = new Date(now.getTime() - lockoutMs);
+  const lockedUntil = new Date(now.getTime() + lockoutMs);
+
+  const [userAttempt, ipAttempt] = await Promise.all([
+    storage.recordFailedLogin(usernameKey(username), now, resetBefore),
+    storage.recordFailedLogin(ipKey(ip), now, resetBefore),
+  ]);
+
+  if (ipAttempt.failures >= settings.maxFailedLoginsPerIp && !ipAttempt.lockedUntil) {
+    await storage.lockLoginAttempt(ipAttempt.key, lockedUntil);
+  }
+
+  if (userAttempt.failures >= settings.maxFailedLogins && !userAttempt.lockedUntil) {
+    await storage.lockLoginAttempt(userAttempt.key, lockedUntil);
+
+    const user = await storage.getUserByUsername(username);
+    if (user) {
+      await storage.updateUser(user.id, { lockedUntil });
+      // The activity feed is shared, so the lockout leaves the client's address out
+      await storage.createActivity({
+        userId: user.id,
+        action: "lockout",
+        entityType: "user",
+        entityId: user.id,
+        details: { username: user.username, name: user.name, failures: userAttempt.failures, lockedUntil },
+      });
+    }
+  }
+}
+
+// Forgets the failures of an account once it signs in, returning the user without its expired lock
+export async function recordLoginSuccess(user: User): Promise<User> {
+  await storage.clearLoginAttempt(usernameKey(user.username));
+  return user.lockedUntil ? storage.updateUser(user.id, { lockedUntil: null }) : user;
+}
+
+export async function unlockAccount(user: User): Promise<User> {
+  await storage.clearLoginAttempt(usernameKey(user.username));
+  return storage.updateUser(user.id, { lockedUntil: null });
+}
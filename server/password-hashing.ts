@@ -0,0 +1,111 @@
+import argon2 from "argon2";
+import bcrypt from "bcryptjs";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt);
+
+// One entry per supported hash format. Stored hashes are recognized by their shape, so
+// accounts created under an older algorithm keep working after the configuration changes.
+interface PasswordHasher {
+  algorithm: PasswordHashAlgorithm;
+  recognizes(hash: string): boolean;
+  hash(password: string): Promise<string>;
+  verify(password: string, hash: string): Promise<boolean>;
+  // True when the hash was produced with parameters other than the configured ones
+  needsRehash(hash: string): boolean;
+}
+
+export const PASSWORD_HASH_ALGORITHMS = ["argon2id", "bcrypt", "scrypt"] as const;
+export type PasswordHashAlgorithm = typeof PASSWORD_HASH_ALGORITHMS[number];
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+function configuredAlgorithm(): PasswordHashAlgorithm {
+  const algorithm = process.env.PASSWORD_HASH_ALGORITHM as PasswordHashAlgorithm | undefined;
+  return algorithm && PASSWORD_HASH_ALGORITHMS.includes(algorithm) ? algorithm : "argon2id";
+}
+
+const argon2Options = {
+  memoryCost: envNumber("ARGON2_MEMORY_COST", 65536), // KiB
+  timeCost: envNumber("ARGON2_TIME_COST", 3),
+  parallelism: envNumber("ARGON2_PARALLELISM", 4),
+};
+
+const bcryptRounds = envNumber("BCRYPT_ROUNDS", 12);
+
+const SCRYPT_KEY_LENGTH = 64;
+
+const argon2Hasher: PasswordHasher = {
+  algorithm: "argon2id",
+  recognizes: (hash) => /^\$argon2(id|i|d)\$/.test(hash),
+  hash: (password) => argon2.hash(password, { ...argon2Options, type: argon2.argon2id }),
+  verify: (password, hash) => argon2.verify(hash, password),
+  needsRehash: (hash) => !hash.startsWith("$argon2id$") || argon2.needsRehash(hash, argon2Options),
+};
+
+const bcryptHasher: PasswordHasher = {
+  algorithm: "bcrypt",
+  recognizes: (hash) => /^\$2[aby]\$\d{2}\$/.test(hash),
+  hash: (password) => bcrypt.hash(password, bcryptRounds),
+  verify: (password, hash) => bcrypt.compare(password, hash),
+  needsRehash: (hash) => bcrypt.getRounds(hash) !== bcryptRounds,
+};
+
+// The original "<hex hash>.<hex salt>" format, with Node's default scrypt cost
+const scryptHasher: PasswordHasher = {
+  algorithm: "scrypt",
+  recognizes: (hash) => /^[0-9a-f]+\.[0-9a-f]+$/.test(hash),
+  hash: async (password) => {
+    const salt = randomBytes(16).toString("hex");
+    const buf = (await scryptAsync(password, salt, SCRYPT_KEY_LENGTH)) as Buffer;
+    return `${buf.toString("hex")}.${salt}`;
+  },
+  verify: async (password, hash) => {
+    const [hashed, salt] = hash.split(".");
+    const hashedBuf = Buffer.from(hashed, "hex");
+    const suppliedBuf = (await scryptAsync(password, salt, hashedBuf.length)) as Buffer;
+    return timingSafeEqual(hashedBuf, suppliedBuf);
+  },
+  needsRehash: () => false,
+};
+
+const hashers: PasswordHasher[] = [argon2Hasher, bcryptHasher, scryptHasher];
+
+function hasherFor(algorithm: PasswordHashAlgorithm): PasswordHasher {
+  return hashers.find((hasher) => hasher.algorithm === algorithm)!;
+}
+
+export async function hashPassword(password: string, algorithm = configuredAlgorithm()): Promise<string> {
+  return hasherFor(algorithm).hash(password);
+}
+
+export interface PasswordVerification {
+  valid: boolean;
+  // The password matched but the stored hash should be replaced with hashPassword(password)
+  needsRehash: boolean;
+}
+
+export async function verifyPassword(password: string, storedHash: string): Promise<PasswordVerification> {
+  const hasher = hashers.find((candidate) => candidate.recognizes(storedHash));
+  if (!hasher) {
+    return { valid: false, needsRehash: false };
+  }
+
+  let valid: boolean;
+  try {
+    valid = await hasher.verify(password, storedHash);
+  } catch {
+    // Malformed hash of a recognized format
+    return { valid: false, needsRehash: false };
+  }
+
+  const current = configuredAlgorithm();
+  return {
+    valid,
+    needsRehash: valid && (hasher.algorithm !== current || hasher.needsRehash(storedHash)),
+  };
+}
@@ -0,0 +1,31 @@
+import { type SystemSettings, type User } from "@shared/schema";
+import { hashPassword, verifyPassword } from "./password-hashing";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isPasswordExpired(user: User, settings: SystemSettings, now = new Date()): boolean {
+  if (settings.passwordExpirationDays === 0) return false;
+  return now.getTime() - user.passwordChangedAt.getTime() > settings.passwordExpirationDays * DAY_MS;
+}
+
+// Whether the password matches the current one or one of the most recent earlier ones
+export async function isPasswordReused(user: User, password: string, settings: SystemSettings): Promise<boolean> {
+  if (settings.passwordHistoryCount === 0) return false;
+
+  const recent = [user.password, ...user.passwordHistory].slice(0, settings.passwordHistoryCount);
+  for (const hash of recent) {
+    if ((await verifyPassword(password, hash)).valid) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Fields to store when the user's password is replaced, moving the current hash into the history
+export async function passwordUpdate(user: User, password: string, settings: SystemSettings): Promise<Partial<User>> {
+  return {
+    password: await hashPassword(password),
+    passwordChangedAt: new Date(),
+    passwordHistory: [user.password, ...user.passwordHistory].slice(0, Math.max(settings.passwordHistoryCount - 1, 0)),
+  };
+}
@@ -0,0 +1,47 @@
+import {
+  DEFAULT_ROLE_PERMISSIONS,
+  PERMISSIONS,
+  type Permission,
+  type RolePermissions,
+  type User,
+  type UserRole
+} from "@shared/schema";
+import { storage } from "./storage";
+
+// Checked on most requests, so cached like the system settings. Updates through this module
+// take effect at once.
+const CACHE_TTL_MS = 30 * 1000;
+
+let cached: { rolePermissions: RolePermissions; expiresAt: number } | null = null;
+
+export async function getRolePermissions(): Promise<RolePermissions> {
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.rolePermissions;
+  }
+
+  const stored = await storage.getRolePermissions();
+  const rolePermissions = { ...DEFAULT_ROLE_PERMISSIONS, ...stored, admin: [...PERMISSIONS] };
+  cached = { rolePermissions, expiresAt: Date.now() + CACHE_TTL_MS };
+  return rolePermissions;
+}
+
+export async function updateRolePermissions(
+  role: Exclude<UserRole, "admin">,
+  permissions: Permission[],
+  userId: number,
+): Promise<RolePermissions> {
+  // Stored in catalogue order, without duplicates
+  const granted = PERMISSIONS.filter((permission) => permissions.includes(permission));
+  await storage.updateRolePermissions(role, granted, userId);
+  cached = null;
+  return getRolePermissions();
+}
+
+export async function getUserPermissions(user: User): Promise<Permission[]> {
+  return (await getRolePermissions())[user.role];
+}
+
+// Anonymous requests hold no permissions
+export async function hasPermission(user: User | undefined, permission: Permission): Promise<boolean> {
+  return !!user && (await getUserPermissions(user)).includes(permission);
+}
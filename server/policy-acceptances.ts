@@ -0,0 +1,93 @@
+import type { Document, PolicyAcceptance } from "@shared/schema";
+import { storage } from "./storage";
+import { parseVersion } from "./versioning";
+import { completeReadingTasks, resetOpened, setReadingTask } from "./policy-assignments";
+
+// Users accept a policy's published version. Minor versions keep the acceptances of their major
+// version; publishing a new major version invalidates them and starts a re-acceptance campaign,
+// in which every affected user gets a task to read and accept the new version. For users the
+// policy is assigned to, that task is also their reading task.
+
+const REACCEPTANCE_DUE_DAYS = 30;
+
+// Documents published before versioning only have their working version
+export function acceptanceVersion(document: Document): string {
+  return document.publishedVersion ?? document.version;
+}
+
+function isMajorRevision(previousVersion: string | null, version: string): boolean {
+  return !!previousVersion && parseVersion(version).major > parseVersion(previousVersion).major;
+}
+
+// Records the user's acceptance of the version in effect, or returns the one still valid,
+// and closes the user's reading task and the re-acceptance tasks of the versions it replaces
+export async function acceptPolicy(document: Document, userId: number): Promise<PolicyAcceptance> {
+  const acceptances = (await storage.getPolicyAcceptancesByDocument(document.id)).filter(
+    (acceptance) => acceptance.userId === userId
+  );
+  const current = acceptances.find((acceptance) => !acceptance.invalidatedAt);
+
+  if (current) {
+    return current;
+  }
+
+  const acceptance = await storage.createPolicyAcceptance({
+    userId,
+    documentId: document.id,
+    version: acceptanceVersion(document),
+  });
+
+  for (const previous of acceptances) {
+    if (!previous.reacceptanceTaskId) continue;
+    const task = await storage.getTask(previous.reacceptanceTaskId);
+    if (task && task.status !== "completed" && task.status !== "canceled") {
+      await storage.updateTask(task.id, { status: "completed", completedAt: new Date() });
+    }
+  }
+  await completeReadingTasks(document.id, userId);
+  return acceptance;
+}
+
+// Called after a version is published. When it starts a new major version, the acceptances
+// of the earlier one stop counting and their users are asked to accept again. Returns the
+// invalidated acceptances (none for minor versions).
+export async function startReacceptanceCampaign(
+  document: Document,
+  previousVersion: string | null,
+  startedBy: number
+): Promise<PolicyAcceptance[]> {
+  const version = acceptanceVersion(document);
+
+  if (!isMajorRevision(previousVersion, version)) {
+    return [];
+  }
+
+  const now = new Date();
+  const dueDate = new Date(now.getTime() + REACCEPTANCE_DUE_DAYS * 24 * 60 * 60 * 1000);
+  const validAcceptances = (await storage.getPolicyAcceptancesByDocument(document.id)).filter(
+    (acceptance) => !acceptance.invalidatedAt
+  );
+
+  await resetOpened(document.id);
+
+  const invalidated: PolicyAcceptance[] = [];
+  for (const acceptance of validAcceptances) {
+    const task = await storage.createTask({
+      title: `Aceptar nueva versión: ${document.code ?? document.title} v${version}`,
+      description: `La política pasó de la versión ${acceptance.version} a la ${version}. Léala y vuelva a aceptarla desde la página de políticas.`,
+      assignedTo: acceptance.userId,
+      assignedBy: startedBy,
+      documentId: document.id,
+      priority: "medium",
+      status: "pending",
+      dueDate,
+    });
+    await setReadingTask(document.id, acceptance.userId, task);
+    invalidated.push(await storage.updatePolicyAcceptance(acceptance.id, {
+      invalidatedAt: now,
+      supersededByVersion: version,
+      reacceptanceTaskId: task.id,
+    }));
+  }
+  return invalidated;
+}
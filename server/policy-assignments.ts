@@ -0,0 +1,263 @@
+import { users, policyAcceptanceStatus } from "@shared/schema";
+import type {
+  Document,
+  PolicyAcceptance,
+  PolicyAdoption,
+  PolicyAssignee,
+  PolicyAssigneeProgress,
+  PolicyAssigneeStatus,
+  PolicyAssignment,
+  Task,
+  User
+} from "@shared/schema";
+import { getSystemSettings } from "./settings";
+import { storage } from "./storage";
+import { documentViewer } from "./document-access";
+
+// Mandatory reading. A policy assigned to departments, roles or individual users gets one
+// assignee per matching active user, each with a reading task due on the assignment's deadline.
+// Users who join an assigned department or role later are added by the scheduler, which also
+// reminds pending assignees every `policyReminderDays` days from that many days before the deadline.
+
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isOpenTask(task: Task | undefined): task is Task {
+  return !!task && task.status !== "completed" && task.status !== "canceled";
+}
+
+// Whether the user may open the policy. Nobody is assigned a policy they cannot read.
+export async function canReadPolicy(user: User, document: Document): Promise<boolean> {
+  return !!(await storage.getDocument(document.id, await documentViewer(user)));
+}
+
+// Active users the assignment reaches through any of its departments, roles or users, among
+// those who can read the policy
+export async function resolveAssignees(assignment: PolicyAssignment, document: Document): Promise<User[]> {
+  const activeUsers = await storage.getUsersByRole([...users.role.enumValues]);
+  const reached = activeUsers.filter((user) =>
+    assignment.userIds.includes(user.id) ||
+    assignment.roles.includes(user.role) ||
+    assignment.departments.includes(user.department)
+  );
+
+  const readers: User[] = [];
+  for (const user of reached) {
+    if (await canReadPolicy(user, document)) readers.push(user);
+  }
+  return readers;
+}
+
+function acceptedBy(acceptances: PolicyAcceptance[], userId: number, documentId: number): boolean {
+  return policyAcceptanceStatus(acceptances.filter((acceptance) => acceptance.userId === userId), documentId) === "accepted";
+}
+
+export function assigneeStatus(
+  assignee: PolicyAssignee,
+  documentId: number,
+  acceptances: PolicyAcceptance[]
+): PolicyAssigneeStatus {
+  if (acceptedBy(acceptances, assignee.userId, documentId)) return "accepted";
+  return assignee.openedAt ? "opened" : "not_opened";
+}
+
+function createReadingTask(
+  assignment: PolicyAssignment,
+  document: Document,
+  userId: number,
+  priority: Task["priority"] = "medium"
+): Promise<Task> {
+  return storage.createTask({
+    title: `Lectura obligatoria: ${document.code ?? document.title}`,
+    description: "Lea la política y acéptela desde la página de políticas antes de la fecha límite.",
+    assignedTo: userId,
+    assignedBy: assignment.assignedBy,
+    documentId: document.id,
+    priority,
+    status: "pending",
+    dueDate: assignment.dueDate,
+  });
+}
+
+// The user's open task to accept a new major version of the policy, if they were asked to
+async function openReacceptanceTask(acceptances: PolicyAcceptance[], userId: number): Promise<Task | undefined> {
+  for (const acceptance of acceptances) {
+    if (acceptance.userId !== userId || !acceptance.reacceptanceTaskId) continue;
+    const task = await storage.getTask(acceptance.reacceptanceTaskId);
+    if (isOpenTask(task)) return task;
+  }
+  return undefined;
+}
+
+// Adds the matching users that are not assignees yet. Those who already accepted the policy
+// are tracked without a reading task, and those asked to accept a new version keep that task
+// as their reading task.
+export async function syncAssignees(assignment: PolicyAssignment, document: Document): Promise<PolicyAssignee[]> {
+  const assigned = new Set((await storage.getPolicyAssignees(assignment.id)).map((assignee) => assignee.userId));
+  const acceptances = await storage.getPolicyAcceptancesByDocument(document.id);
+
+  const added: PolicyAssignee[] = [];
+  for (const user of await resolveAssignees(assignment, document)) {
+    if (assigned.has(user.id)) continue;
+    const task = acceptedBy(acceptances, user.id, document.id)
+      ? undefined
+      : (await openReacceptanceTask(acceptances, user.id)) ?? await createReadingTask(assignment, document, user.id);
+    added.push(await storage.createPolicyAssignee({ assignmentId: assignment.id, userId: user.id, taskId: task?.id ?? null }));
+  }
+  return added;
+}
+
+export async function assignmentProgress(assignment: PolicyAssignment, now = new Date()): Promise<PolicyAssigneeProgress[]> {
+  const acceptances = await storage.getPolicyAcceptancesByDocument(assignment.documentId);
+  const assignees = await storage.getPolicyAssignees(assignment.id);
+
+  return assignees.map((assignee) => {
+    const status = assigneeStatus(assignee, assignment.documentId, acceptances);
+    return { ...assignee, status, overdue: status !== "accepted" && assignment.dueDate < now };
+  });
+}
+
+// Adoption of every assigned policy. A user assigned the same policy more than once counts
+// once, and is overdue if any of those deadlines has passed.
+export async function policyAdoption(now = new Date()): Promise<PolicyAdoption[]> {
+  const byDocument = new Map<number, Map<number, PolicyAssigneeProgress>>();
+
+  for (const assignment of await storage.getAllPolicyAssignments()) {
+    const assignees = byDocument.get(assignment.documentId) ?? new Map<number, PolicyAssigneeProgress>();
+    for (const assignee of await assignmentProgress(assignment, now)) {
+      const previous = assignees.get(assignee.userId);
+      assignees.set(assignee.userId, previous ? { ...assignee, overdue: previous.overdue || assignee.overdue } : assignee);
+    }
+    byDocument.set(assignment.documentId, assignees);
+  }
+
+  return Array.from(byDocument.entries()).map(([documentId, assignees]) => {
+    const progress = Array.from(assignees.values());
+    return {
+      documentId,
+      assigned: progress.length,
+      opened: progress.filter((assignee) => assignee.status !== "not_opened").length,
+      accepted: progress.filter((assignee) => assignee.status === "accepted").length,
+      overdue: progress.filter((assignee) => assignee.overdue).length,
+    };
+  });
+}
+
+// Reminds the assignees that have not accepted the policy: their reading task is raised to high
+// priority (urgent once overdue), or created again if they closed it. With `remindedBefore`, only
+// assignees not reminded since then are. Returns how many were reminded.
+export async function remindAssignees(
+  assignment: PolicyAssignment,
+  options: { now?: Date; remindedBefore?: Date } = {}
+): Promise<number> {
+  const now = options.now ?? new Date();
+  const document = await storage.getDocument(assignment.documentId);
+  if (!document) return 0;
+
+  const acceptances = await storage.getPolicyAcceptancesByDocument(document.id);
+  const priority = assignment.dueDate < now ? "urgent" : "high";
+
+  let reminded = 0;
+  for (const assignee of await storage.getPolicyAssignees(assignment.id)) {
+    if (assigneeStatus(assignee, document.id, acceptances) === "accepted") continue;
+    if (options.remindedBefore && assignee.lastReminderAt && assignee.lastReminderAt > options.remindedBefore) continue;
+
+    const task = assignee.taskId ? await storage.getTask(assignee.taskId) : undefined;
+    const reminderTask = isOpenTask(task)
+      ? await storage.updateTask(task.id, { priority })
+      : await createReadingTask(assignment, document, assignee.userId, priority);
+
+    await storage.updatePolicyAssignee(assignee.id, {
+      taskId: reminderTask.id,
+      lastReminderAt: now,
+      reminderCount: assignee.reminderCount + 1,
+    });
+    reminded++;
+  }
+  return reminded;
+}
+
+// Cancels the open reading tasks of an assignment about to be deleted
+export async function cancelReadingTasks(assignment: PolicyAssignment): Promise<void> {
+  for (const assignee of await storage.getPolicyAssignees(assignment.id)) {
+    const task = assignee.taskId ? await storage.getTask(assignee.taskId) : undefined;
+    if (isOpenTask(task)) {
+      await storage.updateTask(task.id, { status: "canceled" });
+    }
+  }
+}
+
+async function assigneesOf(documentId: number, userId: number): Promise<PolicyAssignee[]> {
+  const documentAssignments = new Set(
+    (await storage.getPolicyAssignmentsByDocument(documentId)).map((assignment) => assignment.id)
+  );
+  return (await storage.getPolicyAssigneesByUser(userId)).filter((assignee) => documentAssignments.has(assignee.assignmentId));
+}
+
+// Records that the user opened the policy, for the assignments that had not seen it yet
+export async function markPolicyOpened(documentId: number, userId: number): Promise<void> {
+  for (const assignee of await assigneesOf(documentId, userId)) {
+    if (!assignee.openedAt) {
+      await storage.updatePolicyAssignee(assignee.id, { openedAt: new Date() });
+    }
+  }
+}
+
+// Makes the task the reading task of the user's assignments of the policy, so reminders raise
+// it instead of opening another one
+export async function setReadingTask(documentId: number, userId: number, task: Task): Promise<void> {
+  for (const assignee of await assigneesOf(documentId, userId)) {
+    await storage.updatePolicyAssignee(assignee.id, { taskId: task.id });
+  }
+}
+
+// Accepting the policy completes the user's reading tasks
+export async function completeReadingTasks(documentId: number, userId: number): Promise<void> {
+  for (const assignee of await assigneesOf(documentId, userId)) {
+    const task = assignee.taskId ? await storage.getTask(assignee.taskId) : undefined;
+    if (isOpenTask(task)) {
+      await storage.updateTask(task.id, { status: "completed", completedAt: new Date() });
+    }
+  }
+}
+
+// A new major version has to be read again, so its assignees count as not opened
+export async function resetOpened(documentId: number): Promise<void> {
+  for (const assignment of await storage.getPolicyAssignmentsByDocument(documentId)) {
+    for (const assignee of await storage.getPolicyAssignees(assignment.id)) {
+      if (assignee.openedAt) {
+        await storage.updatePolicyAssignee(assignee.id, { openedAt: null });
+      }
+    }
+  }
+}
+
+// Adds new members of assigned departments and roles, and reminds pending assignees once
+// the deadline is within the reminder window. Policies no longer published are left alone.
+export async function processPolicyAssignments(now = new Date()): Promise<number> {
+  const { policyReminderDays } = await getSystemSettings();
+  const window = policyReminderDays * DAY_MS;
+
+  let reminded = 0;
+  for (const assignment of await storage.getAllPolicyAssignments()) {
+    const document = await storage.getDocument(assignment.documentId);
+    if (!document || document.status !== "published") continue;
+
+    await syncAssignees(assignment, document);
+    if (assignment.dueDate.getTime() - now.getTime() <= window) {
+      reminded += await remindAssignees(assignment, { now, remindedBefore: new Date(now.getTime() - window) });
+    }
+  }
+  return reminded;
+}
+
+// Processes the assignments when the server starts and every hour after that
+export function startPolicyAssignmentScheduler() {
+  const run = () => {
+    processPolicyAssignments().catch((error) => {
+      console.error("Failed to process policy assignments", error);
+    });
+  };
+  run();
+  setInterval(run, SCHEDULER_INTERVAL_MS).unref();
+}
@@ -0,0 +1,25 @@
+import { createHash, randomBytes } from "crypto";
+import { REGISTRATION_MODES, type Invitation, type RegistrationMode } from "@shared/schema";
+
+// REGISTRATION_MODE=disabled|invite|open; anything else falls back to invitation-only
+export function getRegistrationMode(): RegistrationMode {
+  const mode = process.env.REGISTRATION_MODE as RegistrationMode | undefined;
+  return mode && REGISTRATION_MODES.includes(mode) ? mode : "invite";
+}
+
+export function hashInvitationToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function generateInvitationToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashInvitationToken(token) };
+}
+
+// Why an invitation can no longer be used, or null while it is still valid
+export function invitationProblem(invitation: Invitation, now = new Date()): string | null {
+  if (invitation.revokedAt) return "Invitation has been revoked";
+  if (invitation.acceptedAt) return "Invitation has already been used";
+  if (invitation.expiresAt <= now) return "Invitation has expired";
+  return null;
+}
@@ -1,18 +1,87 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { setupAuth } from "./auth";
+import { setupAuth, sanitizeUser } from "./auth";
+import { hashPassword } from "./password-hashing";
+import { 
+  startApprovalRound, 
+  isApprovalActive, 
+  applyApprovalDecision, 
+  validateReviewers, 
+  NoReviewersError,
+  NoApproversError
+} from "./approval-workflow";
+import { diffLines, summarizeDiff } from "./diff";
+import { INITIAL_VERSION, nextDraftVersion, hasSnapshotChanges, snapshotVersion, createDraftRevision, publishedSnapshot } from "./versioning";
+import { uploadAttachments, validateAttachmentContent, storeAttachment, sendAttachment, toAttachmentResponse } from "./attachments";
+import { generateInvitationToken } from "./registration";
+import { getSystemSettings, updateSystemSettings } from "./settings";
+import { unlockAccount } from "./login-throttle";
+import { revokeUserApiTokens } from "./api-tokens";
+import { passwordUpdate } from "./password-policy";
+import { listUserSessions } from "./sessions";
+import { getRolePermissions, hasPermission, updateRolePermissions } from "./permissions";
+import { activityViewer, canEditDocument, documentViewer } from "./document-access";
+import { validateDepartments, parentProblem } from "./departments";
+import { validateDocumentCategory } from "./document-categories";
+import { assignCodeOnCreation } from "./document-codes";
+import { completeReview, nextReviewDate } from "./document-reviews";
+import {
+  availableActions,
+  canTransition,
+  isEditable,
+  isRetired,
+  transitionDocument,
+  InvalidTransitionError
+} from "./document-lifecycle";
+import { acceptPolicy, startReacceptanceCampaign } from "./policy-acceptances";
+import {
+  assignmentProgress,
+  canReadPolicy,
+  cancelReadingTasks,
+  markPolicyOpened,
+  policyAdoption,
+  remindAssignees,
+  syncAssignees
+} from "./policy-assignments";
 import { z } from "zod";
 import { 
   insertDocumentSchema, 
   insertApprovalSchema,
   insertTaskSchema,
   insertPolicyAcceptanceSchema,
+  insertPolicyAssignmentSchema,
   insertActivitySchema,
-  insertDocumentVersionSchema
+  insertDocumentVersionSchema,
+  insertApprovalWorkflowSchema,
+  searchQuerySchema,
+  documentListQuerySchema,
+  taskListQuerySchema,
+  approvalListQuerySchema,
+  userListQuerySchema,
+  activityListQuerySchema,
+  adminCreateUserSchema,
+  adminUpdateUserSchema,
+  resetPasswordSchema,
+  createInvitationSchema,
+  updateSystemSettingsSchema,
+  updateRolePermissionsSchema,
+  insertDepartmentSchema,
+  updateDepartmentSchema,
+  insertDocumentCategorySchema,
+  updateDocumentCategorySchema,
+  approverRoles,
+  users,
+  DOCUMENT_TRANSITION_ACTIONS,
+  type ApprovalStage,
+  type Permission,
+  type PolicyAssignment,
+  type PolicyAssignmentWithProgress,
+  type UserPolicyAssignment,
+  type User
 } from "@shared/schema";
 
-// Middleware to check if user is authenticated
+// Middleware to check if user is authenticated, with a session or a personal API token
 const isAuthenticated = (req: Request, res: Response, next: NextFunction) => {
   if (req.isAuthenticated()) {
     return next();
@@ -20,21 +89,93 @@ const isAuthenticated = (req: Request, res: Response, next: NextFunction) => {
   res.status(401).json({ message: "Unauthorized" });
 };
 
-// Middleware to check user role
-const checkRole = (roles: string[]) => {
-  return (req: Request, res: Response, next: NextFunction) => {
+// Middleware to check that the user's role grants a permission
+const requirePermission = (permission: Permission) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
     
-    if (!roles.includes(req.user.role)) {
-      return res.status(403).json({ message: "Forbidden" });
+    try {
+      if (!(await hasPermission(req.user, permission))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+    } catch (error) {
+      return next(error);
     }
     
     next();
   };
 };
 
+// Departments a workflow refers to, leaving out the "document" placeholder of its stages
+function workflowDepartments(workflow: { department?: string | null; stages: ApprovalStage[] }): string[] {
+  return [workflow.department, ...workflow.stages.map((stage) => stage.department)]
+    .filter((department): department is string => !!department && department !== "document");
+}
+
+// Why a category cannot take this prefix or default workflow, or null when it can
+async function documentCategoryProblem(
+  data: { prefix?: string; approvalWorkflowId?: number | null },
+  categoryId?: number
+): Promise<string | null> {
+  if (data.prefix) {
+    const categories = await storage.getAllDocumentCategories();
+    if (categories.some((category) => category.prefix === data.prefix && category.id !== categoryId)) {
+      return "Document category prefix already exists";
+    }
+  }
+  if (data.approvalWorkflowId && !(await storage.getApprovalWorkflow(data.approvalWorkflowId))) {
+    return "Approval workflow not found";
+  }
+  return null;
+}
+
+const documentTransitionSchema = z.object({
+  action: z.enum(DOCUMENT_TRANSITION_ACTIONS),
+  reason: z.string().trim().max(1000).optional(),
+  supersededBy: z.number().int().positive().optional(),
+});
+
+// Options of a document update that are not stored on the document itself
+const documentUpdateOptionsSchema = z.object({
+  majorRevision: z.boolean().optional().default(false),
+});
+
+const attachmentListQuerySchema = z.object({
+  versionId: z.coerce.number().int().positive().optional(),
+});
+
+const versionDiffQuerySchema = z.object({
+  from: z.coerce.number().int().positive(),
+  to: z.coerce.number().int().positive(),
+});
+
+// Demoting or deactivating the only active administrator would leave nobody able to manage users
+async function isLastActiveAdmin(user: User): Promise<boolean> {
+  if (user.role !== "admin" || !user.active) {
+    return false;
+  }
+  
+  const admins = await storage.getUsersByRole(["admin"]);
+  return admins.length <= 1;
+}
+
+// user.manage can be granted to other roles, but only administrators may hand out the admin
+// role or manage an administrator's account
+function adminAccountProblem(actor: User | undefined, target?: User, role?: string): string | null {
+  if (actor?.role === "admin") {
+    return null;
+  }
+  if (target?.role === "admin") {
+    return "Only administrators can manage administrator accounts";
+  }
+  if (role === "admin") {
+    return "Only administrators can assign the admin role";
+  }
+  return null;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up authentication routes
   setupAuth(app);
@@ -42,16 +183,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Document routes
   app.get("/api/documents", isAuthenticated, async (req, res) => {
     try {
-      const documents = await storage.getAllDocuments();
-      res.json(documents);
+      const query = documentListQuerySchema.parse(req.query);
+      res.json(await storage.listDocuments(query, await documentViewer(req.user)));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to fetch documents" });
     }
   });
 
+  // Full-text search across documents, their versions and attachments
+  app.get("/api/search", isAuthenticated, async (req, res) => {
+    try {
+      const query = searchQuerySchema.parse(req.query);
+      res.json(await storage.searchDocuments(query, await documentViewer(req.user)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to search documents" });
+    }
+  });
+
   app.get("/api/documents/:id", isAuthenticated, async (req, res) => {
     try {
-      const document = await storage.getDocument(Number(req.params.id));
+      const document = await storage.getDocument(Number(req.params.id), await documentViewer(req.user));
       if (!document) {
         return res.status(404).json({ message: "Document not found" });
       }
@@ -61,22 +218,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/documents", isAuthenticated, async (req, res) => {
+  app.post("/api/documents", isAuthenticated, requirePermission("document.create"), async (req, res) => {
     try {
       const validatedData = insertDocumentSchema.parse({
         ...req.body,
         createdBy: req.user.id
       });
       
-      const document = await storage.createDocument(validatedData);
+      const reviewerError = await validateReviewers(validatedData.reviewerIds || [], req.user.id);
+      if (reviewerError) {
+        return res.status(400).json({ message: reviewerError });
+      }
+      
+      const departmentError = await validateDepartments([validatedData.department, ...(validatedData.visibleDepartments || [])]);
+      if (departmentError) {
+        return res.status(400).json({ message: departmentError });
+      }
+      
+      const categoryError = await validateDocumentCategory(validatedData.category, null, validatedData.metadata || {});
+      if (categoryError) {
+        return res.status(400).json({ message: categoryError });
+      }
+      
+      // Without an explicit review period the document follows its category's
+      if (validatedData.reviewPeriodMonths === undefined) {
+        const category = await storage.getDocumentCategoryByCode(validatedData.category);
+        validatedData.reviewPeriodMonths = category?.reviewPeriodMonths ?? null;
+      }
+      
+      // Versions are managed by the server; every document starts as a draft of 1.0
+      const document = await assignCodeOnCreation(
+        await storage.createDocument({ ...validatedData, version: INITIAL_VERSION })
+      );
       
       // Create initial version
-      await storage.createDocumentVersion({
-        documentId: document.id,
-        version: document.version,
-        content: document.content,
-        createdBy: req.user.id
-      });
+      await snapshotVersion(document, req.user.id);
       
       // Log activity
       await storage.createActivity({
@@ -99,38 +275,76 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/documents/:id", isAuthenticated, async (req, res) => {
     try {
       const documentId = Number(req.params.id);
-      const document = await storage.getDocument(documentId);
+      const document = await storage.getDocument(documentId, await documentViewer(req.user));
       
       if (!document) {
         return res.status(404).json({ message: "Document not found" });
       }
       
-      // Check if user is the creator or has appropriate role
-      if (document.createdBy !== req.user.id && !["admin", "manager", "coordinator"].includes(req.user.role)) {
+      // Check if user is the creator or may edit documents of this department
+      if (!(await canEditDocument(req.user, document))) {
         return res.status(403).json({ message: "Forbidden" });
       }
       
+      if (!isEditable(document)) {
+        return res.status(400).json({ message: `Documents in status ${document.status} cannot be edited` });
+      }
+      
       const validatedData = insertDocumentSchema.parse({
         ...req.body,
         createdBy: document.createdBy
       });
       
-      // Create new version if content changed
-      if (document.content !== validatedData.content) {
-        // Increment version
-        const versionParts = document.version.split(".");
-        const minorVersion = parseInt(versionParts[1]) + 1;
-        validatedData.version = `${versionParts[0]}.${minorVersion}`;
-        
-        await storage.createDocumentVersion({
-          documentId: document.id,
-          version: validatedData.version,
-          content: validatedData.content,
-          createdBy: req.user.id
-        });
+      const reviewerError = await validateReviewers(validatedData.reviewerIds || [], document.createdBy);
+      if (reviewerError) {
+        return res.status(400).json({ message: reviewerError });
+      }
+      
+      const departmentError = await validateDepartments(
+        [validatedData.department, ...(validatedData.visibleDepartments || [])],
+        [document.department, ...document.visibleDepartments]
+      );
+      if (departmentError) {
+        return res.status(400).json({ message: departmentError });
+      }
+      
+      // Metadata left out of the update is kept, and still has to satisfy the category
+      validatedData.metadata = validatedData.metadata ?? document.metadata;
+      const categoryError = await validateDocumentCategory(validatedData.category, document.category, validatedData.metadata);
+      if (categoryError) {
+        return res.status(400).json({ message: categoryError });
+      }
+      
+      const { majorRevision } = documentUpdateOptionsSchema.parse(req.body);
+      
+      // Create a new working revision if any snapshotted field changed
+      validatedData.version = document.version;
+      if (majorRevision || hasSnapshotChanges(document, validatedData)) {
+        validatedData.version = nextDraftVersion(document.version, majorRevision);
       }
       
-      const updatedDocument = await storage.updateDocument(documentId, validatedData);
+      // A new review period reschedules the next review from the last one
+      const reviewPeriodMonths = validatedData.reviewPeriodMonths === undefined
+        ? document.reviewPeriodMonths
+        : validatedData.reviewPeriodMonths;
+      const nextReviewAt = reviewPeriodMonths === document.reviewPeriodMonths
+        ? document.nextReviewAt
+        : nextReviewDate({ lastReviewedAt: document.lastReviewedAt, reviewPeriodMonths });
+      
+      let updatedDocument = await storage.updateDocument(documentId, {
+        ...validatedData,
+        reviewPeriodMonths,
+        nextReviewAt
+      });
+      
+      // Editing a rejected document puts it back to work
+      if (updatedDocument.status === "rejected") {
+        updatedDocument = await transitionDocument(updatedDocument, "rework", { userId: req.user.id });
+      }
+      
+      if (updatedDocument.version !== document.version) {
+        await snapshotVersion(updatedDocument, req.user.id);
+      }
       
       // Log activity
       await storage.createActivity({
@@ -150,302 +364,1804 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/documents/:id", isAuthenticated, checkRole(["admin", "manager"]), async (req, res) => {
+  // Document version routes
+  app.get("/api/documents/:id/versions", isAuthenticated, async (req, res) => {
     try {
-      const documentId = Number(req.params.id);
-      const document = await storage.getDocument(documentId);
-      
+      const viewer = await documentViewer(req.user);
+      const document = await storage.getDocument(Number(req.params.id), viewer);
       if (!document) {
         return res.status(404).json({ message: "Document not found" });
       }
       
-      await storage.deleteDocument(documentId);
+      // Readers only see the published versions
+      const workingAccess = await storage.hasWorkingAccess(document, viewer);
+      const versions = (await storage.getDocumentVersionsByDocument(document.id)).filter(
+        (version) => workingAccess || version.isPublished
+      );
       
-      // Log activity
-      await storage.createActivity({
-        userId: req.user.id,
-        action: "delete",
-        entityType: "document",
-        entityId: documentId,
-        details: { title: document.title }
-      });
+      // Attach the author name so the history can be shown without the users list
+      const authors = new Map<number, string>();
+      for (const version of versions) {
+        if (!authors.has(version.createdBy)) {
+          const author = await storage.getUser(version.createdBy);
+          authors.set(version.createdBy, author?.name ?? "");
+        }
+      }
       
-      res.status(204).send();
+      res.json(versions.map((version) => ({
+        ...version,
+        createdByName: authors.get(version.createdBy),
+        isCurrent: version.version === document.version
+      })));
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete document" });
+      res.status(500).json({ message: "Failed to fetch document versions" });
     }
   });
 
-  // Approval routes
-  app.get("/api/approvals", isAuthenticated, async (req, res) => {
+  app.get("/api/documents/:id/versions/diff", isAuthenticated, async (req, res) => {
     try {
-      // For managers and coordinators - show all approvals they can manage
-      if (["manager", "coordinator", "admin"].includes(req.user.role)) {
-        const approvals = await storage.getAllApprovals();
-        return res.json(approvals);
+      const { from, to } = versionDiffQuerySchema.parse(req.query);
+      const documentId = Number(req.params.id);
+      const viewer = await documentViewer(req.user);
+      const document = await storage.getDocument(documentId, viewer);
+      
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      const fromVersion = await storage.getDocumentVersion(from);
+      const toVersion = await storage.getDocumentVersion(to);
+      
+      if (!fromVersion || !toVersion || fromVersion.documentId !== documentId || toVersion.documentId !== documentId) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+      
+      // Readers can only compare published versions
+      if ((!fromVersion.isPublished || !toVersion.isPublished) && !(await storage.hasWorkingAccess(document, viewer))) {
+        return res.status(404).json({ message: "Version not found" });
       }
       
-      // For others - show only approvals for their documents
-      const approvals = await storage.getApprovalsByUser(req.user.id);
-      res.json(approvals);
+      const changes = diffLines(fromVersion.content, toVersion.content);
+      
+      res.json({
+        from: { id: fromVersion.id, version: fromVersion.version, createdAt: fromVersion.createdAt },
+        to: { id: toVersion.id, version: toVersion.version, createdAt: toVersion.createdAt },
+        stats: summarizeDiff(changes),
+        changes
+      });
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch approvals" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to compare document versions" });
     }
   });
 
-  app.post("/api/documents/:id/submit", isAuthenticated, async (req, res) => {
+  app.post("/api/documents/:id/versions/:versionId/restore", isAuthenticated, async (req, res) => {
     try {
       const documentId = Number(req.params.id);
-      const document = await storage.getDocument(documentId);
+      const document = await storage.getDocument(documentId, await documentViewer(req.user));
       
       if (!document) {
         return res.status(404).json({ message: "Document not found" });
       }
       
-      // Check if user is the creator
-      if (document.createdBy !== req.user.id && !["admin", "manager"].includes(req.user.role)) {
+      // Same permission as editing the document
+      if (!(await canEditDocument(req.user, document))) {
         return res.status(403).json({ message: "Forbidden" });
       }
       
-      // Update document status
-      await storage.updateDocument(documentId, { 
-        ...document,
-        status: "pending" 
-      });
+      if (!isEditable(document)) {
+        return res.status(400).json({ message: `Documents in status ${document.status} cannot be edited` });
+      }
+      
+      const source = await storage.getDocumentVersion(Number(req.params.versionId));
+      if (!source || source.documentId !== documentId) {
+        return res.status(404).json({ message: "Version not found" });
+      }
       
-      // Create approval request for managers/coordinators
-      const managers = await storage.getUsersByRole(["manager", "coordinator"]);
+      // Versions recorded before snapshots included metadata only carry the content
+      const restored = source.title
+        ? { title: source.title, description: source.description, tags: source.tags, content: source.content }
+        : { content: source.content };
       
-      for (const manager of managers) {
-        await storage.createApproval({
-          documentId,
-          userId: manager.id,
-          status: "pending"
-        });
+      if (!hasSnapshotChanges(document, restored)) {
+        return res.status(400).json({ message: "Version content is already current" });
       }
       
+      // Restoring never rewrites history: the old content becomes a new draft revision
+      let updatedDocument = await storage.updateDocument(documentId, {
+        ...restored,
+        version: nextDraftVersion(document.version)
+      });
+      if (updatedDocument.status === "rejected") {
+        updatedDocument = await transitionDocument(updatedDocument, "rework", { userId: req.user.id });
+      }
+      const version = await snapshotVersion(updatedDocument, req.user.id);
+      
       // Log activity
       await storage.createActivity({
         userId: req.user.id,
-        action: "submit",
+        action: "restore",
         entityType: "document",
         entityId: documentId,
-        details: { title: document.title }
+        details: { title: updatedDocument.title, version: version.version, restoredFrom: source.version }
       });
       
-      res.json({ message: "Document submitted for approval" });
+      res.status(201).json(updatedDocument);
     } catch (error) {
-      res.status(500).json({ message: "Failed to submit document for approval" });
+      res.status(500).json({ message: "Failed to restore document version" });
     }
   });
 
-  app.post("/api/approvals/:id", isAuthenticated, checkRole(["admin", "manager", "coordinator"]), async (req, res) => {
+  // Document attachment routes
+  app.get("/api/documents/:id/attachments", isAuthenticated, async (req, res) => {
     try {
-      const approvalId = Number(req.params.id);
-      const { status, comments } = req.body;
+      const { versionId } = attachmentListQuerySchema.parse(req.query);
+      const viewer = await documentViewer(req.user);
+      const document = await storage.getDocument(Number(req.params.id), viewer);
       
-      if (!["approved", "rejected"].includes(status)) {
-        return res.status(400).json({ message: "Invalid status" });
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
       }
       
-      const approval = await storage.getApproval(approvalId);
+      const workingAccess = await storage.hasWorkingAccess(document, viewer);
+      if (!versionId && workingAccess) {
+        const attachments = await storage.getDocumentAttachments(document.id);
+        return res.json(attachments.map(toAttachmentResponse));
+      }
       
-      if (!approval) {
-        return res.status(404).json({ message: "Approval not found" });
+      // Attachments as they were when the given version was recorded. Readers get those of the
+      // published version, and cannot look into working drafts.
+      const version = versionId ? await storage.getDocumentVersion(versionId) : await publishedSnapshot(document);
+      if (!versionId && !version) {
+        return res.json([]);
+      }
+      if (!version || version.documentId !== document.id || (!version.isPublished && !workingAccess)) {
+        return res.status(404).json({ message: "Version not found" });
       }
       
-      // Update approval
-      const updatedApproval = await storage.updateApproval(approvalId, {
-        ...approval,
-        status,
-        comments,
-        approvedAt: new Date()
-      });
+      const attachments = await storage.getDocumentAttachments(document.id, true);
+      res.json(attachments
+        .filter((attachment) => version.attachmentIds.includes(attachment.id))
+        .map(toAttachmentResponse));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch attachments" });
+    }
+  });
+
+  app.post("/api/documents/:id/attachments", isAuthenticated, uploadAttachments, async (req, res) => {
+    try {
+      const documentId = Number(req.params.id);
+      const document = await storage.getDocument(documentId, await documentViewer(req.user));
       
-      // Get document
-      const document = await storage.getDocument(approval.documentId);
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
       
-      // Update document status if all approvals are done
-      if (status === "approved") {
-        const allApprovals = await storage.getApprovalsByDocumentId(approval.documentId);
-        const allApproved = allApprovals.every(a => a.status === "approved" || a.id === approvalId);
-        
-        if (allApproved) {
-          await storage.updateDocument(approval.documentId, {
-            ...document,
-            status: "approved"
-          });
+      // Same permission as editing the document
+      if (!(await canEditDocument(req.user, document))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      if (!isEditable(document)) {
+        return res.status(400).json({ message: `Documents in status ${document.status} cannot be edited` });
+      }
+      
+      const files = (req.files as Express.Multer.File[] | undefined) || [];
+      if (files.length === 0) {
+        return res.status(400).json({ message: "No files uploaded" });
+      }
+      
+      for (const file of files) {
+        const contentError = validateAttachmentContent(file);
+        if (contentError) {
+          return res.status(400).json({ message: contentError });
         }
-      } else if (status === "rejected") {
-        // If rejected, update document status
-        await storage.updateDocument(approval.documentId, {
-          ...document,
-          status: "rejected"
-        });
       }
       
+      const attachments = [];
+      for (const file of files) {
+        attachments.push(await storeAttachment(documentId, file, req.user.id));
+      }
+      
+      const updatedDocument = await createDraftRevision(document, req.user.id);
+      
       // Log activity
       await storage.createActivity({
         userId: req.user.id,
-        action: status,
-        entityType: "approval",
-        entityId: approvalId,
-        details: { documentTitle: document.title, comments }
+        action: "attach",
+        entityType: "document",
+        entityId: documentId,
+        details: {
+          title: updatedDocument.title,
+          version: updatedDocument.version,
+          files: attachments.map((attachment) => attachment.fileName)
+        }
       });
       
-      res.json(updatedApproval);
+      res.status(201).json(attachments.map(toAttachmentResponse));
     } catch (error) {
-      res.status(500).json({ message: "Failed to process approval" });
+      res.status(500).json({ message: "Failed to upload attachments" });
     }
   });
 
-  // Task routes
-  app.get("/api/tasks", isAuthenticated, async (req, res) => {
+  app.get("/api/documents/:id/attachments/:attachmentId/download", isAuthenticated, async (req, res) => {
     try {
-      if (["admin", "manager", "coordinator"].includes(req.user.role)) {
-        // Managers and coordinators can see all tasks
-        const tasks = await storage.getAllTasks();
-        return res.json(tasks);
+      const viewer = await documentViewer(req.user);
+      const document = await storage.getDocument(Number(req.params.id), viewer);
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
       }
       
-      // Regular users only see their assigned tasks
-      const tasks = await storage.getTasksByAssignee(req.user.id);
-      res.json(tasks);
-    } catch (error) {
-      res.status(500).json({ message: "Failed to fetch tasks" });
-    }
-  });
-
-  app.post("/api/tasks", isAuthenticated, async (req, res) => {
-    try {
-      const validatedData = insertTaskSchema.parse({
-        ...req.body,
-        assignedBy: req.user.id
-      });
-      
-      const task = await storage.createTask(validatedData);
+      // Deleted attachments stay downloadable for the versions that include them
+      const attachment = await storage.getDocumentAttachment(Number(req.params.attachmentId));
+      if (!attachment || attachment.documentId !== document.id) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
       
-      // Log activity
-      await storage.createActivity({
-        userId: req.user.id,
-        action: "create",
-        entityType: "task",
-        entityId: task.id,
-        details: { title: task.title, assignedTo: task.assignedTo }
-      });
+      // Readers only download the files of published versions
+      if (!(await storage.hasWorkingAccess(document, viewer))) {
+        const versions = await storage.getDocumentVersionsByDocument(document.id);
+        if (!versions.some((version) => version.isPublished && version.attachmentIds.includes(attachment.id))) {
+          return res.status(404).json({ message: "Attachment not found" });
+        }
+      }
       
-      res.status(201).json(task);
+      await sendAttachment(res, attachment);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid data", errors: error.errors });
-      }
-      res.status(500).json({ message: "Failed to create task" });
+      res.status(500).json({ message: "Failed to download attachment" });
     }
   });
 
-  app.put("/api/tasks/:id/status", isAuthenticated, async (req, res) => {
+  app.delete("/api/documents/:id/attachments/:attachmentId", isAuthenticated, async (req, res) => {
     try {
-      const taskId = Number(req.params.id);
-      const { status } = req.body;
-      
-      if (!["pending", "in_progress", "completed", "canceled"].includes(status)) {
-        return res.status(400).json({ message: "Invalid status" });
-      }
-      
-      const task = await storage.getTask(taskId);
+      const documentId = Number(req.params.id);
+      const document = await storage.getDocument(documentId, await documentViewer(req.user));
       
-      if (!task) {
-        return res.status(404).json({ message: "Task not found" });
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
       }
       
-      // Check if user is assignee or has admin/manager role
-      if (task.assignedTo !== req.user.id && !["admin", "manager", "coordinator"].includes(req.user.role)) {
+      // Same permission as editing the document
+      if (!(await canEditDocument(req.user, document))) {
         return res.status(403).json({ message: "Forbidden" });
       }
       
-      const updates: any = { ...task, status };
+      if (!isEditable(document)) {
+        return res.status(400).json({ message: `Documents in status ${document.status} cannot be edited` });
+      }
       
-      // Set completed date if task is marked as completed
-      if (status === "completed") {
-        updates.completedAt = new Date();
+      const attachment = await storage.getDocumentAttachment(Number(req.params.attachmentId));
+      if (!attachment || attachment.documentId !== documentId || attachment.deletedAt) {
+        return res.status(404).json({ message: "Attachment not found" });
       }
       
-      const updatedTask = await storage.updateTask(taskId, updates);
+      // Soft delete: the file is kept for the versions that reference it
+      await storage.deleteDocumentAttachment(attachment.id);
+      const updatedDocument = await createDraftRevision(document, req.user.id);
       
       // Log activity
       await storage.createActivity({
         userId: req.user.id,
-        action: "update_status",
-        entityType: "task",
-        entityId: taskId,
-        details: { title: task.title, status }
+        action: "detach",
+        entityType: "document",
+        entityId: documentId,
+        details: { title: updatedDocument.title, version: updatedDocument.version, files: [attachment.fileName] }
       });
       
-      res.json(updatedTask);
+      res.status(204).send();
     } catch (error) {
-      res.status(500).json({ message: "Failed to update task status" });
+      res.status(500).json({ message: "Failed to delete attachment" });
     }
   });
 
-  // Policy acceptance routes
-  app.post("/api/policies/:id/accept", isAuthenticated, async (req, res) => {
+  app.delete("/api/documents/:id", isAuthenticated, requirePermission("document.delete"), async (req, res) => {
     try {
       const documentId = Number(req.params.id);
-      const document = await storage.getDocument(documentId);
+      const document = await storage.getDocument(documentId, await documentViewer(req.user));
       
-      if (!document || document.status !== "approved") {
-        return res.status(404).json({ message: "Policy not found or not approved" });
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
       }
       
-      // Create policy acceptance
-      const acceptance = await storage.createPolicyAcceptance({
-        userId: req.user.id,
-        documentId
-      });
+      // Deleting is limited to documents the user could also edit
+      if (!(await canEditDocument(req.user, document))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      await storage.deleteDocument(documentId);
       
       // Log activity
       await storage.createActivity({
         userId: req.user.id,
-        action: "accept",
-        entityType: "policy",
+        action: "delete",
+        entityType: "document",
         entityId: documentId,
         details: { title: document.title }
       });
       
-      res.status(201).json(acceptance);
+      res.status(204).send();
     } catch (error) {
-      res.status(500).json({ message: "Failed to accept policy" });
+      res.status(500).json({ message: "Failed to delete document" });
     }
   });
 
-  app.get("/api/policies/:id/acceptances", isAuthenticated, checkRole(["admin", "manager", "coordinator"]), async (req, res) => {
+  // Approval routes
+  app.get("/api/approvals", isAuthenticated, async (req, res) => {
     try {
-      const documentId = Number(req.params.id);
-      const acceptances = await storage.getPolicyAcceptancesByDocument(documentId);
-      res.json(acceptances);
+      const query = approvalListQuerySchema.parse(req.query);
+      
+      // Users without approval.view_all only see their own approvals
+      if (!(await hasPermission(req.user, "approval.view_all"))) {
+        query.userId = [req.user.id];
+      }
+      
+      res.json(await storage.listApprovals(query));
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch policy acceptances" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch approvals" });
     }
   });
 
-  // User routes
-  app.get("/api/users", isAuthenticated, checkRole(["admin", "manager", "coordinator"]), async (req, res) => {
+  // Confirms a published document is still valid and schedules its next periodic review
+  app.post("/api/documents/:id/review", isAuthenticated, async (req, res) => {
     try {
-      const users = await storage.getAllUsers();
-      // Remove passwords from response
-      const sanitizedUsers = users.map(({ password, ...user }) => user);
-      res.json(sanitizedUsers);
-    } catch (error) {
-      res.status(500).json({ message: "Failed to fetch users" });
-    }
-  });
+      const documentId = Number(req.params.id);
+      const document = await storage.getDocument(documentId, await documentViewer(req.user));
+
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      if (!(await canEditDocument(req.user, document))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      if (!document.publishedVersion || isRetired(document)) {
+        return res.status(400).json({ message: "Only documents in effect can be reviewed" });
+      }
+      if (!document.reviewPeriodMonths) {
+        return res.status(400).json({ message: "Document has no review period" });
+      }
+
+      const reviewedDocument = await completeReview(document);
+
+      // Log activity
+      await storage.createActivity({
+        userId: req.user.id,
+        action: "review",
+        entityType: "document",
+        entityId: documentId,
+        details: { title: document.title, nextReviewAt: reviewedDocument.nextReviewAt }
+      });
+
+      res.json(reviewedDocument);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to review document" });
+    }
+  });
+
+  // Lifecycle actions the current user can take on the document, for the UI to offer
+  app.get("/api/documents/:id/transitions", isAuthenticated, async (req, res) => {
+    try {
+      const document = await storage.getDocument(Number(req.params.id), await documentViewer(req.user));
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      res.json(await availableActions(req.user, document));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch document transitions" });
+    }
+  });
+
+  app.post("/api/documents/:id/transitions", isAuthenticated, async (req, res) => {
+    try {
+      const documentId = Number(req.params.id);
+      const document = await storage.getDocument(documentId, await documentViewer(req.user));
+      
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      const { action, reason, supersededBy } = documentTransitionSchema.parse(req.body);
+      
+      if (!(await availableActions(req.user, document)).includes(action)) {
+        // Actions the state allows but the user may not take are forbidden; the rest are invalid
+        return canTransition(document, action)
+          ? res.status(403).json({ message: "Forbidden" })
+          : res.status(400).json({ message: `Cannot ${action.replace("_", " ")} a document in status ${document.status}` });
+      }
+      
+      const updatedDocument = await transitionDocument(document, action, {
+        userId: req.user.id,
+        reason,
+        supersededBy
+      });
+      
+      // Log activity
+      await storage.createActivity({
+        userId: req.user.id,
+        action: "transition",
+        entityType: "document",
+        entityId: documentId,
+        details: { title: document.title, from: document.status, to: updatedDocument.status, reason }
+      });
+      
+      res.json(updatedDocument);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof InvalidTransitionError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to change document status" });
+    }
+  });
+
+  app.post("/api/documents/:id/submit", isAuthenticated, async (req, res) => {
+    try {
+      const documentId = Number(req.params.id);
+      const document = await storage.getDocument(documentId, await documentViewer(req.user));
+      
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      // Check if user is the creator or may submit any document
+      if (document.createdBy !== req.user.id && !(await hasPermission(req.user, "document.submit_any"))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      if (document.status === "in_review") {
+        return res.status(400).json({ message: "Document is already in review" });
+      }
+      
+      // Reviewers can also be picked at submission time
+      const { reviewerIds, autoAssignReviewers } = z.object({
+        reviewerIds: z.array(z.number().int().positive()).optional(),
+        autoAssignReviewers: z.boolean().optional(),
+      }).parse(req.body ?? {});
+      
+      let documentToSubmit = document;
+      if (reviewerIds !== undefined || autoAssignReviewers !== undefined) {
+        const reviewerError = await validateReviewers(reviewerIds || [], document.createdBy);
+        if (reviewerError) {
+          return res.status(400).json({ message: reviewerError });
+        }
+        
+        documentToSubmit = await storage.updateDocument(documentId, {
+          reviewerIds: reviewerIds ?? document.reviewerIds,
+          autoAssignReviewers: autoAssignReviewers ?? document.autoAssignReviewers
+        });
+      }
+      
+      // Open the first stage: selected reviewers, or the matching approval workflow
+      await startApprovalRound(documentToSubmit, req.user.id);
+      
+      // Log activity
+      await storage.createActivity({
+        userId: req.user.id,
+        action: "submit",
+        entityType: "document",
+        entityId: documentId,
+        details: { title: document.title }
+      });
+      
+      res.json({ message: "Document submitted for approval" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof NoReviewersError || error instanceof NoApproversError || error instanceof InvalidTransitionError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to submit document for approval" });
+    }
+  });
+
+  app.post("/api/approvals/:id", isAuthenticated, requirePermission("approval.decide"), async (req, res) => {
+    try {
+      const approvalId = Number(req.params.id);
+      const { status, comments } = req.body;
+      
+      if (!["approved", "rejected"].includes(status)) {
+        return res.status(400).json({ message: "Invalid status" });
+      }
+      
+      const approval = await storage.getApproval(approvalId);
+      
+      if (!approval) {
+        return res.status(404).json({ message: "Approval not found" });
+      }
+      
+      // Only the assigned approver (or someone with approval.decide_any) can decide
+      if (approval.userId !== req.user.id && !(await hasPermission(req.user, "approval.decide_any"))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const document = await storage.getDocument(approval.documentId);
+      
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      if (!isApprovalActive(approval, document)) {
+        return res.status(409).json({ message: "Approval is no longer active" });
+      }
+      
+      // Update approval
+      const updatedApproval = await storage.updateApproval(approvalId, {
+        status,
+        comments,
+        approvedAt: new Date()
+      });
+      
+      // Advance the workflow: next stage, final approval or rejection
+      const outcome = await applyApprovalDecision(updatedApproval, document);
+      
+      // Log activity
+      await storage.createActivity({
+        userId: req.user.id,
+        action: status,
+        entityType: "approval",
+        entityId: approvalId,
+        details: { documentTitle: document.title, comments, stage: approval.stage, outcome }
+      });
+      
+      // A new major version of a policy has to be accepted again
+      const publishedDocument = outcome === "approved" ? await storage.getDocument(document.id) : undefined;
+      if (publishedDocument) {
+        const invalidated = await startReacceptanceCampaign(publishedDocument, document.publishedVersion, req.user.id);
+        
+        if (invalidated.length > 0) {
+          await storage.createActivity({
+            userId: req.user.id,
+            action: "reacceptance",
+            entityType: "policy",
+            entityId: document.id,
+            details: {
+              title: document.title,
+              version: publishedDocument.publishedVersion,
+              previousVersion: document.publishedVersion,
+              users: invalidated.length
+            }
+          });
+        }
+      }
+      
+      res.json(updatedApproval);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to process approval" });
+    }
+  });
+
+  // Approval workflow routes
+  app.get("/api/approval-workflows", isAuthenticated, async (req, res) => {
+    try {
+      const workflows = await storage.getAllApprovalWorkflows();
+      res.json(workflows);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch approval workflows" });
+    }
+  });
+
+  app.post("/api/approval-workflows", isAuthenticated, requirePermission("workflow.manage"), async (req, res) => {
+    try {
+      const validatedData = insertApprovalWorkflowSchema.parse({
+        ...req.body,
+        createdBy: req.user.id
+      });
+      
+      const departmentError = await validateDepartments(workflowDepartments(validatedData));
+      if (departmentError) {
+        return res.status(400).json({ message: departmentError });
+      }
+      
+      const categoryError = validatedData.category && await validateDocumentCategory(validatedData.category);
+      if (categoryError) {
+        return res.status(400).json({ message: categoryError });
+      }
+      
+      const workflow = await storage.createApprovalWorkflow(validatedData);
+      
+      // Log activity
+      await storage.createActivity({
+        userId: req.user.id,
+        action: "create",
+        entityType: "approval_workflow",
+        entityId: workflow.id,
+        details: { name: workflow.name, stages: workflow.stages.length }
+      });
+      
+      res.status(201).json(workflow);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create approval workflow" });
+    }
+  });
+
+  app.put("/api/approval-workflows/:id", isAuthenticated, requirePermission("workflow.manage"), async (req, res) => {
+    try {
+      const workflowId = Number(req.params.id);
+      const workflow = await storage.getApprovalWorkflow(workflowId);
+      
+      if (!workflow) {
+        return res.status(404).json({ message: "Approval workflow not found" });
+      }
+      
+      const validatedData = insertApprovalWorkflowSchema.parse({
+        ...req.body,
+        createdBy: workflow.createdBy
+      });
+      
+      const departmentError = await validateDepartments(workflowDepartments(validatedData), workflowDepartments(workflow));
+      if (departmentError) {
+        return res.status(400).json({ message: departmentError });
+      }
+      
+      const categoryError = validatedData.category && await validateDocumentCategory(validatedData.category, workflow.category);
+      if (categoryError) {
+        return res.status(400).json({ message: categoryError });
+      }
+      
+      const updatedWorkflow = await storage.updateApprovalWorkflow(workflowId, validatedData);
+      
+      // Log activity
+      await storage.createActivity({
+        userId: req.user.id,
+        action: "update",
+        entityType: "approval_workflow",
+        entityId: workflowId,
+        details: { name: updatedWorkflow.name, stages: updatedWorkflow.stages.length }
+      });
+      
+      res.json(updatedWorkflow);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update approval workflow" });
+    }
+  });
+
+  app.delete("/api/approval-workflows/:id", isAuthenticated, requirePermission("workflow.manage"), async (req, res) => {
+    try {
+      const workflowId = Number(req.params.id);
+      const workflow = await storage.getApprovalWorkflow(workflowId);
+      
+      if (!workflow) {
+        return res.status(404).json({ message: "Approval workflow not found" });
+      }
+      
+      await storage.deleteApprovalWorkflow(workflowId);
+      
+      // Log activity
+      await storage.createActivity({
+        userId: req.user.id,
+        action: "delete",
+        entityType: "approval_workflow",
+        entityId: workflowId,
+        details: { name: workflow.name }
+      });
+      
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete approval workflow" });
+    }
+  });
+
+  // Task routes
+  app.get("/api/tasks", isAuthenticated, async (req, res) => {
+    try {
+      const query = taskListQuerySchema.parse(req.query);
+      
+      // Users without task.view_all only see the tasks assigned to them
+      if (!(await hasPermission(req.user, "task.view_all"))) {
+        query.assignedTo = [req.user.id];
+      }
+      
+      res.json(await storage.listTasks(query));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch tasks" });
+    }
+  });
+
+  app.post("/api/tasks", isAuthenticated, requirePermission("task.assign"), async (req, res) => {
+    try {
+      const validatedData = insertTaskSchema.parse({
+        ...req.body,
+        assignedBy: req.user.id
+      });
+      
+      const task = await storage.createTask(validatedData);
+      
+      // Log activity
+      await storage.createActivity({
+        userId: req.user.id,
+        action: "create",
+        entityType: "task",
+        entityId: task.id,
+        details: { title: task.title, assignedTo: task.assignedTo }
+      });
+      
+      res.status(201).json(task);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create task" });
+    }
+  });
+
+  app.put("/api/tasks/:id/status", isAuthenticated, async (req, res) => {
+    try {
+      const taskId = Number(req.params.id);
+      const { status } = req.body;
+      
+      if (!["pending", "in_progress", "completed", "canceled"].includes(status)) {
+        return res.status(400).json({ message: "Invalid status" });
+      }
+      
+      const task = await storage.getTask(taskId);
+      
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      
+      // Check if user is the assignee or may update any task
+      if (task.assignedTo !== req.user.id && !(await hasPermission(req.user, "task.update_any"))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const updates: any = { ...task, status };
+      
+      // Set completed date if task is marked as completed
+      if (status === "completed") {
+        updates.completedAt = new Date();
+      }
+      
+      const updatedTask = await storage.updateTask(taskId, updates);
+      
+      // Completing a periodic review task confirms the review of its document
+      if (status === "completed" && task.documentId) {
+        const document = await storage.getDocument(task.documentId);
+        if (document?.reviewTaskId === task.id) {
+          await completeReview(document);
+        }
+      }
+      
+      // Log activity
+      await storage.createActivity({
+        userId: req.user.id,
+        action: "update_status",
+        entityType: "task",
+        entityId: taskId,
+        details: { title: task.title, status }
+      });
+      
+      res.json(updatedTask);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update task status" });
+    }
+  });
+
+  // Policy acceptance routes
+  app.post("/api/policies/:id/accept", isAuthenticated, async (req, res) => {
+    try {
+      const documentId = Number(req.params.id);
+      const document = await storage.getDocument(documentId, await documentViewer(req.user));
+      
+      if (!document || document.status !== "published") {
+        return res.status(404).json({ message: "Policy not found or not approved" });
+      }
+      
+      // Create policy acceptance of the published version
+      const acceptance = await acceptPolicy(document, req.user.id);
+      
+      // Log activity
+      await storage.createActivity({
+        userId: req.user.id,
+        action: "accept",
+        entityType: "policy",
+        entityId: documentId,
+        details: { title: document.title, version: acceptance.version }
+      });
+      
+      res.status(201).json(acceptance);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to accept policy" });
+    }
+  });
+
+  // Every acceptance of the current user, including the ones a new major version invalidated
+  app.get("/api/policies/acceptances/user", isAuthenticated, async (req, res) => {
+    try {
+      const acceptances = await storage.getPolicyAcceptancesByUser(req.user.id);
+      res.json(acceptances);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch policy acceptances" });
+    }
+  });
+
+  app.get("/api/policies/:id/acceptances", isAuthenticated, requirePermission("policy.view_acceptances"), async (req, res) => {
+    try {
+      const documentId = Number(req.params.id);
+      const document = await storage.getDocument(documentId, await documentViewer(req.user));
+      
+      if (!document) {
+        return res.status(404).json({ message: "Policy not found" });
+      }
+      
+      const acceptances = await storage.getPolicyAcceptancesByDocument(documentId);
+      
+      const acceptancesWithUsers = await Promise.all(acceptances.map(async (acceptance) => {
+        const user = await storage.getUser(acceptance.userId);
+        return { ...acceptance, user: user ? sanitizeUser(user) : undefined };
+      }));
+      
+      res.json(acceptancesWithUsers);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch policy acceptances" });
+    }
+  });
+
+  // Opening a policy counts as reading it for the user's mandatory-reading assignments
+  app.post("/api/policies/:id/open", isAuthenticated, async (req, res) => {
+    try {
+      const documentId = Number(req.params.id);
+      const document = await storage.getDocument(documentId, await documentViewer(req.user));
+      
+      if (!document || document.status !== "published") {
+        return res.status(404).json({ message: "Policy not found or not approved" });
+      }
+      
+      await markPolicyOpened(documentId, req.user.id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to record policy opening" });
+    }
+  });
+
+  // The current user's mandatory readings with their status and deadline
+  app.get("/api/policies/assignments/user", isAuthenticated, async (req, res) => {
+    try {
+      const assignees = await storage.getPolicyAssigneesByUser(req.user.id);
+      const assignments: UserPolicyAssignment[] = [];
+      
+      for (const assignee of assignees) {
+        const assignment = await storage.getPolicyAssignment(assignee.assignmentId);
+        if (!assignment) continue;
+        const progress = (await assignmentProgress(assignment)).find((a) => a.id === assignee.id);
+        if (progress) {
+          assignments.push({ ...progress, documentId: assignment.documentId, dueDate: assignment.dueDate });
+        }
+      }
+      
+      res.json(assignments);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch policy assignments" });
+    }
+  });
+
+  // Adoption of every assigned policy: assignees, how many opened and accepted it, and how many are overdue
+  app.get("/api/policies/adoption", isAuthenticated, requirePermission("policy.view_acceptances"), async (req, res) => {
+    try {
+      res.json(await policyAdoption());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch policy adoption" });
+    }
+  });
+
+  const withAssignees = async (assignment: PolicyAssignment): Promise<PolicyAssignmentWithProgress> => {
+    const assignees = await Promise.all((await assignmentProgress(assignment)).map(async (assignee) => {
+      const user = await storage.getUser(assignee.userId);
+      return {
+        ...assignee,
+        user: user && { id: user.id, name: user.name, username: user.username, role: user.role, department: user.department }
+      };
+    }));
+    return { ...assignment, assignees };
+  };
+
+  app.get("/api/policies/:id/assignments", isAuthenticated, requirePermission("policy.view_acceptances"), async (req, res) => {
+    try {
+      const documentId = Number(req.params.id);
+      const document = await storage.getDocument(documentId, await documentViewer(req.user));
+      
+      if (!document) {
+        return res.status(404).json({ message: "Policy not found" });
+      }
+      
+      const assignments = await storage.getPolicyAssignmentsByDocument(documentId);
+      res.json(await Promise.all(assignments.map(withAssignees)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch policy assignments" });
+    }
+  });
+
+  app.post("/api/policies/:id/assignments", isAuthenticated, requirePermission("policy.assign"), async (req, res) => {
+    try {
+      const documentId = Number(req.params.id);
+      const document = await storage.getDocument(documentId, await documentViewer(req.user));
+      
+      if (!document || document.status !== "published") {
+        return res.status(404).json({ message: "Policy not found or not approved" });
+      }
+      
+      const validatedData = insertPolicyAssignmentSchema.parse({
+        ...req.body,
+        documentId,
+        assignedBy: req.user.id
+      });
+      
+      if (validatedData.dueDate <= new Date()) {
+        return res.status(400).json({ message: "The due date must be in the future" });
+      }
+      
+      const departmentError = await validateDepartments(validatedData.departments);
+      if (departmentError) {
+        return res.status(400).json({ message: departmentError });
+      }
+      
+      for (const userId of validatedData.userIds) {
+        const user = await storage.getUser(userId);
+        if (!user) {
+          return res.status(400).json({ message: `User ${userId} not found` });
+        }
+        if (!(await canReadPolicy(user, document))) {
+          return res.status(400).json({ message: `User ${user.username} cannot read this policy` });
+        }
+      }
+      
+      const assignment = await storage.createPolicyAssignment(validatedData);
+      const assignees = await syncAssignees(assignment, document);
+      
+      // Log activity
+      await storage.createActivity({
+        userId: req.user.id,
+        action: "assign",
+        entityType: "policy",
+        entityId: documentId,
+        details: { title: document.title, assignees: assignees.length, dueDate: assignment.dueDate }
+      });
+      
+      res.status(201).json(await withAssignees(assignment));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to assign policy" });
+    }
+  });
+
+  app.post("/api/policy-assignments/:id/reminders", isAuthenticated, requirePermission("policy.assign"), async (req, res) => {
+    try {
+      const assignmentId = Number(req.params.id);
+      const assignment = await storage.getPolicyAssignment(assignmentId);
+      
+      if (!assignment) {
+        return res.status(404).json({ message: "Policy assignment not found" });
+      }
+      
+      const document = await storage.getDocument(assignment.documentId);
+      if (!document || document.status !== "published") {
+        return res.status(400).json({ message: "Reminders can only be sent for published policies" });
+      }
+      
+      const reminded = await remindAssignees(assignment);
+      
+      // Log activity
+      await storage.createActivity({
+        userId: req.user.id,
+        action: "remind",
+        entityType: "policy",
+        entityId: assignment.documentId,
+        details: { title: document.title, assignees: reminded }
+      });
+      
+      res.json({ reminded });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to send reminders" });
+    }
+  });
+
+  app.delete("/api/policy-assignments/:id", isAuthenticated, requirePermission("policy.assign"), async (req, res) => {
+    try {
+      const assignmentId = Number(req.params.id);
+      const assignment = await storage.getPolicyAssignment(assignmentId);
+      
+      if (!assignment) {
+        return res.status(404).json({ message: "Policy assignment not found" });
+      }
+      
+      const document = await storage.getDocument(assignment.documentId);
+      await cancelReadingTasks(assignment);
+      await storage.deletePolicyAssignment(assignmentId);
+      
+      // Log activity
+      await storage.createActivity({
+        userId: req.user.id,
+        action: "delete",
+        entityType: "policy_assignment",
+        entityId: assignmentId,
+        details: { title: document?.title }
+      });
+      
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete policy assignment" });
+    }
+  });
+
+  // Department routes. The list includes inactive departments so old records can still be named.
+  app.get("/api/departments", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await storage.getAllDepartments());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch departments" });
+    }
+  });
+
+  app.post("/api/departments", isAuthenticated, requirePermission("department.manage"), async (req, res) => {
+    try {
+      const validatedData = insertDepartmentSchema.parse(req.body);
+      
+      if (await storage.getDepartmentByCode(validatedData.code)) {
+        return res.status(400).json({ message: "Department code already exists" });
+      }
+      
+      if (validatedData.parentId) {
+        const problem = await parentProblem(null, validatedData.parentId);
+        if (problem) {
+          return res.status(400).json({ message: problem });
+        }
+      }
+      
+      if (validatedData.headUserId && !(await storage.getUser(validatedData.headUserId))) {
+        return res.status(400).json({ message: "Head user not found" });
+      }
+      
+      const department = await storage.createDepartment(validatedData);
+      
+      await storage.createActivity({
+        userId: req.user.id,
+        action: "create",
+        entityType: "department",
+        entityId: department.id,
+        details: { code: department.code, name: department.name }
+      });
+      
+      res.status(201).json(department);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create department" });
+    }
+  });
+
+  app.put("/api/departments/:id", isAuthenticated, requirePermission("department.manage"), async (req, res) => {
+    try {
+      const department = await storage.getDepartment(Number(req.params.id));
+      if (!department) {
+        return res.status(404).json({ message: "Department not found" });
+      }
+      
+      const validatedData = updateDepartmentSchema.parse(req.body);
+      
+      if (validatedData.parentId) {
+        const problem = await parentProblem(department, validatedData.parentId);
+        if (problem) {
+          return res.status(400).json({ message: problem });
+        }
+      }
+      
+      if (validatedData.headUserId && !(await storage.getUser(validatedData.headUserId))) {
+        return res.status(400).json({ message: "Head user not found" });
+      }
+      
+      const updatedDepartment = await storage.updateDepartment(department.id, validatedData);
+      
+      const changes = (Object.keys(validatedData) as (keyof typeof validatedData)[])
+        .filter((field) => validatedData[field] !== department[field]);
+      
+      await storage.createActivity({
+        userId: req.user.id,
+        action: "update",
+        entityType: "department",
+        entityId: department.id,
+        details: { code: updatedDepartment.code, name: updatedDepartment.name, changes }
+      });
+      
+      res.json(updatedDepartment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update department" });
+    }
+  });
+
+  // Only departments nothing refers to can be deleted; the others can be deactivated
+  app.delete("/api/departments/:id", isAuthenticated, requirePermission("department.manage"), async (req, res) => {
+    try {
+      const department = await storage.getDepartment(Number(req.params.id));
+      if (!department) {
+        return res.status(404).json({ message: "Department not found" });
+      }
+      
+      if (await storage.isDepartmentInUse(department)) {
+        return res.status(400).json({ message: "Department is in use; deactivate it instead" });
+      }
+      
+      await storage.deleteDepartment(department.id);
+      
+      await storage.createActivity({
+        userId: req.user.id,
+        action: "delete",
+        entityType: "department",
+        entityId: department.id,
+        details: { code: department.code, name: department.name }
+      });
+      
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete department" });
+    }
+  });
+
+  // Document category routes. The list includes inactive categories so old documents can still be named.
+  app.get("/api/document-categories", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await storage.getAllDocumentCategories());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch document categories" });
+    }
+  });
+
+  app.post("/api/document-categories", isAuthenticated, requirePermission("category.manage"), async (req, res) => {
+    try {
+      const validatedData = insertDocumentCategorySchema.parse(req.body);
+      
+      if (await storage.getDocumentCategoryByCode(validatedData.code)) {
+        return res.status(400).json({ message: "Document category code already exists" });
+      }
+      
+      const problem = await documentCategoryProblem(validatedData);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      
+      const category = await storage.createDocumentCategory(validatedData);
+      
+      await storage.createActivity({
+        userId: req.user.id,
+        action: "create",
+        entityType: "document_category",
+        entityId: category.id,
+        details: { code: category.code, name: category.name }
+      });
+      
+      res.status(201).json(category);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create document category" });
+    }
+  });
+
+  app.put("/api/document-categories/:id", isAuthenticated, requirePermission("category.manage"), async (req, res) => {
+    try {
+      const category = await storage.getDocumentCategory(Number(req.params.id));
+      if (!category) {
+        return res.status(404).json({ message: "Document category not found" });
+      }
+      
+      const validatedData = updateDocumentCategorySchema.parse(req.body);
+      
+      const problem = await documentCategoryProblem(validatedData, category.id);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      
+      const updatedCategory = await storage.updateDocumentCategory(category.id, validatedData);
+      
+      const changes = (Object.keys(validatedData) as (keyof typeof validatedData)[])
+        .filter((field) => JSON.stringify(validatedData[field]) !== JSON.stringify(category[field]));
+      
+      await storage.createActivity({
+        userId: req.user.id,
+        action: "update",
+        entityType: "document_category",
+        entityId: category.id,
+        details: { code: updatedCategory.code, name: updatedCategory.name, changes }
+      });
+      
+      res.json(updatedCategory);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update document category" });
+    }
+  });
+
+  // Only categories nothing refers to can be deleted; the others can be deactivated
+  app.delete("/api/document-categories/:id", isAuthenticated, requirePermission("category.manage"), async (req, res) => {
+    try {
+      const category = await storage.getDocumentCategory(Number(req.params.id));
+      if (!category) {
+        return res.status(404).json({ message: "Document category not found" });
+      }
+      
+      if (await storage.isDocumentCategoryInUse(category)) {
+        return res.status(400).json({ message: "Document category is in use; deactivate it instead" });
+      }
+      
+      await storage.deleteDocumentCategory(category.id);
+      
+      await storage.createActivity({
+        userId: req.user.id,
+        action: "delete",
+        entityType: "document_category",
+        entityId: category.id,
+        details: { code: category.code, name: category.name }
+      });
+      
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete document category" });
+    }
+  });
+
+  // User routes
+  app.get("/api/users", isAuthenticated, requirePermission("user.view"), async (req, res) => {
+    try {
+      const query = userListQuerySchema.parse(req.query);
+      const page = await storage.listUsers(query);
+      res.json({ ...page, items: page.items.map(sanitizeUser) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  app.post("/api/users", isAuthenticated, requirePermission("user.manage"), async (req, res) => {
+    try {
+      const validatedData = adminCreateUserSchema.parse(req.body);
+      
+      const adminProblem = adminAccountProblem(req.user, undefined, validatedData.role);
+      if (adminProblem) {
+        return res.status(403).json({ message: adminProblem });
+      }
+      
+      const departmentError = await validateDepartments([validatedData.department]);
+      if (departmentError) {
+        return res.status(400).json({ message: departmentError });
+      }
+      
+      const existingUser = await storage.getUserByUsername(validatedData.username);
+      if (existingUser) {
+        return res.status(400).json({ message: "Username already exists" });
+      }
+      
+      // Unlike /api/register, the admin stays signed in as themselves
+      const user = await storage.createUser({
+        ...validatedData,
+        password: await hashPassword(validatedData.password),
+      });
+      
+      await storage.createActivity({
+        userId: req.user.id,
+        action: "create",
+        entityType: "user",
+        entityId: user.id,
+        details: { username: user.username, name: user.name, role: user.role, department: user.department }
+      });
+      
+      res.status(201).json(sanitizeUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create user" });
+    }
+  });
+
+  app.put("/api/users/:id", isAuthenticated, requirePermission("user.manage"), async (req, res) => {
+    try {
+      const user = await storage.getUser(Number(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const validatedData = adminUpdateUserSchema.parse(req.body);
+      
+      const adminProblem = adminAccountProblem(req.user, user, validatedData.role);
+      if (adminProblem) {
+        return res.status(403).json({ message: adminProblem });
+      }
+      
+      if (validatedData.username && validatedData.username !== user.username) {
+        const existingUser = await storage.getUserByUsername(validatedData.username);
+        if (existingUser) {
+          return res.status(400).json({ message: "Username already exists" });
+        }
+      }
+      
+      const departmentError = await validateDepartments(
+        validatedData.department ? [validatedData.department] : [],
+        [user.department]
+      );
+      if (departmentError) {
+        return res.status(400).json({ message: departmentError });
+      }
+      
+      if (validatedData.role && validatedData.role !== "admin" && await isLastActiveAdmin(user)) {
+        return res.status(400).json({ message: "Cannot change the role of the last active administrator" });
+      }
+      
+      const updatedUser = await storage.updateUser(user.id, validatedData);
+      
+      const changes = (Object.keys(validatedData) as (keyof typeof validatedData)[])
+        .filter((field) => validatedData[field] !== user[field]);
+      
+      await storage.createActivity({
+        userId: req.user.id,
+        action: "update",
+        entityType: "user",
+        entityId: user.id,
+        details: { username: updatedUser.username, name: updatedUser.name, changes }
+      });
+      
+      res.json(sanitizeUser(updatedUser));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update user" });
+    }
+  });
+
+  app.put("/api/users/:id/reset-password", isAuthenticated, requirePermission("user.manage"), async (req, res) => {
+    try {
+      const user = await storage.getUser(Number(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const adminProblem = adminAccountProblem(req.user, user);
+      if (adminProblem) {
+        return res.status(403).json({ message: adminProblem });
+      }
+      
+      const { password: newPassword } = resetPasswordSchema.parse(req.body);
+      
+      // The user has to pick their own password on next login. Sessions and tokens obtained with
+      // the old credentials stop working, except the session of an administrator resetting their own.
+      const isSelf = user.id === req.user.id;
+      const updatedUser = await storage.updateUser(user.id, {
+        ...(await passwordUpdate(user, newPassword, await getSystemSettings())),
+        mustChangePassword: true,
+        ...(isSelf ? {} : { sessionsRevokedAt: new Date() })
+      });
+      await storage.destroyUserSessions(user.id, isSelf ? req.sessionID : undefined);
+      const revokedTokens = await revokeUserApiTokens(user.id);
+      
+      await storage.createActivity({
+        userId: req.user.id,
+        action: "reset_password",
+        entityType: "user",
+        entityId: user.id,
+        details: { username: user.username, name: user.name, revokedTokens }
+      });
+      
+      res.json(sanitizeUser(updatedUser));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+
+  // Accounts are never deleted so their documents, approvals and activity keep an author
+  app.post("/api/users/:id/deactivate", isAuthenticated, requirePermission("user.manage"), async (req, res) => {
+    try {
+      const user = await storage.getUser(Number(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const adminProblem = adminAccountProblem(req.user, user);
+      if (adminProblem) {
+        return res.status(403).json({ message: adminProblem });
+      }
+      
+      if (user.id === req.user.id) {
+        return res.status(400).json({ message: "You cannot deactivate your own account" });
+      }
+      
+      if (await isLastActiveAdmin(user)) {
+        return res.status(400).json({ message: "Cannot deactivate the last active administrator" });
+      }
+      
+      if (!user.active) {
+        return res.json(sanitizeUser(user));
+      }
+      
+      const updatedUser = await storage.updateUser(user.id, { active: false, deactivatedAt: new Date() });
+      
+      await storage.createActivity({
+        userId: req.user.id,
+        action: "deactivate",
+        entityType: "user",
+        entityId: user.id,
+        details: { username: user.username, name: user.name }
+      });
+      
+      res.json(sanitizeUser(updatedUser));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to deactivate user" });
+    }
+  });
+
+  app.post("/api/users/:id/reactivate", isAuthenticated, requirePermission("user.manage"), async (req, res) => {
+    try {
+      const user = await storage.getUser(Number(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const adminProblem = adminAccountProblem(req.user, user);
+      if (adminProblem) {
+        return res.status(403).json({ message: adminProblem });
+      }
+      
+      if (user.active) {
+        return res.json(sanitizeUser(user));
+      }
+      
+      const updatedUser = await storage.updateUser(user.id, { active: true, deactivatedAt: null });
+      
+      await storage.createActivity({
+        userId: req.user.id,
+        action: "reactivate",
+        entityType: "user",
+        entityId: user.id,
+        details: { username: user.username, name: user.name }
+      });
+      
+      res.json(sanitizeUser(updatedUser));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reactivate user" });
+    }
+  });
+
+  // For users who lost their authenticator and recovery codes; they can enroll again afterwards
+  app.post("/api/users/:id/reset-2fa", isAuthenticated, requirePermission("user.manage"), async (req, res) => {
+    try {
+      const user = await storage.getUser(Number(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const adminProblem = adminAccountProblem(req.user, user);
+      if (adminProblem) {
+        return res.status(403).json({ message: adminProblem });
+      }
+      
+      if (!user.totpEnabled && !user.totpSecret) {
+        return res.json(sanitizeUser(user));
+      }
+      
+      const updatedUser = await storage.updateUser(user.id, {
+        totpSecret: null,
+        totpEnabled: false,
+        totpLastUsedStep: null,
+        totpRecoveryCodes: []
+      });
+      
+      await storage.createActivity({
+        userId: req.user.id,
+        action: "reset_2fa",
+        entityType: "user",
+        entityId: user.id,
+        details: { username: user.username, name: user.name }
+      });
+      
+      res.json(sanitizeUser(updatedUser));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reset two-factor authentication" });
+    }
+  });
+
+  // Lifts a lockout caused by failed logins before it expires, and forgets the failures
+  app.post("/api/users/:id/unlock", isAuthenticated, requirePermission("user.manage"), async (req, res) => {
+    try {
+      const user = await storage.getUser(Number(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const adminProblem = adminAccountProblem(req.user, user);
+      if (adminProblem) {
+        return res.status(403).json({ message: adminProblem });
+      }
+      
+      const wasLocked = !!user.lockedUntil && user.lockedUntil > new Date();
+      const updatedUser = await unlockAccount(user);
+      
+      if (wasLocked) {
+        await storage.createActivity({
+          userId: req.user.id,
+          action: "unlock",
+          entityType: "user",
+          entityId: user.id,
+          details: { username: user.username, name: user.name }
+        });
+      }
+      
+      res.json(sanitizeUser(updatedUser));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to unlock user" });
+    }
+  });
+
+  app.get("/api/users/:id/sessions", isAuthenticated, requirePermission("user.manage"), async (req, res) => {
+    try {
+      const user = await storage.getUser(Number(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const adminProblem = adminAccountProblem(req.user, user);
+      if (adminProblem) {
+        return res.status(403).json({ message: adminProblem });
+      }
+      
+      res.json(await listUserSessions(user.id, req.sessionID));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  // Ends every session of the user; the session middleware also rejects any that was in use meanwhile
+  app.post("/api/users/:id/logout", isAuthenticated, requirePermission("user.manage"), async (req, res) => {
+    try {
+      const user = await storage.getUser(Number(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const adminProblem = adminAccountProblem(req.user, user);
+      if (adminProblem) {
+        return res.status(403).json({ message: adminProblem });
+      }
+      
+      if (user.id === req.user.id) {
+        return res.status(400).json({ message: "You cannot force your own logout" });
+      }
+      
+      const updatedUser = await storage.updateUser(user.id, { sessionsRevokedAt: new Date() });
+      await storage.destroyUserSessions(user.id);
+      
+      await storage.createActivity({
+        userId: req.user.id,
+        action: "force_logout",
+        entityType: "user",
+        entityId: user.id,
+        details: { username: user.username, name: user.name }
+      });
+      
+      res.json(sanitizeUser(updatedUser));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to sign out user" });
+    }
+  });
+
+  // Users that can be picked as document reviewers
+  app.get("/api/users/reviewers", isAuthenticated, async (req, res) => {
+    try {
+      const reviewers = await storage.getUsersByRole([...approverRoles]);
+      res.json(
+        reviewers
+          .filter((reviewer) => reviewer.id !== req.user.id)
+          .map(({ id, name, role, department }) => ({ id, name, role, department }))
+      );
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch reviewers" });
+    }
+  });
+
+  // Registration invitation routes (admin only)
+  app.get("/api/invitations", isAuthenticated, requirePermission("user.manage"), async (req, res) => {
+    try {
+      const invitations = await storage.getAllInvitations();
+      // Token hashes never leave the server
+      res.json(invitations.map(({ tokenHash, ...invitation }) => invitation));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch invitations" });
+    }
+  });
+
+  app.post("/api/invitations", isAuthenticated, requirePermission("user.manage"), async (req, res) => {
+    try {
+      const { expiresInDays, ...validatedData } = createInvitationSchema.parse(req.body);
+      
+      const adminProblem = adminAccountProblem(req.user, undefined, validatedData.role);
+      if (adminProblem) {
+        return res.status(403).json({ message: adminProblem });
+      }
+      
+      const departmentError = await validateDepartments([validatedData.department]);
+      if (departmentError) {
+        return res.status(400).json({ message: departmentError });
+      }
+      
+      const { token, tokenHash: newTokenHash } = generateInvitationToken();
+      
+      const invitation = await storage.createInvitation({
+        ...validatedData,
+        tokenHash: newTokenHash,
+        invitedBy: req.user.id,
+        expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+      });
+      
+      await storage.createActivity({
+        userId: req.user.id,
+        action: "invite",
+        entityType: "invitation",
+        entityId: invitation.id,
+        details: { email: invitation.email, role: invitation.role, department: invitation.department }
+      });
+      
+      // The plain token is only returned here; it cannot be recovered later
+      const { tokenHash, ...sanitizedInvitation } = invitation;
+      res.status(201).json({ ...sanitizedInvitation, token });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create invitation" });
+    }
+  });
+
+  app.delete("/api/invitations/:id", isAuthenticated, requirePermission("user.manage"), async (req, res) => {
+    try {
+      const invitation = await storage.getInvitation(Number(req.params.id));
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      
+      if (invitation.acceptedAt) {
+        return res.status(400).json({ message: "Invitation has already been used" });
+      }
+      
+      if (!invitation.revokedAt) {
+        await storage.updateInvitation(invitation.id, { revokedAt: new Date() });
+        
+        await storage.createActivity({
+          userId: req.user.id,
+          action: "revoke",
+          entityType: "invitation",
+          entityId: invitation.id,
+          details: { email: invitation.email, role: invitation.role, department: invitation.department }
+        });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to revoke invitation" });
+    }
+  });
+
+  // System settings routes
+  app.get("/api/settings", isAuthenticated, requirePermission("settings.manage"), async (req, res) => {
+    try {
+      res.json(await getSystemSettings());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch settings" });
+    }
+  });
+
+  app.put("/api/settings", isAuthenticated, requirePermission("settings.manage"), async (req, res) => {
+    try {
+      const validatedData = updateSystemSettingsSchema.parse(req.body);
+      const previous = await getSystemSettings();
+      const settings = await updateSystemSettings(validatedData, req.user.id);
+      
+      const changes = (Object.keys(validatedData) as (keyof typeof validatedData)[])
+        .filter((key) => JSON.stringify(validatedData[key]) !== JSON.stringify(previous[key]));
+      if (changes.length > 0) {
+        await storage.createActivity({
+          userId: req.user.id,
+          action: "update",
+          entityType: "settings",
+          entityId: 0,
+          details: { changes }
+        });
+      }
+      
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update settings" });
+    }
+  });
+
+  // Role permission routes; the admin role always holds every permission
+  app.get("/api/role-permissions", isAuthenticated, requirePermission("settings.manage"), async (req, res) => {
+    try {
+      res.json(await getRolePermissions());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch role permissions" });
+    }
+  });
+
+  app.put("/api/role-permissions/:role", isAuthenticated, requirePermission("settings.manage"), async (req, res) => {
+    try {
+      const role = z.enum(users.role.enumValues).safeParse(req.params.role);
+      if (!role.success) {
+        return res.status(404).json({ message: "Role not found" });
+      }
+      if (role.data === "admin") {
+        return res.status(400).json({ message: "Administrator permissions cannot be changed" });
+      }
+      
+      const { permissions } = updateRolePermissionsSchema.parse(req.body);
+      const previous = (await getRolePermissions())[role.data];
+      const rolePermissions = await updateRolePermissions(role.data, permissions, req.user.id);
+      const granted = rolePermissions[role.data];
+      
+      const added = granted.filter((permission) => !previous.includes(permission));
+      const removed = previous.filter((permission) => !granted.includes(permission));
+      if (added.length > 0 || removed.length > 0) {
+        await storage.createActivity({
+          userId: req.user.id,
+          action: "update_permissions",
+          entityType: "settings",
+          entityId: 0,
+          details: { role: role.data, added, removed }
+        });
+      }
+      
+      res.json(rolePermissions);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update role permissions" });
+    }
+  });
 
   // Activity routes
   app.get("/api/activities", isAuthenticated, async (req, res) => {
     try {
-      const activities = await storage.getRecentActivities(20);
-      res.json(activities);
+      const query = activityListQuerySchema.parse(req.query);
+      res.json(await storage.listActivities(query, await activityViewer(req.user)));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to fetch activities" });
     }
   });
@@ -0,0 +1,135 @@
+import {
+  SEARCH_HIGHLIGHT_START,
+  SEARCH_HIGHLIGHT_END,
+  type Document,
+  type SearchFacet,
+  type SearchQuery,
+  type SearchResponse,
+  type SearchResult,
+} from "@shared/schema";
+
+// In-memory approximation of the PostgreSQL search used by DatabaseStorage:
+// accent/case-insensitive prefix matching with the same field weights.
+
+export interface SearchableDocument {
+  document: Document;
+  attachmentText: string;
+  versionText: string;
+}
+
+// Word characters: digits plus Latin letters, including accented ones
+const WORD_CHARS = "0-9A-Za-z\\u00C0-\\u024F";
+
+const FIELD_WEIGHTS = { title: 1, summary: 0.4, content: 0.2, extra: 0.1 };
+const SNIPPET_RADIUS = 120;
+
+export function normalizeForSearch(text: string): string {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+function tokenize(text: string): string[] {
+  return normalizeForSearch(text).split(new RegExp(`[^${WORD_CHARS}]+`)).filter((token) => token.length > 0);
+}
+
+// Rough Spanish stemming: drop plural/gender endings so "políticas" finds "política"
+function stem(term: string): string {
+  return term.length > 4 ? term.replace(/(es|s|a|o)$/, "") : term;
+}
+
+function countMatches(tokens: string[], stems: string[]): number {
+  return tokens.filter((token) => stems.some((s) => token.startsWith(s))).length;
+}
+
+// Wraps every word starting with one of the stems in highlight markers
+function highlight(text: string, stems: string[]): string {
+  return text.replace(new RegExp(`[${WORD_CHARS}]+`, "g"), (word) =>
+    stems.some((s) => normalizeForSearch(word).startsWith(s))
+      ? `${SEARCH_HIGHLIGHT_START}${word}${SEARCH_HIGHLIGHT_END}`
+      : word
+  );
+}
+
+// Normalization keeps string length for Latin text, so offsets map back to the original
+function buildSnippet(text: string, stems: string[]): string {
+  const normalized = normalizeForSearch(text);
+  const positions = stems.map((s) => normalized.search(new RegExp(`(^|[^${WORD_CHARS}])${s}`))).filter((p) => p >= 0);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(text.length, first + SNIPPET_RADIUS);
+  const fragment = text.slice(start, end).replace(/\s+/g, " ").trim();
+
+  return `${start > 0 ? "… " : ""}${highlight(fragment, stems)}${end < text.length ? " …" : ""}`;
+}
+
+function toFacets(values: string[]): SearchFacet[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  return Array.from(counts, ([value, count]) => ({ value, count })).sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+export function searchInMemory(entries: SearchableDocument[], query: SearchQuery): SearchResponse {
+  const stems = Array.from(new Set(tokenize(query.q).map(stem)));
+
+  const matches: SearchResult[] = [];
+  for (const { document, attachmentText, versionText } of entries) {
+    const summary = `${document.description || ""} ${(document.tags || []).join(" ")}`;
+    const fields = {
+      title: tokenize(`${document.code ?? ""} ${document.title}`),
+      summary: tokenize(summary),
+      content: tokenize(document.content),
+      extra: tokenize(`${attachmentText} ${versionText}`),
+    };
+
+    // Every term has to appear somewhere, as with websearch_to_tsquery
+    const allTokens = [...fields.title, ...fields.summary, ...fields.content, ...fields.extra];
+    if (stems.length === 0 || !stems.every((s) => allTokens.some((token) => token.startsWith(s)))) {
+      continue;
+    }
+
+    const rank =
+      countMatches(fields.title, stems) * FIELD_WEIGHTS.title +
+      countMatches(fields.summary, stems) * FIELD_WEIGHTS.summary +
+      countMatches(fields.content, stems) * FIELD_WEIGHTS.content +
+      countMatches(fields.extra, stems) * FIELD_WEIGHTS.extra;
+
+    matches.push({
+      document: {
+        id: document.id,
+        code: document.code,
+        title: document.title,
+        description: document.description,
+        category: document.category,
+        department: document.department,
+        status: document.status,
+        version: document.version,
+        updatedAt: document.updatedAt,
+      },
+      rank,
+      titleHighlight: highlight(document.title, stems),
+      snippet: buildSnippet(`${document.description || ""}\n${document.content}\n${attachmentText}`, stems),
+    });
+  }
+
+  const filtered = matches
+    .filter((match) => !query.department || match.document.department === query.department)
+    .filter((match) => !query.category || match.document.category === query.category)
+    .filter((match) => !query.status || match.document.status === query.status)
+    .sort((a, b) => b.rank - a.rank || b.document.updatedAt.getTime() - a.document.updatedAt.getTime());
+
+  const offset = (query.page - 1) * query.pageSize;
+
+  return {
+    results: filtered.slice(offset, offset + query.pageSize),
+    total: filtered.length,
+    page: query.page,
+    pageSize: query.pageSize,
+    facets: {
+      department: toFacets(matches.map((match) => match.document.department)),
+      category: toFacets(matches.map((match) => match.document.category)),
+      status: toFacets(matches.map((match) => match.document.status)),
+    },
+  };
+}
@@ -0,0 +1,37 @@
+import { createHash } from "crypto";
+import { type UserSession } from "@shared/schema";
+import { storage, type StoredSession } from "./storage";
+
+// Session ids double as bearer credentials, so clients only ever see a digest of them
+export function publicSessionId(sid: string): string {
+  return createHash("sha256").update(sid).digest("hex").slice(0, 32);
+}
+
+async function activeSessions(userId: number, now = new Date()): Promise<StoredSession[]> {
+  const sessions = await storage.getUserSessions(userId);
+  return sessions.filter((session) => !session.expiresAt || session.expiresAt > now);
+}
+
+// Most recently used first
+export async function listUserSessions(userId: number, currentSessionId?: string): Promise<UserSession[]> {
+  const sessions = (await activeSessions(userId)).map(({ sid, sess, expiresAt }) => ({
+    id: publicSessionId(sid),
+    userAgent: sess.userAgent ?? null,
+    ip: sess.ip ?? null,
+    createdAt: sess.authenticatedAt ? new Date(sess.authenticatedAt) : null,
+    lastSeenAt: sess.lastSeenAt ? new Date(sess.lastSeenAt) : null,
+    expiresAt,
+    current: sid === currentSessionId,
+  }));
+
+  return sessions.sort((a, b) => (b.lastSeenAt?.getTime() ?? 0) - (a.lastSeenAt?.getTime() ?? 0));
+}
+
+// Ends one of the user's sessions by its public id; false when there is no such session
+export async function revokeUserSession(userId: number, id: string): Promise<boolean> {
+  const session = (await activeSessions(userId)).find(({ sid }) => publicSessionId(sid) === id);
+  if (!session) return false;
+
+  await storage.destroySession(session.sid);
+  return true;
+}
@@ -0,0 +1,25 @@
+import { DEFAULT_SYSTEM_SETTINGS, type SystemSettings } from "@shared/schema";
+import { storage } from "./storage";
+
+// Settings are read on every login and by request middleware, so they are cached briefly
+// instead of hitting the database each time. Updates through this module take effect at once.
+const CACHE_TTL_MS = 30 * 1000;
+
+let cached: { settings: SystemSettings; expiresAt: number } | null = null;
+
+export async function getSystemSettings(): Promise<SystemSettings> {
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.settings;
+  }
+
+  const stored = await storage.getSystemSettings();
+  const settings = { ...DEFAULT_SYSTEM_SETTINGS, ...stored };
+  cached = { settings, expiresAt: Date.now() + CACHE_TTL_MS };
+  return settings;
+}
+
+export async function updateSystemSettings(update: Partial<SystemSettings>, userId: number): Promise<SystemSettings> {
+  await storage.updateSystemSettings(update, userId);
+  cached = null;
+  return getSystemSettings();
+}
@@ -1,65 +1,185 @@
 import { 
   users, 
+  departments,
   documents, 
   approvals, 
   tasks, 
   policyAcceptances, 
+  policyAssignments,
+  policyAssignees,
   activities, 
   documentVersions,
+  approvalWorkflows,
+  documentCategories,
+  documentCodeSequences,
+  documentAttachments,
+  invitations,
+  systemSettings,
+  loginAttempts,
+  apiTokens,
+  rolePermissions,
   type User, 
   type InsertUser, 
+  type Department,
+  type InsertDepartment,
   type Document, 
   type InsertDocument, 
+  type DocumentStatus,
   type Approval, 
   type InsertApproval, 
   type Task, 
   type InsertTask, 
   type PolicyAcceptance, 
   type InsertPolicyAcceptance, 
+  type PolicyAssignment,
+  type InsertPolicyAssignment,
+  type PolicyAssignee,
+  type InsertPolicyAssignee,
   type Activity, 
   type InsertActivity, 
   type DocumentVersion, 
-  type InsertDocumentVersion 
+  type InsertDocumentVersion,
+  type ApprovalWorkflow,
+  type InsertApprovalWorkflow,
+  type DocumentCategory,
+  type InsertDocumentCategory,
+  type DocumentAttachment,
+  type InsertDocumentAttachment,
+  type Invitation,
+  type InsertInvitation,
+  type SystemSettings,
+  type RolePermissions,
+  type Permission,
+  type UserRole,
+  type LoginAttempt,
+  type ApiToken,
+  type InsertApiToken,
+  type SearchQuery,
+  type SearchResponse,
+  type Page,
+  type DocumentListQuery,
+  type TaskListQuery,
+  type ApprovalListQuery,
+  type UserListQuery,
+  type ActivityListQuery,
+  SEARCH_HIGHLIGHT_START,
+  SEARCH_HIGHLIGHT_END,
+  DEFAULT_USER_PREFERENCES,
+  DEFAULT_DEPARTMENTS,
+  DEFAULT_DOCUMENT_CATEGORIES,
+  formatDocumentCode
 } from "@shared/schema";
-import session from "express-session";
+import session, { type SessionData } from "express-session";
 import createMemoryStore from "memorystore";
 import connectPg from "connect-pg-simple";
 import { db, pool } from "./db";
-import { eq, and, desc, inArray } from "drizzle-orm";
+import { eq, and, or, desc, ilike, inArray, isNotNull, isNull, lt, lte, sql, type SQL } from "drizzle-orm";
+import { searchInMemory } from "./search";
+import {
+  inList,
+  inDateRange,
+  paginateInMemory,
+  pageOffset,
+  inListCondition,
+  dateRangeConditions,
+  orderByFields,
+  enumOrder
+} from "./list-query";
 
 const MemoryStore = createMemoryStore(session);
 const PostgresSessionStore = connectPg(session);
 
+// Unweighted text of each searchable row, indexed (GIN) so a search only ranks the documents
+// containing one of its words. Queries have to repeat these expressions for the indexes to apply.
+const DOCUMENT_SEARCH_VECTOR = sql.raw(`to_tsvector('spanish_unaccent', coalesce(code, '') || ' ' || title || ' ' || coalesce(description, '') || ' ' || coalesce(tags::text, '') || ' ' || content)`);
+const VERSION_SEARCH_VECTOR = sql.raw(`to_tsvector('spanish_unaccent', title || ' ' || coalesce(description, '') || ' ' || coalesce(tags::text, '') || ' ' || content)`);
+const ATTACHMENT_SEARCH_VECTOR = sql.raw(`to_tsvector('spanish_unaccent', coalesce(extracted_text, ''))`);
+
+const SEARCH_INDEXES = [
+  { name: "documents_search_idx", table: documents, vector: DOCUMENT_SEARCH_VECTOR },
+  { name: "document_versions_search_idx", table: documentVersions, vector: VERSION_SEARCH_VECTOR },
+  { name: "document_attachments_search_idx", table: documentAttachments, vector: ATTACHMENT_SEARCH_VECTOR },
+];
+
+// Search runs as a single statement returning one row: the filtered total, the requested page and
+// the facet counts, the last two aggregated as JSON
+type SearchResultRow = {
+  id: number;
+  code: string | null;
+  title: string;
+  description: string | null;
+  category: string;
+  department: string;
+  status: DocumentStatus;
+  version: string;
+  updated_at: string;
+  rank: number;
+  title_highlight: string;
+  snippet: string;
+};
+
+type SearchFacetRow = {
+  facet: keyof SearchResponse["facets"];
+  value: string;
+  count: number;
+};
+
+type SearchRow = {
+  total: number;
+  results: SearchResultRow[];
+  facets: SearchFacetRow[];
+};
+
 // Interface for storage methods
 export interface IStorage {
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  // Active users only
   getUsersByRole(roles: string[]): Promise<User[]>;
-  getAllUsers(): Promise<User[]>;
+  listUsers(query: UserListQuery): Promise<Page<User>>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, user: Partial<User>): Promise<User>;
   
-  // Document methods
-  getDocument(id: number): Promise<Document | undefined>;
-  getAllDocuments(): Promise<Document[]>;
+  // Department methods; getAllDepartments includes inactive departments
+  getDepartment(id: number): Promise<Department | undefined>;
+  getDepartmentByCode(code: string): Promise<Department | undefined>;
+  getAllDepartments(): Promise<Department[]>;
+  createDepartment(department: InsertDepartment): Promise<Department>;
+  updateDepartment(id: number, department: Partial<Department>): Promise<Department>;
+  deleteDepartment(id: number): Promise<void>;
+  // Whether users, documents, invitations, approval workflows or subdepartments refer to it
+  isDepartmentInUse(department: Department): Promise<boolean>;
+  
+  // Document methods. With a viewer, documents the viewer may not see are left out.
+  getDocument(id: number, viewer?: DocumentViewer): Promise<Document | undefined>;
+  // Whether the viewer sees the document's working draft, versions and attachments, rather
+  // than only its published version
+  hasWorkingAccess(document: Document, viewer?: DocumentViewer): Promise<boolean>;
+  listDocuments(query: DocumentListQuery, viewer?: DocumentViewer): Promise<Page<Document>>;
   getDocumentsByUser(userId: number): Promise<Document[]>;
   createDocument(document: InsertDocument): Promise<Document>;
   updateDocument(id: number, document: Partial<Document>): Promise<Document>;
   deleteDocument(id: number): Promise<void>;
+  // Gives the document its controlled code with the next number for its department and this
+  // prefix; documents that already have one are returned unchanged
+  assignDocumentCode(id: number, prefix: string): Promise<Document>;
+  // Moves an in-review document from one approval stage to another (null closes the round) only
+  // if it is still at that stage of that round; undefined when another decision got there first
+  moveApprovalStage(id: number, round: number, fromStage: number, toStage: number | null): Promise<Document | undefined>;
+  // Approved documents whose next periodic review is due by this date and have no review task yet
+  getDocumentsDueForReview(before: Date): Promise<Document[]>;
   
   // Approval methods
   getApproval(id: number): Promise<Approval | undefined>;
-  getAllApprovals(): Promise<Approval[]>;
-  getApprovalsByUser(userId: number): Promise<Approval[]>;
+  listApprovals(query: ApprovalListQuery): Promise<Page<Approval>>;
   getApprovalsByDocumentId(documentId: number): Promise<Approval[]>;
   createApproval(approval: InsertApproval): Promise<Approval>;
   updateApproval(id: number, approval: Partial<Approval>): Promise<Approval>;
   
   // Task methods
   getTask(id: number): Promise<Task | undefined>;
-  getAllTasks(): Promise<Task[]>;
-  getTasksByAssignee(userId: number): Promise<Task[]>;
+  listTasks(query: TaskListQuery): Promise<Page<Task>>;
   createTask(task: InsertTask): Promise<Task>;
   updateTask(id: number, task: Partial<Task>): Promise<Task>;
   
@@ -68,10 +188,23 @@ export interface IStorage {
   getPolicyAcceptancesByUser(userId: number): Promise<PolicyAcceptance[]>;
   getPolicyAcceptancesByDocument(documentId: number): Promise<PolicyAcceptance[]>;
   createPolicyAcceptance(acceptance: InsertPolicyAcceptance): Promise<PolicyAcceptance>;
+  updatePolicyAcceptance(id: number, acceptance: Partial<PolicyAcceptance>): Promise<PolicyAcceptance>;
+  
+  // Policy assignment methods; deleting an assignment deletes its assignees
+  getPolicyAssignment(id: number): Promise<PolicyAssignment | undefined>;
+  getPolicyAssignmentsByDocument(documentId: number): Promise<PolicyAssignment[]>;
+  getAllPolicyAssignments(): Promise<PolicyAssignment[]>;
+  createPolicyAssignment(assignment: InsertPolicyAssignment): Promise<PolicyAssignment>;
+  deletePolicyAssignment(id: number): Promise<void>;
+  getPolicyAssignees(assignmentId: number): Promise<PolicyAssignee[]>;
+  getPolicyAssigneesByUser(userId: number): Promise<PolicyAssignee[]>;
+  createPolicyAssignee(assignee: InsertPolicyAssignee): Promise<PolicyAssignee>;
+  updatePolicyAssignee(id: number, assignee: Partial<PolicyAssignee>): Promise<PolicyAssignee>;
   
   // Activity methods
   getActivity(id: number): Promise<Activity | undefined>;
-  getRecentActivities(limit: number): Promise<Activity[]>;
+  // With a viewer, activities the viewer may not see are left out
+  listActivities(query: ActivityListQuery, viewer?: ActivityViewer): Promise<Page<Activity>>;
   createActivity(activity: InsertActivity): Promise<Activity>;
   
   // Document version methods
@@ -79,45 +212,209 @@ export interface IStorage {
   getDocumentVersionsByDocument(documentId: number): Promise<DocumentVersion[]>;
   createDocumentVersion(version: InsertDocumentVersion): Promise<DocumentVersion>;
   
+  // Approval workflow methods
+  getApprovalWorkflow(id: number): Promise<ApprovalWorkflow | undefined>;
+  getAllApprovalWorkflows(): Promise<ApprovalWorkflow[]>;
+  createApprovalWorkflow(workflow: InsertApprovalWorkflow): Promise<ApprovalWorkflow>;
+  updateApprovalWorkflow(id: number, workflow: Partial<ApprovalWorkflow>): Promise<ApprovalWorkflow>;
+  deleteApprovalWorkflow(id: number): Promise<void>;
+  
+  // Document category methods; getAllDocumentCategories includes inactive categories
+  getDocumentCategory(id: number): Promise<DocumentCategory | undefined>;
+  getDocumentCategoryByCode(code: string): Promise<DocumentCategory | undefined>;
+  getAllDocumentCategories(): Promise<DocumentCategory[]>;
+  createDocumentCategory(category: InsertDocumentCategory): Promise<DocumentCategory>;
+  updateDocumentCategory(id: number, category: Partial<DocumentCategory>): Promise<DocumentCategory>;
+  deleteDocumentCategory(id: number): Promise<void>;
+  // Whether documents or approval workflows refer to it
+  isDocumentCategoryInUse(category: DocumentCategory): Promise<boolean>;
+  
+  // Document attachment methods
+  getDocumentAttachment(id: number): Promise<DocumentAttachment | undefined>;
+  getDocumentAttachments(documentId: number, includeDeleted?: boolean): Promise<DocumentAttachment[]>;
+  createDocumentAttachment(attachment: InsertDocumentAttachment): Promise<DocumentAttachment>;
+  deleteDocumentAttachment(id: number): Promise<DocumentAttachment>;
+  
+  // Registration invitation methods
+  getInvitation(id: number): Promise<Invitation | undefined>;
+  getInvitationByTokenHash(tokenHash: string): Promise<Invitation | undefined>;
+  getAllInvitations(): Promise<Invitation[]>;
+  createInvitation(invitation: InsertInvitation): Promise<Invitation>;
+  updateInvitation(id: number, invitation: Partial<Invitation>): Promise<Invitation>;
+  
+  // System settings; only the keys that were saved at some point are returned
+  getSystemSettings(): Promise<Partial<SystemSettings>>;
+  updateSystemSettings(settings: Partial<SystemSettings>, updatedBy: number): Promise<void>;
+  
+  // Role permissions; only the roles that were changed at some point are returned
+  getRolePermissions(): Promise<Partial<RolePermissions>>;
+  updateRolePermissions(role: UserRole, permissions: Permission[], updatedBy: number): Promise<void>;
+  
+  // Failed login counters. recordFailedLogin increments atomically, starting over when the
+  // previous failure happened before resetBefore.
+  getLoginAttempt(key: string): Promise<LoginAttempt | undefined>;
+  recordFailedLogin(key: string, at: Date, resetBefore: Date): Promise<LoginAttempt>;
+  lockLoginAttempt(key: string, lockedUntil: Date): Promise<void>;
+  clearLoginAttempt(key: string): Promise<void>;
+  
+  // Personal API token methods; getApiTokensByUser leaves out revoked tokens
+  getApiToken(id: number): Promise<ApiToken | undefined>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  getApiTokensByUser(userId: number): Promise<ApiToken[]>;
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  updateApiToken(id: number, token: Partial<ApiToken>): Promise<ApiToken>;
+  
+  // Full-text search over documents, their versions and attachment text
+  searchDocuments(query: SearchQuery, viewer?: DocumentViewer): Promise<SearchResponse>;
+  
   // Session store
   sessionStore: any;
+  // Signs a user out everywhere, optionally keeping the session that asked for it
+  destroyUserSessions(userId: number, exceptSessionId?: string): Promise<void>;
+  getUserSessions(userId: number): Promise<StoredSession[]>;
+  destroySession(sessionId: string): Promise<void>;
+}
+
+// Who is asking for documents, as resolved by document-access.ts. Everyone sees the documents
+// they wrote or review and the published ones in effect that are shared with their department.
+// Those who only read a published document see its published version, never the revision in
+// progress.
+export interface DocumentViewer {
+  userId: number;
+  department: string;
+  // Every document, published or not
+  viewAll: boolean;
+  // Unpublished documents of the viewer's own department
+  viewDepartment: boolean;
+}
+
+// Who is asking for the activity log. Events on documents, their policy and approvals follow
+// the document rules; the rest (users, settings, security) need viewSystem. Everyone sees their
+// own actions.
+export interface ActivityViewer extends DocumentViewer {
+  viewSystem: boolean;
+}
+
+// Activities whose entityId is a document id
+const DOCUMENT_ACTIVITY_TYPES = ["document", "policy"];
+
+// Whether the viewer works on the document (writes, reviews or oversees it) and so sees its
+// working draft. Approvers outside these rules are found by the storage.
+function worksOnDocument(doc: Document, viewer?: DocumentViewer): boolean {
+  return !viewer || viewer.viewAll ||
+    doc.createdBy === viewer.userId ||
+    doc.reviewerIds.includes(viewer.userId) ||
+    (viewer.viewDepartment && doc.department === viewer.department);
+}
+
+// Documents withdrawn from use, which only those who work on them still see
+const WITHDRAWN_STATUSES: DocumentStatus[] = ["obsolete", "archived"];
+
+// Whether readers outside the document's working group see its published version
+function isReadable(doc: Document, viewer: DocumentViewer): boolean {
+  return doc.publishedVersion !== null &&
+    !WITHDRAWN_STATUSES.includes(doc.status) &&
+    (doc.visibleDepartments.length === 0 || doc.visibleDepartments.includes(viewer.department));
+}
+
+function hasRevisionInProgress(doc: Document): boolean {
+  return doc.publishedVersion !== null && doc.version !== doc.publishedVersion;
+}
+
+// The document as it reads in one of its recorded versions
+function withVersion(doc: Document, version: DocumentVersion): Document {
+  return {
+    ...doc,
+    version: version.version,
+    title: version.title,
+    description: version.description,
+    tags: version.tags,
+    content: version.content,
+  };
+}
+
+// A raw entry of the session store belonging to a signed-in user
+export interface StoredSession {
+  sid: string;
+  sess: SessionData;
+  expiresAt: Date | null;
 }
 
 // In-memory storage implementation
 export class MemStorage implements IStorage {
   private usersMap: Map<number, User>;
+  private departmentsMap: Map<number, Department>;
   private documentsMap: Map<number, Document>;
   private approvalsMap: Map<number, Approval>;
   private tasksMap: Map<number, Task>;
   private policyAcceptancesMap: Map<number, PolicyAcceptance>;
+  private policyAssignmentsMap: Map<number, PolicyAssignment>;
+  private policyAssigneesMap: Map<number, PolicyAssignee>;
   private activitiesMap: Map<number, Activity>;
   private documentVersionsMap: Map<number, DocumentVersion>;
+  private approvalWorkflowsMap: Map<number, ApprovalWorkflow>;
+  private documentCategoriesMap: Map<number, DocumentCategory>;
+  private documentCodeSequencesMap: Map<string, number>;
+  private documentAttachmentsMap: Map<number, DocumentAttachment>;
+  private invitationsMap: Map<number, Invitation>;
+  private systemSettingsMap: Map<string, unknown>;
+  private rolePermissionsMap: Map<UserRole, Permission[]>;
+  private loginAttemptsMap: Map<string, LoginAttempt>;
+  private apiTokensMap: Map<number, ApiToken>;
   sessionStore: any;
   
   private userIdCounter: number;
+  private departmentIdCounter: number;
   private documentIdCounter: number;
   private approvalIdCounter: number;
   private taskIdCounter: number;
   private policyAcceptanceIdCounter: number;
+  private policyAssignmentIdCounter: number;
+  private policyAssigneeIdCounter: number;
   private activityIdCounter: number;
   private documentVersionIdCounter: number;
+  private approvalWorkflowIdCounter: number;
+  private documentCategoryIdCounter: number;
+  private documentAttachmentIdCounter: number;
+  private invitationIdCounter: number;
+  private apiTokenIdCounter: number;
 
   constructor() {
     this.usersMap = new Map();
+    this.departmentsMap = new Map();
     this.documentsMap = new Map();
     this.approvalsMap = new Map();
     this.tasksMap = new Map();
     this.policyAcceptancesMap = new Map();
+    this.policyAssignmentsMap = new Map();
+    this.policyAssigneesMap = new Map();
     this.activitiesMap = new Map();
     this.documentVersionsMap = new Map();
+    this.approvalWorkflowsMap = new Map();
+    this.documentCategoriesMap = new Map();
+    this.documentCodeSequencesMap = new Map();
+    this.documentAttachmentsMap = new Map();
+    this.invitationsMap = new Map();
+    this.systemSettingsMap = new Map();
+    this.rolePermissionsMap = new Map();
+    this.loginAttemptsMap = new Map();
+    this.apiTokensMap = new Map();
     
     this.userIdCounter = 1;
+    this.departmentIdCounter = 1;
     this.documentIdCounter = 1;
     this.approvalIdCounter = 1;
     this.taskIdCounter = 1;
     this.policyAcceptanceIdCounter = 1;
+    this.policyAssignmentIdCounter = 1;
+    this.policyAssigneeIdCounter = 1;
     this.activityIdCounter = 1;
     this.documentVersionIdCounter = 1;
+    this.approvalWorkflowIdCounter = 1;
+    this.documentCategoryIdCounter = 1;
+    this.documentAttachmentIdCounter = 1;
+    this.invitationIdCounter = 1;
+    this.apiTokenIdCounter = 1;
     
     this.sessionStore = new MemoryStore({
       checkPeriod: 86400000 // 24 hours
@@ -128,55 +425,66 @@ export class MemStorage implements IStorage {
 
   // Seed some initial data
   private seedData() {
+    for (const { code, name } of DEFAULT_DEPARTMENTS) {
+      this.createDepartment({ code, name });
+    }
+    for (const category of DEFAULT_DOCUMENT_CATEGORIES) {
+      this.createDocumentCategory(category);
+    }
+    
     // Add admin user
     this.createUser({
       username: "admin",
-      password: "$argon2id$v=19$m=65536,t=3,p=4$Tpn5uQD5VnEXo0QiR4xoaw$ADxB9Lx2mHnsBvQyhZ/7HN1GWnpQDeLWZWGQ/xVpgII.86b13ea8c8da2a282b4b7202e2594f41", // "admin123"
+      password: "$argon2id$v=19$m=65536,p=4,t=3$ZI4RmbuzqksUnJKTTIz1gg$IldcsLqkODqTf2MzEwE2YZOzEVfRC8KcShJJCZbkLRI", // "admin123"
       name: "Admin User",
       email: "admin@cerater.com",
       role: "admin",
-      department: "Administration"
+      department: "ADM"
     });
     
     // Add manager user
     this.createUser({
       username: "manager",
-      password: "$argon2id$v=19$m=65536,t=3,p=4$Tpn5uQD5VnEXo0QiR4xoaw$ADxB9Lx2mHnsBvQyhZ/7HN1GWnpQDeLWZWGQ/xVpgII.86b13ea8c8da2a282b4b7202e2594f41", // "manager123"
+      password: "$argon2id$v=19$m=65536,p=4,t=3$9xEug17sb1hY0RlLBVF0EQ$x8zDvU+YZB5L2inJD92LE3soB8FHK/kQ+fboJCWaoXE", // "manager123"
       name: "Roberto Sánchez",
       email: "manager@cerater.com",
       role: "manager",
-      department: "Production"
+      department: "PRD"
     });
     
     // Add coordinator user
     this.createUser({
       username: "coordinator",
-      password: "$argon2id$v=19$m=65536,t=3,p=4$Tpn5uQD5VnEXo0QiR4xoaw$ADxB9Lx2mHnsBvQyhZ/7HN1GWnpQDeLWZWGQ/xVpgII.86b13ea8c8da2a282b4b7202e2594f41", // "coordinator123"
+      password: "$argon2id$v=19$m=65536,p=4,t=3$6ALkLmVKqVH2ZSxwkR4D8Q$UsMMYnmM4Zs0IeuVAp1PzlxaZIxg2CTCpu5GbTl42OY", // "coordinator123"
       name: "Ana Martínez",
       email: "coordinator@cerater.com",
       role: "coordinator",
-      department: "Quality"
+      department: "CAL"
     });
     
     // Add analyst user
     this.createUser({
       username: "analyst",
-      password: "$argon2id$v=19$m=65536,t=3,p=4$Tpn5uQD5VnEXo0QiR4xoaw$ADxB9Lx2mHnsBvQyhZ/7HN1GWnpQDeLWZWGQ/xVpgII.86b13ea8c8da2a282b4b7202e2594f41", // "analyst123"
+      password: "$argon2id$v=19$m=65536,p=4,t=3$Aqrnu/Wqt8QYABUyw5mwhg$r2fdKm8YjHIXCynrkyXZWGJaGIu3l51kmqWgPf8SUTE", // "analyst123"
       name: "Carlos Ramírez",
       email: "analyst@cerater.com",
       role: "analyst",
-      department: "Operations"
+      department: "OPS"
     });
     
     // Add operator user
     this.createUser({
       username: "operator",
-      password: "$argon2id$v=19$m=65536,t=3,p=4$Tpn5uQD5VnEXo0QiR4xoaw$ADxB9Lx2mHnsBvQyhZ/7HN1GWnpQDeLWZWGQ/xVpgII.86b13ea8c8da2a282b4b7202e2594f41", // "operator123"
+      password: "$argon2id$v=19$m=65536,p=4,t=3$DQJ0uqgVjUK738g1OXFhXQ$SfQHTb6n6Z+8O6aQyWBXrzSY2/w4NprwHQygOzXMC1U", // "operator123"
       name: "María Gómez",
       email: "operator@cerater.com",
       role: "operator",
-      department: "Production"
+      department: "PRD"
     });
+    
+    // The manager and the coordinator head their departments
+    this.departmentsMap.get(2)!.headUserId = 2;
+    this.departmentsMap.get(3)!.headUserId = 3;
   }
 
   // User methods
@@ -192,18 +500,43 @@ export class MemStorage implements IStorage {
 
   async getUsersByRole(roles: string[]): Promise<User[]> {
     return Array.from(this.usersMap.values()).filter(
-      (user) => roles.includes(user.role)
+      (user) => user.active && roles.includes(user.role)
     );
   }
 
-  async getAllUsers(): Promise<User[]> {
-    return Array.from(this.usersMap.values());
+  async listUsers(query: UserListQuery): Promise<Page<User>> {
+    const term = query.q?.toLowerCase();
+    const matching = Array.from(this.usersMap.values()).filter((user) =>
+      inList(user.id, query.id) &&
+      inList(user.role, query.role) &&
+      inList(user.department, query.department) &&
+      (query.active === undefined || user.active === query.active) &&
+      (!term || [user.name, user.username, user.email].some((value) => value.toLowerCase().includes(term)))
+    );
+    return paginateInMemory(matching, query, (user, field) => user[field]);
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.userIdCounter++;
     const now = new Date();
-    const user: User = { ...insertUser, id, createdAt: now };
+    const user: User = { 
+      ...insertUser, 
+      id, 
+      createdAt: now,
+      role: insertUser.role ?? "analyst",
+      active: insertUser.active ?? true,
+      deactivatedAt: null,
+      mustChangePassword: insertUser.mustChangePassword ?? false,
+      passwordChangedAt: now,
+      passwordHistory: [],
+      lockedUntil: null,
+      sessionsRevokedAt: null,
+      preferences: insertUser.preferences ?? DEFAULT_USER_PREFERENCES,
+      totpSecret: null,
+      totpEnabled: false,
+      totpLastUsedStep: null,
+      totpRecoveryCodes: []
+    };
     this.usersMap.set(id, user);
     return user;
   }
@@ -219,13 +552,109 @@ export class MemStorage implements IStorage {
     return updatedUser;
   }
 
+  // Department methods
+  async getDepartment(id: number): Promise<Department | undefined> {
+    return this.departmentsMap.get(id);
+  }
+
+  async getDepartmentByCode(code: string): Promise<Department | undefined> {
+    return Array.from(this.departmentsMap.values()).find((department) => department.code === code);
+  }
+
+  async getAllDepartments(): Promise<Department[]> {
+    return Array.from(this.departmentsMap.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createDepartment(insertDepartment: InsertDepartment): Promise<Department> {
+    const id = this.departmentIdCounter++;
+    const now = new Date();
+    const department: Department = {
+      ...insertDepartment,
+      id,
+      parentId: insertDepartment.parentId ?? null,
+      headUserId: insertDepartment.headUserId ?? null,
+      active: insertDepartment.active ?? true,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.departmentsMap.set(id, department);
+    return department;
+  }
+
+  async updateDepartment(id: number, departmentUpdate: Partial<Department>): Promise<Department> {
+    const department = await this.getDepartment(id);
+    if (!department) {
+      throw new Error("Department not found");
+    }
+    
+    const updatedDepartment = { ...department, ...departmentUpdate, updatedAt: new Date() };
+    this.departmentsMap.set(id, updatedDepartment);
+    return updatedDepartment;
+  }
+
+  async deleteDepartment(id: number): Promise<void> {
+    this.departmentsMap.delete(id);
+  }
+
+  async isDepartmentInUse(department: Department): Promise<boolean> {
+    const { id, code } = department;
+    return Array.from(this.usersMap.values()).some((user) => user.department === code) ||
+      Array.from(this.documentsMap.values()).some((doc) => doc.department === code || doc.visibleDepartments.includes(code)) ||
+      Array.from(this.invitationsMap.values()).some((invitation) => invitation.department === code) ||
+      Array.from(this.approvalWorkflowsMap.values()).some((workflow) =>
+        workflow.department === code || workflow.stages.some((stage) => stage.department === code)
+      ) ||
+      Array.from(this.departmentsMap.values()).some((child) => child.parentId === id);
+  }
+
   // Document methods
-  async getDocument(id: number): Promise<Document | undefined> {
-    return this.documentsMap.get(id);
+  private workingAccess(doc: Document, viewer?: DocumentViewer): boolean {
+    return worksOnDocument(doc, viewer) ||
+      Array.from(this.approvalsMap.values()).some(
+        (approval) => approval.documentId === doc.id && approval.userId === viewer?.userId
+      );
+  }
+
+  private isDocumentVisible(doc: Document, viewer?: DocumentViewer): boolean {
+    if (!viewer || viewer.viewAll) return true;
+    return isReadable(doc, viewer) || this.workingAccess(doc, viewer);
+  }
+
+  // Readers get the published version of a document while a revision is in progress
+  private viewDocument(doc: Document, viewer?: DocumentViewer, published = false): Document {
+    if (!hasRevisionInProgress(doc) || (!published && this.workingAccess(doc, viewer))) return doc;
+
+    const version = this.publishedSnapshot(doc);
+    return version ? withVersion(doc, version) : doc;
+  }
+
+  private publishedSnapshot(doc: Document): DocumentVersion | undefined {
+    return Array.from(this.documentVersionsMap.values())
+      .filter((v) => v.documentId === doc.id && v.isPublished && v.version === doc.publishedVersion)
+      .sort((a, b) => b.id - a.id)[0];
+  }
+
+  async getDocument(id: number, viewer?: DocumentViewer): Promise<Document | undefined> {
+    const document = this.documentsMap.get(id);
+    return document && this.isDocumentVisible(document, viewer) ? this.viewDocument(document, viewer) : undefined;
+  }
+
+  async hasWorkingAccess(document: Document, viewer?: DocumentViewer): Promise<boolean> {
+    return this.workingAccess(document, viewer);
   }
 
-  async getAllDocuments(): Promise<Document[]> {
-    return Array.from(this.documentsMap.values());
+  async listDocuments(query: DocumentListQuery, viewer?: DocumentViewer): Promise<Page<Document>> {
+    const matching = Array.from(this.documentsMap.values()).filter((doc) =>
+      this.isDocumentVisible(doc, viewer) &&
+      inList(doc.status, query.status) &&
+      inList(doc.department, query.department) &&
+      inList(doc.category, query.category) &&
+      inList(doc.createdBy, query.createdBy) &&
+      inDateRange(doc.createdAt, query.createdFrom, query.createdTo) &&
+      inDateRange(doc.updatedAt, query.updatedFrom, query.updatedTo) &&
+      inDateRange(doc.nextReviewAt, undefined, query.reviewDueTo)
+    ).map((doc) => this.viewDocument(doc, viewer, query.published));
+    return paginateInMemory(matching, query, (doc, field) => doc[field]);
   }
 
   async getDocumentsByUser(userId: number): Promise<Document[]> {
@@ -242,7 +671,26 @@ export class MemStorage implements IStorage {
       id, 
       createdAt: now, 
       updatedAt: now,
-      tags: insertDocument.tags || []
+      tags: insertDocument.tags || [],
+      reviewerIds: insertDocument.reviewerIds || [],
+      autoAssignReviewers: insertDocument.autoAssignReviewers ?? true,
+      visibleDepartments: insertDocument.visibleDepartments || [],
+      metadata: insertDocument.metadata || {},
+      status: "draft",
+      statusChangedAt: null,
+      statusChangedBy: null,
+      statusReason: null,
+      supersededBy: null,
+      reviewPeriodMonths: insertDocument.reviewPeriodMonths ?? null,
+      lastReviewedAt: null,
+      nextReviewAt: null,
+      reviewTaskId: null,
+      code: null,
+      approvalWorkflowId: null,
+      approvalStage: null,
+      approvalRound: 0,
+      approvalStages: null,
+      publishedVersion: null
     };
     this.documentsMap.set(id, document);
     return document;
@@ -260,23 +708,59 @@ export class MemStorage implements IStorage {
     return updatedDocument;
   }
 
+  async moveApprovalStage(id: number, round: number, fromStage: number, toStage: number | null): Promise<Document | undefined> {
+    // Read and written without awaiting in between, so concurrent decisions cannot both move it
+    const document = this.documentsMap.get(id);
+    if (!document || document.status !== "in_review" || document.approvalRound !== round || document.approvalStage !== fromStage) {
+      return undefined;
+    }
+
+    const updatedDocument = { ...document, approvalStage: toStage, updatedAt: new Date() };
+    this.documentsMap.set(id, updatedDocument);
+    return updatedDocument;
+  }
+
   async deleteDocument(id: number): Promise<void> {
     this.documentsMap.delete(id);
   }
 
+  async assignDocumentCode(id: number, prefix: string): Promise<Document> {
+    const document = this.documentsMap.get(id);
+    if (!document) {
+      throw new Error("Document not found");
+    }
+    if (document.code) {
+      return document;
+    }
+    
+    const key = `${document.department}-${prefix}`;
+    const number = (this.documentCodeSequencesMap.get(key) ?? 0) + 1;
+    this.documentCodeSequencesMap.set(key, number);
+    
+    const codedDocument = { ...document, code: formatDocumentCode(document.department, prefix, number) };
+    this.documentsMap.set(id, codedDocument);
+    return codedDocument;
+  }
+
+  async getDocumentsDueForReview(before: Date): Promise<Document[]> {
+    return Array.from(this.documentsMap.values())
+      .filter((doc) => doc.nextReviewAt && doc.nextReviewAt <= before && !doc.reviewTaskId)
+      .sort((a, b) => a.nextReviewAt!.getTime() - b.nextReviewAt!.getTime());
+  }
+
   // Approval methods
   async getApproval(id: number): Promise<Approval | undefined> {
     return this.approvalsMap.get(id);
   }
 
-  async getAllApprovals(): Promise<Approval[]> {
-    return Array.from(this.approvalsMap.values());
-  }
-
-  async getApprovalsByUser(userId: number): Promise<Approval[]> {
-    return Array.from(this.approvalsMap.values()).filter(
-      (approval) => approval.userId === userId
+  async listApprovals(query: ApprovalListQuery): Promise<Page<Approval>> {
+    const matching = Array.from(this.approvalsMap.values()).filter((approval) =>
+      inList(approval.status, query.status) &&
+      inList(approval.documentId, query.documentId) &&
+      inList(approval.userId, query.userId) &&
+      inDateRange(approval.createdAt, query.createdFrom, query.createdTo)
     );
+    return paginateInMemory(matching, query, (approval, field) => approval[field]);
   }
 
   async getApprovalsByDocumentId(documentId: number): Promise<Approval[]> {
@@ -288,7 +772,14 @@ export class MemStorage implements IStorage {
   async createApproval(insertApproval: InsertApproval): Promise<Approval> {
     const id = this.approvalIdCounter++;
     const now = new Date();
-    const approval: Approval = { ...insertApproval, id, createdAt: now, approvedAt: null };
+    const approval: Approval = { 
+      ...insertApproval, 
+      id, 
+      createdAt: now, 
+      approvedAt: null,
+      stage: insertApproval.stage ?? 1,
+      round: insertApproval.round ?? 1
+    };
     this.approvalsMap.set(id, approval);
     return approval;
   }
@@ -309,13 +800,18 @@ export class MemStorage implements IStorage {
     return this.tasksMap.get(id);
   }
 
-  async getAllTasks(): Promise<Task[]> {
-    return Array.from(this.tasksMap.values());
-  }
-
-  async getTasksByAssignee(userId: number): Promise<Task[]> {
-    return Array.from(this.tasksMap.values()).filter(
-      (task) => task.assignedTo === userId
+  async listTasks(query: TaskListQuery): Promise<Page<Task>> {
+    const matching = Array.from(this.tasksMap.values()).filter((task) =>
+      inList(task.status, query.status) &&
+      inList(task.priority, query.priority) &&
+      inList(task.assignedTo, query.assignedTo) &&
+      inList(task.assignedBy, query.assignedBy) &&
+      (!query.documentId || (task.documentId !== null && query.documentId.includes(task.documentId))) &&
+      inDateRange(task.dueDate, query.dueFrom, query.dueTo) &&
+      inDateRange(task.createdAt, query.createdFrom, query.createdTo)
+    );
+    return paginateInMemory(matching, query, (task, field) =>
+      field === "priority" ? tasks.priority.enumValues.indexOf(task.priority) : task[field]
     );
   }
 
@@ -361,9 +857,11 @@ export class MemStorage implements IStorage {
   }
 
   async createPolicyAcceptance(insertAcceptance: InsertPolicyAcceptance): Promise<PolicyAcceptance> {
-    // Check if user has already accepted this policy
+    // Check if user has already accepted this version of the policy
     const existing = Array.from(this.policyAcceptancesMap.values()).find(
-      (a) => a.userId === insertAcceptance.userId && a.documentId === insertAcceptance.documentId
+      (a) => a.userId === insertAcceptance.userId &&
+        a.documentId === insertAcceptance.documentId &&
+        a.version === insertAcceptance.version
     );
     
     if (existing) {
@@ -372,20 +870,137 @@ export class MemStorage implements IStorage {
     
     const id = this.policyAcceptanceIdCounter++;
     const now = new Date();
-    const acceptance: PolicyAcceptance = { ...insertAcceptance, id, acceptedAt: now };
+    const acceptance: PolicyAcceptance = {
+      ...insertAcceptance,
+      id,
+      acceptedAt: now,
+      invalidatedAt: null,
+      supersededByVersion: null,
+      reacceptanceTaskId: null,
+    };
     this.policyAcceptancesMap.set(id, acceptance);
     return acceptance;
   }
 
+  async updatePolicyAcceptance(id: number, acceptanceUpdate: Partial<PolicyAcceptance>): Promise<PolicyAcceptance> {
+    const acceptance = await this.getPolicyAcceptance(id);
+    if (!acceptance) {
+      throw new Error("Policy acceptance not found");
+    }
+    
+    const updatedAcceptance = { ...acceptance, ...acceptanceUpdate };
+    this.policyAcceptancesMap.set(id, updatedAcceptance);
+    return updatedAcceptance;
+  }
+
+  // Policy assignment methods
+  async getPolicyAssignment(id: number): Promise<PolicyAssignment | undefined> {
+    return this.policyAssignmentsMap.get(id);
+  }
+
+  async getPolicyAssignmentsByDocument(documentId: number): Promise<PolicyAssignment[]> {
+    return Array.from(this.policyAssignmentsMap.values()).filter(
+      (assignment) => assignment.documentId === documentId
+    );
+  }
+
+  async getAllPolicyAssignments(): Promise<PolicyAssignment[]> {
+    return Array.from(this.policyAssignmentsMap.values());
+  }
+
+  async createPolicyAssignment(insertAssignment: InsertPolicyAssignment): Promise<PolicyAssignment> {
+    const id = this.policyAssignmentIdCounter++;
+    const now = new Date();
+    const assignment: PolicyAssignment = { ...insertAssignment, id, createdAt: now };
+    this.policyAssignmentsMap.set(id, assignment);
+    return assignment;
+  }
+
+  async deletePolicyAssignment(id: number): Promise<void> {
+    this.policyAssignmentsMap.delete(id);
+    for (const assignee of Array.from(this.policyAssigneesMap.values())) {
+      if (assignee.assignmentId === id) {
+        this.policyAssigneesMap.delete(assignee.id);
+      }
+    }
+  }
+
+  async getPolicyAssignees(assignmentId: number): Promise<PolicyAssignee[]> {
+    return Array.from(this.policyAssigneesMap.values()).filter(
+      (assignee) => assignee.assignmentId === assignmentId
+    );
+  }
+
+  async getPolicyAssigneesByUser(userId: number): Promise<PolicyAssignee[]> {
+    return Array.from(this.policyAssigneesMap.values()).filter(
+      (assignee) => assignee.userId === userId
+    );
+  }
+
+  async createPolicyAssignee(insertAssignee: InsertPolicyAssignee): Promise<PolicyAssignee> {
+    const existing = Array.from(this.policyAssigneesMap.values()).find(
+      (a) => a.assignmentId === insertAssignee.assignmentId && a.userId === insertAssignee.userId
+    );
+    
+    if (existing) {
+      return existing;
+    }
+    
+    const id = this.policyAssigneeIdCounter++;
+    const assignee: PolicyAssignee = {
+      ...insertAssignee,
+      id,
+      taskId: insertAssignee.taskId ?? null,
+      openedAt: null,
+      lastReminderAt: null,
+      reminderCount: 0,
+    };
+    this.policyAssigneesMap.set(id, assignee);
+    return assignee;
+  }
+
+  async updatePolicyAssignee(id: number, assigneeUpdate: Partial<PolicyAssignee>): Promise<PolicyAssignee> {
+    const assignee = this.policyAssigneesMap.get(id);
+    if (!assignee) {
+      throw new Error("Policy assignee not found");
+    }
+    
+    const updatedAssignee = { ...assignee, ...assigneeUpdate };
+    this.policyAssigneesMap.set(id, updatedAssignee);
+    return updatedAssignee;
+  }
+
   // Activity methods
   async getActivity(id: number): Promise<Activity | undefined> {
     return this.activitiesMap.get(id);
   }
 
-  async getRecentActivities(limit: number): Promise<Activity[]> {
-    return Array.from(this.activitiesMap.values())
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
-      .slice(0, limit);
+  private isActivityVisible(activity: Activity, viewer?: ActivityViewer): boolean {
+    if (!viewer || activity.userId === viewer.userId) return true;
+    
+    let documentId: number | undefined;
+    if (DOCUMENT_ACTIVITY_TYPES.includes(activity.entityType)) {
+      documentId = activity.entityId;
+    } else if (activity.entityType === "approval") {
+      documentId = this.approvalsMap.get(activity.entityId)?.documentId;
+    } else {
+      return viewer.viewSystem;
+    }
+    // Events on deleted documents are left to those who see every document
+    const document = documentId === undefined ? undefined : this.documentsMap.get(documentId);
+    return document ? this.isDocumentVisible(document, viewer) : viewer.viewAll;
+  }
+
+  async listActivities(query: ActivityListQuery, viewer?: ActivityViewer): Promise<Page<Activity>> {
+    const matching = Array.from(this.activitiesMap.values()).filter((activity) =>
+      this.isActivityVisible(activity, viewer) &&
+      inList(activity.userId, query.userId) &&
+      inList(activity.action, query.action) &&
+      inList(activity.entityType, query.entityType) &&
+      inList(activity.entityId, query.entityId) &&
+      inDateRange(activity.createdAt, query.createdFrom, query.createdTo)
+    );
+    return paginateInMemory(matching, query, (activity, field) => activity[field]);
   }
 
   async createActivity(insertActivity: InsertActivity): Promise<Activity> {
@@ -409,16 +1024,353 @@ export class MemStorage implements IStorage {
   async getDocumentVersionsByDocument(documentId: number): Promise<DocumentVersion[]> {
     return Array.from(this.documentVersionsMap.values())
       .filter((version) => version.documentId === documentId)
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
   }
 
   async createDocumentVersion(insertVersion: InsertDocumentVersion): Promise<DocumentVersion> {
     const id = this.documentVersionIdCounter++;
     const now = new Date();
-    const version: DocumentVersion = { ...insertVersion, id, createdAt: now };
+    const version: DocumentVersion = {
+      ...insertVersion,
+      id,
+      title: insertVersion.title ?? "",
+      description: insertVersion.description ?? null,
+      tags: (insertVersion.tags as string[] | null | undefined) ?? [],
+      attachmentIds: (insertVersion.attachmentIds as number[] | undefined) ?? [],
+      isPublished: insertVersion.isPublished ?? false,
+      createdAt: now
+    };
     this.documentVersionsMap.set(id, version);
     return version;
   }
+
+  // Approval workflow methods
+  async getApprovalWorkflow(id: number): Promise<ApprovalWorkflow | undefined> {
+    return this.approvalWorkflowsMap.get(id);
+  }
+
+  async getAllApprovalWorkflows(): Promise<ApprovalWorkflow[]> {
+    return Array.from(this.approvalWorkflowsMap.values());
+  }
+
+  async createApprovalWorkflow(insertWorkflow: InsertApprovalWorkflow): Promise<ApprovalWorkflow> {
+    const id = this.approvalWorkflowIdCounter++;
+    const now = new Date();
+    const workflow: ApprovalWorkflow = {
+      ...insertWorkflow,
+      id,
+      category: insertWorkflow.category ?? null,
+      department: insertWorkflow.department ?? null,
+      active: insertWorkflow.active ?? true,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.approvalWorkflowsMap.set(id, workflow);
+    return workflow;
+  }
+
+  async updateApprovalWorkflow(id: number, workflowUpdate: Partial<ApprovalWorkflow>): Promise<ApprovalWorkflow> {
+    const workflow = await this.getApprovalWorkflow(id);
+    if (!workflow) {
+      throw new Error("Approval workflow not found");
+    }
+    
+    const updatedWorkflow = { ...workflow, ...workflowUpdate, updatedAt: new Date() };
+    this.approvalWorkflowsMap.set(id, updatedWorkflow);
+    return updatedWorkflow;
+  }
+
+  async deleteApprovalWorkflow(id: number): Promise<void> {
+    this.approvalWorkflowsMap.delete(id);
+    for (const category of Array.from(this.documentCategoriesMap.values())) {
+      if (category.approvalWorkflowId === id) {
+        this.documentCategoriesMap.set(category.id, { ...category, approvalWorkflowId: null });
+      }
+    }
+  }
+
+  // Document category methods
+  async getDocumentCategory(id: number): Promise<DocumentCategory | undefined> {
+    return this.documentCategoriesMap.get(id);
+  }
+
+  async getDocumentCategoryByCode(code: string): Promise<DocumentCategory | undefined> {
+    return Array.from(this.documentCategoriesMap.values()).find((category) => category.code === code);
+  }
+
+  async getAllDocumentCategories(): Promise<DocumentCategory[]> {
+    return Array.from(this.documentCategoriesMap.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createDocumentCategory(insertCategory: InsertDocumentCategory): Promise<DocumentCategory> {
+    const id = this.documentCategoryIdCounter++;
+    const now = new Date();
+    const category: DocumentCategory = {
+      ...insertCategory,
+      id,
+      requiredFields: insertCategory.requiredFields ?? [],
+      approvalWorkflowId: insertCategory.approvalWorkflowId ?? null,
+      reviewPeriodMonths: insertCategory.reviewPeriodMonths ?? null,
+      template: insertCategory.template ?? "",
+      active: insertCategory.active ?? true,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.documentCategoriesMap.set(id, category);
+    return category;
+  }
+
+  async updateDocumentCategory(id: number, categoryUpdate: Partial<DocumentCategory>): Promise<DocumentCategory> {
+    const category = await this.getDocumentCategory(id);
+    if (!category) {
+      throw new Error("Document category not found");
+    }
+
+    const updatedCategory = { ...category, ...categoryUpdate, updatedAt: new Date() };
+    this.documentCategoriesMap.set(id, updatedCategory);
+    return updatedCategory;
+  }
+
+  async deleteDocumentCategory(id: number): Promise<void> {
+    this.documentCategoriesMap.delete(id);
+  }
+
+  async isDocumentCategoryInUse(category: DocumentCategory): Promise<boolean> {
+    return Array.from(this.documentsMap.values()).some((doc) => doc.category === category.code) ||
+      Array.from(this.approvalWorkflowsMap.values()).some((workflow) => workflow.category === category.code);
+  }
+
+  // Document attachment methods
+  async getDocumentAttachment(id: number): Promise<DocumentAttachment | undefined> {
+    return this.documentAttachmentsMap.get(id);
+  }
+
+  async getDocumentAttachments(documentId: number, includeDeleted = false): Promise<DocumentAttachment[]> {
+    return Array.from(this.documentAttachmentsMap.values())
+      .filter((attachment) => attachment.documentId === documentId && (includeDeleted || !attachment.deletedAt))
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createDocumentAttachment(insertAttachment: InsertDocumentAttachment): Promise<DocumentAttachment> {
+    const id = this.documentAttachmentIdCounter++;
+    const attachment: DocumentAttachment = {
+      ...insertAttachment,
+      id,
+      extractedText: insertAttachment.extractedText ?? null,
+      createdAt: new Date(),
+      deletedAt: null
+    };
+    this.documentAttachmentsMap.set(id, attachment);
+    return attachment;
+  }
+
+  async deleteDocumentAttachment(id: number): Promise<DocumentAttachment> {
+    const attachment = await this.getDocumentAttachment(id);
+    if (!attachment) {
+      throw new Error("Attachment not found");
+    }
+    
+    const deletedAttachment = { ...attachment, deletedAt: new Date() };
+    this.documentAttachmentsMap.set(id, deletedAttachment);
+    return deletedAttachment;
+  }
+
+  // Registration invitation methods
+  async getInvitation(id: number): Promise<Invitation | undefined> {
+    return this.invitationsMap.get(id);
+  }
+
+  async getInvitationByTokenHash(tokenHash: string): Promise<Invitation | undefined> {
+    return Array.from(this.invitationsMap.values()).find(
+      (invitation) => invitation.tokenHash === tokenHash
+    );
+  }
+
+  async getAllInvitations(): Promise<Invitation[]> {
+    return Array.from(this.invitationsMap.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async createInvitation(insertInvitation: InsertInvitation): Promise<Invitation> {
+    const id = this.invitationIdCounter++;
+    const invitation: Invitation = {
+      ...insertInvitation,
+      id,
+      email: insertInvitation.email ?? null,
+      role: insertInvitation.role ?? "analyst",
+      acceptedAt: null,
+      acceptedBy: null,
+      revokedAt: null,
+      createdAt: new Date()
+    };
+    this.invitationsMap.set(id, invitation);
+    return invitation;
+  }
+
+  async updateInvitation(id: number, invitationUpdate: Partial<Invitation>): Promise<Invitation> {
+    const invitation = await this.getInvitation(id);
+    if (!invitation) {
+      throw new Error("Invitation not found");
+    }
+    
+    const updatedInvitation = { ...invitation, ...invitationUpdate };
+    this.invitationsMap.set(id, updatedInvitation);
+    return updatedInvitation;
+  }
+
+  // System settings methods
+  async getSystemSettings(): Promise<Partial<SystemSettings>> {
+    return Object.fromEntries(this.systemSettingsMap) as Partial<SystemSettings>;
+  }
+
+  async updateSystemSettings(settings: Partial<SystemSettings>, updatedBy: number): Promise<void> {
+    for (const [key, value] of Object.entries(settings)) {
+      if (value !== undefined) {
+        this.systemSettingsMap.set(key, value);
+      }
+    }
+  }
+
+  // Role permission methods
+  async getRolePermissions(): Promise<Partial<RolePermissions>> {
+    return Object.fromEntries(this.rolePermissionsMap) as Partial<RolePermissions>;
+  }
+
+  async updateRolePermissions(role: UserRole, permissions: Permission[], updatedBy: number): Promise<void> {
+    this.rolePermissionsMap.set(role, permissions);
+  }
+
+  // Login attempt methods
+  async getLoginAttempt(key: string): Promise<LoginAttempt | undefined> {
+    return this.loginAttemptsMap.get(key);
+  }
+
+  async recordFailedLogin(key: string, at: Date, resetBefore: Date): Promise<LoginAttempt> {
+    const existing = this.loginAttemptsMap.get(key);
+    const attempt: LoginAttempt = existing && existing.lastFailureAt >= resetBefore
+      ? { ...existing, failures: existing.failures + 1, lastFailureAt: at }
+      : { key, failures: 1, lastFailureAt: at, lockedUntil: null };
+    this.loginAttemptsMap.set(key, attempt);
+    return attempt;
+  }
+
+  async lockLoginAttempt(key: string, lockedUntil: Date): Promise<void> {
+    const attempt = this.loginAttemptsMap.get(key);
+    if (attempt) {
+      this.loginAttemptsMap.set(key, { ...attempt, lockedUntil });
+    }
+  }
+
+  async clearLoginAttempt(key: string): Promise<void> {
+    this.loginAttemptsMap.delete(key);
+  }
+
+  // Personal API token methods
+  async getApiToken(id: number): Promise<ApiToken | undefined> {
+    return this.apiTokensMap.get(id);
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    return Array.from(this.apiTokensMap.values()).find(
+      (token) => token.tokenHash === tokenHash
+    );
+  }
+
+  async getApiTokensByUser(userId: number): Promise<ApiToken[]> {
+    return Array.from(this.apiTokensMap.values())
+      .filter((token) => token.userId === userId && !token.revokedAt)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const id = this.apiTokenIdCounter++;
+    const token: ApiToken = {
+      ...insertToken,
+      id,
+      lastUsedAt: null,
+      lastUsedIp: null,
+      revokedAt: null,
+      createdAt: new Date()
+    };
+    this.apiTokensMap.set(id, token);
+    return token;
+  }
+
+  async updateApiToken(id: number, tokenUpdate: Partial<ApiToken>): Promise<ApiToken> {
+    const token = await this.getApiToken(id);
+    if (!token) {
+      throw new Error("API token not found");
+    }
+    
+    const updatedToken = { ...token, ...tokenUpdate };
+    this.apiTokensMap.set(id, updatedToken);
+    return updatedToken;
+  }
+
+  // Search methods
+  async searchDocuments(query: SearchQuery, viewer?: DocumentViewer): Promise<SearchResponse> {
+    const attachments = Array.from(this.documentAttachmentsMap.values());
+    const versions = Array.from(this.documentVersionsMap.values());
+    
+    // Readers only search the attachments of the published version
+    const searchedAttachments = (document: Document) => {
+      if (this.workingAccess(document, viewer)) {
+        return attachments.filter((attachment) => attachment.documentId === document.id && !attachment.deletedAt);
+      }
+      const attachmentIds = this.publishedSnapshot(document)?.attachmentIds ?? [];
+      return attachments.filter((attachment) => attachment.documentId === document.id && attachmentIds.includes(attachment.id));
+    };
+    
+    const visible = Array.from(this.documentsMap.values()).filter((document) => this.isDocumentVisible(document, viewer));
+    const entries = visible.map((document) => ({
+      document: this.viewDocument(document, viewer),
+      attachmentText: searchedAttachments(document)
+        .map((attachment) => attachment.extractedText || "")
+        .join("\n"),
+      // Readers only search the published versions
+      versionText: Array.from(new Set(versions
+        .filter((version) => version.documentId === document.id && (version.isPublished || this.workingAccess(document, viewer)))
+        .map((version) => `${version.title} ${version.content}`)))
+        .join("\n")
+    }));
+    
+    return searchInMemory(entries, query);
+  }
+
+  // Session methods
+  async destroyUserSessions(userId: number, exceptSessionId?: string): Promise<void> {
+    const sessions: Record<string, any> = await new Promise((resolve, reject) => {
+      this.sessionStore.all((err: unknown, all: Record<string, any> | null) => (err ? reject(err) : resolve(all ?? {})));
+    });
+
+    await Promise.all(
+      Object.entries(sessions)
+        .filter(([sid, sess]) => sid !== exceptSessionId && sess?.passport?.user === userId)
+        .map(([sid]) => new Promise<void>((resolve, reject) => {
+          this.sessionStore.destroy(sid, (err: unknown) => (err ? reject(err) : resolve()));
+        }))
+    );
+  }
+
+  async getUserSessions(userId: number): Promise<StoredSession[]> {
+    const sessions: Record<string, any> = await new Promise((resolve, reject) => {
+      this.sessionStore.all((err: unknown, all: Record<string, any> | null) => (err ? reject(err) : resolve(all ?? {})));
+    });
+
+    return Object.entries(sessions)
+      .filter(([, sess]) => sess?.passport?.user === userId)
+      .map(([sid, sess]) => ({
+        sid,
+        sess,
+        expiresAt: sess.cookie?.expires ? new Date(sess.cookie.expires) : null
+      }));
+  }
+
+  async destroySession(sessionId: string): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.sessionStore.destroy(sessionId, (err: unknown) => (err ? reject(err) : resolve()));
+    });
+  }
 }
 
 // Database storage implementation
@@ -448,17 +1400,37 @@ export class DatabaseStorage implements IStorage {
       return await db
         .select()
         .from(users)
-        .where(eq(users.role, roles[0] as any));
+        .where(and(eq(users.role, roles[0] as any), eq(users.active, true)));
     } else {
       return await db
         .select()
         .from(users)
-        .where(inArray(users.role, roles as any[]));
+        .where(and(inArray(users.role, roles as any[]), eq(users.active, true)));
     }
   }
 
-  async getAllUsers(): Promise<User[]> {
-    return await db.select().from(users);
+  async listUsers(query: UserListQuery): Promise<Page<User>> {
+    const term = query.q ? `%${query.q.replace(/[\\%_]/g, "\\$&")}%` : undefined;
+    const where = and(
+      inListCondition(users.id, query.id),
+      inListCondition(users.role, query.role),
+      inListCondition(users.department, query.department),
+      query.active === undefined ? undefined : eq(users.active, query.active),
+      term ? or(ilike(users.name, term), ilike(users.username, term), ilike(users.email, term)) : undefined
+    );
+    
+    const [items, [{ total }]] = await Promise.all([
+      db
+        .select()
+        .from(users)
+        .where(where)
+        .orderBy(...orderByFields(query.sort, users, users.id))
+        .limit(query.pageSize)
+        .offset(pageOffset(query)),
+      db.select({ total: sql<number>`count(*)::int` }).from(users).where(where),
+    ]);
+    
+    return { items, total, page: query.page, pageSize: query.pageSize };
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
@@ -483,14 +1455,191 @@ export class DatabaseStorage implements IStorage {
     return updatedUser;
   }
 
-  // Document methods
-  async getDocument(id: number): Promise<Document | undefined> {
-    const [document] = await db.select().from(documents).where(eq(documents.id, id));
-    return document;
+  // Department methods
+  private departmentsReady?: Promise<void>;
+
+  // Users and documents need a department, so a new database starts with the default ones. As
+  // with categories, they are added on first use and only while the table is empty.
+  private ensureDepartments(): Promise<void> {
+    if (!this.departmentsReady) {
+      this.departmentsReady = (async () => {
+        const [existing] = await db.select({ id: departments.id }).from(departments).limit(1);
+        if (!existing) {
+          await db
+            .insert(departments)
+            .values(DEFAULT_DEPARTMENTS.map(({ code, name }) => ({ code, name })))
+            .onConflictDoNothing();
+        }
+      })().catch((error) => {
+        this.departmentsReady = undefined;
+        throw error;
+      });
+    }
+    return this.departmentsReady;
+  }
+
+  async getDepartment(id: number): Promise<Department | undefined> {
+    await this.ensureDepartments();
+    const [department] = await db.select().from(departments).where(eq(departments.id, id));
+    return department;
+  }
+
+  async getDepartmentByCode(code: string): Promise<Department | undefined> {
+    await this.ensureDepartments();
+    const [department] = await db.select().from(departments).where(eq(departments.code, code));
+    return department;
+  }
+
+  async getAllDepartments(): Promise<Department[]> {
+    await this.ensureDepartments();
+    return await db.select().from(departments).orderBy(departments.name);
+  }
+
+  async createDepartment(insertDepartment: InsertDepartment): Promise<Department> {
+    await this.ensureDepartments();
+    const [department] = await db
+      .insert(departments)
+      .values(insertDepartment)
+      .returning();
+    return department;
+  }
+
+  async updateDepartment(id: number, departmentUpdate: Partial<Department>): Promise<Department> {
+    const [updatedDepartment] = await db
+      .update(departments)
+      .set({
+        ...departmentUpdate,
+        updatedAt: new Date()
+      })
+      .where(eq(departments.id, id))
+      .returning();
+    
+    if (!updatedDepartment) {
+      throw new Error("Department not found");
+    }
+    
+    return updatedDepartment;
+  }
+
+  async deleteDepartment(id: number): Promise<void> {
+    await db
+      .delete(departments)
+      .where(eq(departments.id, id));
+  }
+
+  async isDepartmentInUse(department: Department): Promise<boolean> {
+    const { id, code } = department;
+    const codeJson = JSON.stringify([code]);
+    const stageJson = JSON.stringify([{ department: code }]);
+    
+    const result = await db.execute(sql`
+      SELECT
+        EXISTS (SELECT 1 FROM ${users} WHERE department = ${code}) OR
+        EXISTS (SELECT 1 FROM ${documents} WHERE department = ${code} OR visible_departments::jsonb @> ${codeJson}::jsonb) OR
+        EXISTS (SELECT 1 FROM ${invitations} WHERE department = ${code}) OR
+        EXISTS (SELECT 1 FROM ${approvalWorkflows} WHERE department = ${code} OR stages::jsonb @> ${stageJson}::jsonb) OR
+        EXISTS (SELECT 1 FROM ${departments} WHERE parent_id = ${id})
+      AS in_use
+    `);
+    return (result.rows as { in_use: boolean }[])[0].in_use;
+  }
+
+  // Document methods
+  
+  // The rules of MemStorage.workingAccess and isDocumentVisible on the documents table, or
+  // on a query with its columns under another name
+  private workingAccess(viewer?: DocumentViewer, table = "documents"): SQL | undefined {
+    if (!viewer || viewer.viewAll) return undefined;
+    
+    const t = sql.raw(table);
+    const conditions = [
+      sql`${t}.created_by = ${viewer.userId}`,
+      sql`${t}.reviewer_ids::jsonb @> ${JSON.stringify([viewer.userId])}::jsonb`,
+      sql`EXISTS (SELECT 1 FROM ${approvals} WHERE document_id = ${t}.id AND user_id = ${viewer.userId})`,
+    ];
+    if (viewer.viewDepartment) {
+      conditions.push(sql`${t}.department = ${viewer.department}`);
+    }
+    return sql`(${sql.join(conditions, sql` OR `)})`;
+  }
+
+  private documentVisibility(viewer?: DocumentViewer, table = "documents"): SQL | undefined {
+    const workingAccess = this.workingAccess(viewer, table);
+    if (!viewer || !workingAccess) return undefined;
+    
+    const t = sql.raw(table);
+    return sql`(${workingAccess} OR (${t}.published_version IS NOT NULL AND ${t}.status NOT IN (${sql.join(WITHDRAWN_STATUSES.map((status) => sql`${status}`), sql`, `)}) AND (json_array_length(${t}.visible_departments) = 0 OR ${t}.visible_departments::jsonb @> ${JSON.stringify([viewer.department])}::jsonb)))`;
   }
 
-  async getAllDocuments(): Promise<Document[]> {
-    return await db.select().from(documents);
+  // Readers get the published version of a document while a revision is in progress
+  private async viewDocuments(docs: Document[], viewer?: DocumentViewer, published = false): Promise<Document[]> {
+    const revised = docs.filter((doc) => hasRevisionInProgress(doc) && (published || !worksOnDocument(doc, viewer)));
+    if (revised.length === 0) return docs;
+    
+    const ids = revised.map((doc) => doc.id);
+    const [approved, versions] = await Promise.all([
+      published || !viewer ? [] : db
+        .select({ documentId: approvals.documentId })
+        .from(approvals)
+        .where(and(eq(approvals.userId, viewer.userId), inArray(approvals.documentId, ids))),
+      db
+        .select()
+        .from(documentVersions)
+        .where(and(inArray(documentVersions.documentId, ids), eq(documentVersions.isPublished, true)))
+        .orderBy(documentVersions.id),
+    ]);
+    const approverOf = new Set(approved.map((approval) => approval.documentId));
+    
+    return docs.map((doc) => {
+      if (!revised.includes(doc) || approverOf.has(doc.id)) return doc;
+      const version = versions.filter((v) => v.documentId === doc.id && v.version === doc.publishedVersion).pop();
+      return version ? withVersion(doc, version) : doc;
+    });
+  }
+
+  async getDocument(id: number, viewer?: DocumentViewer): Promise<Document | undefined> {
+    const [document] = await db
+      .select()
+      .from(documents)
+      .where(and(eq(documents.id, id), this.documentVisibility(viewer)));
+    return document && (await this.viewDocuments([document], viewer))[0];
+  }
+
+  async hasWorkingAccess(document: Document, viewer?: DocumentViewer): Promise<boolean> {
+    if (worksOnDocument(document, viewer)) return true;
+    
+    const [approval] = await db
+      .select({ id: approvals.id })
+      .from(approvals)
+      .where(and(eq(approvals.documentId, document.id), eq(approvals.userId, viewer!.userId)))
+      .limit(1);
+    return !!approval;
+  }
+
+  async listDocuments(query: DocumentListQuery, viewer?: DocumentViewer): Promise<Page<Document>> {
+    const where = and(
+      this.documentVisibility(viewer),
+      inListCondition(documents.status, query.status),
+      inListCondition(documents.department, query.department),
+      inListCondition(documents.category, query.category),
+      inListCondition(documents.createdBy, query.createdBy),
+      ...dateRangeConditions(documents.createdAt, query.createdFrom, query.createdTo),
+      ...dateRangeConditions(documents.updatedAt, query.updatedFrom, query.updatedTo),
+      ...dateRangeConditions(documents.nextReviewAt, undefined, query.reviewDueTo)
+    );
+    
+    const [items, [{ total }]] = await Promise.all([
+      db
+        .select()
+        .from(documents)
+        .where(where)
+        .orderBy(...orderByFields(query.sort, documents, documents.id))
+        .limit(query.pageSize)
+        .offset(pageOffset(query)),
+      db.select({ total: sql<number>`count(*)::int` }).from(documents).where(where),
+    ]);
+    
+    return { items: await this.viewDocuments(items, viewer, query.published), total, page: query.page, pageSize: query.pageSize };
   }
 
   async getDocumentsByUser(userId: number): Promise<Document[]> {
@@ -526,27 +1675,99 @@ export class DatabaseStorage implements IStorage {
     return updatedDocument;
   }
 
+  async moveApprovalStage(id: number, round: number, fromStage: number, toStage: number | null): Promise<Document | undefined> {
+    const [document] = await db
+      .update(documents)
+      .set({ approvalStage: toStage, updatedAt: new Date() })
+      .where(and(
+        eq(documents.id, id),
+        eq(documents.status, "in_review"),
+        eq(documents.approvalRound, round),
+        eq(documents.approvalStage, fromStage)
+      ))
+      .returning();
+    return document;
+  }
+
   async deleteDocument(id: number): Promise<void> {
     await db
       .delete(documents)
       .where(eq(documents.id, id));
   }
 
+  async assignDocumentCode(id: number, prefix: string): Promise<Document> {
+    return await db.transaction(async (tx) => {
+      // The row lock keeps two approvals of the same document from numbering it twice
+      const [document] = await tx
+        .select()
+        .from(documents)
+        .where(eq(documents.id, id))
+        .for("update");
+      
+      if (!document) {
+        throw new Error("Document not found");
+      }
+      if (document.code) {
+        return document;
+      }
+      
+      // The upsert locks the sequence row, so concurrent creations get consecutive numbers
+      const [sequence] = await tx
+        .insert(documentCodeSequences)
+        .values({ department: document.department, prefix, lastNumber: 1 })
+        .onConflictDoUpdate({
+          target: [documentCodeSequences.department, documentCodeSequences.prefix],
+          set: { lastNumber: sql`${documentCodeSequences.lastNumber} + 1` }
+        })
+        .returning();
+      
+      const [codedDocument] = await tx
+        .update(documents)
+        .set({ code: formatDocumentCode(document.department, prefix, sequence.lastNumber) })
+        .where(eq(documents.id, id))
+        .returning();
+      return codedDocument;
+    });
+  }
+
+  async getDocumentsDueForReview(before: Date): Promise<Document[]> {
+    return await db
+      .select()
+      .from(documents)
+      .where(and(
+        isNotNull(documents.nextReviewAt),
+        lte(documents.nextReviewAt, before),
+        isNull(documents.reviewTaskId)
+      ))
+      .orderBy(documents.nextReviewAt);
+  }
+
   // Approval methods
   async getApproval(id: number): Promise<Approval | undefined> {
     const [approval] = await db.select().from(approvals).where(eq(approvals.id, id));
     return approval;
   }
 
-  async getAllApprovals(): Promise<Approval[]> {
-    return await db.select().from(approvals);
-  }
-
-  async getApprovalsByUser(userId: number): Promise<Approval[]> {
-    return await db
-      .select()
-      .from(approvals)
-      .where(eq(approvals.userId, userId));
+  async listApprovals(query: ApprovalListQuery): Promise<Page<Approval>> {
+    const where = and(
+      inListCondition(approvals.status, query.status),
+      inListCondition(approvals.documentId, query.documentId),
+      inListCondition(approvals.userId, query.userId),
+      ...dateRangeConditions(approvals.createdAt, query.createdFrom, query.createdTo)
+    );
+    
+    const [items, [{ total }]] = await Promise.all([
+      db
+        .select()
+        .from(approvals)
+        .where(where)
+        .orderBy(...orderByFields(query.sort, approvals, approvals.id))
+        .limit(query.pageSize)
+        .offset(pageOffset(query)),
+      db.select({ total: sql<number>`count(*)::int` }).from(approvals).where(where),
+    ]);
+    
+    return { items, total, page: query.page, pageSize: query.pageSize };
   }
 
   async getApprovalsByDocumentId(documentId: number): Promise<Approval[]> {
@@ -584,15 +1805,30 @@ export class DatabaseStorage implements IStorage {
     return task;
   }
 
-  async getAllTasks(): Promise<Task[]> {
-    return await db.select().from(tasks);
-  }
-
-  async getTasksByAssignee(userId: number): Promise<Task[]> {
-    return await db
-      .select()
-      .from(tasks)
-      .where(eq(tasks.assignedTo, userId));
+  async listTasks(query: TaskListQuery): Promise<Page<Task>> {
+    const where = and(
+      inListCondition(tasks.status, query.status),
+      inListCondition(tasks.priority, query.priority),
+      inListCondition(tasks.assignedTo, query.assignedTo),
+      inListCondition(tasks.assignedBy, query.assignedBy),
+      inListCondition(tasks.documentId, query.documentId),
+      ...dateRangeConditions(tasks.dueDate, query.dueFrom, query.dueTo),
+      ...dateRangeConditions(tasks.createdAt, query.createdFrom, query.createdTo)
+    );
+    
+    const sortColumns = { ...tasks, priority: enumOrder(tasks.priority, tasks.priority.enumValues) };
+    const [items, [{ total }]] = await Promise.all([
+      db
+        .select()
+        .from(tasks)
+        .where(where)
+        .orderBy(...orderByFields(query.sort, sortColumns, tasks.id))
+        .limit(query.pageSize)
+        .offset(pageOffset(query)),
+      db.select({ total: sql<number>`count(*)::int` }).from(tasks).where(where),
+    ]);
+    
+    return { items, total, page: query.page, pageSize: query.pageSize };
   }
 
   async createTask(insertTask: InsertTask): Promise<Task> {
@@ -638,14 +1874,15 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createPolicyAcceptance(insertAcceptance: InsertPolicyAcceptance): Promise<PolicyAcceptance> {
-    // Check if user has already accepted this policy
+    // Check if user has already accepted this version of the policy
     const [existing] = await db
       .select()
       .from(policyAcceptances)
       .where(
         and(
           eq(policyAcceptances.userId, insertAcceptance.userId),
-          eq(policyAcceptances.documentId, insertAcceptance.documentId)
+          eq(policyAcceptances.documentId, insertAcceptance.documentId),
+          eq(policyAcceptances.version, insertAcceptance.version)
         )
       );
     
@@ -660,18 +1897,155 @@ export class DatabaseStorage implements IStorage {
     return acceptance;
   }
 
+  async updatePolicyAcceptance(id: number, acceptanceUpdate: Partial<PolicyAcceptance>): Promise<PolicyAcceptance> {
+    const [updatedAcceptance] = await db
+      .update(policyAcceptances)
+      .set(acceptanceUpdate)
+      .where(eq(policyAcceptances.id, id))
+      .returning();
+    
+    if (!updatedAcceptance) {
+      throw new Error("Policy acceptance not found");
+    }
+    
+    return updatedAcceptance;
+  }
+
+  // Policy assignment methods
+  async getPolicyAssignment(id: number): Promise<PolicyAssignment | undefined> {
+    const [assignment] = await db.select().from(policyAssignments).where(eq(policyAssignments.id, id));
+    return assignment;
+  }
+
+  async getPolicyAssignmentsByDocument(documentId: number): Promise<PolicyAssignment[]> {
+    return await db
+      .select()
+      .from(policyAssignments)
+      .where(eq(policyAssignments.documentId, documentId));
+  }
+
+  async getAllPolicyAssignments(): Promise<PolicyAssignment[]> {
+    return await db.select().from(policyAssignments);
+  }
+
+  async createPolicyAssignment(insertAssignment: InsertPolicyAssignment): Promise<PolicyAssignment> {
+    const [assignment] = await db
+      .insert(policyAssignments)
+      .values(insertAssignment)
+      .returning();
+    return assignment;
+  }
+
+  async deletePolicyAssignment(id: number): Promise<void> {
+    await db
+      .delete(policyAssignments)
+      .where(eq(policyAssignments.id, id));
+  }
+
+  async getPolicyAssignees(assignmentId: number): Promise<PolicyAssignee[]> {
+    return await db
+      .select()
+      .from(policyAssignees)
+      .where(eq(policyAssignees.assignmentId, assignmentId));
+  }
+
+  async getPolicyAssigneesByUser(userId: number): Promise<PolicyAssignee[]> {
+    return await db
+      .select()
+      .from(policyAssignees)
+      .where(eq(policyAssignees.userId, userId));
+  }
+
+  async createPolicyAssignee(insertAssignee: InsertPolicyAssignee): Promise<PolicyAssignee> {
+    const [assignee] = await db
+      .insert(policyAssignees)
+      .values(insertAssignee)
+      .onConflictDoNothing()
+      .returning();
+    
+    if (assignee) {
+      return assignee;
+    }
+    
+    const [existing] = await db
+      .select()
+      .from(policyAssignees)
+      .where(
+        and(
+          eq(policyAssignees.assignmentId, insertAssignee.assignmentId),
+          eq(policyAssignees.userId, insertAssignee.userId)
+        )
+      );
+    return existing;
+  }
+
+  async updatePolicyAssignee(id: number, assigneeUpdate: Partial<PolicyAssignee>): Promise<PolicyAssignee> {
+    const [updatedAssignee] = await db
+      .update(policyAssignees)
+      .set(assigneeUpdate)
+      .where(eq(policyAssignees.id, id))
+      .returning();
+    
+    if (!updatedAssignee) {
+      throw new Error("Policy assignee not found");
+    }
+    
+    return updatedAssignee;
+  }
+
   // Activity methods
   async getActivity(id: number): Promise<Activity | undefined> {
     const [activity] = await db.select().from(activities).where(eq(activities.id, id));
     return activity;
   }
 
-  async getRecentActivities(limit: number): Promise<Activity[]> {
-    return await db
-      .select()
-      .from(activities)
-      .orderBy(desc(activities.createdAt))
-      .limit(limit);
+  // The rules of MemStorage.isActivityVisible
+  private activityVisibility(viewer?: ActivityViewer): SQL | undefined {
+    if (!viewer || (viewer.viewAll && viewer.viewSystem)) return undefined;
+    
+    const documentTypes = inArray(activities.entityType, DOCUMENT_ACTIVITY_TYPES);
+    const approvalType = eq(activities.entityType, "approval");
+    const documentVisibility = this.documentVisibility(viewer);
+    const conditions = [eq(activities.userId, viewer.userId)];
+    if (!documentVisibility) {
+      conditions.push(documentTypes, approvalType);
+    } else {
+      conditions.push(
+        sql`(${documentTypes} AND EXISTS (SELECT 1 FROM ${documents} WHERE ${documents.id} = ${activities.entityId} AND ${documentVisibility}))`,
+        sql`(${approvalType} AND EXISTS (
+          SELECT 1 FROM ${approvals} JOIN ${documents} ON ${documents.id} = ${approvals.documentId}
+          WHERE ${approvals.id} = ${activities.entityId} AND ${documentVisibility}
+        ))`
+      );
+    }
+    if (viewer.viewSystem) {
+      conditions.push(sql`${activities.entityType} NOT IN (${sql.join([...DOCUMENT_ACTIVITY_TYPES, "approval"].map((type) => sql`${type}`), sql`, `)})`);
+    }
+    return or(...conditions);
+  }
+
+  async listActivities(query: ActivityListQuery, viewer?: ActivityViewer): Promise<Page<Activity>> {
+    const where = and(
+      this.activityVisibility(viewer),
+      inListCondition(activities.userId, query.userId),
+      inListCondition(activities.action, query.action),
+      inListCondition(activities.entityType, query.entityType),
+      inListCondition(activities.entityId, query.entityId),
+      ...dateRangeConditions(activities.createdAt, query.createdFrom, query.createdTo)
+    );
+    
+    const [items, [{ total }]] = await Promise.all([
+      db
+        .select()
+        .from(activities)
+        .where(where)
+        .orderBy(...orderByFields(query.sort, activities, activities.id))
+        .limit(query.pageSize)
+        .offset(pageOffset(query)),
+      db.select({ total: sql<number>`count(*)::int` }).from(activities).where(where),
+    ]);
+    
+    return { items, total, page: query.page, pageSize: query.pageSize };
   }
 
   async createActivity(insertActivity: InsertActivity): Promise<Activity> {
@@ -693,7 +2067,7 @@ export class DatabaseStorage implements IStorage {
       .select()
       .from(documentVersions)
       .where(eq(documentVersions.documentId, documentId))
-      .orderBy(desc(documentVersions.createdAt));
+      .orderBy(desc(documentVersions.createdAt), desc(documentVersions.id));
   }
 
   async createDocumentVersion(insertVersion: InsertDocumentVersion): Promise<DocumentVersion> {
@@ -703,6 +2077,521 @@ export class DatabaseStorage implements IStorage {
       .returning();
     return version;
   }
+
+  // Approval workflow methods
+  async getApprovalWorkflow(id: number): Promise<ApprovalWorkflow | undefined> {
+    const [workflow] = await db.select().from(approvalWorkflows).where(eq(approvalWorkflows.id, id));
+    return workflow;
+  }
+
+  async getAllApprovalWorkflows(): Promise<ApprovalWorkflow[]> {
+    return await db.select().from(approvalWorkflows);
+  }
+
+  async createApprovalWorkflow(insertWorkflow: InsertApprovalWorkflow): Promise<ApprovalWorkflow> {
+    const [workflow] = await db
+      .insert(approvalWorkflows)
+      .values(insertWorkflow)
+      .returning();
+    return workflow;
+  }
+
+  async updateApprovalWorkflow(id: number, workflowUpdate: Partial<ApprovalWorkflow>): Promise<ApprovalWorkflow> {
+    const [updatedWorkflow] = await db
+      .update(approvalWorkflows)
+      .set({
+        ...workflowUpdate,
+        updatedAt: new Date()
+      })
+      .where(eq(approvalWorkflows.id, id))
+      .returning();
+    
+    if (!updatedWorkflow) {
+      throw new Error("Approval workflow not found");
+    }
+    
+    return updatedWorkflow;
+  }
+
+  async deleteApprovalWorkflow(id: number): Promise<void> {
+    await db
+      .delete(approvalWorkflows)
+      .where(eq(approvalWorkflows.id, id));
+  }
+
+  // Document category methods
+  private documentCategoriesReady?: Promise<void>;
+
+  // A new database starts with the default categories; they are added on first use, and only
+  // while the table is empty so that deleted defaults stay deleted
+  private ensureDocumentCategories(): Promise<void> {
+    if (!this.documentCategoriesReady) {
+      this.documentCategoriesReady = (async () => {
+        const [existing] = await db.select({ id: documentCategories.id }).from(documentCategories).limit(1);
+        if (!existing) {
+          await db
+            .insert(documentCategories)
+            .values(DEFAULT_DOCUMENT_CATEGORIES)
+            .onConflictDoNothing();
+        }
+      })().catch((error) => {
+        this.documentCategoriesReady = undefined;
+        throw error;
+      });
+    }
+    return this.documentCategoriesReady;
+  }
+
+  async getDocumentCategory(id: number): Promise<DocumentCategory | undefined> {
+    await this.ensureDocumentCategories();
+    const [category] = await db.select().from(documentCategories).where(eq(documentCategories.id, id));
+    return category;
+  }
+
+  async getDocumentCategoryByCode(code: string): Promise<DocumentCategory | undefined> {
+    await this.ensureDocumentCategories();
+    const [category] = await db.select().from(documentCategories).where(eq(documentCategories.code, code));
+    return category;
+  }
+
+  async getAllDocumentCategories(): Promise<DocumentCategory[]> {
+    await this.ensureDocumentCategories();
+    return await db.select().from(documentCategories).orderBy(documentCategories.name);
+  }
+
+  async createDocumentCategory(insertCategory: InsertDocumentCategory): Promise<DocumentCategory> {
+    await this.ensureDocumentCategories();
+    const [category] = await db
+      .insert(documentCategories)
+      .values(insertCategory)
+      .returning();
+    return category;
+  }
+
+  async updateDocumentCategory(id: number, categoryUpdate: Partial<DocumentCategory>): Promise<DocumentCategory> {
+    const [updatedCategory] = await db
+      .update(documentCategories)
+      .set({
+        ...categoryUpdate,
+        updatedAt: new Date()
+      })
+      .where(eq(documentCategories.id, id))
+      .returning();
+    
+    if (!updatedCategory) {
+      throw new Error("Document category not found");
+    }
+    
+    return updatedCategory;
+  }
+
+  async deleteDocumentCategory(id: number): Promise<void> {
+    await db
+      .delete(documentCategories)
+      .where(eq(documentCategories.id, id));
+  }
+
+  async isDocumentCategoryInUse(category: DocumentCategory): Promise<boolean> {
+    const result = await db.execute(sql`
+      SELECT
+        EXISTS (SELECT 1 FROM ${documents} WHERE category = ${category.code}) OR
+        EXISTS (SELECT 1 FROM ${approvalWorkflows} WHERE category = ${category.code})
+      AS in_use
+    `);
+    return (result.rows as { in_use: boolean }[])[0].in_use;
+  }
+
+  // Document attachment methods
+  async getDocumentAttachment(id: number): Promise<DocumentAttachment | undefined> {
+    const [attachment] = await db.select().from(documentAttachments).where(eq(documentAttachments.id, id));
+    return attachment;
+  }
+
+  async getDocumentAttachments(documentId: number, includeDeleted = false): Promise<DocumentAttachment[]> {
+    return await db
+      .select()
+      .from(documentAttachments)
+      .where(includeDeleted
+        ? eq(documentAttachments.documentId, documentId)
+        : and(eq(documentAttachments.documentId, documentId), isNull(documentAttachments.deletedAt)))
+      .orderBy(documentAttachments.id);
+  }
+
+  async createDocumentAttachment(insertAttachment: InsertDocumentAttachment): Promise<DocumentAttachment> {
+    const [attachment] = await db
+      .insert(documentAttachments)
+      .values(insertAttachment)
+      .returning();
+    return attachment;
+  }
+
+  async deleteDocumentAttachment(id: number): Promise<DocumentAttachment> {
+    const [deletedAttachment] = await db
+      .update(documentAttachments)
+      .set({ deletedAt: new Date() })
+      .where(eq(documentAttachments.id, id))
+      .returning();
+    
+    if (!deletedAttachment) {
+      throw new Error("Attachment not found");
+    }
+    
+    return deletedAttachment;
+  }
+
+  // Registration invitation methods
+  async getInvitation(id: number): Promise<Invitation | undefined> {
+    const [invitation] = await db.select().from(invitations).where(eq(invitations.id, id));
+    return invitation;
+  }
+
+  async getInvitationByTokenHash(tokenHash: string): Promise<Invitation | undefined> {
+    const [invitation] = await db.select().from(invitations).where(eq(invitations.tokenHash, tokenHash));
+    return invitation;
+  }
+
+  async getAllInvitations(): Promise<Invitation[]> {
+    return await db.select().from(invitations).orderBy(desc(invitations.createdAt));
+  }
+
+  async createInvitation(insertInvitation: InsertInvitation): Promise<Invitation> {
+    const [invitation] = await db
+      .insert(invitations)
+      .values(insertInvitation)
+      .returning();
+    return invitation;
+  }
+
+  async updateInvitation(id: number, invitationUpdate: Partial<Invitation>): Promise<Invitation> {
+    const [updatedInvitation] = await db
+      .update(invitations)
+      .set(invitationUpdate)
+      .where(eq(invitations.id, id))
+      .returning();
+    
+    if (!updatedInvitation) {
+      throw new Error("Invitation not found");
+    }
+    
+    return updatedInvitation;
+  }
+
+  // System settings methods
+  async getSystemSettings(): Promise<Partial<SystemSettings>> {
+    const rows = await db.select().from(systemSettings);
+    return Object.fromEntries(rows.map((row) => [row.key, row.value])) as Partial<SystemSettings>;
+  }
+
+  async updateSystemSettings(settings: Partial<SystemSettings>, updatedBy: number): Promise<void> {
+    const rows = Object.entries(settings)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => ({ key, value, updatedBy, updatedAt: new Date() }));
+    if (rows.length === 0) return;
+
+    await db
+      .insert(systemSettings)
+      .values(rows)
+      .onConflictDoUpdate({
+        target: systemSettings.key,
+        set: {
+          value: sql`excluded.value`,
+          updatedBy: sql`excluded.updated_by`,
+          updatedAt: sql`excluded.updated_at`
+        }
+      });
+  }
+
+  // Role permission methods
+  async getRolePermissions(): Promise<Partial<RolePermissions>> {
+    const rows = await db.select().from(rolePermissions);
+    return Object.fromEntries(rows.map((row) => [row.role, row.permissions])) as Partial<RolePermissions>;
+  }
+
+  async updateRolePermissions(role: UserRole, permissions: Permission[], updatedBy: number): Promise<void> {
+    await db
+      .insert(rolePermissions)
+      .values({ role, permissions, updatedBy, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: rolePermissions.role,
+        set: { permissions, updatedBy, updatedAt: new Date() }
+      });
+  }
+
+  // Login attempt methods
+  async getLoginAttempt(key: string): Promise<LoginAttempt | undefined> {
+    const [attempt] = await db.select().from(loginAttempts).where(eq(loginAttempts.key, key));
+    return attempt;
+  }
+
+  async recordFailedLogin(key: string, at: Date, resetBefore: Date): Promise<LoginAttempt> {
+    const stale = lt(loginAttempts.lastFailureAt, resetBefore);
+    const [attempt] = await db
+      .insert(loginAttempts)
+      .values({ key, failures: 1, lastFailureAt: at })
+      .onConflictDoUpdate({
+        target: loginAttempts.key,
+        set: {
+          failures: sql`CASE WHEN ${stale} THEN 1 ELSE ${loginAttempts.failures} + 1 END`,
+          lockedUntil: sql`CASE WHEN ${stale} THEN NULL ELSE ${loginAttempts.lockedUntil} END`,
+          lastFailureAt: at
+        }
+      })
+      .returning();
+    return attempt;
+  }
+
+  async lockLoginAttempt(key: string, lockedUntil: Date): Promise<void> {
+    await db.update(loginAttempts).set({ lockedUntil }).where(eq(loginAttempts.key, key));
+  }
+
+  async clearLoginAttempt(key: string): Promise<void> {
+    await db.delete(loginAttempts).where(eq(loginAttempts.key, key));
+  }
+
+  // Personal API token methods
+  async getApiToken(id: number): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.id, id));
+    return token;
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async getApiTokensByUser(userId: number): Promise<ApiToken[]> {
+    return await db
+      .select()
+      .from(apiTokens)
+      .where(and(eq(apiTokens.userId, userId), isNull(apiTokens.revokedAt)))
+      .orderBy(desc(apiTokens.createdAt));
+  }
+
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const [token] = await db
+      .insert(apiTokens)
+      .values(insertToken)
+      .returning();
+    return token;
+  }
+
+  async updateApiToken(id: number, tokenUpdate: Partial<ApiToken>): Promise<ApiToken> {
+    const [updatedToken] = await db
+      .update(apiTokens)
+      .set(tokenUpdate)
+      .where(eq(apiTokens.id, id))
+      .returning();
+    
+    if (!updatedToken) {
+      throw new Error("API token not found");
+    }
+    
+    return updatedToken;
+  }
+
+  // Search methods
+  private searchConfigReady?: Promise<void>;
+
+  // Accent-insensitive Spanish configuration and the indexes built on it, created on first use since
+  // the configuration needs the unaccent extension
+  private ensureSearchConfig(): Promise<void> {
+    if (!this.searchConfigReady) {
+      this.searchConfigReady = (async () => {
+        await db.execute(sql`CREATE EXTENSION IF NOT EXISTS unaccent`);
+        await db.execute(sql`
+          DO $$
+          BEGIN
+            IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'spanish_unaccent') THEN
+              CREATE TEXT SEARCH CONFIGURATION spanish_unaccent (COPY = spanish);
+              ALTER TEXT SEARCH CONFIGURATION spanish_unaccent
+                ALTER MAPPING FOR hword, hword_part, word WITH unaccent, spanish_stem;
+            END IF;
+          END
+          $$;
+        `);
+        for (const index of SEARCH_INDEXES) {
+          await db.execute(sql`CREATE INDEX IF NOT EXISTS ${sql.identifier(index.name)} ON ${index.table} USING gin (${index.vector})`);
+        }
+      })().catch((error) => {
+        this.searchConfigReady = undefined;
+        throw error;
+      });
+    }
+    return this.searchConfigReady;
+  }
+
+  async searchDocuments(query: SearchQuery, viewer?: DocumentViewer): Promise<SearchResponse> {
+    await this.ensureSearchConfig();
+    
+    const tsQuery = sql`websearch_to_tsquery('spanish_unaccent', ${query.q})`;
+    // Typing a document's full code finds it first, whatever the text search makes of it
+    const codeMatch = sql`upper(docs.code) = upper(${query.q.trim()})`;
+    
+    // Readers search (and see) the published version of documents with a revision in progress
+    const workingAccess = this.workingAccess(viewer, "d") ?? sql`true`;
+    
+    // Only documents with one of the query's words in any of their rows (or with its code) are ranked,
+    // using the search indexes. A query that only excludes words can match without any, so it checks all.
+    const anyWord = sql`(SELECT string_agg(quote_literal(lexeme), ' | ')::tsquery FROM unnest(to_tsvector('spanish_unaccent', ${query.q})))`;
+    const candidates = sql`
+      querytree(${tsQuery}) = 'T' OR d.id IN (
+        SELECT id FROM ${documents} WHERE ${DOCUMENT_SEARCH_VECTOR} @@ ${anyWord}
+        UNION SELECT id FROM ${documents} WHERE upper(code) = upper(${query.q.trim()})
+        UNION SELECT document_id FROM ${documentVersions} WHERE ${VERSION_SEARCH_VECTOR} @@ ${anyWord}
+        UNION SELECT document_id FROM ${documentAttachments} WHERE ${ATTACHMENT_SEARCH_VECTOR} @@ ${anyWord}
+      )
+    `;
+    
+    // Code and title weigh most, then description/tags, content, and finally attachment and older version text
+    const matches = sql`
+      matches AS (
+        SELECT docs.*, ts_rank(docs.vector, ${tsQuery}) + CASE WHEN ${codeMatch} THEN 1 ELSE 0 END AS rank
+        FROM (
+          SELECT d.*, a.text AS attachment_text,
+            coalesce(p.title, d.title) AS shown_title,
+            CASE WHEN p.title IS NULL THEN d.description ELSE p.description END AS shown_description,
+            coalesce(p.content, d.content) AS shown_content,
+            coalesce(p.version, d.version) AS shown_version,
+            setweight(to_tsvector('spanish_unaccent', coalesce(d.code, '') || ' ' || coalesce(p.title, d.title)), 'A') ||
+            setweight(to_tsvector('spanish_unaccent', coalesce(CASE WHEN p.title IS NULL THEN d.description ELSE p.description END, '') || ' ' ||
+              coalesce((SELECT string_agg(tag, ' ') FROM json_array_elements_text(coalesce(CASE WHEN p.title IS NULL THEN d.tags ELSE p.tags END, '[]'::json)) AS tag), '')), 'B') ||
+            setweight(to_tsvector('spanish_unaccent', coalesce(p.content, d.content)), 'C') ||
+            setweight(to_tsvector('spanish_unaccent', coalesce(a.text, '') || ' ' || coalesce(v.text, '')), 'D') AS vector
+          FROM ${documents} d
+          LEFT JOIN LATERAL (
+            SELECT title, description, tags, content, version
+            FROM ${documentVersions}
+            WHERE document_id = d.id AND is_published AND version = d.published_version
+              AND d.version <> d.published_version AND NOT ${workingAccess}
+            ORDER BY id DESC
+            LIMIT 1
+          ) p ON true
+          LEFT JOIN LATERAL (
+            SELECT string_agg(extracted_text, E'\n') AS text
+            FROM ${documentAttachments}
+            WHERE document_id = d.id AND (
+              (deleted_at IS NULL AND ${workingAccess}) OR
+              (NOT ${workingAccess} AND EXISTS (
+                SELECT 1 FROM ${documentVersions}
+                WHERE document_id = d.id AND is_published AND version = d.published_version
+                  AND attachment_ids::jsonb @> jsonb_build_array(${documentAttachments}.id)
+              ))
+            )
+          ) a ON true
+          LEFT JOIN LATERAL (
+            SELECT string_agg(DISTINCT title || ' ' || content, E'\n') AS text
+            FROM ${documentVersions}
+            WHERE document_id = d.id AND (is_published OR ${workingAccess})
+          ) v ON true
+          WHERE ${candidates}
+        ) docs
+        WHERE (docs.vector @@ ${tsQuery} OR ${codeMatch}) AND ${this.documentVisibility(viewer, "docs") ?? sql`true`}
+      )
+    `;
+    
+    const filters = [sql`true`];
+    if (query.department) filters.push(sql`department = ${query.department}`);
+    if (query.category) filters.push(sql`category = ${query.category}`);
+    if (query.status) filters.push(sql`status = ${query.status}`);
+    const where = sql.join(filters, sql` AND `);
+    
+    const headlineOptions = `StartSel=${SEARCH_HIGHLIGHT_START}, StopSel=${SEARCH_HIGHLIGHT_END}, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "`;
+    const titleOptions = `StartSel=${SEARCH_HIGHLIGHT_START}, StopSel=${SEARCH_HIGHLIGHT_END}, HighlightAll=true`;
+    
+    // One statement, so the matches are computed once for the page and the facets. Headlines are
+    // expensive, so they are only built for the requested page; facets count every match.
+    const result = await db.execute<SearchRow>(sql`
+      WITH ${matches}
+      SELECT
+        (SELECT count(*)::int FROM matches WHERE ${where}) AS total,
+        (SELECT coalesce(json_agg(page ORDER BY page.rank DESC, page.updated_at DESC), '[]')
+          FROM (
+            SELECT results.id, results.code, results.title, results.description, results.category,
+              results.department, results.status, results.version, results.updated_at, results.rank,
+              ts_headline('spanish_unaccent', results.title, ${tsQuery}, ${titleOptions}) AS title_highlight,
+              ts_headline('spanish_unaccent', coalesce(results.description, '') || E'\n' || results.content || E'\n' || coalesce(results.attachment_text, ''), ${tsQuery}, ${headlineOptions}) AS snippet
+            FROM (
+              SELECT id, code, shown_title AS title, shown_description AS description, category, department, status,
+                shown_version AS version, updated_at, shown_content AS content, attachment_text, rank
+              FROM matches
+              WHERE ${where}
+              ORDER BY rank DESC, updated_at DESC
+              LIMIT ${query.pageSize} OFFSET ${(query.page - 1) * query.pageSize}
+            ) results
+          ) page
+        ) AS results,
+        (SELECT coalesce(json_agg(counts ORDER BY counts.count DESC, counts.value), '[]')
+          FROM (
+            SELECT
+              CASE
+                WHEN GROUPING(department) = 0 THEN 'department'
+                WHEN GROUPING(category) = 0 THEN 'category'
+                ELSE 'status'
+              END AS facet,
+              coalesce(department, category, status) AS value,
+              count(*)::int AS count
+            FROM matches
+            GROUP BY GROUPING SETS ((department), (category), (status))
+          ) counts
+        ) AS facets
+    `);
+    const [row] = result.rows;
+    
+    const facets: SearchResponse["facets"] = { department: [], category: [], status: [] };
+    for (const { facet, value, count } of row.facets) {
+      facets[facet].push({ value, count });
+    }
+    
+    return {
+      results: row.results.map((result) => ({
+        document: {
+          id: result.id,
+          code: result.code,
+          title: result.title,
+          description: result.description,
+          category: result.category,
+          department: result.department,
+          status: result.status,
+          version: result.version,
+          updatedAt: new Date(result.updated_at)
+        },
+        rank: result.rank,
+        titleHighlight: result.title_highlight,
+        snippet: result.snippet
+      })),
+      total: row.total,
+      page: query.page,
+      pageSize: query.pageSize,
+      facets
+    };
+  }
+
+  // Session methods
+  async destroyUserSessions(userId: number, exceptSessionId?: string): Promise<void> {
+    // connect-pg-simple keeps the serialized session (including passport.user) in "session"
+    await db.execute(sql`
+      DELETE FROM "session"
+      WHERE sess->'passport'->>'user' = ${String(userId)}
+        AND sid <> ${exceptSessionId ?? ""}
+    `);
+  }
+
+  async getUserSessions(userId: number): Promise<StoredSession[]> {
+    const result = await db.execute(sql`
+      SELECT sid, sess, expire FROM "session"
+      WHERE sess->'passport'->>'user' = ${String(userId)}
+        AND expire > now()
+    `);
+    return (result.rows as { sid: string; sess: SessionData; expire: string | Date }[]).map((row) => ({
+      sid: row.sid,
+      sess: row.sess,
+      expiresAt: new Date(row.expire)
+    }));
+  }
+
+  async destroySession(sessionId: string): Promise<void> {
+    await db.execute(sql`DELETE FROM "session" WHERE sid = ${sessionId}`);
+  }
 }
 
 export const storage = new DatabaseStorage();
\ No newline at end of file
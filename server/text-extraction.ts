@@ -0,0 +1,87 @@
+import { unzipSync, strFromU8 } from "fflate";
+import { extractText, getDocumentProxy } from "unpdf";
+
+// Plain text pulled out of uploaded attachments so search can look inside them.
+// Images and anything we can't parse simply yield no text.
+
+const MAX_EXTRACTED_LENGTH = 1_000_000;
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: "\"",
+  apos: "'",
+};
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code.startsWith("#x") || code.startsWith("#X")) return String.fromCodePoint(parseInt(code.slice(2), 16));
+    if (code.startsWith("#")) return String.fromCodePoint(parseInt(code.slice(1), 10));
+    return XML_ENTITIES[code] ?? entity;
+  });
+}
+
+// Keeps the text runs of an Office XML part, one paragraph/cell per line
+function xmlToText(xml: string, textTag: string, breakTags: string[]): string {
+  const breaks = new RegExp(`</(?:${breakTags.join("|")})>`, "g");
+  const runs = new RegExp(`<${textTag}(?:\\s[^>]*)?>([^<]*)</${textTag}>|\\n`, "g");
+  const withBreaks = xml.replace(breaks, "\n");
+
+  let text = "";
+  let match: RegExpExecArray | null;
+  while ((match = runs.exec(withBreaks)) !== null) {
+    text += match[1] !== undefined ? decodeXmlEntities(match[1]) : "\n";
+  }
+  return text;
+}
+
+function unzipParts(data: Buffer, filter: (name: string) => boolean): string[] {
+  const files = unzipSync(new Uint8Array(data), { filter: (file) => filter(file.name) });
+  return Object.keys(files).sort().map((name) => strFromU8(files[name]));
+}
+
+function extractDocx(data: Buffer): string {
+  const parts = unzipParts(data, (name) => /^word\/(document|header\d*|footer\d*|footnotes)\.xml$/.test(name));
+  return parts.map((xml) => xmlToText(xml, "w:t", ["w:p", "w:tr"])).join("\n");
+}
+
+function extractXlsx(data: Buffer): string {
+  // Cell text lives in the shared strings table; inline strings stay in the sheets
+  const parts = unzipParts(data, (name) => name === "xl/sharedStrings.xml" || /^xl\/worksheets\/sheet\d+\.xml$/.test(name));
+  return parts.map((xml) => xmlToText(xml, "t", ["si", "c"])).join("\n");
+}
+
+async function extractPdf(data: Buffer): Promise<string> {
+  const pdf = await getDocumentProxy(new Uint8Array(data));
+  const { text } = await extractText(pdf, { mergePages: true });
+  return text;
+}
+
+export async function extractAttachmentText(data: Buffer, mimeType: string): Promise<string | null> {
+  try {
+    let text: string;
+
+    switch (mimeType) {
+      case "application/pdf":
+        text = await extractPdf(data);
+        break;
+      case "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
+        text = extractDocx(data);
+        break;
+      case "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet":
+        text = extractXlsx(data);
+        break;
+      default:
+        return null;
+    }
+
+    text = text.replace(/[ \t]+/g, " ").replace(/\n\s*\n+/g, "\n").trim();
+    // Postgres text can't hold NUL characters
+    text = text.replace(/\u0000/g, "");
+    return text ? text.slice(0, MAX_EXTRACTED_LENGTH) : null;
+  } catch (error) {
+    console.error(`Failed to extract text from ${mimeType} attachment:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,108 @@
+import { storage } from "./storage";
+import type { Document, DocumentVersion } from "@shared/schema";
+
+// Document versions follow "major.minor" once published and "major.minor-draft.N"
+// while the next version is being worked on. Only approval publishes a version.
+
+export const INITIAL_VERSION = "1.0-draft.1";
+
+interface ParsedVersion {
+  major: number;
+  minor: number;
+  draft: number | null;
+}
+
+const VERSION_PATTERN = /^v?(\d+)(?:\.(\d+))?(?:-draft\.(\d+))?$/;
+
+export function parseVersion(version: string): ParsedVersion {
+  const match = VERSION_PATTERN.exec(version.trim());
+
+  if (!match) {
+    // Hand-typed or legacy versions that don't follow the scheme count as a published 1.0
+    return { major: 1, minor: 0, draft: null };
+  }
+
+  return {
+    major: Number(match[1]),
+    minor: match[2] !== undefined ? Number(match[2]) : 0,
+    draft: match[3] !== undefined ? Number(match[3]) : null,
+  };
+}
+
+export function formatVersion({ major, minor, draft }: ParsedVersion): string {
+  return draft === null ? `${major}.${minor}` : `${major}.${minor}-draft.${draft}`;
+}
+
+// Next working revision. Editing a published version opens a draft of the next
+// minor (or major) version; editing a draft only bumps the draft counter.
+export function nextDraftVersion(currentVersion: string, majorRevision = false): string {
+  const current = parseVersion(currentVersion);
+
+  if (current.draft === null) {
+    return formatVersion(majorRevision
+      ? { major: current.major + 1, minor: 0, draft: 1 }
+      : { major: current.major, minor: current.minor + 1, draft: 1 });
+  }
+
+  // A draft that already targets "X.0" is a major revision
+  if (majorRevision && current.minor !== 0) {
+    return formatVersion({ major: current.major + 1, minor: 0, draft: current.draft + 1 });
+  }
+
+  return formatVersion({ ...current, draft: current.draft + 1 });
+}
+
+type SnapshotFields = Pick<Document, "title" | "description" | "content" | "tags">;
+
+// Update values are loosely typed since they usually come straight from a parsed request body
+export function hasSnapshotChanges(document: SnapshotFields, update: Partial<Record<keyof SnapshotFields, unknown>>): boolean {
+  return (update.title !== undefined && update.title !== document.title) ||
+    (update.description !== undefined && (update.description ?? null) !== (document.description ?? null)) ||
+    (update.content !== undefined && update.content !== document.content) ||
+    (update.tags !== undefined && JSON.stringify(update.tags ?? []) !== JSON.stringify(document.tags ?? []));
+}
+
+// Version rows are never updated, so every snapshot keeps the document exactly as it was
+export async function snapshotVersion(document: Document, userId: number, isPublished = false): Promise<DocumentVersion> {
+  const attachments = await storage.getDocumentAttachments(document.id);
+
+  return storage.createDocumentVersion({
+    documentId: document.id,
+    version: document.version,
+    title: document.title,
+    description: document.description,
+    tags: document.tags ?? [],
+    content: document.content,
+    attachmentIds: attachments.map((attachment) => attachment.id),
+    isPublished,
+    createdBy: userId,
+  });
+}
+
+// The version in effect as it was approved, attachments included
+export async function publishedSnapshot(document: Document): Promise<DocumentVersion | undefined> {
+  if (!document.publishedVersion) return undefined;
+  return (await storage.getDocumentVersionsByDocument(document.id)).find(
+    (version) => version.isPublished && version.version === document.publishedVersion
+  );
+}
+
+// Records a change that lives outside the document row (e.g. attachments) as a new draft revision
+export async function createDraftRevision(document: Document, userId: number): Promise<Document> {
+  const revised = await storage.updateDocument(document.id, { version: nextDraftVersion(document.version) });
+  await snapshotVersion(revised, userId);
+  return revised;
+}
+
+// Turns the document's working draft into a clean published version
+export async function publishVersion(document: Document, userId: number): Promise<Document> {
+  const version = formatVersion({ ...parseVersion(document.version), draft: null });
+
+  if (document.publishedVersion === version) {
+    return document;
+  }
+
+  const published = await storage.updateDocument(document.id, { version, publishedVersion: version });
+  await snapshotVersion(published, userId, true);
+  return published;
+}
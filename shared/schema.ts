@@ -1,7 +1,25 @@
-import { pgTable, text, serial, integer, boolean, timestamp, json, uniqueIndex } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, json, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Notification preferences, chosen by each user on the Settings page
+const notificationPreferencesSchema = z.object({
+  approvals: z.boolean(),
+  tasks: z.boolean(),
+  policies: z.boolean(),
+});
+
+export const userPreferencesSchema = z.object({
+  emailNotifications: notificationPreferencesSchema,
+  inAppNotifications: notificationPreferencesSchema,
+});
+export type UserPreferences = z.infer<typeof userPreferencesSchema>;
+
+export const DEFAULT_USER_PREFERENCES: UserPreferences = {
+  emailNotifications: { approvals: true, tasks: true, policies: true },
+  inAppNotifications: { approvals: true, tasks: true, policies: true },
+};
+
 // User model
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -10,35 +28,436 @@ export const users = pgTable("users", {
   name: text("name").notNull(),
   email: text("email").notNull(),
   role: text("role", { enum: ["admin", "manager", "coordinator", "analyst", "operator"] }).notNull().default("analyst"),
-  department: text("department").notNull(),
+  department: text("department").notNull().references((): AnyPgColumn => departments.code),
+  // Deactivated accounts keep their history but can no longer sign in
+  active: boolean("active").notNull().default(true),
+  deactivatedAt: timestamp("deactivated_at"),
+  // Set when an administrator assigns the password; cleared once the user picks their own
+  mustChangePassword: boolean("must_change_password").notNull().default(false),
+  // Password age, checked against the passwordExpirationDays setting
+  passwordChangedAt: timestamp("password_changed_at").defaultNow().notNull(),
+  // Hashes of earlier passwords, newest first, so they cannot be chosen again
+  passwordHistory: json("password_history").$type<string[]>().notNull().default([]),
+  // Set when too many failed logins lock the account; an administrator can unlock it earlier
+  lockedUntil: timestamp("locked_until"),
+  // Sessions signed in before this moment are rejected (administrator force-logout)
+  sessionsRevokedAt: timestamp("sessions_revoked_at"),
+  preferences: json("preferences").$type<UserPreferences>().notNull().default(DEFAULT_USER_PREFERENCES),
+  // TOTP two-factor authentication. The secret is stored at enrollment but only enforced
+  // once the user confirms a code and totpEnabled is set.
+  totpSecret: text("totp_secret"),
+  totpEnabled: boolean("totp_enabled").notNull().default(false),
+  // Last accepted time step, so a code cannot be used twice
+  totpLastUsedStep: integer("totp_last_used_step"),
+  // SHA-256 hashes of the unused recovery codes
+  totpRecoveryCodes: json("totp_recovery_codes").$type<string[]>().notNull().default([]),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
-export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true });
+export const insertUserSchema = createInsertSchema(users).omit({
+  id: true,
+  createdAt: true,
+  deactivatedAt: true,
+  passwordChangedAt: true,
+  passwordHistory: true,
+  lockedUntil: true,
+  sessionsRevokedAt: true,
+  totpSecret: true,
+  totpEnabled: true,
+  totpLastUsedStep: true,
+  totpRecoveryCodes: true,
+});
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// Department model. Users, documents, invitations and approval workflows refer to a department
+// by its code, which is fixed once the department exists. Inactive departments keep their
+// records but cannot be chosen for new ones.
+export const departments = pgTable("departments", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(),
+  name: text("name").notNull(),
+  parentId: integer("parent_id").references((): AnyPgColumn => departments.id),
+  headUserId: integer("head_user_id").references((): AnyPgColumn => users.id),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertDepartmentSchema = createInsertSchema(departments)
+  .pick({ code: true, name: true, parentId: true, headUserId: true, active: true })
+  .extend({
+    code: z.string().trim().toUpperCase().regex(/^[A-Z0-9]{2,10}$/, {
+      message: "El código debe tener entre 2 y 10 letras o números",
+    }),
+    name: z.string().trim().min(1).max(100),
+  });
+export type InsertDepartment = z.infer<typeof insertDepartmentSchema>;
+export type Department = typeof departments.$inferSelect;
+
+export const updateDepartmentSchema = insertDepartmentSchema.omit({ code: true }).partial();
+
+// Departments a new installation starts with. legacyName is the free-text value users and
+// documents carried before departments were managed, mapped by scripts/migrate-departments.ts.
+export const DEFAULT_DEPARTMENTS = [
+  { code: "ADM", name: "Administración", legacyName: "Administration" },
+  { code: "PRD", name: "Producción", legacyName: "Production" },
+  { code: "CAL", name: "Control de Calidad", legacyName: "Quality" },
+  { code: "RH", name: "Recursos Humanos", legacyName: "HR" },
+  { code: "LOG", name: "Logística", legacyName: "Logistics" },
+  { code: "VEN", name: "Ventas", legacyName: "Sales" },
+  { code: "OPS", name: "Operaciones", legacyName: "Operations" },
+] as const;
+
+// Password rules for every password a person chooses or is assigned
+export const PASSWORD_MIN_LENGTH = 8;
+
+export const passwordSchema = z
+  .string()
+  .min(PASSWORD_MIN_LENGTH, { message: `La contraseña debe tener al menos ${PASSWORD_MIN_LENGTH} caracteres` })
+  .max(128, { message: "La contraseña no puede superar los 128 caracteres" })
+  .regex(/[A-Za-z]/, { message: "La contraseña debe incluir al menos una letra" })
+  .regex(/[0-9]/, { message: "La contraseña debe incluir al menos un número" });
+
+// User administration (admin only)
+export const adminCreateUserSchema = insertUserSchema.omit({ active: true }).extend({
+  email: z.string().email(),
+  password: passwordSchema,
+  mustChangePassword: z.boolean().default(true),
+});
+
+export const adminUpdateUserSchema = insertUserSchema
+  .pick({ username: true, name: true, email: true, role: true, department: true })
+  .extend({ email: z.string().email() })
+  .partial();
+
+export const resetPasswordSchema = z.object({
+  password: passwordSchema,
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: passwordSchema,
+});
+
+// Two-factor authentication
+export const totpCodeSchema = z.object({
+  code: z.string().trim().min(1),
+});
+
+export const disableTwoFactorSchema = z.object({
+  password: z.string().min(1),
+});
+
+// Second login step: either a code from the authenticator app or a recovery code
+export const twoFactorLoginSchema = z.union([
+  z.object({ code: z.string().trim().min(1) }),
+  z.object({ recoveryCode: z.string().trim().min(1) }),
+]);
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  // Whether the system policy makes two-factor authentication mandatory for this user
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  // PNG data URL of the provisioning URI
+  qrCode: string;
+}
+
+// The signed-in user as returned by /api/user and the login endpoints, without credentials
+export type CurrentUser = Omit<User, "password" | "passwordHistory" | "totpSecret" | "totpLastUsedStep" | "totpRecoveryCodes"> & {
+  // Older than the passwordExpirationDays setting; the user has to choose a new one
+  passwordExpired: boolean;
+  // The system policy requires two-factor authentication and the user has not enrolled yet
+  twoFactorSetupRequired: boolean;
+};
+
+// Returned by /api/login instead of the user when the account has two-factor authentication
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+}
+
+// A signed-in session as listed under "Sesiones activas". The id is derived from the session
+// id, which is never sent to the client.
+export interface UserSession {
+  id: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: Date | null;
+  lastSeenAt: Date | null;
+  expiresAt: Date | null;
+  // The session making the request
+  current: boolean;
+}
+
+// Fields users may change on their own account; role and department stay with the administrators
+export const updateProfileSchema = z.object({
+  name: z.string().trim().min(1),
+  email: z.string().email(),
+  preferences: userPreferencesSchema,
+}).partial();
+
+// Self-registration. "disabled" turns it off, "invite" requires an invitation issued by an
+// administrator, and "open" lets anyone sign up as an analyst.
+export const REGISTRATION_MODES = ["disabled", "invite", "open"] as const;
+export type RegistrationMode = typeof REGISTRATION_MODES[number];
+
+// Role and department always come from the invitation (or the defaults in open mode),
+// never from the request body
+export const registerUserSchema = insertUserSchema
+  .pick({ username: true, name: true, email: true, department: true })
+  .extend({
+    username: z.string().trim().min(3).max(50),
+    name: z.string().trim().min(1),
+    email: z.string().email(),
+    password: passwordSchema,
+    department: z.string().min(1).optional(),
+    inviteToken: z.string().min(1).optional(),
+  });
+export type RegisterUser = z.infer<typeof registerUserSchema>;
+
+// Registration invitations. Only a hash of the token is stored; the token itself is
+// shown once, when the invitation is created.
+export const invitations = pgTable("invitations", {
+  id: serial("id").primaryKey(),
+  tokenHash: text("token_hash").notNull().unique(),
+  // When set, the invitation can only be used with this email address
+  email: text("email"),
+  role: text("role", { enum: users.role.enumValues }).notNull().default("analyst"),
+  department: text("department").notNull().references(() => departments.code),
+  invitedBy: integer("invited_by").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  acceptedBy: integer("accepted_by"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertInvitationSchema = createInsertSchema(invitations).omit({
+  id: true,
+  createdAt: true,
+  acceptedAt: true,
+  acceptedBy: true,
+  revokedAt: true,
+});
+export type InsertInvitation = z.infer<typeof insertInvitationSchema>;
+export type Invitation = typeof invitations.$inferSelect;
+
+export const createInvitationSchema = insertInvitationSchema
+  .pick({ role: true, department: true })
+  .extend({
+    email: z.string().email().optional(),
+    department: z.string().min(1),
+    expiresInDays: z.number().int().min(1).max(30).default(7),
+  });
+
+// What the registration form needs to know before the user signs up
+export interface RegistrationInfo {
+  mode: RegistrationMode;
+  // Active departments, to choose from in open mode and to name the invitation's one
+  departments?: Pick<Department, "code" | "name">[];
+  invitation?: Pick<Invitation, "email" | "role" | "department" | "expiresAt">;
+  // Set when an invite token was given but cannot be used
+  invitationError?: string;
+}
+
+// Failed login counters, one row per username ("user:<name>") and per client address
+// ("ip:<address>"). Rows are removed after a successful login or an administrator unlock.
+export const loginAttempts = pgTable("login_attempts", {
+  key: text("key").primaryKey(),
+  failures: integer("failures").notNull().default(0),
+  lastFailureAt: timestamp("last_failure_at").notNull(),
+  lockedUntil: timestamp("locked_until"),
+});
+
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+
+// Personal API tokens for scripts, sent as "Authorization: Bearer <token>". Each scope allows
+// reading or writing one area of the API; the token never grants more than its owner's role.
+export const API_TOKEN_SCOPES = [
+  "documents:read",
+  "documents:write",
+  "tasks:read",
+  "tasks:write",
+  "approvals:read",
+  "approvals:write",
+  "policies:read",
+  "policies:write",
+  "users:read",
+  "activities:read",
+] as const;
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number];
+
+// Only a hash of the token is stored; the token itself is shown once, when it is created
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  // First characters of the token, so the user can tell their tokens apart
+  tokenPrefix: text("token_prefix").notNull(),
+  scopes: json("scopes").$type<ApiTokenScope[]>().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: text("last_used_ip"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertApiTokenSchema = createInsertSchema(apiTokens).omit({
+  id: true,
+  createdAt: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  revokedAt: true,
+}).extend({
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)),
+});
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+export type ApiToken = typeof apiTokens.$inferSelect;
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1),
+  expiresInDays: z.number().int().min(1).max(365).default(90),
+});
+
+// A token as listed on the Settings page, without its hash
+export type ApiTokenInfo = Omit<ApiToken, "tokenHash">;
+
+// Returned once by POST /api/user/tokens; the token cannot be retrieved again
+export interface CreatedApiToken {
+  apiToken: ApiTokenInfo;
+  token: string;
+}
+
 // Document model
+// Document lifecycle. The working revision goes draft -> in_review -> published (or rejected);
+// published documents can later be superseded, made obsolete or archived. The server only allows
+// the transitions defined in server/document-lifecycle.ts.
+export const DOCUMENT_STATUSES = [
+  "draft",
+  "in_review",
+  "rejected",
+  "published",
+  "superseded",
+  "obsolete",
+  "archived",
+] as const;
+export type DocumentStatus = typeof DOCUMENT_STATUSES[number];
+
+// Lifecycle actions users take through POST /api/documents/:id/transitions; submission and
+// approval decisions go through their own routes
+export const DOCUMENT_TRANSITION_ACTIONS = ["withdraw", "rework", "supersede", "make_obsolete", "archive"] as const;
+export type DocumentTransitionAction = typeof DOCUMENT_TRANSITION_ACTIONS[number];
+
 export const documents = pgTable("documents", {
   id: serial("id").primaryKey(),
+  // Controlled code ("PRD-PRO-0042"): department, category prefix and a number never reused.
+  // Assigned by the server at creation or first approval, and kept afterwards.
+  code: text("code").unique(),
   title: text("title").notNull(),
   description: text("description"),
   content: text("content").notNull(),
   category: text("category").notNull(),
-  department: text("department").notNull(),
+  department: text("department").notNull().references(() => departments.code),
+  // Working version ("1.1-draft.2") while editing, clean ("1.1") once approved
   version: text("version").notNull().default("1.0"),
-  status: text("status", { enum: ["draft", "pending", "approved", "rejected"] }).notNull().default("draft"),
+  publishedVersion: text("published_version"),
+  status: text("status", { enum: DOCUMENT_STATUSES }).notNull().default("draft"),
+  // Last lifecycle transition: when, by whom and why (obsolete documents must give a reason)
+  statusChangedAt: timestamp("status_changed_at"),
+  statusChangedBy: integer("status_changed_by"),
+  statusReason: text("status_reason"),
+  // Document that replaces this one once superseded
+  supersededBy: integer("superseded_by"),
   createdBy: integer("created_by").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
   fileUrl: text("file_url"),
   tags: json("tags").$type<string[]>().default([]),
+  // Reviewers picked by the author; when empty (and auto-assign is on) the workflow decides
+  reviewerIds: json("reviewer_ids").$type<number[]>().notNull().default([]),
+  autoAssignReviewers: boolean("auto_assign_reviewers").notNull().default(true),
+  // Departments that can see the document once published; empty means the whole organization.
+  // Until then only its author, its reviewers and managers of its department can.
+  visibleDepartments: json("visible_departments").$type<string[]>().notNull().default([]),
+  // Values of the fields its category requires, by field key
+  metadata: json("metadata").$type<Record<string, string>>().notNull().default({}),
+  // Months between periodic reviews once approved, defaulted from the category; null means none
+  reviewPeriodMonths: integer("review_period_months"),
+  // Periodic review state, managed by the server: last approval or confirmed review, when the
+  // next one is due, and the review task opened for the owner ahead of it
+  lastReviewedAt: timestamp("last_reviewed_at"),
+  nextReviewAt: timestamp("next_review_at"),
+  reviewTaskId: integer("review_task_id"),
+  // Approval routing state, managed by the submit/approval handlers
+  approvalWorkflowId: integer("approval_workflow_id"),
+  approvalStage: integer("approval_stage"),
+  approvalRound: integer("approval_round").notNull().default(0),
+  // Stages of the current round, copied when it starts so later workflow edits don't reroute it
+  approvalStages: json("approval_stages").$type<ApprovalStage[]>(),
 });
 
-export const insertDocumentSchema = createInsertSchema(documents).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertDocumentSchema = createInsertSchema(documents).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  approvalWorkflowId: true,
+  approvalStage: true,
+  approvalRound: true,
+  approvalStages: true,
+  publishedVersion: true,
+  code: true,
+  status: true,
+  statusChangedAt: true,
+  statusChangedBy: true,
+  statusReason: true,
+  supersededBy: true,
+  lastReviewedAt: true,
+  nextReviewAt: true,
+  reviewTaskId: true,
+}).extend({
+  reviewerIds: z.array(z.number().int().positive()).optional(),
+  reviewPeriodMonths: z.number().int().min(1).max(120).nullable().optional(),
+  visibleDepartments: z.array(z.string().min(1)).optional(),
+  metadata: z.record(z.string()).optional(),
+});
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 export type Document = typeof documents.$inferSelect;
 
+// Last number handed out for each department and category prefix. Rows only ever count up,
+// so a code stays unique even after its document is deleted.
+export const documentCodeSequences = pgTable("document_code_sequences", {
+  id: serial("id").primaryKey(),
+  department: text("department").notNull(),
+  prefix: text("prefix").notNull(),
+  lastNumber: integer("last_number").notNull().default(0),
+}, (table) => {
+  return {
+    departmentPrefixIdx: uniqueIndex("document_code_sequences_department_prefix_idx").on(table.department, table.prefix),
+  };
+});
+export type DocumentCodeSequence = typeof documentCodeSequences.$inferSelect;
+
+// "PRD-PRO-0042"; numbers past 9999 simply grow a digit
+export function formatDocumentCode(department: string, prefix: string, number: number): string {
+  return `${department}-${prefix}-${String(number).padStart(4, "0")}`;
+}
+
+// Published documents past their periodic review date. Dates arrive as strings in the client.
+export function isReviewOverdue(
+  document: Pick<Document, "publishedVersion" | "nextReviewAt">,
+  now = new Date()
+): boolean {
+  return !!document.publishedVersion && !!document.nextReviewAt && new Date(document.nextReviewAt) < now;
+}
+
 // Approval model
 export const approvals = pgTable("approvals", {
   id: serial("id").primaryKey(),
@@ -46,6 +465,8 @@ export const approvals = pgTable("approvals", {
   userId: integer("user_id").notNull(),
   status: text("status", { enum: ["pending", "approved", "rejected"] }).notNull().default("pending"),
   comments: text("comments"),
+  stage: integer("stage").notNull().default(1),
+  round: integer("round").notNull().default(1),
   approvedAt: timestamp("approved_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -54,6 +475,128 @@ export const insertApprovalSchema = createInsertSchema(approvals).omit({ id: tru
 export type InsertApproval = z.infer<typeof insertApprovalSchema>;
 export type Approval = typeof approvals.$inferSelect;
 
+// Approval workflow model: ordered stages applied per category/department
+export const approverRoles = ["admin", "manager", "coordinator"] as const;
+
+export const approvalStageSchema = z.object({
+  name: z.string().min(1),
+  roles: z.array(z.enum(approverRoles)).min(1),
+  // "document" restricts approvers to the document's department; null means any department
+  department: z.string().nullable().default(null),
+  // Explicit approvers; when set, roles/department are not used to resolve the stage
+  userIds: z.array(z.number().int()).optional(),
+});
+export type ApprovalStage = z.infer<typeof approvalStageSchema>;
+
+export const approvalWorkflows = pgTable("approval_workflows", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  category: text("category"),
+  department: text("department").references(() => departments.code),
+  stages: json("stages").$type<ApprovalStage[]>().notNull(),
+  active: boolean("active").notNull().default(true),
+  createdBy: integer("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertApprovalWorkflowSchema = createInsertSchema(approvalWorkflows)
+  .omit({ id: true, createdAt: true, updatedAt: true })
+  .extend({ stages: z.array(approvalStageSchema).min(1) });
+export type InsertApprovalWorkflow = z.infer<typeof insertApprovalWorkflowSchema>;
+export type ApprovalWorkflow = typeof approvalWorkflows.$inferSelect;
+
+// Metadata a category asks of its documents, stored in documents.metadata under `key`
+export const CATEGORY_FIELD_TYPES = ["text", "number", "date"] as const;
+
+export const categoryFieldSchema = z.object({
+  key: z.string().regex(/^[a-z][a-z0-9_]*$/, {
+    message: "La clave debe empezar por una letra y usar solo minúsculas, números y guiones bajos",
+  }),
+  label: z.string().trim().min(1).max(100),
+  type: z.enum(CATEGORY_FIELD_TYPES).default("text"),
+});
+export type CategoryField = z.infer<typeof categoryFieldSchema>;
+
+// Document categories (document types). Documents refer to a category by its code, which is
+// fixed once the category exists; the prefix goes into the document codes.
+export const documentCategories = pgTable("document_categories", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(),
+  name: text("name").notNull(),
+  prefix: text("prefix").notNull().unique(),
+  requiredFields: json("required_fields").$type<CategoryField[]>().notNull().default([]),
+  // Approval route for documents no workflow of this category applies to
+  approvalWorkflowId: integer("approval_workflow_id").references(() => approvalWorkflows.id, { onDelete: "set null" }),
+  // Months between periodic reviews of published documents; null means no periodic review
+  reviewPeriodMonths: integer("review_period_months"),
+  // Pre-fills the editor when a document of this category is created
+  template: text("template").notNull().default(""),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertDocumentCategorySchema = createInsertSchema(documentCategories)
+  .omit({ id: true, createdAt: true, updatedAt: true })
+  .extend({
+    code: z.string().trim().toLowerCase().regex(/^[a-z][a-z0-9_-]{1,29}$/, {
+      message: "El código debe tener entre 2 y 30 letras minúsculas, números, guiones o guiones bajos",
+    }),
+    name: z.string().trim().min(1).max(100),
+    prefix: z.string().trim().toUpperCase().regex(/^[A-Z0-9]{2,5}$/, {
+      message: "El prefijo debe tener entre 2 y 5 letras o números",
+    }),
+    requiredFields: z.array(categoryFieldSchema).max(20).optional()
+      .refine((fields) => !fields || new Set(fields.map((field) => field.key)).size === fields.length, {
+        message: "Las claves de los campos no se pueden repetir",
+      }),
+    reviewPeriodMonths: z.number().int().min(1).max(120).nullable().optional(),
+  });
+export type InsertDocumentCategory = z.infer<typeof insertDocumentCategorySchema>;
+export type DocumentCategory = typeof documentCategories.$inferSelect;
+
+export const updateDocumentCategorySchema = insertDocumentCategorySchema.omit({ code: true }).partial();
+
+// Categories a new installation starts with
+export const DEFAULT_DOCUMENT_CATEGORIES: Pick<InsertDocumentCategory, "code" | "name" | "prefix" | "reviewPeriodMonths" | "template">[] = [
+  {
+    code: "process",
+    name: "Proceso Operativo",
+    prefix: "PRC",
+    reviewPeriodMonths: 24,
+    template: "1. Objetivo\n\n2. Alcance\n\n3. Entradas y salidas\n\n4. Actividades\n\n5. Indicadores\n",
+  },
+  {
+    code: "policy",
+    name: "Política",
+    prefix: "POL",
+    reviewPeriodMonths: 12,
+    template: "1. Propósito\n\n2. Alcance\n\n3. Declaración de la política\n\n4. Responsabilidades\n\n5. Incumplimiento\n",
+  },
+  {
+    code: "instruction",
+    name: "Instructivo",
+    prefix: "INS",
+    reviewPeriodMonths: 24,
+    template: "1. Objetivo\n\n2. Materiales y equipos\n\n3. Pasos\n\n4. Precauciones\n",
+  },
+  {
+    code: "procedure",
+    name: "Procedimiento",
+    prefix: "PRO",
+    reviewPeriodMonths: 24,
+    template: "1. Objetivo\n\n2. Alcance\n\n3. Definiciones\n\n4. Responsabilidades\n\n5. Desarrollo\n\n6. Registros\n",
+  },
+  {
+    code: "manual",
+    name: "Manual",
+    prefix: "MAN",
+    reviewPeriodMonths: 36,
+    template: "",
+  },
+];
+
 // Task model
 export const tasks = pgTable("tasks", {
   id: serial("id").primaryKey(),
@@ -73,22 +616,117 @@ export const insertTaskSchema = createInsertSchema(tasks).omit({ id: true, compl
 export type InsertTask = z.infer<typeof insertTaskSchema>;
 export type Task = typeof tasks.$inferSelect;
 
-// Policy acceptance tracking
+// Policy acceptance tracking. Each acceptance is of one published version; publishing a new
+// major version invalidates the earlier ones and the users have to accept the policy again.
 export const policyAcceptances = pgTable("policy_acceptances", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
   documentId: integer("document_id").notNull(),
+  version: text("version").notNull(),
   acceptedAt: timestamp("accepted_at").defaultNow().notNull(),
+  invalidatedAt: timestamp("invalidated_at"),
+  // Published version that replaced the accepted one
+  supersededByVersion: text("superseded_by_version"),
+  // Task asking the user to accept the new version
+  reacceptanceTaskId: integer("reacceptance_task_id"),
 }, (table) => {
   return {
-    userDocumentIdx: uniqueIndex("user_document_idx").on(table.userId, table.documentId),
+    userDocumentVersionIdx: uniqueIndex("user_document_version_idx").on(table.userId, table.documentId, table.version),
   };
 });
 
-export const insertPolicyAcceptanceSchema = createInsertSchema(policyAcceptances).omit({ id: true, acceptedAt: true });
+export const insertPolicyAcceptanceSchema = createInsertSchema(policyAcceptances).omit({
+  id: true,
+  acceptedAt: true,
+  invalidatedAt: true,
+  supersededByVersion: true,
+  reacceptanceTaskId: true,
+});
 export type InsertPolicyAcceptance = z.infer<typeof insertPolicyAcceptanceSchema>;
 export type PolicyAcceptance = typeof policyAcceptances.$inferSelect;
 
+export type PolicyAcceptanceStatus = "accepted" | "needs_reacceptance" | "pending";
+
+// "needs_reacceptance" when the user only accepted versions that a later major version replaced
+export function policyAcceptanceStatus(acceptances: PolicyAcceptance[], documentId: number): PolicyAcceptanceStatus {
+  const own = acceptances.filter((acceptance) => acceptance.documentId === documentId);
+  if (own.some((acceptance) => !acceptance.invalidatedAt)) return "accepted";
+  return own.length > 0 ? "needs_reacceptance" : "pending";
+}
+
+// Mandatory reading: a policy assigned to departments, roles and/or individual users, to be
+// accepted by a deadline. Each assignment keeps one row per assignee to track their progress.
+export const policyAssignments = pgTable("policy_assignments", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").notNull(),
+  departments: json("departments").$type<string[]>().notNull().default([]),
+  roles: json("roles").$type<UserRole[]>().notNull().default([]),
+  userIds: json("user_ids").$type<number[]>().notNull().default([]),
+  dueDate: timestamp("due_date").notNull(),
+  assignedBy: integer("assigned_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertPolicyAssignmentSchema = createInsertSchema(policyAssignments)
+  .omit({ id: true, createdAt: true })
+  .extend({
+    departments: z.array(z.string().min(1)).default([]),
+    roles: z.array(z.enum(users.role.enumValues)).default([]),
+    userIds: z.array(z.number().int().positive()).default([]),
+    dueDate: z.coerce.date(),
+  })
+  .refine((assignment) => assignment.departments.length + assignment.roles.length + assignment.userIds.length > 0, {
+    message: "Indique al menos un departamento, rol o usuario",
+    path: ["departments"],
+  });
+export type InsertPolicyAssignment = z.infer<typeof insertPolicyAssignmentSchema>;
+export type PolicyAssignment = typeof policyAssignments.$inferSelect;
+
+export const policyAssignees = pgTable("policy_assignees", {
+  id: serial("id").primaryKey(),
+  assignmentId: integer("assignment_id").notNull().references(() => policyAssignments.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull(),
+  // First time the user opened the policy since it was assigned or its major version changed
+  openedAt: timestamp("opened_at"),
+  // Reading task on the user's task list, reopened by reminders if it was closed
+  taskId: integer("task_id"),
+  lastReminderAt: timestamp("last_reminder_at"),
+  reminderCount: integer("reminder_count").notNull().default(0),
+}, (table) => {
+  return {
+    assignmentUserIdx: uniqueIndex("assignment_user_idx").on(table.assignmentId, table.userId),
+  };
+});
+
+export type InsertPolicyAssignee = Pick<typeof policyAssignees.$inferInsert, "assignmentId" | "userId" | "taskId">;
+export type PolicyAssignee = typeof policyAssignees.$inferSelect;
+
+export const POLICY_ASSIGNEE_STATUSES = ["not_opened", "opened", "accepted"] as const;
+export type PolicyAssigneeStatus = typeof POLICY_ASSIGNEE_STATUSES[number];
+
+// An assignee with their progress, as the assignment endpoints return them
+export type PolicyAssigneeProgress = PolicyAssignee & {
+  status: PolicyAssigneeStatus;
+  overdue: boolean;
+  user?: Pick<User, "id" | "name" | "username" | "role" | "department">;
+};
+
+export type PolicyAssignmentWithProgress = PolicyAssignment & {
+  assignees: PolicyAssigneeProgress[];
+};
+
+// One of the current user's mandatory readings
+export type UserPolicyAssignment = PolicyAssigneeProgress & Pick<PolicyAssignment, "documentId" | "dueDate">;
+
+// Adoption of one policy: how many of the users it is assigned to have accepted it
+export interface PolicyAdoption {
+  documentId: number;
+  assigned: number;
+  opened: number;
+  accepted: number;
+  overdue: number;
+}
+
 // Activity model for logging actions
 export const activities = pgTable("activities", {
   id: serial("id").primaryKey(),
@@ -109,7 +747,14 @@ export const documentVersions = pgTable("document_versions", {
   id: serial("id").primaryKey(),
   documentId: integer("document_id").notNull(),
   version: text("version").notNull(),
+  title: text("title").notNull().default(""),
+  description: text("description"),
+  tags: json("tags").$type<string[]>().default([]),
   content: text("content").notNull(),
+  // Attachments the document had when this version was recorded
+  attachmentIds: json("attachment_ids").$type<number[]>().notNull().default([]),
+  // Published versions are the approved snapshots; the rest are working drafts
+  isPublished: boolean("is_published").notNull().default(false),
   createdBy: integer("created_by").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -117,3 +762,325 @@ export const documentVersions = pgTable("document_versions", {
 export const insertDocumentVersionSchema = createInsertSchema(documentVersions).omit({ id: true, createdAt: true });
 export type InsertDocumentVersion = z.infer<typeof insertDocumentVersionSchema>;
 export type DocumentVersion = typeof documentVersions.$inferSelect;
+
+// Files attached to documents. Rows are soft-deleted so older versions keep their files.
+export const documentAttachments = pgTable("document_attachments", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").notNull(),
+  fileName: text("file_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(),
+  // SHA-256 of the file contents, hex encoded
+  checksum: text("checksum").notNull(),
+  // Location of the file inside the configured storage backend
+  storageKey: text("storage_key").notNull(),
+  // Plain text extracted on upload (PDF, DOCX, XLSX) for full-text search
+  extractedText: text("extracted_text"),
+  uploadedBy: integer("uploaded_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at"),
+});
+
+export const insertDocumentAttachmentSchema = createInsertSchema(documentAttachments).omit({ id: true, createdAt: true, deletedAt: true });
+export type InsertDocumentAttachment = z.infer<typeof insertDocumentAttachmentSchema>;
+export type DocumentAttachment = typeof documentAttachments.$inferSelect;
+
+// System-wide settings edited by administrators on the Settings page. Stored one row per
+// key; keys that were never saved fall back to DEFAULT_SYSTEM_SETTINGS.
+export const systemSettingsSchema = z.object({
+  // Coordinators, managers and administrators must enroll in two-factor authentication
+  requireTwoFactorForApprovers: z.boolean(),
+  // Failed logins for one username before the account is locked
+  maxFailedLogins: z.number().int().min(1).max(100),
+  // Failed logins from one address before it is blocked, whatever usernames it tries
+  maxFailedLoginsPerIp: z.number().int().min(1).max(1000),
+  // How long accounts and addresses stay locked; failures older than this are forgotten
+  lockoutMinutes: z.number().int().min(1).max(1440),
+  // Sessions end after this much inactivity, and in any case this long after signing in
+  sessionIdleMinutes: z.number().int().min(5).max(1440),
+  sessionMaxHours: z.number().int().min(1).max(720),
+  // 0 means passwords never expire
+  passwordExpirationDays: z.number().int().min(0).max(3650),
+  // The last N passwords, the current one included, cannot be chosen again; 0 allows any
+  passwordHistoryCount: z.number().int().min(0).max(24),
+  // When documents get their controlled code: as soon as they are created, or when first approved
+  documentCodeAssignment: z.enum(["creation", "approval"]),
+  // How many days before a periodic review is due its task is created for the document's owner
+  reviewReminderDays: z.number().int().min(0).max(365),
+  // Pending assignees of a mandatory policy get a reminder this many days before the deadline,
+  // and again every this many days until they accept it
+  policyReminderDays: z.number().int().min(1).max(90),
+});
+export type SystemSettings = z.infer<typeof systemSettingsSchema>;
+
+export const DEFAULT_SYSTEM_SETTINGS: SystemSettings = {
+  requireTwoFactorForApprovers: false,
+  maxFailedLogins: 5,
+  maxFailedLoginsPerIp: 20,
+  lockoutMinutes: 15,
+  sessionIdleMinutes: 60,
+  sessionMaxHours: 24,
+  passwordExpirationDays: 90,
+  passwordHistoryCount: 5,
+  documentCodeAssignment: "creation",
+  reviewReminderDays: 30,
+  policyReminderDays: 3,
+};
+
+export const updateSystemSettingsSchema = systemSettingsSchema.partial();
+
+export const systemSettings = pgTable("system_settings", {
+  key: text("key").primaryKey(),
+  value: json("value").notNull(),
+  updatedBy: integer("updated_by"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Permission catalogue. Each role is granted a set of these, editable by administrators;
+// the admin role always holds every permission so nobody can lock themselves out.
+export const PERMISSIONS = [
+  "document.create",
+  "document.view_all",
+  "document.view_department",
+  "document.edit_department",
+  "document.edit_any",
+  "document.submit_any",
+  "document.delete",
+  "document.retire",
+  "document.retire_any",
+  "approval.view_all",
+  "approval.decide",
+  "approval.decide_any",
+  "workflow.manage",
+  "task.view_all",
+  "task.assign",
+  "task.update_any",
+  "policy.view_acceptances",
+  "policy.assign",
+  "user.view",
+  "user.manage",
+  "department.manage",
+  "category.manage",
+  "report.view",
+  "activity.view_system",
+  "settings.manage",
+] as const;
+export type Permission = typeof PERMISSIONS[number];
+
+export type UserRole = User["role"];
+export type RolePermissions = Record<UserRole, Permission[]>;
+
+export const DEFAULT_ROLE_PERMISSIONS: RolePermissions = {
+  admin: [...PERMISSIONS],
+  manager: [
+    "document.create",
+    "document.view_department",
+    "document.edit_department",
+    "document.submit_any",
+    "document.delete",
+    "document.retire",
+    "approval.view_all",
+    "approval.decide",
+    "task.view_all",
+    "task.assign",
+    "task.update_any",
+    "policy.view_acceptances",
+    "policy.assign",
+    "user.view",
+    "report.view",
+  ],
+  coordinator: [
+    "document.create",
+    "document.edit_department",
+    "approval.view_all",
+    "approval.decide",
+    "task.view_all",
+    "task.assign",
+    "task.update_any",
+    "policy.view_acceptances",
+    "user.view",
+    "report.view",
+  ],
+  analyst: ["document.create", "report.view"],
+  operator: ["document.create", "report.view"],
+};
+
+// Only roles whose permissions were changed from the defaults have a row
+export const rolePermissions = pgTable("role_permissions", {
+  role: text("role", { enum: users.role.enumValues }).primaryKey(),
+  permissions: json("permissions").$type<Permission[]>().notNull(),
+  updatedBy: integer("updated_by"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const updateRolePermissionsSchema = z.object({
+  permissions: z.array(z.enum(PERMISSIONS)),
+});
+
+// Full-text search. Highlighted fragments are delimited with private-use characters
+// instead of HTML so clients never have to render server-provided markup.
+export const SEARCH_HIGHLIGHT_START = "\uE000";
+export const SEARCH_HIGHLIGHT_END = "\uE001";
+
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  department: z.string().optional(),
+  category: z.string().optional(),
+  status: z.enum(documents.status.enumValues).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+export type SearchQuery = z.infer<typeof searchQuerySchema>;
+
+export interface SearchFacet {
+  value: string;
+  count: number;
+}
+
+export interface SearchResult {
+  document: Pick<Document, "id" | "code" | "title" | "description" | "category" | "department" | "status" | "version" | "updatedAt">;
+  rank: number;
+  titleHighlight: string;
+  snippet: string;
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+  total: number;
+  page: number;
+  pageSize: number;
+  // Counts over every match of the query, ignoring the department/category/status filters
+  facets: {
+    department: SearchFacet[];
+    category: SearchFacet[];
+    status: SearchFacet[];
+  };
+}
+
+// List endpoints: offset pagination, multi-field sort ("-updatedAt,title") and typed filters.
+// Multi-value filters accept comma-separated values or repeated parameters.
+export const MAX_PAGE_SIZE = 200;
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export type SortDirection = "asc" | "desc";
+
+export interface SortField<F extends string = string> {
+  field: F;
+  direction: SortDirection;
+}
+
+function splitList(value: unknown): unknown {
+  if (value === undefined) return undefined;
+  const parts = (Array.isArray(value) ? value : [value])
+    .flatMap((part) => String(part).split(","))
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0);
+  return parts.length > 0 ? parts : undefined;
+}
+
+const enumList = <T extends [string, ...string[]]>(values: T) =>
+  z.preprocess(splitList, z.array(z.enum(values)).optional());
+
+const stringList = z.preprocess(splitList, z.array(z.string()).optional());
+
+const idList = z.preprocess(splitList, z.array(z.coerce.number().int().positive()).optional());
+
+// Parses "field,-other" into sort fields, rejecting fields the entity can't be sorted by
+function sortParam<F extends string>(fields: readonly [F, ...F[]], defaultSort: string) {
+  return z.string().default(defaultSort).transform((value, ctx) => {
+    const sort: SortField<F>[] = [];
+    for (const part of value.split(",").map((p) => p.trim()).filter((p) => p.length > 0)) {
+      const direction: SortDirection = part.startsWith("-") ? "desc" : "asc";
+      const field = part.replace(/^[-+]/, "");
+      if (!(fields as readonly string[]).includes(field)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Cannot sort by "${field}"` });
+        return z.NEVER;
+      }
+      sort.push({ field: field as F, direction });
+    }
+    return sort;
+  });
+}
+
+const paginationFields = {
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(50),
+};
+
+// Date bounds are inclusive
+const dateBound = z.coerce.date().optional();
+
+export const documentListQuerySchema = z.object({
+  ...paginationFields,
+  sort: sortParam(["code", "title", "category", "department", "status", "version", "createdAt", "updatedAt", "nextReviewAt"], "-updatedAt"),
+  status: enumList(documents.status.enumValues),
+  department: stringList,
+  category: stringList,
+  createdBy: idList,
+  createdFrom: dateBound,
+  createdTo: dateBound,
+  updatedFrom: dateBound,
+  updatedTo: dateBound,
+  // Documents whose next periodic review is due by this date (overdue ones included)
+  reviewDueTo: dateBound,
+  // The version in effect of documents with a revision in progress, even for those working on it
+  published: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+});
+export type DocumentListQuery = z.infer<typeof documentListQuerySchema>;
+
+export const taskListQuerySchema = z.object({
+  ...paginationFields,
+  sort: sortParam(["title", "priority", "status", "dueDate", "createdAt"], "-createdAt"),
+  status: enumList(tasks.status.enumValues),
+  priority: enumList(tasks.priority.enumValues),
+  assignedTo: idList,
+  assignedBy: idList,
+  documentId: idList,
+  dueFrom: dateBound,
+  dueTo: dateBound,
+  createdFrom: dateBound,
+  createdTo: dateBound,
+});
+export type TaskListQuery = z.infer<typeof taskListQuerySchema>;
+
+export const approvalListQuerySchema = z.object({
+  ...paginationFields,
+  sort: sortParam(["status", "createdAt", "approvedAt"], "-createdAt"),
+  status: enumList(approvals.status.enumValues),
+  documentId: idList,
+  userId: idList,
+  createdFrom: dateBound,
+  createdTo: dateBound,
+});
+export type ApprovalListQuery = z.infer<typeof approvalListQuerySchema>;
+
+export const userListQuerySchema = z.object({
+  ...paginationFields,
+  sort: sortParam(["name", "username", "role", "department", "createdAt"], "name"),
+  role: enumList(users.role.enumValues),
+  department: stringList,
+  active: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  // Only these users, e.g. to label the ones already picked
+  id: idList,
+  // Matches name, username or email
+  q: z.string().trim().max(100).optional(),
+});
+export type UserListQuery = z.infer<typeof userListQuerySchema>;
+
+export const activityListQuerySchema = z.object({
+  ...paginationFields,
+  sort: sortParam(["action", "entityType", "createdAt"], "-createdAt"),
+  userId: idList,
+  action: stringList,
+  entityType: stringList,
+  entityId: idList,
+  createdFrom: dateBound,
+  createdTo: dateBound,
+});
+export type ActivityListQuery = z.infer<typeof activityListQuerySchema>;